@@ -25,5 +25,20 @@ expect.extend({
         };
     }
 });
+/**
+ * Declares a test which fails if a function takes longer than the given time
+ * to run. The function is run once before it is timed so that compiling it
+ * and filling up caches is not counted.
+ * @param name The name of the test.
+ * @param fn The function to time.
+ * @param time The time in milliseconds the function must finish within.
+ */
+function benchmark(name, fn, time) {
+    test(name, function () {
+        fn();
+        expect(fn).toTakeLessThan(time);
+    });
+}
+exports.benchmark = benchmark;
 function doNothing() { }
 exports.doNothing = doNothing;
@@ -33,4 +33,19 @@ expect.extend({
 	}
 });
 
+/**
+ * Declares a test which fails if a function takes longer than the given time
+ * to run. The function is run once before it is timed so that compiling it
+ * and filling up caches is not counted.
+ * @param name The name of the test.
+ * @param fn The function to time.
+ * @param time The time in milliseconds the function must finish within.
+ */
+export function benchmark(name: string, fn: () => void, time: number) {
+	test(name, function() {
+		fn();
+		expect(fn).toTakeLessThan(time);
+	});
+}
+
 export function doNothing() {}
\ No newline at end of file
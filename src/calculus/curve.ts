@@ -0,0 +1,160 @@
+import { Scalar } from "../scalar";
+import { Vector } from "../vector";
+import { diff } from "./derivative";
+import { simplify } from "../simplify";
+import { compile } from "../compile";
+import { integrate, Integrand, IntegrationOptions, Quadrature } from "./integral";
+import { Interval } from "../core/interval";
+import { BigNum } from "../core/math/bignum";
+import { MathContext } from "../core/math/context";
+import { InvalidDimension } from "../core/errors";
+
+/**
+ * Evaluates the components of a vector which depend on `t` alone.
+ * @ignore
+ */
+function valueAt(components: Scalar[], t: Scalar.Variable, value: number | BigNum) {
+	const point = Scalar.constant(typeof value === "number"? BigNum.real(value): value);
+	return new Vector.Constant(components.map(x => {
+		const res = x instanceof Scalar.Expression? x.at(new Map([[t, point]])): x === t? point: x;
+		if(!(res instanceof Scalar.Constant))
+			throw new TypeError(`The component ${x} of the curve depends on variables other than ${t}.`);
+		return res;
+	}));
+}
+
+/**
+ * A parametric curve \\( \vec{r}(t) \\) with the parameter \\( t \\) running
+ * over an interval.
+ */
+export class Curve {
+	/**
+	 * The components of the position vector \\( \vec{r}(t) \\), the first
+	 * element being the first component.
+	 */
+	readonly components: Scalar[] = [];
+	/**
+	 * The tangent vector \\( d\vec{r}/dt \\), found by differentiating the
+	 * components symbolically.
+	 */
+	readonly tangent: Vector;
+
+	/**
+	 * Creates a parametric curve from the position vector of its points.
+	 * @param r The position vector \\( \vec{r}(t) \\), built for example with
+	 * [[Vector.expression]].
+	 * @param t The parameter of the curve.
+	 * @param interval The interval over which `t` runs.
+	 * @param dimension The number of components of `r`. Defaults to 3.
+	 */
+	constructor(readonly r: Vector.Expression, readonly t: Scalar.Variable, readonly interval: Interval, readonly dimension = 3) {
+		for(let i = 1; i <= dimension; i++)
+			this.components.push(r.X(i));
+		this.tangent = Vector.expression(this.components.map(x => simplify(diff(x, t))));
+	}
+
+	/**
+	 * Evaluates the position vector \\( \vec{r}(t) \\) with rounding according
+	 * to {@link mathenv.mode}.
+	 * @param value The value of the parameter.
+	 * @throws If the curve depends on variables other than `t`.
+	 */
+	public at(value: number | BigNum) {
+		return valueAt(this.components, this.t, value);
+	}
+
+	/**
+	 * Evaluates the tangent vector \\( d\vec{r}/dt \\) with rounding according
+	 * to {@link mathenv.mode}.
+	 * @param value The value of the parameter.
+	 * @throws If the curve depends on variables other than `t`.
+	 */
+	public tangentAt(value: number | BigNum) {
+		const tangent: Scalar[] = [];
+		for(let i = 1; i <= this.dimension; i++)
+			tangent.push(this.tangent.X(i));
+		return valueAt(tangent, this.t, value);
+	}
+}
+
+/**
+ * Evaluates the line integral of a scalar field along a curve with respect to
+ * the arc length, with rounding according to {@link mathenv.mode}.
+ * @param f The scalar field.
+ * @param vars The coordinates `f` is a function of, the `i`th variable
+ * corresponding to the `i`th component of the position vector.
+ * @param curve The curve of integration.
+ * @returns The integral with an error estimate.
+ */
+export function lineIntegral(f: Scalar, vars: Scalar.Variable[], curve: Curve): Quadrature;
+/**
+ * Evaluates the line integral of a scalar field along a curve with respect to
+ * the arc length,
+ * \\[ \int_C f \, ds = \int_a^b f(\vec{r}(t)) \left| \frac{d\vec{r}}{dt} \right| dt \\]
+ * The integral over the parameter is evaluated the same way as by [[integrate]].
+ * @param f The scalar field.
+ * @param vars The coordinates `f` is a function of, the `i`th variable
+ * corresponding to the `i`th component of the position vector.
+ * @param curve The curve of integration.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The integral with an error estimate.
+ * @throws {@link InvalidDimension} If the number of variables is not the
+ * dimension of the curve.
+ */
+export function lineIntegral(f: Scalar, vars: Scalar.Variable[], curve: Curve, options: IntegrationOptions): Quadrature;
+/**
+ * Evaluates the work done by a vector field along a curve, with rounding
+ * according to {@link mathenv.mode}.
+ * @param F The vector field.
+ * @param vars The coordinates `F` is a function of, the `i`th variable
+ * corresponding to the `i`th component of the position vector.
+ * @param curve The curve of integration.
+ * @returns The integral with an error estimate.
+ */
+export function lineIntegral(F: Vector, vars: Scalar.Variable[], curve: Curve): Quadrature;
+/**
+ * Evaluates the work done by a vector field along a curve,
+ * \\[ \int_C \vec{F} \cdot d\vec{r} = \int_a^b \vec{F}(\vec{r}(t)) \cdot \frac{d\vec{r}}{dt} \, dt \\]
+ * which for a closed curve is the circulation of the field. The integral over
+ * the parameter is evaluated the same way as by [[integrate]].
+ * @param F The vector field.
+ * @param vars The coordinates `F` is a function of, the `i`th variable
+ * corresponding to the `i`th component of the position vector.
+ * @param curve The curve of integration.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The integral with an error estimate.
+ * @throws {@link InvalidDimension} If the number of variables is not the
+ * dimension of the curve.
+ */
+export function lineIntegral(F: Vector, vars: Scalar.Variable[], curve: Curve, options: IntegrationOptions): Quadrature;
+export function lineIntegral(field: Scalar | Vector, vars: Scalar.Variable[], curve: Curve, options: IntegrationOptions = {}) {
+	if(vars.length !== curve.dimension)
+		throw new InvalidDimension("lineIntegral", vars.length, curve.dimension);
+	const fields: Scalar[] = field instanceof Vector? vars.map((_, i) => field.X(i + 1)): [field];
+	const tangent = vars.map((_, i) => curve.tangent.X(i + 1));
+	// The quadrature evaluates the integrand with at most two different
+	// context settings, so the components are compiled once for each.
+	const compiled = new Map<number, {position: Integrand[], tangent: Integrand[], field: ((...args: BigNum[]) => BigNum)[]}>();
+	const functions = (context: MathContext) => {
+		let fns = compiled.get(context.precision);
+		if(fns === undefined) {
+			const settings: {backend: "bignum", context: MathContext} = {backend: "bignum", context};
+			fns = {
+				position: curve.components.map(x => compile(x, [curve.t], settings)),
+				tangent: tangent.map(x => compile(x, [curve.t], settings)),
+				field: fields.map(x => compile(x, vars, settings))
+			};
+			compiled.set(context.precision, fns);
+		}
+		return fns;
+	};
+	const f: Integrand = (t: BigNum, context: MathContext) => {
+		const fns = functions(context);
+		const r = fns.position.map(g => g(t));
+		const T = new Vector.Constant(fns.tangent.map(g => g(t)));
+		if(field instanceof Vector)
+			return new Vector.Constant(fns.field.map(g => g(...r))).dot(T, context).value;
+		return fns.field[0](...r).mul(BigNum.sqrt(T.dot(T, context).value, context), context);
+	};
+	return integrate(f, curve.interval, options);
+}
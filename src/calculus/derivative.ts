@@ -0,0 +1,314 @@
+import { Scalar, pi, mathematicalConstant } from "../scalar";
+import { Vector } from "../vector";
+import { Evaluable } from "../core/definitions";
+import { BinaryOperator } from "../core/operators/binary";
+import { UnaryOperator, isUnaryOperator } from "../core/operators/unary";
+import { Constants } from "../core/math/constants";
+import { mathenv, CoordinateSystem } from "../core/env";
+import { scaleFactors } from "../coordinates";
+import { simplify } from "../simplify";
+import * as func from "../core/math/functions";
+
+/**
+ * Checks whether a [[Scalar]] is the constant zero.
+ * @ignore
+ */
+function isZero(x: Scalar) {
+	return x instanceof Scalar.Constant && x.equals(Scalar.ZERO);
+}
+
+/**
+ * Checks whether a [[Scalar]] is the constant one.
+ * @ignore
+ */
+function isOne(x: Scalar) {
+	return x instanceof Scalar.Constant && x.equals(Scalar.ONE);
+}
+
+/**
+ * Adds two scalars dropping additive identities on the way.
+ * @ignore
+ */
+function add(a: Scalar, b: Scalar) {
+	if(isZero(a))
+		return b;
+	if(isZero(b))
+		return a;
+	return a.add(b);
+}
+
+/**
+ * Subtracts `b` from `a` dropping additive identities on the way.
+ * @ignore
+ */
+function sub(a: Scalar, b: Scalar) {
+	if(isZero(b))
+		return a;
+	if(isZero(a))
+		return b.neg;
+	return a.sub(b);
+}
+
+/**
+ * Multiplies two scalars dropping multiplicative identities and zeroes on the way.
+ * @ignore
+ */
+function mul(a: Scalar, b: Scalar) {
+	if(isZero(a) || isZero(b))
+		return Scalar.ZERO;
+	if(isOne(a))
+		return b;
+	if(isOne(b))
+		return a;
+	return a.mul(b);
+}
+
+/**
+ * Divides `a` by `b` dropping multiplicative identities on the way.
+ * @ignore
+ */
+function div(a: Scalar, b: Scalar) {
+	if(isZero(a))
+		return Scalar.ZERO;
+	if(isOne(b))
+		return a;
+	return a.div(b);
+}
+
+/**
+ * Raises `a` to the power `b` dropping trivial exponents on the way.
+ * @ignore
+ */
+function pow(a: Scalar, b: Scalar) {
+	if(isZero(b))
+		return Scalar.ONE;
+	if(isOne(b))
+		return a;
+	return a.pow(b);
+}
+
+/**
+ * Casts an operand of a scalar expression to a [[Scalar]].
+ * @ignore
+ */
+function operand(e: Evaluable) {
+	if(!(e instanceof Scalar))
+		throw new TypeError("Differentiation is only defined for operands of type scalar.");
+	return e;
+}
+
+/**
+ * Evaluates the derivative of a unary operation \\( f(u) \\) by the chain rule,
+ * \\( f'(u) \frac{du}{dx} \\).
+ * @param op The unary operator \\( f \\).
+ * @param u The argument of the operator.
+ * @param du The derivative of the argument.
+ * @param rest The constant parameters of the operator.
+ * @ignore
+ */
+function chain(op: UnaryOperator, u: Scalar, du: Scalar, rest: any[]): Scalar {
+	const ONE = Scalar.ONE;
+	const TWO = Scalar.constant(2);
+	switch(op) {
+	case UnaryOperator.NEG:
+		return du.neg;
+	case UnaryOperator.SIN:
+		return mul(func.cos(u), du);
+	case UnaryOperator.COS:
+		return mul(func.sin(u), du).neg;
+	case UnaryOperator.TAN:
+		return div(du, pow(func.cos(u), TWO));
+	case UnaryOperator.ASIN:
+		return div(du, func.sqrt(sub(ONE, pow(u, TWO))));
+	case UnaryOperator.ACOS:
+		return div(du, func.sqrt(sub(ONE, pow(u, TWO)))).neg;
+	case UnaryOperator.ATAN:
+		return div(du, add(ONE, pow(u, TWO)));
+	case UnaryOperator.SINH:
+		return mul(func.cosh(u), du);
+	case UnaryOperator.COSH:
+		return mul(func.sinh(u), du);
+	case UnaryOperator.TANH:
+		return div(du, pow(func.cosh(u), TWO));
+	case UnaryOperator.ASINH:
+		return div(du, func.sqrt(add(pow(u, TWO), ONE)));
+	case UnaryOperator.ACOSH:
+		return div(du, func.sqrt(sub(pow(u, TWO), ONE)));
+	case UnaryOperator.ATANH:
+		return div(du, sub(ONE, pow(u, TWO)));
+	case UnaryOperator.LOG:
+		return div(du, mul(u, mathematicalConstant(context => Constants.ln10(context))));
+	case UnaryOperator.LN:
+		return div(du, u);
+	case UnaryOperator.EXP:
+		return mul(func.exp(u), du);
+	case UnaryOperator.SQRT:
+		return div(du, mul(TWO, func.sqrt(u)));
+	case UnaryOperator.ABS:
+		return div(mul(u, du), func.abs(u));
+	case UnaryOperator.FLOOR:
+	case UnaryOperator.CEIL:
+		return Scalar.ZERO;
+	case UnaryOperator.ERF:
+		return mul(mul(div(TWO, func.sqrt(pi)), func.exp(pow(u, TWO).neg)), du);
+	case UnaryOperator.ERFC:
+		return mul(mul(div(TWO, func.sqrt(pi)), func.exp(pow(u, TWO).neg)), du).neg;
+	case UnaryOperator.ERFINV:
+		return mul(mul(div(func.sqrt(pi), TWO), func.exp(pow(func.erfinv(u), TWO))), du);
+	case UnaryOperator.LOWERGAMMA:
+		return mul(mul(pow(u, sub(rest[0], ONE)), func.exp(u.neg)), du);
+	case UnaryOperator.UPPERGAMMA:
+		return mul(mul(pow(u, sub(rest[0], ONE)), func.exp(u.neg)), du).neg;
+	case UnaryOperator.BESSELJ:
+		return mul(div(sub(func.besselJ(u, sub(rest[0], ONE)), func.besselJ(u, add(rest[0], ONE))), TWO), du);
+	case UnaryOperator.BESSELY:
+		return mul(div(sub(func.besselY(u, sub(rest[0], ONE)), func.besselY(u, add(rest[0], ONE))), TWO), du);
+	case UnaryOperator.BESSELI:
+		return mul(div(add(func.besselI(u, sub(rest[0], ONE)), func.besselI(u, add(rest[0], ONE))), TWO), du);
+	case UnaryOperator.BESSELK:
+		return mul(div(add(func.besselK(u, sub(rest[0], ONE)), func.besselK(u, add(rest[0], ONE))), TWO), du).neg;
+	case UnaryOperator.SPHERICALJ:
+		return mul(sub(func.sphericalJ(u, sub(rest[0], ONE)), mul(div(add(rest[0], ONE), u), func.sphericalJ(u, rest[0]))), du);
+	case UnaryOperator.SPHERICALY:
+		return mul(sub(func.sphericalY(u, sub(rest[0], ONE)), mul(div(add(rest[0], ONE), u), func.sphericalY(u, rest[0]))), du);
+	}
+	throw new TypeError("Differentiation not defined for operator " + op + ".");
+}
+
+/**
+ * Differentiates a scalar constant. The result is always zero.
+ * @param expr A scalar constant.
+ * @param v The variable with respect to which the derivative is evaluated.
+ * @return The constant zero.
+ */
+export function diff(expr: Scalar.Constant, v: Scalar.Variable): Scalar.Constant;
+/**
+ * Evaluates the derivative of a scalar quantity with respect to the given
+ * variable symbolically. The derivative is built from the expression tree using
+ * the sum, product, quotient and chain rules. Trivial terms like additions of
+ * zeroes and multiplications by one are dropped while the derivative is built,
+ * constant sub expressions are folded into a single [[Scalar.Constant]].
+ *
+ * The functions \\( \lfloor x \rfloor \\) and \\( \lceil x \rceil \\) are
+ * treated to have zero derivative everywhere (except at the jumps where they
+ * are not differentiable).
+ * @param expr A scalar variable or expression.
+ * @param v The variable with respect to which the derivative is evaluated.
+ * @return The derivative. A [[Scalar.Constant]] if the derivative does not depend
+ * on any variable.
+ * @throws If `expr` contains vector operations.
+ */
+export function diff(expr: Scalar, v: Scalar.Variable): Scalar;
+export function diff(expr: Scalar, v: Scalar.Variable): Scalar {
+	if(expr instanceof Scalar.Constant)
+		return Scalar.ZERO;
+	if(expr instanceof Scalar.Variable)
+		return expr === v? Scalar.ONE: Scalar.ZERO;
+	const e = <Scalar.Expression>expr;
+	if(!e.isFunctionOf(v))
+		return Scalar.ZERO;
+	if(isUnaryOperator(e.op)) {
+		const u = operand(e.arg);
+		return chain(e.op, u, diff(u, v), e.rest);
+	}
+	const a = operand(e.lhs);
+	const b = operand(e.rhs);
+	const da = diff(a, v);
+	const db = diff(b, v);
+	switch(e.op) {
+	case BinaryOperator.ADD:
+		return add(da, db);
+	case BinaryOperator.SUB:
+		return sub(da, db);
+	case BinaryOperator.MUL:
+		return add(mul(da, b), mul(a, db));
+	case BinaryOperator.DIV:
+		if(isZero(db))
+			return div(da, b);
+		return div(sub(mul(da, b), mul(a, db)), pow(b, Scalar.constant(2)));
+	case BinaryOperator.POW:
+		// d(a^n) = n a^(n - 1) da
+		if(isZero(db))
+			return mul(mul(b, pow(a, sub(b, Scalar.ONE))), da);
+		// d(c^b) = c^b ln(c) db
+		if(isZero(da))
+			return mul(mul(e, func.ln(a)), db);
+		// d(a^b) = a^b (db ln(a) + b da / a)
+		return mul(e, add(mul(db, func.ln(a)), div(mul(b, da), a)));
+	}
+	throw new TypeError("Differentiation not defined for operator " + e.op + ".");
+}
+
+/**
+ * Evaluates the partial derivative of a scalar constant. The result is always zero.
+ * @param expr A scalar constant.
+ * @param v The variable with respect to which the derivative is evaluated.
+ * @return The constant zero.
+ */
+export function partial(expr: Scalar.Constant, v: Scalar.Variable): Scalar.Constant;
+/**
+ * Evaluates the partial derivative of a scalar quantity with respect to the
+ * given variable symbolically. All the other variables in [[Scalar.Expression.arg_list]]
+ * are held constant, therefore any sub expression which is not a function of
+ * `v` is differentiated to zero.
+ * @param expr A scalar variable or expression.
+ * @param v The variable with respect to which the derivative is evaluated.
+ * @return The partial derivative.
+ * @see [[diff]]
+ */
+export function partial(expr: Scalar, v: Scalar.Variable): Scalar;
+export function partial(expr: Scalar, v: Scalar.Variable) {
+	return diff(expr, v);
+}
+
+/**
+ * Evaluates the gradient of a scalar constant. The result is always the zero vector.
+ * @param expr A scalar constant.
+ * @param vars The variables with respect to which the gradient is evaluated.
+ * @return The zero vector.
+ */
+export function grad(expr: Scalar.Constant, vars: Scalar.Variable[]): Vector.Constant;
+/**
+ * Evaluates the gradient of a scalar variable in cartesian coordinates. The
+ * result is the unit vector along the direction corresponding to `expr` (if
+ * `expr` is one of `vars`), otherwise the zero vector.
+ * @param expr A scalar variable.
+ * @param vars The variables with respect to which the gradient is evaluated.
+ * @return The gradient as a constant vector.
+ */
+export function grad(expr: Scalar.Variable, vars: Scalar.Variable[]): Vector.Constant;
+/**
+ * Evaluates the gradient of a scalar expression symbolically in
+ * {@link mathenv.coordinate_system}. In cartesian coordinates the `i`th
+ * component of the gradient, as returned by its `X` accessor, is the partial
+ * derivative of `expr` with respect to the `i`th variable in `vars`.
+ * @param expr A scalar expression.
+ * @param vars The variables with respect to which the gradient is evaluated.
+ * @return The gradient. A [[Vector.Constant]] if none of the partial derivatives
+ * depend on any variable, otherwise a [[Vector.Expression]].
+ * @see [[Vector.expression]]
+ */
+export function grad(expr: Scalar.Expression, vars: Scalar.Variable[]): Vector;
+/**
+ * Evaluates the gradient of a scalar quantity symbolically in an orthogonal
+ * coordinate system with the scale factors \\( h_i \\),
+ * \\[ \nabla f = \sum_i \frac{1}{h_i} \frac{\partial f}{\partial q_i} \hat{e}_i \\]
+ * The components are along the unit vectors \\( \hat{e}_i \\) of the system
+ * at the point.
+ * @param expr A scalar quantity.
+ * @param vars The coordinates \\( q_i \\).
+ * @param system The coordinate system of `vars`.
+ * @return The gradient.
+ * @throws {@link InvalidDimension} If the number of variables is not the
+ * dimension of the system.
+ * @see [[scaleFactors]]
+ */
+export function grad(expr: Scalar, vars: Scalar.Variable[], system: CoordinateSystem): Vector;
+export function grad(expr: Scalar, vars: Scalar.Variable[], system=mathenv.coordinate_system) {
+	const h = scaleFactors(vars, system);
+	return Vector.expression(vars.map((v, i) => {
+		const component = div(partial(expr, v), h[i]);
+		// The scale factors leave the components cluttered.
+		return system === "cartesian"? component: simplify(component);
+	}));
+}
@@ -0,0 +1,736 @@
+import { Scalar } from "../scalar";
+import { compile } from "../compile";
+import { scaleFactors } from "../coordinates";
+import { Interval } from "../core/interval";
+import { BigNum } from "../core/math/bignum";
+import { Component } from "../core/math/component";
+import { Constants } from "../core/math/constants";
+import { MathContext, RoundingMode } from "../core/math/context";
+import { mathenv, withContext, CoordinateSystem } from "../core/env";
+import { DivisionByZero, UndefinedValue, IndeterminateForm, NoConvergence } from "../core/errors";
+
+/**
+ * A function of one real variable which can be integrated, like one returned
+ * by [[compile]] with the `"bignum"` backend. It is called with the context
+ * settings the quadrature works with as the second argument, which it should
+ * use to stay accurate close to the endpoints.
+ */
+export type Integrand = (x: BigNum, ...args: any[]) => BigNum;
+
+/**
+ * The quadrature rules which [[integrate]] can use.
+ * - `"gauss-legendre"`: Gauss-Legendre rules with doubling number of points.
+ * Best suited for smooth integrands.
+ * - `"romberg"`: Richardson extrapolation of the trapezoidal rule (or the
+ * midpoint rule if an endpoint is open).
+ * - `"tanh-sinh"`: The double exponential substitution of Takahasi and Mori.
+ * Handles integrable singularities at the endpoints.
+ */
+export type IntegrationMethod = "gauss-legendre" | "romberg" | "tanh-sinh";
+
+/**
+ * The settings for [[integrate]].
+ */
+export type IntegrationOptions = {
+	/**
+	 * The quadrature rule to use. Defaults to `"gauss-legendre"` for closed
+	 * intervals and to `"tanh-sinh"` if any of the endpoints is open.
+	 */
+	method?: IntegrationMethod,
+	/**
+	 * The context settings for the result. The integral is evaluated to
+	 * `context.precision` decimal places. Defaults to {@link mathenv.mode}.
+	 */
+	context?: MathContext
+}
+
+/**
+ * The result of a numerical integration.
+ */
+export type Quadrature = {
+	/** The value of the integral. */
+	value: BigNum,
+	/**
+	 * An estimate of the absolute error in `value`, the difference between
+	 * the last two approximations. The estimate is rounded up.
+	 */
+	error: BigNum
+}
+
+/**
+ * A limit of a multiple integral. The limits of the inner integrals may
+ * depend on the outer variables of integration, either as functions which
+ * are called with the values of the outer variables followed by the context
+ * settings, or as scalar expressions of the outer variables.
+ */
+export type Limit = number | BigNum | Scalar | ((...args: any[]) => BigNum);
+
+/**
+ * The range of a variable of a multiple integral, either an interval or the
+ * lower and upper limits of integration.
+ */
+export type Range = Interval | [Limit, Limit];
+
+/**
+ * The settings for [[integrate2d]] and [[integrate3d]].
+ */
+export type MultipleIntegrationOptions = IntegrationOptions & {
+	/**
+	 * The coordinate system of the variables of integration, whose Jacobian
+	 * multiplies the integrand. Defaults to {@link mathenv.coordinate_system}.
+	 */
+	coordinates?: CoordinateSystem
+}
+
+/**
+ * The number of decimal places more than requested used for the intermediate
+ * calculations.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * The largest number of points used by the Gauss-Legendre rules.
+ * @ignore
+ */
+const MAX_GAUSS_POINTS = 256;
+
+/**
+ * The largest number of halvings (or, for open intervals, thirdings) of the
+ * step size used by the Romberg method.
+ * @ignore
+ */
+const MAX_ROMBERG_LEVELS = {closed: 12, open: 8};
+
+/**
+ * The smallest number of levels the Romberg method goes through before the
+ * results are checked for convergence.
+ * @ignore
+ */
+const MIN_ROMBERG_LEVELS = 4;
+
+/**
+ * The largest number of halvings of the step size used by the tanh-sinh method.
+ * @ignore
+ */
+const MAX_TANH_SINH_LEVELS = 8;
+
+/**
+ * The nodes and weights of the Gauss-Legendre rules computed so far, keyed by
+ * the number of points and the precision.
+ * @ignore
+ */
+const GAUSS_LEGENDRE_RULES = new Map<string, {nodes: BigNum[], weights: BigNum[]}>();
+
+/**
+ * The nodes and weights of the levels of the tanh-sinh rule computed so far,
+ * keyed by the precision.
+ * @ignore
+ */
+const TANH_SINH_RULES = new Map<number, {distance: BigNum, weight: BigNum}[][]>();
+
+/**
+ * The real number \\( 10^{-p} \\).
+ * @ignore
+ */
+function epsilon(precision: number) {
+	return Component.create("1e-" + precision);
+}
+
+/**
+ * Checks whether the magnitude of a number is less than the tolerance.
+ * @ignore
+ */
+function isSmall(x: BigNum, tolerance: Component, context: MathContext) {
+	return BigNum.abs(x, context).components[0].lessThan(tolerance);
+}
+
+/**
+ * Evaluates the Legendre polynomials \\( P_n(x) \\) and \\( P_{n-1}(x) \\) by
+ * the three term recurrence.
+ * @ignore
+ */
+function legendre(n: number, x: BigNum, context: MathContext) {
+	let p = x, q = BigNum.real(1);
+	for(let k = 2; k <= n; k++) {
+		const r = x.mul(p, context).mul(BigNum.real(2 * k - 1), context).sub(q.mul(BigNum.real(k - 1), context), context).div(BigNum.real(k), context);
+		q = p;
+		p = r;
+	}
+	return [p, q];
+}
+
+/**
+ * Computes the nodes and weights of the `n` point Gauss-Legendre rule on
+ * \\( [-1, 1] \\). The nodes, the roots of \\( P_n \\), are found by Newton's
+ * method starting from their double precision approximations.
+ * @ignore
+ */
+function gaussLegendreRule(n: number, context: MathContext) {
+	const key = n + ":" + context.precision;
+	const cached = GAUSS_LEGENDRE_RULES.get(key);
+	if(cached !== undefined)
+		return cached;
+	const nodes: BigNum[] = [], weights: BigNum[] = [];
+	const one = BigNum.real(1), two = BigNum.real(2);
+	const tolerance = epsilon(context.precision);
+	for(let i = 1; i <= Math.ceil(n / 2); i++) {
+		let x = BigNum.real(Math.cos(Math.PI * (i - 0.25) / (n + 0.5)));
+		let dp = one;
+		for(let iter = 0; iter < 20; iter++) {
+			const [p, q] = legendre(n, x, context);
+			dp = BigNum.real(n).mul(x.mul(p, context).sub(q, context), context).div(x.mul(x, context).sub(one, context), context);
+			const dx = p.div(dp, context);
+			x = x.sub(dx, context);
+			if(isSmall(dx, tolerance, context))
+				break;
+		}
+		const [p, q] = legendre(n, x, context);
+		dp = BigNum.real(n).mul(x.mul(p, context).sub(q, context), context).div(x.mul(x, context).sub(one, context), context);
+		const w = two.div(one.sub(x.mul(x, context), context).mul(dp.mul(dp, context), context), context);
+		nodes.push(x, x.neg);
+		weights.push(w, w);
+	}
+	const rule = {nodes, weights};
+	GAUSS_LEGENDRE_RULES.set(key, rule);
+	return rule;
+}
+
+/**
+ * Integrates by Gauss-Legendre rules of 8, 16, 32, ... points until two
+ * successive rules agree.
+ * @ignore
+ */
+function gaussLegendre(f: Integrand, a: BigNum, b: BigNum, context: MathContext, tolerance: Component) {
+	const half = b.sub(a, context).div(BigNum.real(2), context);
+	const mid = a.add(b, context).div(BigNum.real(2), context);
+	const rule = (n: number) => {
+		const {nodes, weights} = gaussLegendreRule(n, context);
+		let sum = BigNum.real(0);
+		for(let i = 0; i < n; i++)
+			sum = sum.add(weights[i].mul(f(mid.add(half.mul(nodes[i], context), context), context), context), context);
+		return half.mul(sum, context);
+	};
+	let prev = rule(8), error = prev;
+	for(let n = 16; n <= MAX_GAUSS_POINTS; n *= 2) {
+		const value = rule(n);
+		error = value.sub(prev, context);
+		prev = value;
+		if(isSmall(error, tolerance, context))
+			break;
+	}
+	return {value: prev, error};
+}
+
+/**
+ * Integrates by Richardson extrapolation of the trapezoidal rule, halving the
+ * step every time, or of the midpoint rule, dividing the step by three every
+ * time, if any of the endpoints is open. The midpoint rule never evaluates the
+ * integrand at the endpoints.
+ * @ignore
+ */
+function romberg(f: Integrand, a: BigNum, b: BigNum, open: boolean, context: MathContext, tolerance: Component) {
+	const width = b.sub(a, context);
+	const base = open? 9: 4;
+	const levels = open? MAX_ROMBERG_LEVELS.open: MAX_ROMBERG_LEVELS.closed;
+	let estimate = open
+		? width.mul(f(a.add(width.div(BigNum.real(2), context), context), context), context)
+		: width.mul(f(a, context).add(f(b, context), context), context).div(BigNum.real(2), context);
+	let row = [estimate];
+	let error = estimate;
+	for(let k = 1; k <= levels; k++) {
+		// The number of intervals at the previous level and their width.
+		const n = Math.pow(open? 3: 2, k - 1);
+		const h = width.div(BigNum.real(n), context);
+		let sum = BigNum.real(0);
+		for(let i = 0; i < n; i++) {
+			const left = a.add(h.mul(BigNum.real(i), context), context);
+			if(open) {
+				sum = sum.add(f(left.add(h.div(BigNum.real(6), context), context), context), context);
+				sum = sum.add(f(left.add(h.mul(BigNum.real(5), context).div(BigNum.real(6), context), context), context), context);
+			} else sum = sum.add(f(left.add(h.div(BigNum.real(2), context), context), context), context);
+		}
+		estimate = open
+			? estimate.add(h.mul(sum, context), context).div(BigNum.real(3), context)
+			: estimate.add(h.mul(sum, context), context).div(BigNum.real(2), context);
+		const next = [estimate];
+		for(let j = 1; j <= k; j++) {
+			const factor = BigNum.real(Math.pow(base, j) - 1);
+			next.push(next[j - 1].add(next[j - 1].sub(row[j - 1], context).div(factor, context), context));
+		}
+		error = next[k].sub(row[k - 1], context);
+		row = next;
+		if(k >= MIN_ROMBERG_LEVELS && isSmall(error, tolerance, context))
+			break;
+	}
+	return {value: row[row.length - 1], error};
+}
+
+/**
+ * Computes the nodes of the tanh-sinh rule of the given level which are not in
+ * the previous levels, as their distances from the endpoints of
+ * \\( [0, 1] \\) along with their weights. The nodes do not depend on the
+ * integrand, so they are computed once for every precision.
+ * @ignore
+ */
+function tanhSinhRule(level: number, context: MathContext) {
+	let rules = TANH_SINH_RULES.get(context.precision);
+	if(rules === undefined)
+		TANH_SINH_RULES.set(context.precision, rules = []);
+	if(rules[level] !== undefined)
+		return rules[level];
+	const one = BigNum.real(1), two = BigNum.real(2), four = BigNum.real(4);
+	const halfPi = new BigNum(Constants.pi(context)).div(two, context);
+	const limit = epsilon(context.precision);
+	const rule: {distance: BigNum, weight: BigNum}[] = [];
+	const eh = BigNum.exp(BigNum.real(Math.pow(2, -level)), context);
+	// At level 0 every node is new, after that only the ones in between.
+	const step = level === 0? eh: eh.mul(eh, context);
+	for(let et = eh; ; et = et.mul(step, context)) {
+		const inv = one.div(et, context);
+		const cosh = et.add(inv, context).div(two, context);
+		const u = halfPi.mul(et.sub(inv, context), context).div(two, context);
+		const E2 = BigNum.exp(u.mul(two, context), context);
+		const d = one.div(E2.add(one, context), context);
+		if(d.components[0].lessThan(limit))
+			break;
+		rule.push({
+			distance: d,
+			weight: halfPi.mul(cosh, context).mul(four, context).mul(E2, context).mul(d, context).mul(d, context)
+		});
+	}
+	return rules[level] = rule;
+}
+
+/**
+ * Integrates by the tanh-sinh substitution
+ * \\[ x = \tanh \left( \frac{\pi}{2} \sinh t \right) \\]
+ * which maps \\( [-1, 1] \\) to the whole real line with integrands decaying
+ * doubly exponentially, on which the trapezoidal rule is used with the step
+ * halved every time. The distances of the nodes from the endpoints are
+ * computed directly, so the nodes crowd towards the endpoints without ever
+ * reaching them.
+ * @ignore
+ */
+function tanhSinh(f: Integrand, a: BigNum, b: BigNum, work: MathContext, tolerance: Component) {
+	// The nodes are placed as close as 10^(-2p) to the endpoints, so that the
+	// part of the integral left out near a singularity like 1/sqrt(x) is
+	// still below 10^(-p).
+	const context: MathContext = {
+		precision: 2 * work.precision,
+		rounding: work.rounding
+	};
+	const two = BigNum.real(2);
+	const width = b.sub(a, context);
+	const near = epsilon(work.precision);
+	let sum = new BigNum(Constants.pi(context)).div(two, context).mul(f(a.add(b, context).div(two, context), context), context);
+	let prev: BigNum | undefined = undefined, error = sum;
+	for(let level = 0; level <= MAX_TANH_SINH_LEVELS; level++) {
+		for(const {distance, weight} of tanhSinhRule(level, context)) {
+			const delta = width.mul(distance, context);
+			let y: BigNum;
+			try {
+				y = f(a.add(delta, context), context).add(f(b.sub(delta, context), context), context);
+			} catch(e) {
+				// Nodes closer to an endpoint than the integrand can resolve
+				// are dropped if it is undefined there.
+				if(!distance.components[0].lessThan(near) || !(e instanceof DivisionByZero || e instanceof UndefinedValue || e instanceof IndeterminateForm))
+					throw e;
+				break;
+			}
+			sum = sum.add(weight.mul(y, context), context);
+		}
+		const value = sum.mul(BigNum.real(Math.pow(2, -level)), context).mul(width, context).div(two, context);
+		if(prev !== undefined) {
+			error = value.sub(prev, context);
+			if(level >= 2 && isSmall(error, tolerance, context)) {
+				prev = value;
+				break;
+			}
+		}
+		prev = value;
+	}
+	return {value: <BigNum>prev, error};
+}
+
+/**
+ * Picks the default quadrature rule if none has been given.
+ * @ignore
+ */
+function methodFor(open: boolean, method?: IntegrationMethod) {
+	return method || (open? "tanh-sinh": "gauss-legendre");
+}
+
+/**
+ * Integrates with the given quadrature rule over \\( [a, b] \\).
+ * @ignore
+ */
+function quadrature(f: Integrand, a: BigNum, b: BigNum, open: boolean, method: IntegrationMethod, work: MathContext, tolerance: Component) {
+	switch(method) {
+	case "gauss-legendre":
+		return gaussLegendre(f, a, b, work, tolerance);
+	case "romberg":
+		return romberg(f, a, b, open, work, tolerance);
+	case "tanh-sinh":
+		return tanhSinh(f, a, b, work, tolerance);
+	}
+	throw new TypeError(`Unknown integration method ${method}.`);
+}
+
+/**
+ * The context settings the intermediate calculations are done with.
+ * @ignore
+ */
+function workContext(context: MathContext): MathContext {
+	return {
+		precision: context.precision + GUARD_DIGITS,
+		rounding: context.rounding
+	};
+}
+
+/**
+ * The context settings a compiled integrand is evaluated with. The tanh-sinh
+ * nodes get as close as 10^(-2p) to the endpoints.
+ * @ignore
+ */
+function compileContext(work: MathContext, method: IntegrationMethod | undefined): MathContext {
+	return method === "tanh-sinh"? {precision: 2 * work.precision, rounding: work.rounding}: work;
+}
+
+/**
+ * Numerically integrates a function of one real variable over an interval,
+ * with the result rounded according to {@link mathenv.mode}. If any endpoint
+ * of the interval is open the integrand is never evaluated at that endpoint,
+ * so integrable singularities there are allowed.
+ * @param f The integrand.
+ * @param interval The interval of integration.
+ * @returns The integral with an error estimate.
+ */
+export function integrate(f: Integrand, interval: Interval): Quadrature;
+/**
+ * Numerically integrates a function of one real variable over an interval.
+ * The quadrature is refined until two successive approximations agree to
+ * `context.precision` decimal places, or until the method gives up, in which
+ * case the error estimate is larger. The intermediate calculations are done
+ * with extra decimal places, which the integrand should also use.
+ * 
+ * If any endpoint of the interval is open the integrand is never evaluated at
+ * that endpoint. The `"tanh-sinh"` method, the default for such intervals,
+ * integrates integrable singularities at the endpoints, like that of
+ * \\( 1/\sqrt{x} \\) at \\( 0 \\), to full precision.
+ * @param f The integrand. Compiled expressions from [[compile]] can be passed
+ * in directly.
+ * @param interval The interval of integration. The endpoints must be finite.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The integral with an error estimate.
+ * @throws If the interval is not finite or the method is not known.
+ */
+export function integrate(f: Integrand, interval: Interval, options: IntegrationOptions): Quadrature;
+/**
+ * Numerically integrates a scalar expression with respect to a variable over
+ * an interval, with the result rounded according to {@link mathenv.mode}.
+ * @param expr The integrand. It may not depend on variables other than `x`.
+ * @param x The variable of integration.
+ * @param interval The interval of integration.
+ * @returns The integral with an error estimate.
+ */
+export function integrate(expr: Scalar, x: Scalar.Variable, interval: Interval): Quadrature;
+/**
+ * Numerically integrates a scalar expression with respect to a variable over
+ * an interval. The expression is compiled with the `"bignum"` backend and
+ * integrated the same way as a function.
+ * @param expr The integrand. It may not depend on variables other than `x`.
+ * @param x The variable of integration.
+ * @param interval The interval of integration.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The integral with an error estimate.
+ * @throws If the interval is not finite or the method is not known.
+ */
+export function integrate(expr: Scalar, x: Scalar.Variable, interval: Interval, options: IntegrationOptions): Quadrature;
+export function integrate(a: Integrand | Scalar, b: Interval | Scalar.Variable, ...args: any[]): Quadrature {
+	let interval: Interval, options: IntegrationOptions;
+	let f: Integrand;
+	const settings = (o: IntegrationOptions | undefined) => o || {};
+	if(typeof a === "function") {
+		interval = <Interval>b;
+		options = settings(args[0]);
+	} else {
+		interval = args[0];
+		options = settings(args[1]);
+	}
+	const context = options.context || mathenv.mode;
+	const work = workContext(context);
+	if(!isFinite(interval.left.value) || !isFinite(interval.right.value))
+		throw new TypeError("Only finite intervals can be integrated over.");
+	const left = BigNum.real(interval.left.value), right = BigNum.real(interval.right.value);
+	const open = interval.isLeftOpen() || interval.isRightOpen();
+	const method = methodFor(open, options.method);
+	if(typeof a === "function")
+		f = a;
+	else f = compile(a, [<Scalar.Variable>b], {backend: "bignum", context: compileContext(work, method)});
+	const res = quadrature(f, left, right, open, method, work, epsilon(context.precision));
+	return {
+		value: BigNum.round(res.value, context),
+		error: BigNum.round(BigNum.abs(res.error, work), {precision: context.precision, rounding: RoundingMode.UP})
+	};
+}
+
+/**
+ * Compiles a scalar expression into a function of its variables followed by
+ * the context settings to evaluate it with. The constant parts of the
+ * expression are evaluated once, with the given context settings.
+ * @ignore
+ */
+function compileWith(expr: Scalar, vars: Scalar.Variable[], context: MathContext) {
+	const g = withContext(context, () => compile(expr, vars, {backend: "bignum"}));
+	return (...args: any[]) => withContext(args[vars.length], () => g(...args.slice(0, vars.length)));
+}
+
+/**
+ * Compiles the Jacobian determinant of a coordinate system, the product of its
+ * scale factors, or returns nothing for cartesian coordinates.
+ * @ignore
+ */
+function jacobian(system: CoordinateSystem, dimension: number, context: MathContext) {
+	if(system === "cartesian")
+		return undefined;
+	const q: Scalar.Variable[] = [];
+	for(let i = 1; i <= dimension; i++)
+		q.push(new Scalar.Variable("q_" + i));
+	const factors = scaleFactors(q, system).filter(h => !(h instanceof Scalar.Constant && h.equals(Scalar.ONE)));
+	const J = factors.length === 0? Scalar.ONE: factors.reduce((acc, h) => acc.mul(h));
+	return compileWith(J, q, context);
+}
+
+/**
+ * Converts a limit of integration to a function of the outer variables.
+ * @ignore
+ */
+function limitOf(limit: Limit, compiled: (expr: Scalar) => (...args: any[]) => BigNum): (outer: BigNum[], context: MathContext) => BigNum {
+	if(typeof limit === "number") {
+		if(!isFinite(limit))
+			throw new TypeError("Only finite regions can be integrated over.");
+		const value = BigNum.real(limit);
+		return () => value;
+	}
+	if(limit instanceof BigNum)
+		return () => limit;
+	const f = limit instanceof Scalar? compiled(limit): limit;
+	return (outer, context) => f(...outer, context);
+}
+
+/**
+ * Computes a multiple integral as iterated integrals, the first range being
+ * that of the outermost integral. The inner integrals are evaluated to one
+ * more decimal place than the result. Every integral has to converge, the
+ * default rule falling back to the tanh-sinh rule if it does not.
+ * @ignore
+ */
+function iterated(f: (values: BigNum[], context: MathContext) => BigNum, ranges: Range[], compiled: (expr: Scalar, outer: number) => (...args: any[]) => BigNum, options: MultipleIntegrationOptions) {
+	const context = options.context || mathenv.mode;
+	const work = workContext(context);
+	const bounds = ranges.map((range, k) => {
+		if(range instanceof Interval) {
+			if(!isFinite(range.left.value) || !isFinite(range.right.value))
+				throw new TypeError("Only finite regions can be integrated over.");
+			const a = BigNum.real(range.left.value), b = BigNum.real(range.right.value);
+			const open = range.isLeftOpen() || range.isRightOpen();
+			return () => ({a, b, open});
+		}
+		if(k === 0 && range.some(limit => typeof limit !== "number" && !(limit instanceof BigNum)))
+			throw new TypeError("The limits of the outermost integral must be numbers.");
+		const lower = limitOf(range[0], expr => compiled(expr, k)), upper = limitOf(range[1], expr => compiled(expr, k));
+		return (outer: BigNum[], ctx: MathContext) => ({a: lower(outer, ctx), b: upper(outer, ctx), open: false});
+	});
+	const outermost = epsilon(context.precision), inner = epsilon(context.precision + 1);
+	const integral = (outer: BigNum[], k: number, ctx: MathContext): BigNum => {
+		const {a, b, open} = bounds[k](outer, ctx);
+		const g: Integrand = (x, c: MathContext) => k === ranges.length - 1? f(outer.concat(x), c): integral(outer.concat(x), k + 1, c);
+		const tolerance = k === 0? outermost: inner;
+		const method = methodFor(open, options.method);
+		let res = quadrature(g, a, b, open, method, work, tolerance);
+		// The Gauss-Legendre rules converge slowly if the integrand is not
+		// smooth at the endpoints, as under a limit like sqrt(1 - x^2).
+		if(!isSmall(res.error, tolerance, work) && options.method === undefined && method !== "tanh-sinh")
+			res = quadrature(g, a, b, open, "tanh-sinh", work, tolerance);
+		if(!isSmall(res.error, tolerance, work))
+			throw new NoConvergence(options.method || "tanh-sinh", `The error estimate is ${BigNum.abs(res.error, work)}.`);
+		return res.value;
+	};
+	return BigNum.round(integral([], 0, work), context);
+}
+
+/**
+ * Evaluates a multiple integral of a function or a scalar expression.
+ * @ignore
+ */
+function multiple(a: ((...args: any[]) => BigNum) | Scalar, vars: Scalar.Variable[] | undefined, ranges: Range[], settings: MultipleIntegrationOptions | undefined) {
+	const options = settings || {};
+	// The compiled expressions are evaluated with the context settings the
+	// quadrature passes, which are deeper for the tanh-sinh rule. Their
+	// constant parts are evaluated once, as deep as any rule goes.
+	const deep = compileContext(workContext(options.context || mathenv.mode), "tanh-sinh");
+	const compiled = (expr: Scalar, outer: number) => {
+		if(vars === undefined)
+			throw new TypeError("Limits given as expressions need the integrand to be an expression.");
+		return compileWith(expr, vars.slice(0, outer), deep);
+	};
+	const f: (...args: any[]) => BigNum = typeof a === "function"? a: compileWith(a, <Scalar.Variable[]>vars, deep);
+	const J = jacobian(options.coordinates || mathenv.coordinate_system, ranges.length, deep);
+	return iterated(J === undefined
+		? (values, c) => f(...values, c)
+		: (values, c) => f(...values, c).mul(J(...values, c), c), ranges, compiled, options);
+}
+
+/**
+ * Numerically integrates a function of two real variables over a region,
+ * with the result rounded according to {@link mathenv.mode}.
+ * @param f The integrand, called with the values of \\( x \\) and \\( y \\).
+ * @param xRange The range of the outer variable \\( x \\).
+ * @param yRange The range of the inner variable \\( y \\), whose limits may
+ * be functions of \\( x \\).
+ * @returns The integral.
+ */
+export function integrate2d(f: (x: BigNum, y: BigNum, ...args: any[]) => BigNum, xRange: Range, yRange: Range): BigNum;
+/**
+ * Numerically integrates a function of two real variables over a region,
+ * \\[ \int_{a}^{b} \int_{g_1(x)}^{g_2(x)} f(x, y) J \, dy \, dx \\]
+ * as iterated integrals, each evaluated the same way as by [[integrate]] with
+ * the given quadrature rule. The limits of \\( y \\) may be functions of
+ * \\( x \\), like \\( \sqrt{1 - x^2} \\) for the region under a semicircle.
+ * Such limits are not smooth at the endpoints and slow the Gauss-Legendre
+ * rules down, so if no method is given and those do not converge the
+ * tanh-sinh rule is used instead.
+ * 
+ * In polar coordinates the variables are \\( (r, \theta) \\) and the
+ * integrand is multiplied by the Jacobian \\( J = r \\).
+ * @param f The integrand, called with the values of \\( x \\) and \\( y \\)
+ * followed by the context settings used by the quadrature.
+ * @param xRange The range of the outer variable \\( x \\).
+ * @param yRange The range of the inner variable \\( y \\), whose limits may
+ * be functions of \\( x \\).
+ * @param options The quadrature rule, the context settings and the coordinate
+ * system to use.
+ * @returns The integral.
+ * @throws If the region is not finite or the method is not known.
+ * @throws {@link InvalidDimension} If the coordinate system is not two
+ * dimensional.
+ * @throws {@link NoConvergence} If any of the iterated integrals does not
+ * converge to the requested precision.
+ */
+export function integrate2d(f: (x: BigNum, y: BigNum, ...args: any[]) => BigNum, xRange: Range, yRange: Range, options: MultipleIntegrationOptions): BigNum;
+/**
+ * Numerically integrates a scalar expression with respect to two variables
+ * over a region, with the result rounded according to {@link mathenv.mode}.
+ * @param expr The integrand.
+ * @param vars The variables of integration, the outer one first.
+ * @param xRange The range of the outer variable.
+ * @param yRange The range of the inner variable, whose limits may be
+ * expressions of the outer variable.
+ * @returns The integral.
+ */
+export function integrate2d(expr: Scalar, vars: [Scalar.Variable, Scalar.Variable], xRange: Range, yRange: Range): BigNum;
+/**
+ * Numerically integrates a scalar expression with respect to two variables
+ * over a region. The expression and the limits given as expressions are
+ * compiled with the `"bignum"` backend and integrated the same way as a
+ * function.
+ * @param expr The integrand.
+ * @param vars The variables of integration, the outer one first.
+ * @param xRange The range of the outer variable.
+ * @param yRange The range of the inner variable, whose limits may be
+ * expressions of the outer variable.
+ * @param options The quadrature rule, the context settings and the coordinate
+ * system to use.
+ * @returns The integral.
+ * @throws If the region is not finite or the method is not known.
+ * @throws {@link InvalidDimension} If the coordinate system is not two
+ * dimensional.
+ * @throws {@link NoConvergence} If any of the iterated integrals does not
+ * converge to the requested precision.
+ */
+export function integrate2d(expr: Scalar, vars: [Scalar.Variable, Scalar.Variable], xRange: Range, yRange: Range, options: MultipleIntegrationOptions): BigNum;
+export function integrate2d(a: ((x: BigNum, y: BigNum, ...args: any[]) => BigNum) | Scalar, ...args: any[]): BigNum {
+	if(typeof a === "function")
+		return multiple(a, undefined, args.slice(0, 2), args[2]);
+	return multiple(a, args[0], args.slice(1, 3), args[3]);
+}
+
+/**
+ * Numerically integrates a function of three real variables over a region,
+ * with the result rounded according to {@link mathenv.mode}.
+ * @param f The integrand, called with the values of \\( x \\), \\( y \\) and
+ * \\( z \\).
+ * @param xRange The range of the outermost variable \\( x \\).
+ * @param yRange The range of \\( y \\), whose limits may be functions of
+ * \\( x \\).
+ * @param zRange The range of the innermost variable \\( z \\), whose limits
+ * may be functions of \\( x \\) and \\( y \\).
+ * @returns The integral.
+ */
+export function integrate3d(f: (x: BigNum, y: BigNum, z: BigNum, ...args: any[]) => BigNum, xRange: Range, yRange: Range, zRange: Range): BigNum;
+/**
+ * Numerically integrates a function of three real variables over a region,
+ * \\[ \int_{a}^{b} \int_{g_1(x)}^{g_2(x)} \int_{h_1(x, y)}^{h_2(x, y)} f(x, y, z) J \, dz \, dy \, dx \\]
+ * as iterated integrals, each evaluated the same way as by [[integrate]] with
+ * the given quadrature rule.
+ * 
+ * In cylindrical coordinates the variables are \\( (r, \theta, z) \\) and
+ * the Jacobian is \\( J = r \\). In spherical coordinates they are
+ * \\( (r, \theta, \phi) \\), with \\( \theta \\) the angle from the z axis,
+ * and the Jacobian is \\( J = r^2 \sin \theta \\).
+ * @param f The integrand, called with the values of \\( x \\), \\( y \\) and
+ * \\( z \\) followed by the context settings used by the quadrature.
+ * @param xRange The range of the outermost variable \\( x \\).
+ * @param yRange The range of \\( y \\), whose limits may be functions of
+ * \\( x \\).
+ * @param zRange The range of the innermost variable \\( z \\), whose limits
+ * may be functions of \\( x \\) and \\( y \\).
+ * @param options The quadrature rule, the context settings and the coordinate
+ * system to use.
+ * @returns The integral.
+ * @throws If the region is not finite or the method is not known.
+ * @throws {@link InvalidDimension} If the coordinate system is not three
+ * dimensional.
+ * @throws {@link NoConvergence} If any of the iterated integrals does not
+ * converge to the requested precision.
+ */
+export function integrate3d(f: (x: BigNum, y: BigNum, z: BigNum, ...args: any[]) => BigNum, xRange: Range, yRange: Range, zRange: Range, options: MultipleIntegrationOptions): BigNum;
+/**
+ * Numerically integrates a scalar expression with respect to three variables
+ * over a region, with the result rounded according to {@link mathenv.mode}.
+ * @param expr The integrand.
+ * @param vars The variables of integration, the outermost one first.
+ * @param xRange The range of the outermost variable.
+ * @param yRange The range of the middle variable.
+ * @param zRange The range of the innermost variable.
+ * @returns The integral.
+ */
+export function integrate3d(expr: Scalar, vars: [Scalar.Variable, Scalar.Variable, Scalar.Variable], xRange: Range, yRange: Range, zRange: Range): BigNum;
+/**
+ * Numerically integrates a scalar expression with respect to three variables
+ * over a region. The expression and the limits given as expressions are
+ * compiled with the `"bignum"` backend and integrated the same way as a
+ * function.
+ * @param expr The integrand.
+ * @param vars The variables of integration, the outermost one first.
+ * @param xRange The range of the outermost variable.
+ * @param yRange The range of the middle variable, whose limits may be
+ * expressions of the outermost variable.
+ * @param zRange The range of the innermost variable, whose limits may be
+ * expressions of the other two.
+ * @param options The quadrature rule, the context settings and the coordinate
+ * system to use.
+ * @returns The integral.
+ * @throws If the region is not finite or the method is not known.
+ * @throws {@link InvalidDimension} If the coordinate system is not three
+ * dimensional.
+ * @throws {@link NoConvergence} If any of the iterated integrals does not
+ * converge to the requested precision.
+ */
+export function integrate3d(expr: Scalar, vars: [Scalar.Variable, Scalar.Variable, Scalar.Variable], xRange: Range, yRange: Range, zRange: Range, options: MultipleIntegrationOptions): BigNum;
+export function integrate3d(a: ((x: BigNum, y: BigNum, z: BigNum, ...args: any[]) => BigNum) | Scalar, ...args: any[]): BigNum {
+	if(typeof a === "function")
+		return multiple(a, undefined, args.slice(0, 3), args[3]);
+	return multiple(a, args[0], args.slice(1, 4), args[4]);
+}
@@ -0,0 +1,405 @@
+import { Scalar } from "../scalar";
+import { diff } from "./derivative";
+import { simplify } from "../simplify";
+import { compile } from "../compile";
+import { BinaryOperator } from "../core/operators/binary";
+import { UnaryOperator } from "../core/operators/unary";
+import { BigNum } from "../core/math/bignum";
+import { Constants } from "../core/math/constants";
+import { MathContext } from "../core/math/context";
+import { mathenv, withContext } from "../core/env";
+
+/**
+ * A truncated power series of a scalar quantity about some point \\( a \\),
+ * \\[ \sum_{k=0}^{n} c_k (x - a)^k \\]
+ */
+export type Series = {
+	/** The polynomial \\( \sum_{k=0}^{n} c_k (x - a)^k \\). */
+	polynomial: Scalar,
+	/** The coefficients \\( c_k \\), the constant term being the first. */
+	coefficients: BigNum[]
+}
+
+/**
+ * The coefficients \\( w_0, w_1, \ldots, w_n \\) of a truncated power series
+ * \\( \sum_{k=0}^{n} w_k (x - a)^k \\).
+ * @ignore
+ */
+type Coefficients = BigNum[];
+
+/**
+ * The power series of a quantity which does not vary with `x`.
+ * @ignore
+ */
+function constant(value: BigNum, length: number): Coefficients {
+	return [value].concat(new Array(length - 1).fill(BigNum.real(0)));
+}
+
+/**
+ * Multiplies two power series.
+ * @ignore
+ */
+function mul(u: Coefficients, v: Coefficients, context: MathContext) {
+	return u.map((_, k) => {
+		let sum = BigNum.real(0);
+		for(let j = 0; j <= k; j++)
+			sum = sum.add(u[j].mul(v[k - j], context), context);
+		return sum;
+	});
+}
+
+/**
+ * Divides one power series by another, whose constant term is not zero.
+ * @ignore
+ */
+function div(u: Coefficients, v: Coefficients, context: MathContext) {
+	const q: Coefficients = [];
+	u.forEach((a, k) => {
+		let sum = a;
+		for(let j = 1; j <= k; j++)
+			sum = sum.sub(v[j].mul(q[k - j], context), context);
+		q.push(sum.div(v[0], context));
+	});
+	return q;
+}
+
+/**
+ * Differentiates a power series, which leaves one term less.
+ * @ignore
+ */
+function derivative(u: Coefficients, context: MathContext) {
+	return u.slice(1).map((a, k) => a.mul(BigNum.real(k + 1), context));
+}
+
+/**
+ * Integrates a power series, which adds the constant term `value`.
+ * @ignore
+ */
+function integral(value: BigNum, du: Coefficients, context: MathContext) {
+	return [value].concat(du.map((a, k) => a.div(BigNum.real(k + 1), context)));
+}
+
+/**
+ * Evaluates the power series of \\( f(u) \\) from \\( f'(u) \\) by integrating
+ * \\( f'(u) u' \\).
+ * @param value The value \\( f(u_0) \\).
+ * @param u The power series of the argument.
+ * @param df Finds the power series of \\( f'(u) \\) from that of `u`, one term
+ * shorter than `u`.
+ * @ignore
+ */
+function antiderivative(value: BigNum, u: Coefficients, df: (u: Coefficients) => Coefficients, context: MathContext) {
+	const short = u.slice(0, -1);
+	return integral(value, mul(df(short), derivative(u, context), context), context);
+}
+
+/**
+ * Evaluates the power series of \\( e^u \\) from \\( w' = w u' \\), which
+ * gives
+ * \\[ w_k = \frac{1}{k} \sum_{j=1}^{k} j u_j w_{k-j} \\]
+ * @ignore
+ */
+function exp(u: Coefficients, context: MathContext) {
+	const w = [BigNum.exp(u[0], context)];
+	for(let k = 1; k < u.length; k++) {
+		let sum = BigNum.real(0);
+		for(let j = 1; j <= k; j++)
+			sum = sum.add(u[j].mul(w[k - j], context).mul(BigNum.real(j), context), context);
+		w.push(sum.div(BigNum.real(k), context));
+	}
+	return w;
+}
+
+/**
+ * Evaluates the power series of \\( \sin u \\) and \\( \cos u \\), or of
+ * \\( \sinh u \\) and \\( \cosh u \\), together from \\( s' = c u' \\) and
+ * \\( c' = \mp s u' \\).
+ * @param hyperbolic Whether the hyperbolic functions are evaluated.
+ * @ignore
+ */
+function sinCos(u: Coefficients, hyperbolic: boolean, context: MathContext) {
+	const s = [hyperbolic? BigNum.sinh(u[0], context): BigNum.sin(u[0], context)];
+	const c = [hyperbolic? BigNum.cosh(u[0], context): BigNum.cos(u[0], context)];
+	for(let k = 1; k < u.length; k++) {
+		let ds = BigNum.real(0), dc = BigNum.real(0);
+		for(let j = 1; j <= k; j++) {
+			const ju = u[j].mul(BigNum.real(j), context);
+			ds = ds.add(ju.mul(c[k - j], context), context);
+			dc = dc.add(ju.mul(s[k - j], context), context);
+		}
+		const n = BigNum.real(k);
+		s.push(ds.div(n, context));
+		c.push(hyperbolic? dc.div(n, context): dc.div(n, context).neg);
+	}
+	return [s, c];
+}
+
+/**
+ * Evaluates the power series of \\( \ln u \\).
+ * @ignore
+ */
+function ln(u: Coefficients, context: MathContext) {
+	return integral(BigNum.ln(u[0], context), div(derivative(u, context), u.slice(0, -1), context), context);
+}
+
+/**
+ * Evaluates the power series of \\( u^c \\) for a constant exponent. Whole
+ * exponents are found by repeated squaring, the rest from \\( u w' = c w u' \\),
+ * which gives
+ * \\[ w_k = \frac{1}{k u_0} \sum_{j=1}^{k} \left( (c + 1) j - k \right) u_j w_{k-j} \\]
+ * @ignore
+ */
+function power(u: Coefficients, c: BigNum, context: MathContext) {
+	const n = c.dim === 1? Number(c.components[0].toString()): NaN;
+	if(Number.isInteger(n) && n >= 0) {
+		let res = constant(BigNum.real(1), u.length);
+		let base = u;
+		for(let m = n; m > 0; m = Math.floor(m / 2)) {
+			if(m % 2 === 1)
+				res = mul(res, base, context);
+			if(m > 1)
+				base = mul(base, base, context);
+		}
+		return res;
+	}
+	const w = [u[0].pow(c, context)];
+	const next = c.add(BigNum.real(1), context);
+	for(let k = 1; k < u.length; k++) {
+		let sum = BigNum.real(0);
+		for(let j = 1; j <= k; j++) {
+			const factor = next.mul(BigNum.real(j), context).sub(BigNum.real(k), context);
+			sum = sum.add(factor.mul(u[j], context).mul(w[k - j], context), context);
+		}
+		w.push(sum.div(u[0].mul(BigNum.real(k), context), context));
+	}
+	return w;
+}
+
+/**
+ * Evaluates the power series of \\( f(u) \\) for the functions without a
+ * recurrence of their own, by the Taylor series of \\( f \\) about \\( u_0 \\)
+ * \\[ f(u) = \sum_{k=0}^{n} \frac{f^{(k)}(u_0)}{k!} (u - u_0)^k \\]
+ * whose derivatives are found symbolically.
+ * @ignore
+ */
+function taylor(op: UnaryOperator, rest: any[], u: Coefficients, context: MathContext) {
+	const t = Scalar.variable("t");
+	let f: Scalar = new Scalar.Expression(op, t, ...rest);
+	const c: BigNum[] = [];
+	let factorial = BigNum.real(1);
+	for(let k = 0; k < u.length; k++) {
+		if(k > 0) {
+			f = simplify(diff(f, t));
+			factorial = factorial.mul(BigNum.real(k));
+		}
+		c.push(compile(f, [t], {backend: "bignum", context})(u[0]).div(factorial, context));
+	}
+	const shift = [BigNum.real(0)].concat(u.slice(1));
+	return c.reduceRight((w, a) => {
+		const res = mul(w, shift, context);
+		res[0] = res[0].add(a, context);
+		return res;
+	}, constant(BigNum.real(0), u.length));
+}
+
+/**
+ * Evaluates the power series of a unary operation \\( f(u) \\).
+ * @param u The power series of the argument.
+ * @ignore
+ */
+function unary(op: UnaryOperator, rest: any[], u: Coefficients, context: MathContext): Coefficients {
+	const one = BigNum.real(1);
+	const t = Scalar.variable("t");
+	const value = () => compile(new Scalar.Expression(op, t, ...rest), [t], {backend: "bignum", context})(u[0]);
+	// 1 ± u², for the derivatives of the inverse functions.
+	const square = (v: Coefficients, sign: number, add: number) => {
+		const res = mul(v, v, context).map(a => sign < 0? a.neg: a);
+		res[0] = res[0].add(BigNum.real(add), context);
+		return res;
+	};
+	const half = BigNum.real("-0.5");
+	switch(op) {
+	case UnaryOperator.NEG:
+		return u.map(a => a.neg);
+	case UnaryOperator.SIN:
+		return sinCos(u, false, context)[0];
+	case UnaryOperator.COS:
+		return sinCos(u, false, context)[1];
+	case UnaryOperator.TAN: {
+		const [s, c] = sinCos(u, false, context);
+		return div(s, c, context);
+	}
+	case UnaryOperator.SINH:
+		return sinCos(u, true, context)[0];
+	case UnaryOperator.COSH:
+		return sinCos(u, true, context)[1];
+	case UnaryOperator.TANH: {
+		const [s, c] = sinCos(u, true, context);
+		return div(s, c, context);
+	}
+	case UnaryOperator.ASIN:
+		return antiderivative(value(), u, v => power(square(v, -1, 1), half, context), context);
+	case UnaryOperator.ACOS:
+		return antiderivative(value(), u, v => power(square(v, -1, 1), half, context).map(a => a.neg), context);
+	case UnaryOperator.ATAN:
+		return antiderivative(value(), u, v => div(constant(one, v.length), square(v, 1, 1), context), context);
+	case UnaryOperator.ASINH:
+		return antiderivative(value(), u, v => power(square(v, 1, 1), half, context), context);
+	case UnaryOperator.ACOSH:
+		return antiderivative(value(), u, v => power(square(v, 1, -1), half, context), context);
+	case UnaryOperator.ATANH:
+		return antiderivative(value(), u, v => div(constant(one, v.length), square(v, -1, 1), context), context);
+	case UnaryOperator.LN:
+		return ln(u, context);
+	case UnaryOperator.LOG: {
+		const ln10 = new BigNum(Constants.ln10(context));
+		return ln(u, context).map(a => a.div(ln10, context));
+	}
+	case UnaryOperator.EXP:
+		return exp(u, context);
+	case UnaryOperator.SQRT:
+		return power(u, BigNum.real("0.5"), context);
+	case UnaryOperator.ABS:
+		if(u[0].dim === 1 && u[0].components[0].sign !== 0)
+			return u[0].components[0].sign < 0? u.map(a => a.neg): u;
+		break;
+	case UnaryOperator.FLOOR:
+	case UnaryOperator.CEIL:
+		return constant(value(), u.length);
+	case UnaryOperator.ERF:
+	case UnaryOperator.ERFC: {
+		const factor = BigNum.real(op === UnaryOperator.ERF? 2: -2).div(BigNum.sqrt(new BigNum(Constants.pi(context)), context), context);
+		return antiderivative(value(), u, v => exp(square(v, -1, 0), context).map(a => a.mul(factor, context)), context);
+	}
+	}
+	return taylor(op, rest, u, context);
+}
+
+/**
+ * Evaluates the truncated power series of a scalar quantity in `x` about
+ * the point `a`, term by term from the power series of its operands.
+ * @param length The number of terms.
+ * @ignore
+ */
+function expand(expr: Scalar, x: Scalar.Variable, a: BigNum, length: number, context: MathContext): Coefficients {
+	if(expr === x)
+		return [a, BigNum.real(1)].concat(new Array(Math.max(0, length - 2)).fill(BigNum.real(0))).slice(0, length);
+	if(!(expr instanceof Scalar.Expression) || !expr.isFunctionOf(x))
+		return constant(compile(expr, [], {backend: "bignum", context})(), length);
+	if(expr.operands.length === 1)
+		return unary(<UnaryOperator>expr.op, expr.rest, expand(<Scalar>expr.arg, x, a, length, context), context);
+	const [lhs, rhs] = [<Scalar>expr.lhs, <Scalar>expr.rhs];
+	const u = expand(lhs, x, a, length, context);
+	if(expr.op === BinaryOperator.POW && !(rhs === x || (rhs instanceof Scalar.Expression && rhs.isFunctionOf(x))))
+		return power(u, compile(rhs, [], {backend: "bignum", context})(), context);
+	const v = expand(rhs, x, a, length, context);
+	switch(expr.op) {
+	case BinaryOperator.ADD:
+		return u.map((c, k) => c.add(v[k], context));
+	case BinaryOperator.SUB:
+		return u.map((c, k) => c.sub(v[k], context));
+	case BinaryOperator.MUL:
+		return mul(u, v, context);
+	case BinaryOperator.DIV:
+		return div(u, v, context);
+	case BinaryOperator.POW:
+		// u^v = e^(v ln u)
+		return exp(mul(v, ln(u, context), context), context);
+	}
+	throw new TypeError(`Power series are not defined for operator ${expr.op}.`);
+}
+
+/**
+ * Expands a scalar quantity in a Taylor series about a point, with rounding
+ * according to {@link mathenv.mode}.
+ * @param expr The quantity to expand.
+ * @param x The variable of the series.
+ * @param about The point \\( a \\) about which the series is expanded.
+ * @param order The highest power \\( n \\) in the series.
+ * @see [[maclaurin]]
+ */
+export function series(expr: Scalar, x: Scalar.Variable, about: number | BigNum | Scalar.Constant, order: number): Series;
+/**
+ * Expands a scalar quantity in a Taylor series about a point,
+ * \\[ f(x) \approx \sum_{k=0}^{n} \frac{f^{(k)}(a)}{k!} (x - a)^k \\]
+ * with the coefficients rounded according to the given context settings.
+ * 
+ * **Method**:
+ * 
+ * The series is built up from the series of the operands, instead of the
+ * derivatives of the whole expression. Sums, products and quotients of
+ * series are found term by term, and the series of the elementary functions
+ * from the differential equations they satisfy, for example
+ * \( w = e^u \) from \( w' = w u' \). The remaining functions, like the
+ * Bessel functions, are expanded in the Taylor series of the function alone
+ * about the constant term of its argument.
+ * 
+ * The expression may not depend on any variable other than `x`, since the
+ * coefficients are numbers.
+ * @param expr The quantity to expand.
+ * @param x The variable of the series.
+ * @param about The point \\( a \\) about which the series is expanded.
+ * @param order The highest power \\( n \\) in the series.
+ * @param context The context settings to use.
+ * @returns The polynomial along with its coefficients. The terms with zero
+ * coefficients are left out of the polynomial.
+ * @throws If `order` is not a non negative integer, if `expr` depends on other
+ * variables or if it is not differentiable at `about`.
+ * @see [[maclaurin]]
+ */
+export function series(expr: Scalar, x: Scalar.Variable, about: number | BigNum | Scalar.Constant, order: number, context: MathContext): Series;
+export function series(expr: Scalar, x: Scalar.Variable, about: number | BigNum | Scalar.Constant, order: number, context=mathenv.mode): Series {
+	if(!Number.isInteger(order) || order < 0)
+		throw new TypeError("The order of a series must be a non negative integer.");
+	const a = about instanceof Scalar.Constant? about: new Scalar.Constant(typeof about === "number"? BigNum.real(about): about);
+	const shift = a.equals(Scalar.ZERO)? x: x.sub(a);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	if(expr instanceof Scalar.Expression)
+		expr.arg_list.forEach(v => {
+			if(v !== x)
+				throw new TypeError(`The series coefficients of ${expr} depend on variables other than ${x}.`);
+		});
+	const terms = expand(expr, x, withContext(ctx, () => a.value), order + 1, ctx);
+	const coefficients: BigNum[] = [];
+	let polynomial: Scalar | undefined = undefined;
+	for(let k = 0; k <= order; k++) {
+		const c = BigNum.round(terms[k], context);
+		coefficients.push(c);
+		if(c.equals(BigNum.real(0), context))
+			continue;
+		const negative = c.dim === 1 && c.components[0].sign === -1;
+		const magnitude = Scalar.constant(negative? c.neg: c);
+		const power = k === 0? undefined: k === 1? shift: shift.pow(Scalar.constant(k));
+		const term = power === undefined? magnitude: magnitude.equals(Scalar.ONE)? power: magnitude.mul(<Scalar.Variable | Scalar.Expression>power);
+		if(polynomial === undefined)
+			polynomial = negative? term.neg: term;
+		else polynomial = negative? polynomial.sub(term): polynomial.add(term);
+	}
+	return {polynomial: polynomial || Scalar.ZERO, coefficients};
+}
+
+/**
+ * Expands a scalar quantity in a Maclaurin series, the Taylor series about
+ * zero, with rounding according to {@link mathenv.mode}.
+ * @param expr The quantity to expand.
+ * @param x The variable of the series.
+ * @param order The highest power in the series.
+ * @see [[series]]
+ */
+export function maclaurin(expr: Scalar, x: Scalar.Variable, order: number): Series;
+/**
+ * Expands a scalar quantity in a Maclaurin series, the Taylor series about
+ * zero, with rounding according to the given context settings.
+ * @param expr The quantity to expand.
+ * @param x The variable of the series.
+ * @param order The highest power in the series.
+ * @param context The context settings to use.
+ * @see [[series]]
+ */
+export function maclaurin(expr: Scalar, x: Scalar.Variable, order: number, context: MathContext): Series;
+export function maclaurin(expr: Scalar, x: Scalar.Variable, order: number, context=mathenv.mode) {
+	return series(expr, x, 0, order, context);
+}
@@ -0,0 +1,212 @@
+import { Scalar } from "../scalar";
+import { Vector } from "../vector";
+import { diff } from "./derivative";
+import { simplify } from "../simplify";
+import { compile } from "../compile";
+import { integrate2d, IntegrationOptions } from "./integral";
+import { Interval } from "../core/interval";
+import { BigNum } from "../core/math/bignum";
+import { MathContext } from "../core/math/context";
+import { InvalidDimension } from "../core/errors";
+
+/**
+ * The orientation of a parametric surface \\( \vec{r}(u, v) \\). A positively
+ * oriented surface has the normal \\( \vec{r}_u \times \vec{r}_v \\) and a
+ * negatively oriented one has the normal \\( \vec{r}_v \times \vec{r}_u \\).
+ */
+export type Orientation = "positive" | "negative";
+
+/**
+ * Evaluates the components of a vector which depend on `u` and `v` alone.
+ * @ignore
+ */
+function valueAt(components: Scalar[], u: Scalar.Variable, v: Scalar.Variable, a: number | BigNum, b: number | BigNum) {
+	const point = (x: number | BigNum) => Scalar.constant(typeof x === "number"? BigNum.real(x): x);
+	const values = new Map([[u, point(a)], [v, point(b)]]);
+	return new Vector.Constant(components.map(x => {
+		const res = x instanceof Scalar.Expression? x.at(values): x === u || x === v? <Scalar.Constant>values.get(<Scalar.Variable>x): x;
+		if(!(res instanceof Scalar.Constant))
+			throw new TypeError(`The component ${x} of the surface depends on variables other than ${u} and ${v}.`);
+		return res;
+	}));
+}
+
+/**
+ * A parametric surface \\( \vec{r}(u, v) \\) in three dimensions with the
+ * parameters \\( u \\) and \\( v \\) running over intervals.
+ */
+export class Surface {
+	/**
+	 * The components of the position vector \\( \vec{r}(u, v) \\), the first
+	 * element being the first component.
+	 */
+	readonly components: Scalar[] = [];
+	/**
+	 * The normal vector \\( \vec{r}_u \times \vec{r}_v \\), or its opposite if
+	 * the surface is negatively oriented, found by differentiating the
+	 * components symbolically. Its magnitude is the area of the surface per
+	 * unit area of the parameter space.
+	 */
+	readonly normal: Vector;
+
+	/**
+	 * Creates a parametric surface from the position vector of its points.
+	 * @param r The position vector \\( \vec{r}(u, v) \\), built for example with
+	 * [[Vector.expression]].
+	 * @param u The first parameter of the surface.
+	 * @param v The second parameter of the surface.
+	 * @param uInterval The interval over which `u` runs.
+	 * @param vInterval The interval over which `v` runs.
+	 * @param orientation The orientation of the surface. Defaults to `"positive"`.
+	 */
+	constructor(readonly r: Vector.Expression, readonly u: Scalar.Variable, readonly v: Scalar.Variable, readonly uInterval: Interval, readonly vInterval: Interval, readonly orientation: Orientation = "positive") {
+		for(let i = 1; i <= 3; i++)
+			this.components.push(r.X(i));
+		const ru = Vector.expression(this.components.map(x => simplify(diff(x, u))));
+		const rv = Vector.expression(this.components.map(x => simplify(diff(x, v))));
+		const N = orientation === "positive"? ru.cross(rv): rv.cross(ru);
+		this.normal = Vector.expression([1, 2, 3].map(i => simplify(N.X(i))));
+	}
+
+	/**
+	 * Creates the same surface with the opposite orientation.
+	 */
+	public reversed() {
+		return new Surface(this.r, this.u, this.v, this.uInterval, this.vInterval, this.orientation === "positive"? "negative": "positive");
+	}
+
+	/**
+	 * Evaluates the position vector \\( \vec{r}(u, v) \\) with rounding
+	 * according to {@link mathenv.mode}.
+	 * @param u The value of the first parameter.
+	 * @param v The value of the second parameter.
+	 * @throws If the surface depends on variables other than `u` and `v`.
+	 */
+	public at(u: number | BigNum, v: number | BigNum) {
+		return valueAt(this.components, this.u, this.v, u, v);
+	}
+
+	/**
+	 * Evaluates the normal vector with rounding according to {@link mathenv.mode}.
+	 * @param u The value of the first parameter.
+	 * @param v The value of the second parameter.
+	 * @throws If the surface depends on variables other than `u` and `v`.
+	 */
+	public normalAt(u: number | BigNum, v: number | BigNum) {
+		return valueAt([1, 2, 3].map(i => this.normal.X(i)), this.u, this.v, u, v);
+	}
+}
+
+/**
+ * Integrates a function of the position and the normal vector over the
+ * parameter space of a surface.
+ * @ignore
+ */
+function integrateOver(S: Surface, fields: Scalar[], vars: Scalar.Variable[], f: (values: BigNum[], N: Vector.Constant, context: MathContext) => BigNum, options: IntegrationOptions) {
+	const params = [S.u, S.v];
+	const normal = [1, 2, 3].map(i => S.normal.X(i));
+	// The quadrature evaluates the integrand with at most two different
+	// context settings, so the components are compiled once for each.
+	const compiled = new Map<number, {position: ((...args: BigNum[]) => BigNum)[], normal: ((...args: BigNum[]) => BigNum)[], field: ((...args: BigNum[]) => BigNum)[]}>();
+	const functions = (context: MathContext) => {
+		let fns = compiled.get(context.precision);
+		if(fns === undefined) {
+			const settings: {backend: "bignum", context: MathContext} = {backend: "bignum", context};
+			fns = {
+				position: S.components.map(x => compile(x, params, settings)),
+				normal: normal.map(x => compile(x, params, settings)),
+				field: fields.map(x => compile(x, vars, settings))
+			};
+			compiled.set(context.precision, fns);
+		}
+		return fns;
+	};
+	return integrate2d((u: BigNum, v: BigNum, context: MathContext) => {
+		const fns = functions(context);
+		const r = fns.position.map(g => g(u, v));
+		const N = new Vector.Constant(fns.normal.map(g => g(u, v)));
+		return f(fns.field.map(g => g(...r)), N, context);
+	}, S.uInterval, S.vInterval, {
+		method: options.method,
+		context: options.context,
+		// The parameters are integrated over as they are.
+		coordinates: "cartesian"
+	});
+}
+
+/**
+ * Evaluates the area of a surface with rounding according to {@link mathenv.mode}.
+ * @param S The surface.
+ * @returns The area.
+ */
+export function surfaceArea(S: Surface): BigNum;
+/**
+ * Evaluates the area of a surface,
+ * \\[ A = \iint \left| \vec{r}_u \times \vec{r}_v \right| du \, dv \\]
+ * The double integral over the parameters is evaluated the same way as by
+ * [[integrate2d]].
+ * @param S The surface.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The area.
+ */
+export function surfaceArea(S: Surface, options: IntegrationOptions): BigNum;
+export function surfaceArea(S: Surface, options: IntegrationOptions = {}) {
+	return integrateOver(S, [], [], (_, N, context) => BigNum.sqrt(N.dot(N, context).value, context), options);
+}
+
+/**
+ * Evaluates the surface integral of a scalar field with rounding according
+ * to {@link mathenv.mode}.
+ * @param f The scalar field.
+ * @param vars The coordinates `f` is a function of.
+ * @param S The surface.
+ * @returns The integral.
+ */
+export function surfaceIntegral(f: Scalar, vars: Scalar.Variable[], S: Surface): BigNum;
+/**
+ * Evaluates the surface integral of a scalar field,
+ * \\[ \iint_S f \, dA = \iint f(\vec{r}(u, v)) \left| \vec{r}_u \times \vec{r}_v \right| du \, dv \\]
+ * The double integral over the parameters is evaluated the same way as by
+ * [[integrate2d]].
+ * @param f The scalar field.
+ * @param vars The coordinates \\( x_1, x_2, x_3 \\) `f` is a function of.
+ * @param S The surface.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The integral.
+ * @throws {@link InvalidDimension} If the number of variables is not 3.
+ */
+export function surfaceIntegral(f: Scalar, vars: Scalar.Variable[], S: Surface, options: IntegrationOptions): BigNum;
+export function surfaceIntegral(f: Scalar, vars: Scalar.Variable[], S: Surface, options: IntegrationOptions = {}) {
+	if(vars.length !== 3)
+		throw new InvalidDimension("surfaceIntegral", vars.length, 3);
+	return integrateOver(S, [f], vars, ([value], N, context) => value.mul(BigNum.sqrt(N.dot(N, context).value, context), context), options);
+}
+
+/**
+ * Evaluates the flux of a vector field through a surface with rounding
+ * according to {@link mathenv.mode}.
+ * @param F The vector field.
+ * @param vars The coordinates `F` is a function of.
+ * @param S The surface.
+ * @returns The flux.
+ */
+export function flux(F: Vector, vars: Scalar.Variable[], S: Surface): BigNum;
+/**
+ * Evaluates the flux of a vector field through a surface,
+ * \\[ \iint_S \vec{F} \cdot d\vec{A} = \iint \vec{F}(\vec{r}(u, v)) \cdot \left( \vec{r}_u \times \vec{r}_v \right) du \, dv \\]
+ * along the normal given by the orientation of the surface. The double
+ * integral over the parameters is evaluated the same way as by [[integrate2d]].
+ * @param F The vector field.
+ * @param vars The coordinates \\( x_1, x_2, x_3 \\) `F` is a function of.
+ * @param S The surface.
+ * @param options The quadrature rule and the context settings to use.
+ * @returns The flux.
+ * @throws {@link InvalidDimension} If the number of variables is not 3.
+ * @see [[Surface.reversed]]
+ */
+export function flux(F: Vector, vars: Scalar.Variable[], S: Surface, options: IntegrationOptions): BigNum;
+export function flux(F: Vector, vars: Scalar.Variable[], S: Surface, options: IntegrationOptions = {}) {
+	if(vars.length !== 3)
+		throw new InvalidDimension("flux", vars.length, 3);
+	return integrateOver(S, vars.map((_, i) => F.X(i + 1)), vars, (values, N, context) => new Vector.Constant(values).dot(N, context).value, options);
+}
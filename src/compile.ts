@@ -0,0 +1,253 @@
+import { Scalar } from "./scalar";
+import { Evaluable } from "./core/definitions";
+import { BinaryOperator } from "./core/operators/binary";
+import { UnaryOperator } from "./core/operators/unary";
+import { BigNum } from "./core/math/bignum";
+import { Constants } from "./core/math/constants";
+import { MathContext } from "./core/math/context";
+import { mathenv, withContext } from "./core/env";
+import * as func from "./core/math/functions";
+
+/**
+ * The settings for [[compile]].
+ */
+export type CompileOptions = {
+	/**
+	 * The kind of numbers the compiled function works with. The `"number"`
+	 * backend uses javascript numbers and the `Math` functions, the `"bignum"`
+	 * backend uses [[BigNum]] arithmetic. Defaults to `"number"`.
+	 */
+	backend?: "number" | "bignum",
+	/**
+	 * The context settings used by the `"bignum"` backend. If not given,
+	 * {@link mathenv.mode} at the time of the call is used.
+	 */
+	context?: MathContext
+}
+
+/**
+ * A compiled node of an expression tree, evaluated from the values of the
+ * arguments of the compiled function.
+ * @ignore
+ */
+type Node<T> = (args: T[]) => T;
+
+/**
+ * The operations a backend needs to provide.
+ * @ignore
+ */
+type Backend<T> = {
+	constant: (x: Scalar.Constant) => T,
+	binary: (op: BinaryOperator) => ((a: T, b: T) => T) | undefined,
+	unary: (op: UnaryOperator, rest: T[]) => ((a: T) => T) | undefined
+}
+
+/**
+ * The functions of the `"number"` backend. The functions with parameters, like
+ * the incomplete gamma functions, take them after the argument.
+ * @ignore
+ */
+const MATH_FUNCTIONS: {[op: string]: (a: number, ...rest: number[]) => number} = {
+	neg: a => -a,
+	sin: Math.sin, cos: Math.cos, tan: Math.tan,
+	asin: Math.asin, acos: Math.acos, atan: Math.atan,
+	sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+	asinh: Math.asinh, acosh: Math.acosh, atanh: Math.atanh,
+	log: Math.log10, ln: Math.log, exp: Math.exp, sqrt: Math.sqrt,
+	abs: Math.abs, floor: Math.floor, ceil: Math.ceil,
+	erf: a => func.erf(a), erfc: a => func.erfc(a), erfinv: a => func.erfinv(a),
+	lowergamma: (a, s) => func.lowergamma(a, s),
+	uppergamma: (a, s) => func.uppergamma(a, s),
+	besselJ: (a, nu) => func.besselJ(a, nu), besselY: (a, nu) => func.besselY(a, nu),
+	besselI: (a, nu) => func.besselI(a, nu), besselK: (a, nu) => func.besselK(a, nu),
+	sphericalJ: (a, nu) => func.sphericalJ(a, nu), sphericalY: (a, nu) => func.sphericalY(a, nu)
+};
+
+/**
+ * The binary operations of the `"number"` backend.
+ * @ignore
+ */
+const MATH_OPERATORS: {[op: string]: (a: number, b: number) => number} = {
+	add: (a, b) => a + b,
+	sub: (a, b) => a - b,
+	mul: (a, b) => a * b,
+	div: (a, b) => a / b,
+	pow: Math.pow
+};
+
+/**
+ * The `"number"` backend.
+ * @ignore
+ */
+const NUMBER_BACKEND: Backend<number> = {
+	constant: x => {
+		if(x.value.dim !== 1)
+			throw new TypeError(`The constant ${x} is not a real number and can not be compiled to a javascript number.`);
+		return Number(x.value.components[0].toString());
+	},
+	binary: op => MATH_OPERATORS[op],
+	unary: (op, rest) => {
+		const f = MATH_FUNCTIONS[op];
+		if(f === undefined)
+			return undefined;
+		return rest.length === 0? f: a => f(a, ...rest);
+	}
+};
+
+/**
+ * Raises a number to a nonzero real integer power by repeated squaring, which
+ * is faster and more accurate than going through the logarithm. Returns
+ * `undefined` for other exponents.
+ * @ignore
+ */
+function integerPower(x: BigNum, n: BigNum, context: MathContext) {
+	if(n.dim !== 1 || n.components[0].decimal !== "")
+		return undefined;
+	let k = Number(n.components[0].toString());
+	if(!Number.isSafeInteger(k) || k === 0)
+		return undefined;
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const negative = k < 0;
+	let res = BigNum.real(1), base = x;
+	for(k = Math.abs(k); k > 0; k = Math.floor(k / 2)) {
+		if(k % 2 === 1)
+			res = res.mul(base, ctx);
+		if(k > 1)
+			base = base.mul(base, ctx);
+	}
+	return BigNum.round(negative? BigNum.real(1).div(res, ctx): res, context);
+}
+
+/**
+ * Creates the `"bignum"` backend. The context settings are looked up on every
+ * operation so that changes to {@link mathenv.mode} take effect if no context
+ * has been given.
+ * @ignore
+ */
+function bignumBackend(context?: MathContext): Backend<BigNum> {
+	const ctx = () => context || mathenv.mode;
+	return {
+		constant: x => withContext(ctx(), () => x.value),
+		binary: op => {
+			switch(op) {
+			case BinaryOperator.ADD:
+			case BinaryOperator.SUB:
+			case BinaryOperator.MUL:
+			case BinaryOperator.DIV:
+				return (a, b) => (<any>a)[op](b, ctx());
+			case BinaryOperator.POW:
+				return (a, b) => integerPower(a, b, ctx()) || a.pow(b, ctx());
+			}
+			return undefined;
+		},
+		unary: (op, rest) => {
+			switch(op) {
+			case UnaryOperator.NEG:
+				return a => a.neg;
+			case UnaryOperator.FLOOR:
+				return a => BigNum.floor(a);
+			case UnaryOperator.CEIL:
+				return a => BigNum.ceil(a);
+			case UnaryOperator.LOG:
+				return a => BigNum.ln(a, ctx()).div(new BigNum(Constants.ln10(ctx())), ctx());
+			}
+			return a => (<any>BigNum)[op](a, ...rest, ctx());
+		}
+	};
+}
+
+/**
+ * Compiles a node of an expression tree. Nodes which do not depend on any
+ * variable are evaluated once, here, and their value is reused on every call.
+ * @ignore
+ */
+function build<T>(e: Evaluable, vars: Scalar.Variable[], backend: Backend<T>): Node<T> {
+	if(e instanceof Scalar.Constant) {
+		const value = backend.constant(e);
+		return () => value;
+	}
+	if(e instanceof Scalar.Variable) {
+		const index = vars.indexOf(e);
+		return args => args[index];
+	}
+	if(!(e instanceof Scalar.Expression) || !e.operands.every(x => x instanceof Scalar))
+		throw new TypeError("Only expressions with scalar operands can be compiled.");
+	let node: Node<T>;
+	if(e.operands.length === 1) {
+		const rest = e.rest.map(x => {
+			if(!(x instanceof Scalar.Constant))
+				throw new TypeError(`Operation ${e.op} can only be compiled with constant parameters.`);
+			return backend.constant(x);
+		});
+		const f = backend.unary(<UnaryOperator>e.op, rest);
+		if(f === undefined)
+			throw new TypeError(`Operation ${e.op} can not be compiled.`);
+		const a = build(e.arg, vars, backend);
+		node = args => f(a(args));
+	} else {
+		const f = backend.binary(<BinaryOperator>e.op);
+		if(f === undefined)
+			throw new TypeError(`Operation ${e.op} can not be compiled.`);
+		const a = build(e.lhs, vars, backend), b = build(e.rhs, vars, backend);
+		node = args => f(a(args), b(args));
+	}
+	if(e.arg_list.size !== 0)
+		return node;
+	const value = node([]);
+	return () => value;
+}
+
+/**
+ * Compiles a scalar expression into a javascript function of its variables
+ * which works with javascript numbers. The function is much faster to call
+ * than [[Scalar.Expression.at]] and is suited for plotting or sampling.
+ * @param expr The scalar to compile.
+ * @param vars The variables of `expr` in the order in which their values are
+ * passed to the compiled function.
+ * @returns A function `(...values) => value`.
+ * @throws If `expr` depends on a variable which is not in `vars`.
+ */
+export function compile(expr: Scalar, vars: Scalar.Variable[]): (...values: number[]) => number;
+/**
+ * Compiles a scalar expression into a javascript function of its variables
+ * which works with javascript numbers, using the `Math` functions.
+ * @param expr The scalar to compile.
+ * @param vars The variables of `expr` in the order in which their values are
+ * passed to the compiled function.
+ * @param options The backend to use.
+ * @returns A function `(...values) => value`.
+ * @throws If `expr` depends on a variable which is not in `vars`.
+ */
+export function compile(expr: Scalar, vars: Scalar.Variable[], options: {backend: "number"}): (...values: number[]) => number;
+/**
+ * Compiles a scalar expression into a javascript function of its variables
+ * which works with [[BigNum]] objects. The arithmetic is the same as that
+ * of [[Scalar.Expression.at]], rounded according to the given context settings
+ * or {@link mathenv.mode}, without walking the expression tree on every call.
+ * Javascript numbers passed to the function are converted to [[BigNum]] objects.
+ * @param expr The scalar to compile.
+ * @param vars The variables of `expr` in the order in which their values are
+ * passed to the compiled function.
+ * @param options The backend and the context settings to use.
+ * @returns A function `(...values) => value`.
+ * @throws If `expr` depends on a variable which is not in `vars`.
+ */
+export function compile(expr: Scalar, vars: Scalar.Variable[], options: {backend: "bignum", context?: MathContext}): (...values: (BigNum | number)[]) => BigNum;
+export function compile(expr: Scalar, vars: Scalar.Variable[], options: CompileOptions = {}) {
+	if(expr instanceof Scalar.Expression)
+		expr.arg_list.forEach(v => {
+			if(vars.indexOf(<Scalar.Variable>v) === -1)
+				throw new TypeError(`The expression depends on ${v.name} which is not one of the arguments.`);
+		});
+	if(expr instanceof Scalar.Variable && vars.indexOf(expr) === -1)
+		throw new TypeError(`The expression depends on ${expr.name} which is not one of the arguments.`);
+	if(options.backend === "bignum") {
+		const root = build(expr, vars, bignumBackend(options.context));
+		return (...values: (BigNum | number)[]) => root(values.map(x => typeof x === "number"? BigNum.real(x): x));
+	}
+	const root = build(expr, vars, NUMBER_BACKEND);
+	return (...values: number[]) => root(values);
+}
@@ -0,0 +1,291 @@
+import { Scalar } from "./scalar";
+import { Vector } from "./vector";
+import { BigNum } from "./core/math/bignum";
+import { Component } from "./core/math/component";
+import { MathContext } from "./core/math/context";
+import { mathenv, CoordinateSystem } from "./core/env";
+import { InvalidDimension } from "./core/errors";
+import * as func from "./core/math/functions";
+
+/**
+ * A user defined orthogonal coordinate system \\( (q_1, q_2, \ldots) \\),
+ * described by its scale factors
+ * \\[ h_i = \left| \frac{\partial \vec{r}}{\partial q_i} \right| \\]
+ * For example, parabolic cylindrical coordinates \\( (\sigma, \tau, z) \\) are
+ * ```javascript
+ * const parabolic = {
+ * 	name: "parabolic cylindrical",
+ * 	dimension: 3,
+ * 	scaleFactors: ([s, t]) => {
+ * 		const h = sqrt(s.mul(s).add(t.mul(t)));
+ * 		return [h, h, Scalar.ONE];
+ * 	}
+ * };
+ * ```
+ */
+export type OrthogonalSystem = {
+	/** The name of the coordinate system, used in error messages. */
+	name: string,
+	/** The number of coordinates. */
+	dimension: number,
+	/**
+	 * Creates the scale factors \\( h_i \\) as expressions of the coordinates.
+	 * @param q The variables standing for the coordinates.
+	 */
+	scaleFactors: (q: Scalar.Variable[]) => Scalar[],
+	/**
+	 * Converts the coordinates of a point to cartesian coordinates. Optional,
+	 * needed only by [[toCartesian]].
+	 */
+	toCartesian?: (q: BigNum[], context: MathContext) => BigNum[],
+	/**
+	 * Converts the cartesian coordinates of a point to this system. Optional,
+	 * needed only by [[fromCartesian]].
+	 */
+	fromCartesian?: (x: BigNum[], context: MathContext) => BigNum[]
+}
+
+/**
+ * The name of a coordinate system for error messages.
+ * @ignore
+ */
+function nameOf(system: CoordinateSystem) {
+	return typeof system === "string"? system: system.name;
+}
+
+/**
+ * The number of coordinates of a system, or `undefined` if the system exists
+ * in any number of dimensions.
+ * @ignore
+ */
+function dimensionOf(system: CoordinateSystem) {
+	switch(system) {
+	case "cartesian":
+		return undefined;
+	case "polar":
+		return 2;
+	case "cylindrical":
+	case "spherical":
+		return 3;
+	}
+	return system.dimension;
+}
+
+/**
+ * Checks that the number of coordinates given is the dimension of the system.
+ * @ignore
+ */
+function checkDimension(operation: string, system: CoordinateSystem, n: number) {
+	const dimension = dimensionOf(system);
+	if(dimension !== undefined && n !== dimension)
+		throw new InvalidDimension(`${operation} in ${nameOf(system)} coordinates`, n, dimension);
+}
+
+/**
+ * Creates the scale factors of a coordinate system in the default coordinate
+ * system {@link mathenv.coordinate_system}.
+ * @param q The variables standing for the coordinates.
+ * @returns The scale factors, all of them `1` in cartesian coordinates.
+ */
+export function scaleFactors(q: Scalar.Variable[]): Scalar[];
+/**
+ * Creates the scale factors \\( h_i \\) of an orthogonal coordinate system as
+ * expressions of the coordinates. The scale factors of the built in systems are
+ * - cartesian: \\( (1, 1, \ldots) \\),
+ * - polar \\( (r, \theta) \\): \\( (1, r) \\),
+ * - cylindrical \\( (r, \theta, z) \\): \\( (1, r, 1) \\),
+ * - spherical \\( (r, \theta, \phi) \\): \\( (1, r, r \sin \theta) \\).
+ * @param q The variables standing for the coordinates.
+ * @param system The coordinate system.
+ * @returns The scale factors.
+ * @throws {@link InvalidDimension} If the number of variables is not the
+ * dimension of the system.
+ */
+export function scaleFactors(q: Scalar.Variable[], system: CoordinateSystem): Scalar[];
+export function scaleFactors(q: Scalar.Variable[], system=mathenv.coordinate_system): Scalar[] {
+	checkDimension("scaleFactors", system, q.length);
+	switch(system) {
+	case "cartesian":
+		return q.map(() => Scalar.ONE);
+	case "polar":
+		return [Scalar.ONE, q[0]];
+	case "cylindrical":
+		return [Scalar.ONE, q[0], Scalar.ONE];
+	case "spherical":
+		return [Scalar.ONE, q[0], q[0].mul(func.sin(q[1]))];
+	}
+	return system.scaleFactors(q);
+}
+
+/**
+ * Converts the coordinates of a point in {@link mathenv.coordinate_system} to
+ * cartesian coordinates with rounding according to {@link mathenv.mode}.
+ * @param q The coordinates of the point.
+ * @returns The cartesian coordinates.
+ */
+export function toCartesian(q: BigNum[]): BigNum[];
+/**
+ * Converts the coordinates of a point to cartesian coordinates with rounding
+ * according to {@link mathenv.mode}.
+ * @param q The coordinates of the point.
+ * @param system The coordinate system of `q`.
+ * @returns The cartesian coordinates.
+ */
+export function toCartesian(q: BigNum[], system: CoordinateSystem): BigNum[];
+/**
+ * Converts the coordinates of a point to cartesian coordinates,
+ * - polar: \\( (r \cos \theta, r \sin \theta) \\),
+ * - cylindrical: \\( (r \cos \theta, r \sin \theta, z) \\),
+ * - spherical: \\( (r \sin \theta \cos \phi, r \sin \theta \sin \phi, r \cos \theta) \\),
+ * 
+ * with rounding according to the given context settings.
+ * @param q The coordinates of the point.
+ * @param system The coordinate system of `q`.
+ * @param context The context settings to use.
+ * @returns The cartesian coordinates.
+ * @throws {@link InvalidDimension} If the number of coordinates is not the
+ * dimension of the system.
+ * @throws If a user defined system has no conversion.
+ */
+export function toCartesian(q: BigNum[], system: CoordinateSystem, context: MathContext): BigNum[];
+/**
+ * Converts a position vector whose components are the coordinates of a point
+ * in {@link mathenv.coordinate_system} to cartesian coordinates with rounding
+ * according to {@link mathenv.mode}.
+ * @param v The position vector.
+ * @returns The position vector in cartesian coordinates.
+ */
+export function toCartesian(v: Vector.Constant): Vector.Constant;
+/**
+ * Converts a position vector whose components are the coordinates of a point
+ * to cartesian coordinates with rounding according to the given context settings.
+ * @param v The position vector.
+ * @param system The coordinate system of the components of `v`.
+ * @param context The context settings to use.
+ * @returns The position vector in cartesian coordinates.
+ */
+export function toCartesian(v: Vector.Constant, system: CoordinateSystem, context?: MathContext): Vector.Constant;
+export function toCartesian(q: BigNum[] | Vector.Constant, system=mathenv.coordinate_system, context=mathenv.mode): BigNum[] | Vector.Constant {
+	if(q instanceof Vector.Constant) {
+		const n = dimensionOf(system) || q.value.length;
+		const values = [];
+		for(let i = 1; i <= n; i++)
+			values.push(q.X(i).value);
+		return new Vector.Constant(toCartesian(values, system, context));
+	}
+	checkDimension("toCartesian", system, q.length);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	let res: BigNum[];
+	switch(system) {
+	case "cartesian":
+		return q.slice();
+	case "polar":
+	case "cylindrical":
+		res = [q[0].mul(BigNum.cos(q[1], ctx), ctx), q[0].mul(BigNum.sin(q[1], ctx), ctx)].concat(q.slice(2));
+		break;
+	case "spherical": {
+		const rho = q[0].mul(BigNum.sin(q[1], ctx), ctx);
+		res = [rho.mul(BigNum.cos(q[2], ctx), ctx), rho.mul(BigNum.sin(q[2], ctx), ctx), q[0].mul(BigNum.cos(q[1], ctx), ctx)];
+		break;
+	}
+	default:
+		if(system.toCartesian === undefined)
+			throw new TypeError(`The ${system.name} coordinate system has no conversion to cartesian coordinates.`);
+		res = system.toCartesian(q, ctx);
+	}
+	return res.map(x => BigNum.round(x, context));
+}
+
+/**
+ * Converts the cartesian coordinates of a point to coordinates in
+ * {@link mathenv.coordinate_system} with rounding according to {@link mathenv.mode}.
+ * @param x The cartesian coordinates of the point.
+ * @returns The coordinates in the default system.
+ */
+export function fromCartesian(x: BigNum[]): BigNum[];
+/**
+ * Converts the cartesian coordinates of a point to coordinates in the given
+ * system with rounding according to {@link mathenv.mode}.
+ * @param x The cartesian coordinates of the point.
+ * @param system The coordinate system to convert to.
+ * @returns The coordinates in `system`.
+ */
+export function fromCartesian(x: BigNum[], system: CoordinateSystem): BigNum[];
+/**
+ * Converts the cartesian coordinates of a point to coordinates in the given
+ * system, with rounding according to the given context settings. The angles
+ * \\( \theta \\) of polar and cylindrical coordinates and \\( \phi \\) of
+ * spherical coordinates are in \\( (-\pi, \pi] \\), the angle \\( \theta \\)
+ * of spherical coordinates is in \\( [0, \pi] \\). At the origin (and on the
+ * z axis) the undetermined angles are zero.
+ * @param x The cartesian coordinates of the point.
+ * @param system The coordinate system to convert to.
+ * @param context The context settings to use.
+ * @returns The coordinates in `system`.
+ * @throws {@link InvalidDimension} If the number of coordinates is not the
+ * dimension of the system.
+ * @throws If a user defined system has no conversion.
+ */
+export function fromCartesian(x: BigNum[], system: CoordinateSystem, context: MathContext): BigNum[];
+/**
+ * Converts a position vector to one whose components are the coordinates of
+ * the point in {@link mathenv.coordinate_system}, with rounding according to
+ * {@link mathenv.mode}.
+ * @param v The position vector in cartesian coordinates.
+ * @returns The position vector in the default system.
+ */
+export function fromCartesian(v: Vector.Constant): Vector.Constant;
+/**
+ * Converts a position vector to one whose components are the coordinates of
+ * the point in the given system, with rounding according to the given context
+ * settings.
+ * @param v The position vector in cartesian coordinates.
+ * @param system The coordinate system to convert to.
+ * @param context The context settings to use.
+ * @returns The position vector in `system`.
+ */
+export function fromCartesian(v: Vector.Constant, system: CoordinateSystem, context?: MathContext): Vector.Constant;
+export function fromCartesian(x: BigNum[] | Vector.Constant, system=mathenv.coordinate_system, context=mathenv.mode): BigNum[] | Vector.Constant {
+	if(x instanceof Vector.Constant) {
+		const n = dimensionOf(system) || x.value.length;
+		const values = [];
+		for(let i = 1; i <= n; i++)
+			values.push(x.X(i).value);
+		return new Vector.Constant(fromCartesian(values, system, context));
+	}
+	checkDimension("fromCartesian", system, x.length);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const sq = (a: BigNum) => a.mul(a, ctx);
+	// The angle of (x, y) from the positive x axis, taken as 0 at the origin.
+	const angle = (y: BigNum, x: BigNum) => {
+		const [a, b] = [x.components[0], y.components[0]];
+		if(a.equals(Component.ZERO) && b.equals(Component.ZERO))
+			return BigNum.real(0);
+		return new BigNum(Component.atan2(b, a, ctx));
+	};
+	let res: BigNum[];
+	switch(system) {
+	case "cartesian":
+		return x.slice();
+	case "polar":
+	case "cylindrical":
+		res = [BigNum.sqrt(sq(x[0]).add(sq(x[1]), ctx), ctx), angle(x[1], x[0])].concat(x.slice(2));
+		break;
+	case "spherical": {
+		const rho = BigNum.sqrt(sq(x[0]).add(sq(x[1]), ctx), ctx);
+		res = [BigNum.sqrt(sq(rho).add(sq(x[2]), ctx), ctx), angle(rho, x[2]), angle(x[1], x[0])];
+		break;
+	}
+	default:
+		if(system.fromCartesian === undefined)
+			throw new TypeError(`The ${system.name} coordinate system has no conversion from cartesian coordinates.`);
+		res = system.fromCartesian(x, ctx);
+	}
+	return res.map(q => BigNum.round(q, context));
+}
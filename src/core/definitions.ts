@@ -24,6 +24,10 @@ export interface Evaluable extends Token {
 	 * The kind of physical quantity `this` implements.
 	 */
 	readonly quantity: string;
+	/** The plain text representation of `this`. */
+	toString(): string;
+	/** The LaTeX representation of `this`. */
+	toLatex(): string;
 	[x: string]: any;
 }
 /** Checks whether a given `Token` is an `Evaluable`. */
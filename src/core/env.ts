@@ -1,4 +1,16 @@
 import { MathContext } from "./math/context";
+import { OrthogonalSystem } from "../coordinates";
+/**
+ * The coordinate systems in which multidimensional quantities can be expressed.
+ * - `"cartesian"`: \\( (x, y) \\) or \\( (x, y, z) \\).
+ * - `"polar"`: \\( (r, \theta) \\) in two dimensions.
+ * - `"cylindrical"`: \\( (r, \theta, z) \\).
+ * - `"spherical"`: \\( (r, \theta, \phi) \\) with \\( \theta \\) the angle from
+ * the z axis and \\( \phi \\) the azimuthal angle.
+ * - A user defined orthogonal system given by its scale factors.
+ */
+export type CoordinateSystem = "cartesian" | "polar" | "cylindrical" | "spherical" | OrthogonalSystem;
+
 /**
  * @ignore
  */
@@ -6,17 +18,125 @@ type env = {
     /**
      * Specifies the precision settings and rounding algorithm to use
      * for numerical operations. Any operation by default will use this value if
-     * no context settings object has been given.
+     * no context settings object has been given. Inside [[withContext]] and
+     * [[withContextAsync]] this is the context settings given to them.
      */
     mode: MathContext,
-    /** Specifies how to interpret the coordinates of any multidimensional system. */
-    coordinate_system: "cartesian"
+    /**
+     * Specifies how to interpret the coordinates of any multidimensional system.
+     * The components of position vectors are taken to be coordinates in this
+     * system by [[toCartesian]] and [[fromCartesian]], and the vector operators
+     * use its scale factors if no coordinate system has been given.
+     */
+    coordinate_system: CoordinateSystem
+}
+
+/**
+ * The part of the Node.js `AsyncLocalStorage` API which keeps the context
+ * settings of concurrent asynchronous calls apart.
+ * @ignore
+ */
+type Storage<T> = {
+	getStore(): T | undefined,
+	run<R>(store: T, callback: () => R): R
+};
+
+/**
+ * Creates an asynchronous local storage if the platform provides one.
+ * @ignore
+ */
+function asyncStorage(): Storage<MathContext[]> | undefined {
+	try {
+		// The name of the module is not a literal so that bundlers for the
+		// browser do not try to include it.
+		const name = "async_hooks";
+		const hooks = typeof require === "function"? require(name): undefined;
+		return hooks && hooks.AsyncLocalStorage? new hooks.AsyncLocalStorage(): undefined;
+	} catch(e) {
+		return undefined;
+	}
+}
+
+/**
+ * The stack of context settings in use outside of [[withContextAsync]]. The
+ * last element is the active one.
+ * @ignore
+ */
+const contexts: MathContext[] = [MathContext.DEFAULT_CONTEXT];
+
+/**
+ * @ignore
+ */
+const storage = asyncStorage();
+
+/**
+ * Finds the stack of context settings of the code being run.
+ * @ignore
+ */
+function stack() {
+	return (storage && storage.getStore()) || contexts;
 }
 
 /**
  * Stores information about the Math environment.
  */
 export const mathenv: env = {
-	mode: MathContext.DEFAULT_CONTEXT,
+	get mode() {
+		const active = stack();
+		return active[active.length - 1];
+	},
+	set mode(context: MathContext) {
+		const active = stack();
+		active[active.length - 1] = context;
+	},
 	coordinate_system: "cartesian"
 };
+
+/**
+ * Runs a function with the given context settings in effect. Every operation
+ * inside `fn` which has not been given context settings uses `context`, and
+ * the previous settings are restored once `fn` returns or throws. Calls may
+ * be nested, the innermost one taking effect.
+ * 
+ * Assigning to {@link mathenv.mode} inside `fn` changes the settings of this
+ * call alone.
+ * 
+ * The settings are only in effect while `fn` runs synchronously. Use
+ * [[withContextAsync]] for code which awaits promises.
+ * @param context The context settings to use.
+ * @param fn The function to run.
+ * @returns The value returned by `fn`.
+ */
+export function withContext<T>(context: MathContext, fn: () => T): T {
+	const active = stack();
+	const depth = active.push(context);
+	try {
+		return fn();
+	} finally {
+		active.length = depth - 1;
+	}
+}
+
+/**
+ * Runs an asynchronous function with the given context settings in effect
+ * until the promise it returns settles. The previous settings are restored
+ * whether the promise is fulfilled or rejected.
+ * 
+ * Where the platform provides `AsyncLocalStorage` (Node.js 12.17 and later)
+ * every call gets a stack of its own, so calls running concurrently do not
+ * see each other's settings. Elsewhere the calls share one stack and must not
+ * overlap.
+ * @param context The context settings to use.
+ * @param fn The function to run.
+ * @returns The promise returned by `fn`.
+ */
+export async function withContextAsync<T>(context: MathContext, fn: () => Promise<T>): Promise<T> {
+	if(storage !== undefined)
+		return storage.run(stack().concat([context]), fn);
+	const depth = contexts.push(context);
+	try {
+		return await fn();
+	} finally {
+		contexts.length = depth - 1;
+	}
+}
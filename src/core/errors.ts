@@ -139,4 +139,56 @@ export interface IllegalNumberFormat {
 export const IllegalNumberFormat = <IllegalNumberFormat><unknown>function(this: any, passed: string) {
 	return getErrorObject(this, `Number format failed to parse: ${passed}`);
 };
-setErrorPrototype(IllegalNumberFormat, "illegal number format");
\ No newline at end of file
+setErrorPrototype(IllegalNumberFormat, "illegal number format");
+/**
+ * The error thrown when an operation is attempted on quantities existing in
+ * a number of dimensions for which the operation is not defined.
+ */
+export interface InvalidDimension {
+	/**
+	 * Creates an [[InvalidDimension]] error.
+	 * @param operation The name of the operation attempted.
+	 * @param passed The number of dimensions of the quantity passed.
+	 * @param required The number of dimensions the operation is defined in.
+	 */
+	new (operation: string, passed: number, required: number): InvalidDimension;
+}
+export const InvalidDimension = <InvalidDimension><unknown>function(this: any, operation: string, passed: number, required: number) {
+	return getErrorObject(this, `Operation ${operation} is defined only in ${required} dimensions, got ${passed} dimensions.`);
+};
+setErrorPrototype(InvalidDimension, "invalid dimension");
+
+/**
+ * The error thrown when the string form of an expression fails to parse.
+ */
+export interface ParseError {
+	/**
+	 * The error thrown when the string form of an expression fails to parse.
+	 * @param input The string being parsed.
+	 * @param position The index (starting from 0) of the character where parsing failed.
+	 * @param reason What went wrong.
+	 */
+	new (input: string, position: number, reason: string): ParseError;
+}
+export const ParseError = <ParseError><unknown>function(this: any, input: string, position: number, reason: string) {
+	return getErrorObject(this, `${reason} at position ${position} in "${input}".`);
+};
+setErrorPrototype(ParseError, "parse error");
+
+/**
+ * The error thrown when an iterative method fails to reach the requested
+ * accuracy within the number of steps it is allowed.
+ */
+export interface NoConvergence {
+	/**
+	 * Creates a [[NoConvergence]] error.
+	 * @param method The name of the method which failed.
+	 * @param extra Any extra information about the failure.
+	 */
+	new (method: string, extra?: string): NoConvergence;
+}
+export const NoConvergence = <NoConvergence><unknown>function(this: any, method: string, extra?: string) {
+	const trail = extra === undefined? "": ` ${extra}`;
+	return getErrorObject(this, `Method ${method} failed to converge.${trail}`);
+};
+setErrorPrototype(NoConvergence, "no convergence");
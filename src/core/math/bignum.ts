@@ -1,10 +1,16 @@
 import { trimZeroes, align, pad } from "./parsers";
 import { Component } from "./component";
+import { Constants } from "./constants";
 import { MathContext } from "./context";
 import { mathenv } from "../env";
 import { Numerical } from "../definitions";
 import { alpha_beta, alpha_beta_sq } from "./numerical";
 import { UndefinedValue, IndeterminateForm } from "../errors";
+import { Gamma } from "./special/gamma";
+import { Zeta } from "./special/zeta";
+import { LambertW } from "./special/lambert";
+import { Bessel } from "./special/bessel";
+import { Complex } from "./special/complex";
 
 /**
  * Immutable, arbitrary precision, higher dimensional numbers. A BigNum consists of a
@@ -117,6 +123,32 @@ export class BigNum extends Numerical {
 		return true;
 	}
 
+	/**
+	 * The string representation of `this` number as a sum of its components
+	 * along the units. The imaginary units are written as `i`, `j` and `k` for
+	 * complex numbers and quaternions and as `e1`, `e2`, ... for numbers
+	 * in higher dimensions. Zero components are left out.
+	 * @returns The string representation of `this`.
+	 */
+	public toString() {
+		const terms: string[] = [];
+		this.components.forEach((x, i) => {
+			if(x.sign === 0)
+				return;
+			let s = x.toString().replace(/\.0$/, "");
+			if(i === 0) {
+				terms.push(s);
+				return;
+			}
+			if(s === "1" || s === "-1")
+				s = s.substring(0, s.length - 1);
+			terms.push(s + (this.dim <= 4? "ijk".charAt(i - 1): "e" + i));
+		});
+		if(terms.length === 0)
+			return "0";
+		return terms.reduce((acc, t) => acc + (t.charAt(0) === "-"? " - " + t.substring(1): " + " + t));
+	}
+
 	/**
 	 * The negative of `this`.
 	 */
@@ -196,6 +228,147 @@ export class BigNum extends Numerical {
 		return new BigNum(magSq.pow(Component.create("0.5"), context));
 	}
 
+	/**
+	 * Evaluates the argument of a number, the angle \\( \phi \\) such that
+	 * \\( x = \lvert x \rvert e^{\hat{v} \phi} \\), with rounding according to
+	 * {@link mathenv.mode}.
+	 * 
+	 * For the complex numbers \\( \hat{v} = \imath \\) and the argument is
+	 * \\( \operatorname{atan2}(b, a) \\) in \\( (-\pi, \pi] \\). The imaginary
+	 * part of the higher dimensional numbers has no preferred orientation, so
+	 * their argument is \\( \operatorname{atan2}(\theta, a) \\) in
+	 * \\( [0, \pi] \\) and \\( \hat{v} \\) carries the orientation. The real
+	 * numbers are taken to lie in the complex plane.
+	 * @param x A number.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link Component.atan2}
+	 * @see [Notation](#notation)
+	 */
+	public static arg(x: BigNum): BigNum;
+	/**
+	 * Evaluates the argument of a number, the angle \\( \phi \\) such that
+	 * \\( x = \lvert x \rvert e^{\hat{v} \phi} \\), with rounding according to
+	 * the given context settings.
+	 * 
+	 * For the complex numbers \\( \hat{v} = \imath \\) and the argument is
+	 * \\( \operatorname{atan2}(b, a) \\) in \\( (-\pi, \pi] \\). The imaginary
+	 * part of the higher dimensional numbers has no preferred orientation, so
+	 * their argument is \\( \operatorname{atan2}(\theta, a) \\) in
+	 * \\( [0, \pi] \\) and \\( \hat{v} \\) carries the orientation. The real
+	 * numbers are taken to lie in the complex plane.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link Component.atan2}
+	 * @see [Notation](#notation)
+	 */
+	public static arg(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static arg(x: BigNum, ...args: any[]): BigNum;
+	public static arg(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(x.components.every(c => c.sign === 0))
+			throw new UndefinedValue("arg", x);
+		const a = x.components[0];
+		if(x.dim <= 2)
+			return new BigNum(Component.atan2(x.dim === 1? Component.ZERO: x.components[1], a, context));
+		const ctx: MathContext = {
+			precision: context.precision + 5,
+			rounding: context.rounding
+		};
+		const theta = BigNum.abs(x.imag, ctx).components[0];
+		return new BigNum(Component.atan2(theta, a, context));
+	}
+
+	/**
+	 * Creates a complex number from its polar form \\( r e^{\imath \theta} \\)
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param r The absolute value, a real number.
+	 * @param theta The argument, a real number.
+	 * @throws {@link UndefinedValue} If `r` or `theta` is not real.
+	 * @see {@link BigNum.toPolar}
+	 */
+	public static polar(r: BigNum, theta: BigNum): BigNum;
+	/**
+	 * Creates a complex number from its polar form \\( r e^{\imath \theta} \\)
+	 * with rounding according to the given context settings.
+	 * @param r The absolute value, a real number.
+	 * @param theta The argument, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `r` or `theta` is not real.
+	 * @see {@link BigNum.toPolar}
+	 */
+	public static polar(r: BigNum, theta: BigNum, context: MathContext): BigNum;
+	/**
+	 * Creates a number from its polar form \\( r e^{\hat{v} \theta} \\) in
+	 * the plane of the given axis with rounding according to {@link mathenv.mode}.
+	 * @param r The absolute value, a real number.
+	 * @param theta The argument, a real number.
+	 * @param axis A number whose imaginary part is along \\( \hat{v} \\).
+	 * @throws {@link UndefinedValue} If `r` or `theta` is not real or the
+	 * imaginary part of `axis` is 0.
+	 * @see {@link BigNum.toPolar}
+	 * @see [Notation](#notation)
+	 */
+	public static polar(r: BigNum, theta: BigNum, axis: BigNum): BigNum;
+	/**
+	 * Creates a number from its polar form \\( r e^{\hat{v} \theta} \\) in
+	 * the plane of the given axis with rounding according to the given context
+	 * settings.
+	 * @param r The absolute value, a real number.
+	 * @param theta The argument, a real number.
+	 * @param axis A number whose imaginary part is along \\( \hat{v} \\).
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `r` or `theta` is not real or the
+	 * imaginary part of `axis` is 0.
+	 * @see {@link BigNum.toPolar}
+	 * @see [Notation](#notation)
+	 */
+	public static polar(r: BigNum, theta: BigNum, axis: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static polar(r: BigNum, theta: BigNum, ...args: any[]): BigNum;
+	public static polar(r: BigNum, theta: BigNum, ...args: any[]) {
+		const oriented = args[0] instanceof BigNum;
+		const context = args[oriented? 1: 0] || mathenv.mode;
+		return BigNum.fromPolar("polar", r, theta, oriented? args[0]: undefined, context);
+	}
+
+	/**
+	 * Creates the number \\( e^{\hat{v} \theta} = \cos \theta + \hat{v} \sin \theta \\)
+	 * of absolute value 1 from an axis \\( \hat{v} \\) and an angle \\( \theta \\)
+	 * with rounding according to {@link mathenv.mode}. For the quaternions, the
+	 * rotation by an angle \\( \alpha \\) about the axis is given by
+	 * \\( \theta = \frac{\alpha}{2} \\).
+	 * @param axis A number whose imaginary part is along \\( \hat{v} \\).
+	 * @param angle The angle \\( \theta \\), a real number.
+	 * @throws {@link UndefinedValue} If `angle` is not real or the imaginary part
+	 * of `axis` is 0.
+	 * @see {@link BigNum.polar}
+	 * @see [Notation](#notation)
+	 */
+	public static fromAxisAngle(axis: BigNum, angle: BigNum): BigNum;
+	/**
+	 * Creates the number \\( e^{\hat{v} \theta} = \cos \theta + \hat{v} \sin \theta \\)
+	 * of absolute value 1 from an axis \\( \hat{v} \\) and an angle \\( \theta \\)
+	 * with rounding according to the given context settings. For the
+	 * quaternions, the rotation by an angle \\( \alpha \\) about the axis is
+	 * given by \\( \theta = \frac{\alpha}{2} \\).
+	 * @param axis A number whose imaginary part is along \\( \hat{v} \\).
+	 * @param angle The angle \\( \theta \\), a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `angle` is not real or the imaginary part
+	 * of `axis` is 0.
+	 * @see {@link BigNum.polar}
+	 * @see [Notation](#notation)
+	 */
+	public static fromAxisAngle(axis: BigNum, angle: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static fromAxisAngle(axis: BigNum, angle: BigNum, ...args: any[]): BigNum;
+	public static fromAxisAngle(axis: BigNum, angle: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return BigNum.fromPolar("fromAxisAngle", BigNum.real(1), angle, axis, context);
+	}
+
 	/**
 	 * Rounds off a {@link BigNum} instance, component-wise, according to some
 	 * {@link MathContext}. The different rounding algorithms implemented are
@@ -236,6 +409,45 @@ export class BigNum extends Numerical {
 		return this.conj.mul(this, context);
 	}
 
+	/**
+	 * Converts `this` number to its polar form \\( r e^{\hat{v} \theta} \\),
+	 * where \\( r \\) is the absolute value and \\( \theta \\) the argument,
+	 * with rounding according to {@link mathenv.mode}. The axis \\( \hat{v} \\)
+	 * is the normalised imaginary part, and \\( \imath \\) for the real and
+	 * complex numbers. The polar form of 0 has \\( \theta = 0 \\).
+	 * @see {@link BigNum.arg}
+	 * @see {@link BigNum.polar}
+	 * @see [Notation](#notation)
+	 */
+	public toPolar(): BigNum.Polar;
+	/**
+	 * Converts `this` number to its polar form \\( r e^{\hat{v} \theta} \\),
+	 * where \\( r \\) is the absolute value and \\( \theta \\) the argument,
+	 * with rounding according to the given context settings. The axis
+	 * \\( \hat{v} \\) is the normalised imaginary part, and \\( \imath \\) for
+	 * the real and complex numbers. The polar form of 0 has \\( \theta = 0 \\).
+	 * @param context The context settings to use.
+	 * @see {@link BigNum.arg}
+	 * @see {@link BigNum.polar}
+	 * @see [Notation](#notation)
+	 */
+	public toPolar(context: MathContext): BigNum.Polar;
+	/** @internal */
+	public toPolar(...args: any[]): BigNum.Polar;
+	public toPolar(...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const ctx: MathContext = {
+			precision: context.precision + 5,
+			rounding: context.rounding
+		};
+		const zero = this.components.every(c => c.sign === 0);
+		return {
+			r: BigNum.abs(this, context),
+			theta: zero? BigNum.real(0): BigNum.arg(this, context),
+			axis: BigNum.round(BigNum.unit(this, ctx), context)
+		};
+	}
+
 	/**
 	 * Adds two [[BigNum]] instances. Addition is defined component-wise.
 	 * That is, for two numbers \\( a \\) and \\( b \\), their addition is defined as
@@ -420,20 +632,30 @@ export class BigNum extends Numerical {
 		if(that.dim === 1)
 			return new BigNum(this.components.map(x => x.div(that.components[0], context)));
 		if(this.dim === 1)
-			return new BigNum(that.inv(context).components.map(x => x.div(this.components[0], context)));
+			return new BigNum(that.inv(context).components.map(x => x.mul(this.components[0], context)));
 		return side === "right"? this.mul(that.inv(context), context): that.inv(context).mul(this, context);
 	}
 
 	/**
 	 * Raises one {@link BigNum} instance to the power of another.
 	 * The result is rounded according to {@link mathenv.mode}.
+	 * 
+	 * The power is the principal value \\( x^y = e^{y \ln x} \\), with the
+	 * branch cut of the logarithm.
 	 * @param that Number to divide by.
+	 * @see {@link BigNum.ln}
+	 * @see {@link BigNum.nthRoots}
 	 */
 	public pow(exponent: BigNum): BigNum;
 	/**
 	 * Raises one {@link BigNum} instance to the power of another.
 	 * The result is rounded according to the given context settings.
+	 * 
+	 * The power is the principal value \\( x^y = e^{y \ln x} \\), with the
+	 * branch cut of the logarithm.
 	 * @param that Number to divide by.
+	 * @see {@link BigNum.ln}
+	 * @see {@link BigNum.nthRoots}
 	 */
 	public pow(exponent: BigNum, context: MathContext): BigNum;
 	/** @internal */
@@ -454,6 +676,31 @@ export class BigNum extends Numerical {
 		return BigNum.round(res, context);
 	}
 
+	/**
+	 * Calculates the (principal) square root of a given number with rounding
+	 * according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link Component.sqrt}
+	 */
+	public static sqrt(x: BigNum): BigNum;
+	/**
+	 * Calculates the (principal) square root of a given number with rounding
+	 * according to the given context settings.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link Component.sqrt}
+	 */
+	public static sqrt(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static sqrt(x: BigNum, ...args: any[]): BigNum;
+	public static sqrt(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const a = x.real.components[0];
+		if(x.imag.equals(BigNum.real(0), context) && !a.lessThan(Component.ZERO))
+			return new BigNum(Component.sqrt(a, context));
+		return x.pow(BigNum.real("0.5"), context);
+	}
+
 	/**
 	 * Rounds a number (for complex and hyper-complex numbers, all the components
 	 * of the number) towards positive infinity.
@@ -1097,7 +1344,7 @@ export class BigNum extends Numerical {
 		);
 		const log_arg = alpha2.div(beta2, ctx);
 		const real = new BigNum(quarter.mul(Component.ln(log_arg, ctx), ctx));
-		const imag = new BigNum(half.mul(Component.atan(atan_arg, ctx).add(Component.PI, ctx), ctx));
+		const imag = new BigNum(half.mul(Component.atan(atan_arg, ctx).add(Constants.pi(ctx), ctx), ctx));
 		const res = real.add(v_hat.mul(imag, ctx), ctx);
 		return BigNum.round(res, context);
 	}
@@ -1137,81 +1384,1027 @@ export class BigNum extends Numerical {
 	}
 
 	/**
-	 * Calculates the natural logarithm (to the base \\( e \\)) of a given number
-	 * with rounding according to {@link mathenv.mode}.
+	 * Calculates the principal value of the natural logarithm (to the base
+	 * \\( e \\)) of a given number with rounding according to {@link mathenv.mode}.
 	 * 
 	 * **Method**:
 	 * 
-	 * Let \\( r \\) be the absolute value of \\( x \\).
-	 * Therefore, \\( r = \lvert a + \hat{v} \theta \rvert \\).
+	 * Let \\( r \\) be the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument. The principal value of the logarithm is
+	 * 
+	 * \\[ \ln x = \ln r + \hat{v} \phi \\]
 	 * 
-	 * \\[ \ln \left(a+\hat{v}\theta \\right) = \ln r + \hat{v} \phi \\]
+	 * For the complex numbers its branch cut is the negative real axis, across
+	 * which \\( \phi \\) jumps from \\( \pi \\) to \\( -\pi \\). For the higher
+	 * dimensional numbers \\( \phi \\) is continuous but \\( \hat{v} \\) is not
+	 * defined on the negative real axis, which is again the branch cut. There
+	 * \\( \hat{v} = \imath \\) is taken.
+	 * 
+	 * @param x A number.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link BigNum.arg}
+	 * @see [Notation](#notation)
+	 */
+	public static ln(x: BigNum): BigNum;
+	/**
+	 * Calculates the principal value of the natural logarithm (to the base
+	 * \\( e \\)) of a given number with rounding according to the given
+	 * context settings.
 	 * 
-	 * where \\( \phi \\) is such that
+	 * **Method**:
 	 * 
-	 * \\[ \begin{align}
-	 * 		a &= r \cos \phi \\\\
-	 * 		\theta &= r \sin \phi
-	 * 	\end{align} \\]
+	 * Let \\( r \\) be the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument. The principal value of the logarithm is
 	 * 
-	 * that is,
+	 * \\[ \ln x = \ln r + \hat{v} \phi \\]
 	 * 
-	 * \\[ \phi = \operatorname{atan2} \left(\theta, a \right) \\]
+	 * For the complex numbers its branch cut is the negative real axis, across
+	 * which \\( \phi \\) jumps from \\( \pi \\) to \\( -\pi \\). For the higher
+	 * dimensional numbers \\( \phi \\) is continuous but \\( \hat{v} \\) is not
+	 * defined on the negative real axis, which is again the branch cut. There
+	 * \\( \hat{v} = \imath \\) is taken.
 	 * 
 	 * @param x A number.
-	 * @see {@link atan2}
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link BigNum.arg}
 	 * @see [Notation](#notation)
 	 */
-	public static ln(x: BigNum): BigNum;
+	public static ln(x: BigNum, context: MathContext): BigNum;
 	/**
-	 * Calculates the natural logarithm (to the base \\( e \\)) of a given number
-	 * with rounding according to the given context settings.
+	 * Calculates the given branch of the natural logarithm (to the base
+	 * \\( e \\)) of a given number with rounding according to {@link mathenv.mode}.
 	 * 
 	 * **Method**:
 	 * 
-	 * Let \\( r \\) be the absolute value of \\( x \\).
-	 * Therefore, \\( r = \lvert a + \hat{v} \theta \rvert \\).
+	 * The branch \\( k \\) of the logarithm is
 	 * 
-	 * \\[ \ln \left(a+\hat{v}\theta \\right) = \ln r + \hat{v} \phi \\]
+	 * \\[ \ln_k x = \ln r + \hat{v} \left( \phi + 2 \pi k \right) \\]
 	 * 
-	 * where \\( \phi \\) is such that
+	 * where \\( r \\) is the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument, so that \\( k = 0 \\) is the principal branch. The branch
+	 * cuts are those of the principal branch.
+	 * 
+	 * @param x A number.
+	 * @param options The branch to use.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @throws {TypeError} If the branch is not an integer.
+	 * @see {@link BigNum.arg}
+	 * @see [Notation](#notation)
+	 */
+	public static ln(x: BigNum, options: BigNum.BranchOptions): BigNum;
+	/**
+	 * Calculates the given branch of the natural logarithm (to the base
+	 * \\( e \\)) of a given number with rounding according to the given
+	 * context settings.
+	 * 
+	 * **Method**:
 	 * 
-	 * \\[ \begin{align}
-	 * 		a &= r \cos \phi \\\\
-	 * 		\theta &= r \sin \phi
-	 * 	\end{align} \\]
+	 * The branch \\( k \\) of the logarithm is
 	 * 
-	 * that is,
+	 * \\[ \ln_k x = \ln r + \hat{v} \left( \phi + 2 \pi k \right) \\]
 	 * 
-	 * \\[ \phi = \mathrm{atan2} \left(\theta, a \right) \\]
+	 * where \\( r \\) is the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument, so that \\( k = 0 \\) is the principal branch. The branch
+	 * cuts are those of the principal branch.
 	 * 
 	 * @param x A number.
+	 * @param options The branch to use.
 	 * @param context The context settings to use.
-	 * @see {@link atan2}
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @throws {TypeError} If the branch is not an integer, or if any other
+	 * argument than the options and the context settings is given.
+	 * @see {@link BigNum.arg}
 	 * @see [Notation](#notation)
 	 */
-	public static ln(x: BigNum, context: MathContext): BigNum;
+	public static ln(x: BigNum, options: BigNum.BranchOptions, context: MathContext): BigNum;
 	/** @internal */
 	public static ln(x: BigNum, ...args: any[]): BigNum;
 	public static ln(x: BigNum, ...args: any[]) {
+		const options: BigNum.BranchOptions | undefined = args.find(a => a !== undefined && a.branch !== undefined);
+		const context: MathContext = args.find(a => a !== undefined && a.precision !== undefined) || mathenv.mode;
+		if(args.some(a => a !== undefined && a !== options && a !== context))
+			throw new TypeError("The arguments of ln after the number must be the branch options and the context settings.");
+		const branch = options === undefined? 0: options.branch;
+		if(!Number.isInteger(branch))
+			throw new TypeError("The branch of a function must be an integer.");
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
+		const real = new BigNum(Component.ln(BigNum.abs(x, ctx).components[0], ctx));
+		let phi = BigNum.arg(x, ctx).components[0];
+		if(branch !== 0)
+			phi = phi.add(Constants.pi(ctx).mul(Component.create(2 * branch), ctx), ctx);
+		const res = real.add(BigNum.unit(x, ctx).mul(new BigNum(phi), ctx), ctx);
+		return BigNum.round(res, context);
+	}
+
+	/**
+	 * Calculates all the \\( n \\)th roots of a given number with rounding
+	 * according to {@link mathenv.mode}.
+	 * 
+	 * **Method**:
+	 * 
+	 * The roots are the values of \\( e^{\frac{1}{n} \ln_k x} \\) on the
+	 * branches \\( k = 0, 1, \ldots, n - 1 \\) of the logarithm,
+	 * 
+	 * \\[ x_k = r^{1/n} \left( \cos \frac{\phi + 2 \pi k}{n} + \hat{v} \sin \frac{\phi + 2 \pi k}{n} \right) \\]
+	 * 
+	 * where \\( r \\) is the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument. The first one is the principal root. The roots of the higher
+	 * dimensional numbers lie in the plane of \\( x \\). A real number has
+	 * roots in every such plane, of which the ones in the complex plane are
+	 * returned.
+	 * @param x A number.
+	 * @param n The degree of the roots, a positive integer.
+	 * @returns The roots \\( x_0, x_1, \ldots, x_{n-1} \\).
+	 * @throws {TypeError} If `n` is not a positive integer.
+	 * @see {@link BigNum.ln}
+	 * @see [Notation](#notation)
+	 */
+	public static nthRoots(x: BigNum, n: number): BigNum[];
+	/**
+	 * Calculates all the \\( n \\)th roots of a given number with rounding
+	 * according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The roots are the values of \\( e^{\frac{1}{n} \ln_k x} \\) on the
+	 * branches \\( k = 0, 1, \ldots, n - 1 \\) of the logarithm,
+	 * 
+	 * \\[ x_k = r^{1/n} \left( \cos \frac{\phi + 2 \pi k}{n} + \hat{v} \sin \frac{\phi + 2 \pi k}{n} \right) \\]
+	 * 
+	 * where \\( r \\) is the absolute value of \\( x \\) and \\( \phi \\) its
+	 * argument. The first one is the principal root. The roots of the higher
+	 * dimensional numbers lie in the plane of \\( x \\). A real number has
+	 * roots in every such plane, of which the ones in the complex plane are
+	 * returned.
+	 * @param x A number.
+	 * @param n The degree of the roots, a positive integer.
+	 * @param context The context settings to use.
+	 * @returns The roots \\( x_0, x_1, \ldots, x_{n-1} \\).
+	 * @throws {TypeError} If `n` is not a positive integer.
+	 * @see {@link BigNum.ln}
+	 * @see [Notation](#notation)
+	 */
+	public static nthRoots(x: BigNum, n: number, context: MathContext): BigNum[];
+	/** @internal */
+	public static nthRoots(x: BigNum, n: number, ...args: any[]): BigNum[];
+	public static nthRoots(x: BigNum, n: number, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
+		if(!Number.isInteger(n) || n < 1)
+			throw new TypeError("The degree of a root must be a positive integer.");
+		const roots: BigNum[] = [];
+		if(x.components.every(c => c.sign === 0)) {
+			for(let k = 0; k < n; k++)
+				roots.push(BigNum.real(0));
+			return roots;
+		}
 		const ctx: MathContext = {
 			precision: 2 * context.precision,
 			rounding: context.rounding
 		};
-		const r = BigNum.abs(x, ctx).components[0];
+		// The squares of the components of a small number vanish among the
+		// decimal places, so the roots of x 10^(ns) are found and divided by 10^s.
+		const zeroes = Math.min(...x.components.filter(c => c.sign !== 0).map(c => /^-?$/.test(c.integer)? c.decimal.search(/[1-9]/): 0));
+		const shift = Math.floor(zeroes / n);
+		const y = x.mul(BigNum.real(`1e${n * shift}`), ctx);
+		const degree = Component.create(n);
+		const root = Component.exp(Component.ln(BigNum.abs(y, ctx).components[0], ctx).div(degree, ctx), ctx);
+		const r = root.mul(Component.create(`1e-${shift}`), {precision: ctx.precision + shift, rounding: ctx.rounding});
+		const phi = BigNum.arg(y, ctx).components[0];
+		const tau = Constants.pi(ctx).mul(Component.TWO, ctx);
+		const unit = BigNum.unit(y, ctx);
+		for(let k = 0; k < n; k++) {
+			const angle = phi.add(tau.mul(Component.create(k), ctx), ctx).div(degree, ctx);
+			const real = new BigNum(r.mul(Component.cos(angle, ctx), ctx));
+			const imag = new BigNum(r.mul(Component.sin(angle, ctx), ctx));
+			roots.push(BigNum.round(real.add(unit.mul(imag, ctx), ctx), context));
+		}
+		return roots;
+	}
+
+	/**
+	 * Calculates the gamma function of a given number with rounding according
+	 * to {@link mathenv.mode}.
+	 * 
+	 * **Method**:
+	 * 
+	 * The gamma function is analytic, so that
+	 * 
+	 * \\[ \Gamma(a + \hat{v} \theta) = \mathrm{Re} \, \Gamma(a + \imath \theta) + \hat{v} \, \mathrm{Im} \, \Gamma(a + \imath \theta) \\]
+	 * 
+	 * @param x A number.
+	 * @see {@link Gamma.gamma}
+	 * @see [Notation](#notation)
+	 */
+	public static gamma(x: BigNum): BigNum;
+	/**
+	 * Calculates the gamma function of a given number with rounding according
+	 * to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The gamma function is analytic, so that
+	 * 
+	 * \\[ \Gamma(a + \hat{v} \theta) = \mathrm{Re} \, \Gamma(a + \imath \theta) + \hat{v} \, \mathrm{Im} \, \Gamma(a + \imath \theta) \\]
+	 * 
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+	 * @see {@link Gamma.gamma}
+	 * @see [Notation](#notation)
+	 */
+	public static gamma(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static gamma(x: BigNum, ...args: any[]): BigNum;
+	public static gamma(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
 		const a = x.real.components[0];
 		const v = x.imag;
+		if(v.equals(BigNum.real("0"), context))
+			return new BigNum(Component.gamma(a, context));
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
 		const theta = BigNum.abs(v, ctx).components[0];
-		const v_hat = theta.equals(Component.ZERO, context)? BigNum.complex(0, 1): v.div(new BigNum(theta), ctx);
-		const real = new BigNum(Component.ln(r, ctx));
-		const imag = new BigNum(Component.atan2(theta, a, context));
-		const res = real.add(v_hat.mul(imag, ctx), ctx);
+		const v_hat = v.div(new BigNum(theta), ctx);
+		const [re, im] = Gamma.complexGamma(a, theta, ctx);
+		const res = new BigNum(re).add(v_hat.mul(new BigNum(im), ctx), ctx);
 		return BigNum.round(res, context);
 	}
+
+	/**
+	 * Calculates the logarithm of the gamma function of a given number with
+	 * rounding according to {@link mathenv.mode}. For real numbers this is
+	 * \\( \ln \lvert \Gamma(x) \rvert \\), and for the others the principal value
+	 * of \\( \ln \Gamma(x) \\).
+	 * @param x A number.
+	 * @see {@link Gamma.lgamma}
+	 * @see {@link Gamma.complexLgamma}
+	 */
+	public static lgamma(x: BigNum): BigNum;
+	/**
+	 * Calculates the logarithm of the gamma function of a given number with
+	 * rounding according to the given context settings. For real numbers this
+	 * is \\( \ln \lvert \Gamma(x) \rvert \\), and for the others the principal
+	 * value of \\( \ln \Gamma(x) \\).
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+	 * @see {@link Gamma.lgamma}
+	 * @see {@link Gamma.complexLgamma}
+	 */
+	public static lgamma(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static lgamma(x: BigNum, ...args: any[]): BigNum;
+	public static lgamma(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const a = x.real.components[0];
+		const v = x.imag;
+		if(v.equals(BigNum.real("0"), context))
+			return new BigNum(Component.lgamma(a, context));
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
+		const theta = BigNum.abs(v, ctx).components[0];
+		const v_hat = v.div(new BigNum(theta), ctx);
+		const [re, im] = Gamma.complexLgamma(a, theta, ctx);
+		const res = new BigNum(re).add(v_hat.mul(new BigNum(im), ctx), ctx);
+		return BigNum.round(res, context);
+	}
+
+	/**
+	 * Calculates the factorial of a given number with rounding according to
+	 * {@link mathenv.mode}.
+	 * @param n A number.
+	 * @see {@link Gamma.factorial}
+	 */
+	public static factorial(n: BigNum): BigNum;
+	/**
+	 * Calculates the factorial of a given number with rounding according to
+	 * the given context settings. For numbers that are not real it is
+	 * \\( \Gamma(n+1) \\).
+	 * @param n A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `n` is a negative integer.
+	 * @see {@link Gamma.factorial}
+	 */
+	public static factorial(n: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static factorial(n: BigNum, ...args: any[]): BigNum;
+	public static factorial(n: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(n.dim === 1)
+			return new BigNum(Component.factorial(n.components[0], context));
+		return BigNum.gamma(n.add(BigNum.real(1), context), context);
+	}
+
+	/**
+	 * Calculates the beta function with rounding according to {@link mathenv.mode}.
+	 * @param a A number.
+	 * @param b A number.
+	 * @see {@link Gamma.beta}
+	 */
+	public static beta(a: BigNum, b: BigNum): BigNum;
+	/**
+	 * Calculates the beta function with rounding according to the given context
+	 * settings. For numbers that are not real it is
+	 * \\( \Gamma(a) \Gamma(b) \Gamma(a+b)^{-1} \\), the products taken in that order.
+	 * @param a A number.
+	 * @param b A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `a` or `b` is zero or a negative integer.
+	 * @see {@link Gamma.beta}
+	 */
+	public static beta(a: BigNum, b: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static beta(a: BigNum, b: BigNum, ...args: any[]): BigNum;
+	public static beta(a: BigNum, b: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(a.dim === 1 && b.dim === 1)
+			return new BigNum(Component.beta(a.components[0], b.components[0], context));
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
+		return BigNum.round(BigNum.gammaRatio([a, b], [a.add(b, ctx)], "beta", ctx), context);
+	}
+
+	/**
+	 * Calculates the binomial coefficient with rounding according to
+	 * {@link mathenv.mode}.
+	 * @param n A number.
+	 * @param k A number.
+	 * @see {@link Gamma.binomial}
+	 */
+	public static binomial(n: BigNum, k: BigNum): BigNum;
+	/**
+	 * Calculates the binomial coefficient with rounding according to the given
+	 * context settings. For numbers that are not real it is
+	 * \\( \Gamma(n+1) \Gamma(k+1)^{-1} \Gamma(n-k+1)^{-1} \\), the products
+	 * taken in that order.
+	 * @param n A number.
+	 * @param k A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( n+1 \\) is a pole of the gamma
+	 * function and \\( k \\) is not an integer.
+	 * @see {@link Gamma.binomial}
+	 */
+	public static binomial(n: BigNum, k: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static binomial(n: BigNum, k: BigNum, ...args: any[]): BigNum;
+	public static binomial(n: BigNum, k: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(n.dim === 1 && k.dim === 1)
+			return new BigNum(Component.binomial(n.components[0], k.components[0], context));
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
+		const one = BigNum.real(1);
+		const ratio = BigNum.gammaRatio([n.add(one, ctx)], [k.add(one, ctx), n.sub(k, ctx).add(one, ctx)], "binomial", ctx);
+		return BigNum.round(ratio, context);
+	}
+
+	/**
+	 * Calculates the error function of a given number with rounding according
+	 * to {@link mathenv.mode}.
+	 * 
+	 * **Method**:
+	 * 
+	 * For the numbers that are not real, the Taylor series
+	 * 
+	 * \\[ \operatorname{erf} x = \frac{2}{\sqrt{\pi}} \sum_{n=0}^{\infty} \frac{(-1)^n x^{2n+1}}{n! (2n+1)} \\]
+	 * 
+	 * is summed up with as many more decimal places as the largest of its terms
+	 * has digits before the decimal point.
+	 * 
+	 * @param x A number.
+	 * @see {@link ErrorFunction.erf}
+	 */
+	public static erf(x: BigNum): BigNum;
+	/**
+	 * Calculates the error function of a given number with rounding according
+	 * to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For the numbers that are not real, the Taylor series
+	 * 
+	 * \\[ \operatorname{erf} x = \frac{2}{\sqrt{\pi}} \sum_{n=0}^{\infty} \frac{(-1)^n x^{2n+1}}{n! (2n+1)} \\]
+	 * 
+	 * is summed up with as many more decimal places as the largest of its terms
+	 * has digits before the decimal point.
+	 * 
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link ErrorFunction.erf}
+	 */
+	public static erf(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static erf(x: BigNum, ...args: any[]): BigNum;
+	public static erf(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(x.dim === 1)
+			return new BigNum(Component.erf(x.components[0], context));
+		const r = Number(BigNum.abs(x, context).components[0].toString());
+		const r2 = r * r;
+		const ctx: MathContext = {
+			precision: 2 * context.precision + Math.ceil(r2 / Math.LN10),
+			rounding: context.rounding
+		};
+		const x2 = x.mul(x, ctx);
+		let sum = BigNum.real(0);
+		let power = x;
+		for(let n = 0; ; n++) {
+			const term = power.div(BigNum.real(2 * n + 1), ctx);
+			if(n > r2 && term.equals(BigNum.real(0), ctx))
+				break;
+			sum = sum.add(term, ctx);
+			power = power.mul(x2, ctx).div(BigNum.real(-(n + 1)), ctx);
+		}
+		const factor = Component.TWO.div(Component.sqrt(Constants.pi(ctx), ctx), ctx);
+		return BigNum.round(sum.mul(new BigNum(factor), ctx), context);
+	}
+
+	/**
+	 * Calculates the complementary error function
+	 * \\( \operatorname{erfc} x = 1 - \operatorname{erf} x \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link ErrorFunction.erfc}
+	 */
+	public static erfc(x: BigNum): BigNum;
+	/**
+	 * Calculates the complementary error function
+	 * \\( \operatorname{erfc} x = 1 - \operatorname{erf} x \\) of a given number
+	 * with rounding according to the given context settings.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link ErrorFunction.erfc}
+	 */
+	public static erfc(x: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static erfc(x: BigNum, ...args: any[]): BigNum;
+	public static erfc(x: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(x.dim === 1)
+			return new BigNum(Component.erfc(x.components[0], context));
+		return BigNum.real(1).sub(BigNum.erf(x, context), context);
+	}
+
+	/**
+	 * Calculates the inverse error function of a given real number with
+	 * rounding according to {@link mathenv.mode}.
+	 * @param y A number in \\( (-1, 1) \\).
+	 * @see {@link ErrorFunction.erfinv}
+	 */
+	public static erfinv(y: BigNum): BigNum;
+	/**
+	 * Calculates the inverse error function of a given real number with
+	 * rounding according to the given context settings.
+	 * @param y A number in \\( (-1, 1) \\).
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `y` is not a real number in \\( (-1, 1) \\).
+	 * @see {@link ErrorFunction.erfinv}
+	 */
+	public static erfinv(y: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static erfinv(y: BigNum, ...args: any[]): BigNum;
+	public static erfinv(y: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(y.dim !== 1)
+			throw new UndefinedValue("erfinv (for reals)", y);
+		return new BigNum(Component.erfinv(y.components[0], context));
+	}
+
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) of
+	 * real numbers with rounding according to {@link mathenv.mode}.
+	 * @param x The upper limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @see {@link Gamma.lowergamma}
+	 */
+	public static lowergamma(x: BigNum, s: BigNum): BigNum;
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) of
+	 * real numbers with rounding according to the given context settings.
+	 * @param x The upper limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` or `s` is not a real number.
+	 * @see {@link Gamma.lowergamma}
+	 */
+	public static lowergamma(x: BigNum, s: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static lowergamma(x: BigNum, s: BigNum, ...args: any[]): BigNum;
+	public static lowergamma(x: BigNum, s: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const [a, b] = BigNum.reals("lowergamma", x, s);
+		return new BigNum(Component.lowergamma(a, b, context));
+	}
+
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) of
+	 * real numbers with rounding according to {@link mathenv.mode}.
+	 * @param x The lower limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @see {@link Gamma.uppergamma}
+	 */
+	public static uppergamma(x: BigNum, s: BigNum): BigNum;
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) of
+	 * real numbers with rounding according to the given context settings.
+	 * @param x The lower limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` or `s` is not a real number.
+	 * @see {@link Gamma.uppergamma}
+	 */
+	public static uppergamma(x: BigNum, s: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static uppergamma(x: BigNum, s: BigNum, ...args: any[]): BigNum;
+	public static uppergamma(x: BigNum, s: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const [a, b] = BigNum.reals("uppergamma", x, s);
+		return new BigNum(Component.uppergamma(a, b, context));
+	}
+
+	/**
+	 * Calculates the Riemann zeta function of a given number with rounding
+	 * according to {@link mathenv.mode}.
+	 * 
+	 * **Method**:
+	 * 
+	 * The zeta function is analytic, so that
+	 * 
+	 * \\[ \zeta(a + \hat{v} \theta) = \mathrm{Re} \, \zeta(a + \imath \theta) + \hat{v} \, \mathrm{Im} \, \zeta(a + \imath \theta) \\]
+	 * 
+	 * @param s A number.
+	 * @see {@link Zeta.zeta}
+	 * @see [Notation](#notation)
+	 */
+	public static zeta(s: BigNum): BigNum;
+	/**
+	 * Calculates the Riemann zeta function of a given number with rounding
+	 * according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The zeta function is analytic, so that
+	 * 
+	 * \\[ \zeta(a + \hat{v} \theta) = \mathrm{Re} \, \zeta(a + \imath \theta) + \hat{v} \, \mathrm{Im} \, \zeta(a + \imath \theta) \\]
+	 * 
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `s` is 1.
+	 * @see {@link Zeta.zeta}
+	 * @see [Notation](#notation)
+	 */
+	public static zeta(s: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static zeta(s: BigNum, ...args: any[]): BigNum;
+	public static zeta(s: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const {unit, values} = BigNum.plane("zeta", context, s);
+		return BigNum.fromPlane(Zeta.zeta(values[0], context), unit, context);
+	}
+
+	/**
+	 * Calculates the polylogarithm \\( \operatorname{Li}_s(z) \\) with
+	 * rounding according to {@link mathenv.mode}. The order and the argument
+	 * must lie in the same complex plane, that is, their imaginary parts must
+	 * be parallel.
+	 * @param s The order of the polylogarithm.
+	 * @param z A number.
+	 * @see {@link Zeta.polylog}
+	 * @see [Notation](#notation)
+	 */
+	public static polylog(s: BigNum, z: BigNum): BigNum;
+	/**
+	 * Calculates the polylogarithm \\( \operatorname{Li}_s(z) \\) with
+	 * rounding according to the given context settings. The order and the
+	 * argument must lie in the same complex plane, that is, their imaginary
+	 * parts must be parallel.
+	 * @param s The order of the polylogarithm.
+	 * @param z A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `s` and `z` do not lie in the same
+	 * complex plane, or if \\( z = 1 \\) and \\( \mathrm{Re}(s) \leqslant 1 \\).
+	 * @see {@link Zeta.polylog}
+	 * @see [Notation](#notation)
+	 */
+	public static polylog(s: BigNum, z: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static polylog(s: BigNum, z: BigNum, ...args: any[]): BigNum;
+	public static polylog(s: BigNum, z: BigNum, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const {unit, values} = BigNum.plane("polylog", context, s, z);
+		return BigNum.fromPlane(Zeta.polylog(values[0], values[1], context), unit, context);
+	}
+
+	/**
+	 * Calculates the principal branch \\( W_0 \\) of the Lambert W function
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param z A number.
+	 * @see {@link LambertW.lambertW}
+	 */
+	public static lambertW(z: BigNum): BigNum;
+	/**
+	 * Calculates the branch \\( W_k \\) of the Lambert W function with
+	 * rounding according to {@link mathenv.mode}.
+	 * 
+	 * For the numbers that are not real, the branches are taken in the plane
+	 * of the number, with \\( \hat{v} \\) in place of \\( \imath \\).
+	 * @param z A number.
+	 * @param branch The branch \\( k \\), an integer.
+	 * @see {@link LambertW.lambertW}
+	 * @see [Notation](#notation)
+	 */
+	public static lambertW(z: BigNum, branch: number): BigNum;
+	/**
+	 * Calculates the branch \\( W_k \\) of the Lambert W function with
+	 * rounding according to the given context settings.
+	 * 
+	 * For the numbers that are not real, the branches are taken in the plane
+	 * of the number, with \\( \hat{v} \\) in place of \\( \imath \\).
+	 * @param z A number.
+	 * @param branch The branch \\( k \\), an integer.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `z` is 0 and the branch is not the
+	 * principal one.
+	 * @see {@link LambertW.lambertW}
+	 * @see [Notation](#notation)
+	 */
+	public static lambertW(z: BigNum, branch: number, context: MathContext): BigNum;
+	/** @internal */
+	public static lambertW(z: BigNum, branch: number, ...args: any[]): BigNum;
+	public static lambertW(z: BigNum, branch = 0, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		const {unit, values} = BigNum.plane("lambertW", context, z);
+		const w = LambertW.lambertW(new BigNum(values[0].re, values[0].im), branch, context);
+		const [re, im] = [w.components[0], w.dim === 1? Component.ZERO: w.components[1]];
+		return BigNum.fromPlane({re, im}, unit, context);
+	}
+
+	/**
+	 * Calculates the Bessel function of the first kind \\( J_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.besselJ}
+	 */
+	public static besselJ(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the Bessel function of the first kind \\( J_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0 and `nu` is a
+	 * negative number other than an integer.
+	 * @see {@link Bessel.besselJ}
+	 * @see [Notation](#notation)
+	 */
+	public static besselJ(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static besselJ(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static besselJ(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.besselJ, "besselJ", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Calculates the Bessel function of the second kind \\( Y_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.besselY}
+	 */
+	public static besselY(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the Bessel function of the second kind \\( Y_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link Bessel.besselY}
+	 * @see [Notation](#notation)
+	 */
+	public static besselY(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static besselY(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static besselY(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.besselY, "besselY", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Calculates the modified Bessel function of the first kind \\( I_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.besselI}
+	 */
+	public static besselI(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the modified Bessel function of the first kind \\( I_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0 and `nu` is a
+	 * negative number other than an integer.
+	 * @see {@link Bessel.besselI}
+	 * @see [Notation](#notation)
+	 */
+	public static besselI(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static besselI(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static besselI(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.besselI, "besselI", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Calculates the modified Bessel function of the second kind \\( K_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.besselK}
+	 */
+	public static besselK(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the modified Bessel function of the second kind \\( K_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link Bessel.besselK}
+	 * @see [Notation](#notation)
+	 */
+	public static besselK(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static besselK(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static besselK(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.besselK, "besselK", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Calculates the spherical Bessel function of the first kind \\( j_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.sphericalJ}
+	 */
+	public static sphericalJ(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the spherical Bessel function of the first kind \\( j_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0 and `nu` is
+	 * negative.
+	 * @see {@link Bessel.sphericalJ}
+	 * @see [Notation](#notation)
+	 */
+	public static sphericalJ(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static sphericalJ(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static sphericalJ(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.sphericalJ, "sphericalJ", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Calculates the spherical Bessel function of the second kind \\( y_\nu(x) \\) of a given number
+	 * with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @see {@link Bessel.sphericalY}
+	 */
+	public static sphericalY(x: BigNum, nu: BigNum): BigNum;
+	/**
+	 * Calculates the spherical Bessel function of the second kind \\( y_\nu(x) \\) of a given number
+	 * with rounding according to the given context settings. The numbers
+	 * that are not real are mapped to the complex plane as in [[zeta]].
+	 * @param x A number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `nu` is not a real number.
+	 * @throws {@link UndefinedValue} If `x` is 0.
+	 * @see {@link Bessel.sphericalY}
+	 * @see [Notation](#notation)
+	 */
+	public static sphericalY(x: BigNum, nu: BigNum, context: MathContext): BigNum;
+	/** @internal */
+	public static sphericalY(x: BigNum, nu: BigNum, ...args: any[]): BigNum;
+	public static sphericalY(x: BigNum, nu: BigNum, ...args: any[]) {
+		return BigNum.bessel(Bessel.sphericalY, "sphericalY", x, nu, args[0] || mathenv.mode);
+	}
+
+	/**
+	 * Finds the plane \\( a + \hat{v} \theta \\) the given numbers lie in, and
+	 * their coordinates \\( a + \imath \theta \\) in the complex plane. The
+	 * real numbers lie in the complex plane itself.
+	 * @param name The name of the function evaluated.
+	 * @param context The context settings to use.
+	 * @param values The arguments of the function.
+	 * @throws {@link UndefinedValue} If the imaginary parts are not parallel.
+	 * @ignore
+	 */
+	private static plane(name: string, context: MathContext, ...values: BigNum[]) {
+		const ctx: MathContext = {
+			precision: 2 * context.precision,
+			rounding: context.rounding
+		};
+		const zero = BigNum.real(0);
+		const v = values.map(x => x.imag).find(v => !v.equals(zero, context));
+		if(v === undefined)
+			return {unit: BigNum.complex(0, 1), values: values.map((x): Complex => ({re: x.components[0], im: Component.ZERO}))};
+		// The complex numbers keep their orientation, as the branches of some
+		// functions are not symmetric under conjugation.
+		const unit = values.every(x => x.dim <= 2)? BigNum.complex(0, 1): v.div(BigNum.abs(v, ctx), ctx);
+		return {unit, values: values.map((x): Complex => {
+			const w = x.imag;
+			const n = Math.max(w.dim, unit.dim);
+			let theta = Component.ZERO;
+			for(let i = 1; i < n; i++)
+				theta = theta.add((w.components[i] || Component.ZERO).mul(unit.components[i] || Component.ZERO, ctx), ctx);
+			// The remainder has as many dimensions as x, so its components
+			// are compared with zero rather than the remainder with a real.
+			const remainder = BigNum.round(w.sub(unit.mul(new BigNum(theta), ctx), ctx), context);
+			if(remainder.components.some(c => c.sign !== 0))
+				throw new UndefinedValue(name, x);
+			return {re: x.components[0], im: theta};
+		})};
+	}
+
+	/**
+	 * Maps a complex number \\( a + \imath \theta \\) to \\( a + \hat{v} \theta \\).
+	 * @param x The complex number.
+	 * @param unit The unit \\( \hat{v} \\).
+	 * @param context The context settings to use.
+	 * @ignore
+	 */
+	private static fromPlane(x: Complex, unit: BigNum, context: MathContext) {
+		const res = new BigNum(x.re).add(unit.mul(new BigNum(x.im), context), context);
+		return BigNum.round(res, context);
+	}
+
+	/**
+	 * Evaluates one of the Bessel functions of the real order `nu` in the
+	 * plane of `x`.
+	 * @param f The function.
+	 * @param name The name of the function evaluated.
+	 * @param x The argument.
+	 * @param nu The order.
+	 * @param context The context settings to use.
+	 * @ignore
+	 */
+	private static bessel(f: (z: Complex, nu: Component, context: MathContext) => Complex, name: string, x: BigNum, nu: BigNum, context: MathContext) {
+		const [order] = BigNum.reals(name, nu);
+		const {unit, values} = BigNum.plane(name, context, x);
+		return BigNum.fromPlane(f(values[0], order, context), unit, context);
+	}
+
+	/**
+	 * The unit \\( \hat{v} \\) along the imaginary part of a number, which
+	 * is \\( \imath \\) for the real and complex numbers.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @ignore
+	 */
+	private static unit(x: BigNum, context: MathContext) {
+		if(x.dim <= 2)
+			return BigNum.complex(0, 1);
+		const v = x.imag;
+		const theta = BigNum.abs(v, context);
+		if(theta.equals(BigNum.real(0), context))
+			return BigNum.complex(0, 1);
+		return v.div(theta, context);
+	}
+
+	/**
+	 * Evaluates \\( r e^{\hat{v} \theta} \\).
+	 * @param name The name of the function evaluated.
+	 * @param r The absolute value.
+	 * @param theta The argument.
+	 * @param axis The axis \\( \hat{v} \\), which is \\( \imath \\) if not given.
+	 * @param context The context settings to use.
+	 * @ignore
+	 */
+	private static fromPolar(name: string, r: BigNum, theta: BigNum, axis: BigNum | undefined, context: MathContext) {
+		const [a, b] = BigNum.reals(name, r, theta);
+		// The errors in the sine and cosine grow with the absolute value.
+		const ctx: MathContext = {
+			precision: context.precision + 5 + a.integer.length,
+			rounding: context.rounding
+		};
+		const unit = axis === undefined? BigNum.complex(0, 1): BigNum.axis(name, axis, ctx);
+		const real = new BigNum(a.mul(Component.cos(b, ctx), ctx));
+		const imag = new BigNum(a.mul(Component.sin(b, ctx), ctx));
+		return BigNum.round(real.add(unit.mul(imag, ctx), ctx), context);
+	}
+
+	/**
+	 * Normalises the imaginary part of a number given as an axis.
+	 * @param name The name of the function evaluated.
+	 * @param axis The axis.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If the imaginary part of the axis is 0.
+	 * @ignore
+	 */
+	private static axis(name: string, axis: BigNum, context: MathContext) {
+		const v = axis.imag;
+		const theta = BigNum.abs(v, context);
+		if(theta.equals(BigNum.real(0), context))
+			throw new UndefinedValue(name, axis, "The axis must have an imaginary part.");
+		return v.div(theta, context);
+	}
+
+	/**
+	 * Returns the only components of the given numbers.
+	 * @param name The name of the function evaluated.
+	 * @param values The arguments of the function.
+	 * @throws {@link UndefinedValue} If any of the numbers is not real.
+	 * @ignore
+	 */
+	private static reals(name: string, ...values: BigNum[]) {
+		const complex = values.find(x => x.dim !== 1);
+		if(complex !== undefined)
+			throw new UndefinedValue(name + " (for reals)", complex);
+		return values.map(x => x.components[0]);
+	}
+
+	/**
+	 * Evaluates \\( \Gamma(p_1) \Gamma(p_2) \cdots \Gamma(q_1)^{-1} \Gamma(q_2)^{-1} \cdots \\)
+	 * where the ratio is 0 if any of the \\( q_i \\) is a pole of the gamma function.
+	 * @param p The arguments of the gamma functions in the numerator.
+	 * @param q The arguments of the gamma functions in the denominator.
+	 * @param name The name of the function evaluated.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If any of the \\( p_i \\) is a pole.
+	 * @ignore
+	 */
+	private static gammaRatio(p: BigNum[], q: BigNum[], name: string, context: MathContext) {
+		const isPole = (x: BigNum) => x.dim === 1 && x.components[0].sign <= 0 && Component.floor(x.components[0]).equals(x.components[0], context);
+		const pole = p.find(isPole);
+		if(pole !== undefined)
+			throw new UndefinedValue(name, pole);
+		if(q.some(isPole))
+			return BigNum.real(0);
+		let res = BigNum.real(1);
+		for(const x of p)
+			res = res.mul(BigNum.gamma(x, context), context);
+		for(const x of q)
+			res = res.mul(BigNum.gamma(x, context).inv(context), context);
+		return res;
+	}
 }
 
 export namespace BigNum {
+	/**
+	 * Selects a branch of a multivalued function.
+	 */
+	export type BranchOptions = {
+		/**
+		 * The branch \\( k \\), an integer. The principal branch is 0.
+		 */
+		branch: number;
+	};
+
+	/**
+	 * The polar form \\( r e^{\hat{v} \theta} \\) of a number.
+	 */
+	export type Polar = {
+		/**
+		 * The absolute value \\( r \\).
+		 */
+		r: BigNum;
+		/**
+		 * The argument \\( \theta \\).
+		 */
+		theta: BigNum;
+		/**
+		 * The unit \\( \hat{v} \\) along the imaginary part.
+		 */
+		axis: BigNum;
+	};
+
 	/**
 	 * Creates a [[BigNum]] instance from the string representation of a real number.
 	 * 
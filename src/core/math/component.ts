@@ -1,12 +1,14 @@
-import { IndeterminateForm, DivisionByZero } from "../errors";
-import { parseNum, pad, decimate, align } from "./parsers";
+import { IndeterminateForm, DivisionByZero, UndefinedValue, NoConvergence } from "../errors";
+import { parseNum, pad } from "./parsers";
 import { MathContext, RoundingMode } from "./context";
 import { mathenv } from "../env";
 import { Numerical } from "../definitions";
 import { Exponent } from "./exponential/exponential";
 import { TrigCyclic } from "./trigonometry/circular";
 import { TrigHyperbolic } from "./trigonometry/hyperbolic";
-import { roundTo } from "./rounding";
+import { Gamma } from "./special/gamma";
+import { ErrorFunction } from "./special/erf";
+import { roundTo, decimalPlaces, power10 } from "./rounding";
 
 /**
  * Type of argument accepted by [[Component]] constructor.
@@ -17,14 +19,28 @@ type num1d = {
 	decimal: string
 }
 
+/**
+ * The unscaled digits of the numbers which have been operated on, so that the
+ * strings of a number are converted to a BigInt only once.
+ * @ignore
+ */
+const UNSCALED = new WeakMap<Component, bigint>();
+
+/**
+ * The most decimal places a function is evaluated with to find the
+ * significant digits of a small result.
+ * @ignore
+ */
+const MAX_SIGNIFICANT_PLACES = 1000000;
+
 /**
  * Immutable, arbitrary precision decimal numbers. A Component consists of an
  * integer part and a decimal part stored as string objects. The precision of
  * the number is completely controlled by the user. A [[MathContext]] object
- * helps to specify the number of decimal places (not significant figures) the
+ * helps to specify the number of decimal places or significant figures the
  * user wants and what rounding algorithm should be used. Every operation is
  * carried out by an intermediate result which is then rounded to the preferred
- * number of decimal places using the preferred rounding algorithm.
+ * number of digits using the preferred rounding algorithm.
  */
 export class Component extends Numerical {
 
@@ -32,6 +48,7 @@ export class Component extends Numerical {
 	 * The circle constant \\( \pi \\) correct up to 100 decimal places.
 	 * 
 	 * Source: http://paulbourke.net/miscellaneous/numbers/
+	 * @see [[Constants.pi]] for any precision.
 	 */
 	public static PI = new Component({integer: "3", decimal: "1415926535897932384626433832795028841971693993751058209749445923078164062862089986280348253421170679"});
 
@@ -39,6 +56,7 @@ export class Component extends Numerical {
 	 * The constant Euler's number (\\( e \\)) correct up to 100 decimal places.
 	 * 
 	 * Source: http://paulbourke.net/miscellaneous/numbers/
+	 * @see [[Constants.e]] for any precision.
 	 */
 	public static E = new Component({integer: "2", decimal: "7182818284590452353602874713526624977572470936999595749669676277240766303535475945713821785251664274"});
 
@@ -47,11 +65,13 @@ export class Component extends Numerical {
 	 * in very handy for natural base to common base logarithm.
 	 * 
 	 * Source: http://paulbourke.net/miscellaneous/numbers/
+	 * @see [[Constants.ln10]] for any precision.
 	 */
 	public static ln10 = new Component({integer: "2", decimal: "3025850929940456840179914546843642076011014886287729760333279009675726096773524802359972050895982983"});
 
 	/**
 	 * The natural logarithm of \\( 2 \\) correct up to 100 decimal places.
+	 * @see [[Constants.ln2]] for any precision.
 	 */
 	public static ln2 = new Component({integer: "", decimal: "6931471805599453094172321214581765680755001343602552541206800094933936219696947156058633269964186875"})
 
@@ -137,7 +157,67 @@ export class Component extends Numerical {
 	 * @ignore
 	 */
 	private get asBigInt() {
-		return BigInt(this.asString);
+		let num = UNSCALED.get(this);
+		if(num === undefined) {
+			num = BigInt(this.asString);
+			UNSCALED.set(this, num);
+		}
+		return num;
+	}
+
+	/**
+	 * Returns this number as a BigInt instance scaled by \\( 10^{places} \\).
+	 * @param places The number of decimal places, not less than the precision
+	 * of this number.
+	 * @ignore
+	 */
+	private scaledTo(places: number) {
+		const num = this.asBigInt;
+		return places === this.precision? num: num * power10(places - this.precision);
+	}
+
+	/**
+	 * Creates a number from its unscaled digits without going through the
+	 * parsing done by [[Component.create]].
+	 * @param num The digits of the number as an integer.
+	 * @param scale The number of digits of `num` after the decimal point.
+	 * @ignore
+	 */
+	private static fromUnscaled(num: bigint, scale: number) {
+		const negative = num < 0;
+		let digits = (negative? -num: num).toString();
+		if(digits.length <= scale)
+			digits = pad(digits, scale - digits.length + 1, "0", "start");
+		const point = digits.length - scale;
+		let end = digits.length;
+		while(end > point && digits.charAt(end - 1) === "0")
+			end--;
+		let integer = digits.substring(0, point).replace(/^0+/, "");
+		const decimal = digits.substring(point, end);
+		if(negative && (integer !== "" || decimal !== ""))
+			integer = "-" + integer;
+		const res = new Component({integer, decimal});
+		if(decimal.length === scale)
+			UNSCALED.set(res, num);
+		return res;
+	}
+
+	/**
+	 * Rounds off a number given by its unscaled digits according to the given
+	 * context settings.
+	 * @param num The digits of the number as an integer.
+	 * @param scale The number of digits of `num` after the decimal point.
+	 * @param context The context settings to use.
+	 * @ignore
+	 */
+	private static rounded(num: bigint, scale: number, context: MathContext) {
+		const places = decimalPlaces(num, scale, context);
+		if(scale <= places)
+			return Component.fromUnscaled(num, scale);
+		const r = roundTo(num, scale - places, context.rounding);
+		if(places < 0)
+			return Component.fromUnscaled(r * power10(-places), 0);
+		return Component.fromUnscaled(r, places);
 	}
 
 	/**
@@ -148,6 +228,15 @@ export class Component extends Numerical {
 		return this.decimal.length;
 	}
 
+	/**
+	 * The power of 10 of the leading digit of this number, 0 for zero.
+	 * @ignore
+	 */
+	private get exponent() {
+		const digits = this.asString.replace(/^-?0*/, "");
+		return digits.length === 0? 0: digits.length - 1 - this.precision;
+	}
+
 	/**
 	 * The sign of this number.
 	 */
@@ -168,25 +257,68 @@ export class Component extends Numerical {
 	/** @internal */
 	public static abs(x: Component, ...args: any[]): Component;
 	public static abs(x: Component, ...args: any[]) {
-		return x.integer.charAt(0) === "-"? Component.create(x.integer.substring(1) + "." + x.decimal): x;
+		return x.integer.charAt(0) === "-"? x.neg: x;
 	}
 
 	/**
 	 * Rounds off a given number according to some {@link MathContext}. The different
 	 * rounding algorithms implemented are heavily influenced by the
 	 * [Java implementation of the same](https://docs.oracle.com/javase/8/docs/api/java/math/RoundingMode.html).
+	 * 
+	 * If the precision counts significant digits, the digits from the leading
+	 * non-zero digit are kept, the discarded ones before the decimal point
+	 * being replaced by zeroes.
 	 * @param x The number to round off.
 	 * @param context The {@link MathContext} which defines how the number is to be rounded.
 	 * @returns The number representing the rounded value of the argument according to the given context.
 	 * @see {@link RoundingMode}
 	 */
 	public static round(x: Component, context: MathContext) {
-		if(x.precision <= context.precision)
+		if(x.precision <= decimalPlaces(x.asBigInt, x.precision, context))
 			return x;
-		const num = x.asBigInt;
-		const diff = x.precision - context.precision;
-		const r = roundTo(num, diff, context.rounding).toString();
-		return Component.create(decimate(r, context.precision));
+		return Component.rounded(x.asBigInt, x.precision, context);
+	}
+
+	/**
+	 * Evaluates a function whose algorithm works with a number of decimal
+	 * places. If the precision counts significant digits, the function is
+	 * evaluated with as many decimal places as its result needs to have that
+	 * many significant digits. The result is rounded according to the given
+	 * context settings.
+	 * @param f The function to evaluate.
+	 * @param x The argument of the function. The smaller it is the more
+	 * decimal places the first attempt is made with.
+	 * @param context The context settings to use.
+	 * @param exponent An estimate of the power of 10 of the result, for the
+	 * functions whose results are far smaller than their arguments. Such a
+	 * result is never zero.
+	 * @throws {@link NoConvergence} If the result does not settle within a
+	 * few attempts, or vanishes at every attempt although it is estimated.
+	 * @ignore
+	 */
+	private static evaluate(f: (context: MathContext) => Component, x: Component, context: MathContext, exponent?: number) {
+		if(context.precisionType !== "significant")
+			return f(context);
+		const digits = context.precision + 5;
+		let places = digits - Math.min(0, x.exponent, exponent === undefined? 0: exponent - 1);
+		let vanished = true;
+		for(let attempt = 0; attempt < 6 && places <= MAX_SIGNIFICANT_PLACES; attempt++) {
+			const res = f({precision: places, rounding: context.rounding});
+			if(res.sign === 0) {
+				places *= 2;
+				continue;
+			}
+			vanished = false;
+			const needed = digits - 1 - res.exponent;
+			if(needed <= places)
+				return Component.round(res, context);
+			places = needed;
+		}
+		// Without an estimate, a result which vanishes at every attempt is
+		// taken to be zero, as sin(0).
+		if(vanished && exponent === undefined)
+			return Component.ZERO;
+		throw new NoConvergence("evaluate", "The result has too many leading zeroes.");
 	}
 
 	/**
@@ -197,8 +329,8 @@ export class Component extends Numerical {
 	 * @param that Number to compare with.
 	 */
 	public compareTo(that: Component) {
-		const [a, b] = align(this.asString, that.asString, "0", this.precision - that.precision);
-		const x = BigInt(a) - BigInt(b);
+		const places = Math.max(this.precision, that.precision);
+		const x = this.scaledTo(places) - that.scaledTo(places);
 		return x > 0? 1: x < 0? -1: 0;
 	}
 
@@ -275,9 +407,7 @@ export class Component extends Numerical {
 	 * The negative value of `this`.
 	 */
 	public get neg() {
-		if(this.integer.charAt(0) === "-")
-			return Component.create(this.integer.substring(1) + "." + this.decimal);
-		return Component.create("-" + this.toString());
+		return Component.fromUnscaled(-this.asBigInt, this.precision);
 	}
 
 	/**
@@ -301,11 +431,9 @@ export class Component extends Numerical {
 	public add(that: Component, ...args: any[]): Component;
 	public add(that: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		const [a, b] = align(this.asString, that.asString, "0", this.precision - that.precision);
-		const sum = (BigInt(a) + BigInt(b)).toString();
 		const precision = Math.max(this.precision, that.precision);
-		const res = Component.create(decimate(sum, precision));
-		return Component.round(res, context);
+		const sum = this.scaledTo(precision) + that.scaledTo(precision);
+		return Component.rounded(sum, precision, context);
 	}
 
 	/**
@@ -329,11 +457,9 @@ export class Component extends Numerical {
 	public sub(that: Component, ...args: any[]): Component;
 	public sub(that: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		const [a, b] = align(this.asString, that.asString, "0", this.precision - that.precision);
-		const sum = (BigInt(a) - BigInt(b)).toString();
 		const precision = Math.max(this.precision, that.precision);
-		const res = Component.create(decimate(sum, precision));
-		return Component.round(res, context);
+		const diff = this.scaledTo(precision) - that.scaledTo(precision);
+		return Component.rounded(diff, precision, context);
 	}
 
 	/**
@@ -357,10 +483,8 @@ export class Component extends Numerical {
 	public mul(that: Component, ...args: any[]): Component;
 	public mul(that: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		const prod = (this.asBigInt * that.asBigInt).toString();
-		const precision = this.precision + that.precision;
-		const res = Component.create(decimate(prod, precision));
-		return Component.round(res, context);
+		const prod = this.asBigInt * that.asBigInt;
+		return Component.rounded(prod, this.precision + that.precision, context);
 	}
 
 	/**
@@ -387,13 +511,19 @@ export class Component extends Numerical {
 				throw new IndeterminateForm("Cannot determine 0/0.");
 			throw new DivisionByZero("Cannot divide by zero.");
 		}
-		const precision = context.precision;
+		// With significant digits the quotient needs a digit to be rounded off
+		// beyond the ones kept.
+		const precision = context.precisionType === "significant"?
+			Math.max(0, context.precision + 1 - this.exponent + that.exponent):
+			context.precision;
 		const p1 = this.precision, p2 = that.precision, p = precision - p1 + p2;
-		const a = p < 0? this.asBigInt: BigInt(pad(this.asString, p, "0", "end"));
-		const b = that.asBigInt;
-		const quo = (a / b).toString();
-		const res = Component.create(decimate(quo, (p < 0)? p1: precision));
-		return Component.round(res, context);
+		const a = p < 0? this.asBigInt: this.asBigInt * power10(p);
+		// Multiplying by a reciprocal found by Newton's iteration never beat
+		// the BigInt division of V8 (Node 20), which is subquadratic itself:
+		// dividing 2n by n digits took 6.3, 2.9, 1.8 and 1.6 times as long for
+		// n = 200, 10000, 100000 and 200000.
+		const quo = a / that.asBigInt;
+		return Component.rounded(quo, (p < 0)? p1 - p2: precision, context);
 	}
 
 	/**
@@ -467,7 +597,31 @@ export class Component extends Numerical {
 	public pow(ex: Component, ...args: any[]): Component;
 	public pow(ex: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return Exponent.pow(this, ex, context);
+		return Component.evaluate(ctx => Exponent.pow(this, ex, ctx), this, context);
+	}
+
+	/**
+	 * Calculates the square root of a non-negative number with rounding
+	 * according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link Exponent.pow}
+	 */
+	public static sqrt(x: Component): Component;
+	/**
+	 * Calculates the square root of a non-negative number with rounding
+	 * according to the given context settings.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link Exponent.pow}
+	 */
+	public static sqrt(x: Component, context: MathContext): Component;
+	/** @internal */
+	public static sqrt(x: Component, ...args: any[]): Component;
+	public static sqrt(x: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		if(x.lessThan(Component.ZERO))
+			throw new UndefinedValue("sqrt (for reals)", x);
+		return Component.evaluate(ctx => Exponent.pow(x, Component.create("0.5"), ctx), x, context);
 	}
 
 	/**
@@ -507,7 +661,7 @@ export class Component extends Numerical {
 	public static exp(x: Component, ...args: any[]): Component;
 	public static exp(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return Exponent.exp(x, context);
+		return Component.evaluate(ctx => Exponent.exp(x, ctx), x, context, Math.floor(Number(x.toString()) / Math.LN10));
 	}
 
 	/**
@@ -529,7 +683,7 @@ export class Component extends Numerical {
 	public static ln(x: Component, ...args: any[]): Component;
 	public static ln(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return Exponent.ln(x, context);
+		return Component.evaluate(ctx => Exponent.ln(x, ctx), x, context);
 	}
 
 	/**
@@ -550,7 +704,7 @@ export class Component extends Numerical {
 	public static sin(x: Component, ...args: any[]): Component;
 	public static sin(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.sin(x, context);
+		return Component.evaluate(ctx => TrigCyclic.sin(x, ctx), x, context);
 	}
 
 	/**
@@ -572,7 +726,7 @@ export class Component extends Numerical {
 	public static cos(x: Component, ...args: any[]): Component;
 	public static cos(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.cos(x, context);
+		return Component.evaluate(ctx => TrigCyclic.cos(x, ctx), x, context);
 	}
 
 	/**
@@ -594,7 +748,7 @@ export class Component extends Numerical {
 	public static tan(x: Component, ...args: any[]): Component;
 	public static tan(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.tan(x, context);
+		return Component.evaluate(ctx => TrigCyclic.tan(x, ctx), x, context);
 	}
 
 	/**
@@ -616,7 +770,7 @@ export class Component extends Numerical {
 	public static asin(x: Component, ...args: any[]): Component;
 	public static asin(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.asin(x, context);
+		return Component.evaluate(ctx => TrigCyclic.asin(x, ctx), x, context);
 	}
 
 	/**
@@ -638,7 +792,7 @@ export class Component extends Numerical {
 	public static acos(x: Component, ...args: any[]): Component;
 	public static acos(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.acos(x, context);
+		return Component.evaluate(ctx => TrigCyclic.acos(x, ctx), x, context);
 	}
 
 	/**
@@ -660,7 +814,7 @@ export class Component extends Numerical {
 	public static atan(x: Component, ...args: any[]): Component;
 	public static atan(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.atan(x, context);
+		return Component.evaluate(ctx => TrigCyclic.atan(x, ctx), x, context);
 	}
 
 	/**
@@ -694,7 +848,7 @@ export class Component extends Numerical {
 	public static atan2(y: Component, x: Component, ...args: any[]): Component;
 	public static atan2(y: Component, x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigCyclic.atan2(y, x, context);
+		return Component.evaluate(ctx => TrigCyclic.atan2(y, x, ctx), y, context);
 	}
 
 	/**
@@ -714,7 +868,7 @@ export class Component extends Numerical {
 	public static sinh(x: Component, ...args: any[]): Component;
 	public static sinh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.sinh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.sinh(x, ctx), x, context);
 	}
 
 	/**
@@ -734,7 +888,7 @@ export class Component extends Numerical {
 	public static cosh(x: Component, ...args: any[]): Component;
 	public static cosh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.cosh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.cosh(x, ctx), x, context);
 	}
 
 	/**
@@ -754,7 +908,7 @@ export class Component extends Numerical {
 	public static tanh(x: Component, ...args: any[]): Component;
 	public static tanh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.tanh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.tanh(x, ctx), x, context);
 	}
 
 	/**
@@ -775,7 +929,7 @@ export class Component extends Numerical {
 	public static asinh(x: Component, ...args: any[]): Component;
 	public static asinh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.asinh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.asinh(x, ctx), x, context);
 	}
 
 	/**
@@ -797,7 +951,7 @@ export class Component extends Numerical {
 	public static acosh(x: Component, ...args: any[]): Component;
 	public static acosh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.acosh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.acosh(x, ctx), x, context);
 	}
 
 	/**
@@ -818,7 +972,230 @@ export class Component extends Numerical {
 	public static atanh(x: Component, ...args: any[]): Component;
 	public static atanh(x: Component, ...args: any[]) {
 		const context = args[0] || mathenv.mode;
-		return TrigHyperbolic.atanh(x, context);
+		return Component.evaluate(ctx => TrigHyperbolic.atanh(x, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the gamma function with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link Gamma.gamma}
+	 */
+	public static gamma(x: Component): Component;
+	/**
+	 * Calculates the gamma function with rounding according to the given
+	 * context.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.gamma}
+	 */
+	public static gamma(x: Component, context: MathContext): Component;
+	/** @internal */
+	public static gamma(x: Component, ...args: any[]): Component;
+	public static gamma(x: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.gamma(x, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the natural logarithm of the absolute value of the gamma
+	 * function with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link Gamma.lgamma}
+	 */
+	public static lgamma(x: Component): Component;
+	/**
+	 * Calculates the natural logarithm of the absolute value of the gamma
+	 * function with rounding according to the given context.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.lgamma}
+	 */
+	public static lgamma(x: Component, context: MathContext): Component;
+	/** @internal */
+	public static lgamma(x: Component, ...args: any[]): Component;
+	public static lgamma(x: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.lgamma(x, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the factorial with rounding according to {@link mathenv.mode}.
+	 * @param n A number.
+	 * @see {@link Gamma.factorial}
+	 */
+	public static factorial(n: Component): Component;
+	/**
+	 * Calculates the factorial with rounding according to the given context.
+	 * @param n A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.factorial}
+	 */
+	public static factorial(n: Component, context: MathContext): Component;
+	/** @internal */
+	public static factorial(n: Component, ...args: any[]): Component;
+	public static factorial(n: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.factorial(n, ctx), n, context);
+	}
+
+	/**
+	 * Calculates the beta function with rounding according to {@link mathenv.mode}.
+	 * @param a A number.
+	 * @param b A number.
+	 * @see {@link Gamma.beta}
+	 */
+	public static beta(a: Component, b: Component): Component;
+	/**
+	 * Calculates the beta function with rounding according to the given
+	 * context.
+	 * @param a A number.
+	 * @param b A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.beta}
+	 */
+	public static beta(a: Component, b: Component, context: MathContext): Component;
+	/** @internal */
+	public static beta(a: Component, b: Component, ...args: any[]): Component;
+	public static beta(a: Component, b: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.beta(a, b, ctx), a, context);
+	}
+
+	/**
+	 * Calculates the binomial coefficient with rounding according to
+	 * {@link mathenv.mode}.
+	 * @param n A number.
+	 * @param k A number.
+	 * @see {@link Gamma.binomial}
+	 */
+	public static binomial(n: Component, k: Component): Component;
+	/**
+	 * Calculates the binomial coefficient with rounding according to the given
+	 * context.
+	 * @param n A number.
+	 * @param k A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.binomial}
+	 */
+	public static binomial(n: Component, k: Component, context: MathContext): Component;
+	/** @internal */
+	public static binomial(n: Component, k: Component, ...args: any[]): Component;
+	public static binomial(n: Component, k: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.binomial(n, k, ctx), n, context);
+	}
+
+	/**
+	 * Calculates the error function with rounding according to {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link ErrorFunction.erf}
+	 */
+	public static erf(x: Component): Component;
+	/**
+	 * Calculates the error function with rounding according to the given
+	 * context.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link ErrorFunction.erf}
+	 */
+	public static erf(x: Component, context: MathContext): Component;
+	/** @internal */
+	public static erf(x: Component, ...args: any[]): Component;
+	public static erf(x: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => ErrorFunction.erf(x, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the complementary error function with rounding according to
+	 * {@link mathenv.mode}.
+	 * @param x A number.
+	 * @see {@link ErrorFunction.erfc}
+	 */
+	public static erfc(x: Component): Component;
+	/**
+	 * Calculates the complementary error function with rounding according to
+	 * the given context.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see {@link ErrorFunction.erfc}
+	 */
+	public static erfc(x: Component, context: MathContext): Component;
+	/** @internal */
+	public static erfc(x: Component, ...args: any[]): Component;
+	public static erfc(x: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => ErrorFunction.erfc(x, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the inverse error function with rounding according to
+	 * {@link mathenv.mode}.
+	 * @param y A number in \\( (-1, 1) \\).
+	 * @see {@link ErrorFunction.erfinv}
+	 */
+	public static erfinv(y: Component): Component;
+	/**
+	 * Calculates the inverse error function with rounding according to the
+	 * given context.
+	 * @param y A number in \\( (-1, 1) \\).
+	 * @param context The context settings to use.
+	 * @see {@link ErrorFunction.erfinv}
+	 */
+	public static erfinv(y: Component, context: MathContext): Component;
+	/** @internal */
+	public static erfinv(y: Component, ...args: any[]): Component;
+	public static erfinv(y: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => ErrorFunction.erfinv(y, ctx), y, context);
+	}
+
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) with
+	 * rounding according to {@link mathenv.mode}.
+	 * @param x The upper limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @see {@link Gamma.lowergamma}
+	 */
+	public static lowergamma(x: Component, s: Component): Component;
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) with
+	 * rounding according to the given context.
+	 * @param x The upper limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.lowergamma}
+	 */
+	public static lowergamma(x: Component, s: Component, context: MathContext): Component;
+	/** @internal */
+	public static lowergamma(x: Component, s: Component, ...args: any[]): Component;
+	public static lowergamma(x: Component, s: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.lowergamma(x, s, ctx), x, context);
+	}
+
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) with
+	 * rounding according to {@link mathenv.mode}.
+	 * @param x The lower limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @see {@link Gamma.uppergamma}
+	 */
+	public static uppergamma(x: Component, s: Component): Component;
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) with
+	 * rounding according to the given context.
+	 * @param x The lower limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @see {@link Gamma.uppergamma}
+	 */
+	public static uppergamma(x: Component, s: Component, context: MathContext): Component;
+	/** @internal */
+	public static uppergamma(x: Component, s: Component, ...args: any[]): Component;
+	public static uppergamma(x: Component, s: Component, ...args: any[]) {
+		const context = args[0] || mathenv.mode;
+		return Component.evaluate(ctx => Gamma.uppergamma(x, s, ctx), x, context);
 	}
 
 	/**
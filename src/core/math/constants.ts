@@ -0,0 +1,268 @@
+import { MathContext } from "./context";
+import { Component } from "./component";
+import { mathenv } from "../env";
+import { decimate } from "./parsers";
+import { power10 } from "./rounding";
+
+/**
+ * The extra digits the constants are computed with before they are rounded
+ * according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * The result of summing up a range of terms of a hypergeometric series by
+ * binary splitting.
+ * @ignore
+ */
+type Split = {P: bigint, Q: bigint, B: bigint, T: bigint};
+
+/**
+ * Sums up the terms \\( n_1 \leqslant n < n_2 \\) of a series
+ * \\[ S = \sum_n \frac{a(n)}{b(n)} \frac{p(0) \cdots p(n)}{q(0) \cdots q(n)} \\]
+ * by binary splitting, so that the sum is \\( T / (B Q) \\). The sums of the
+ * two halves of the range are combined with a few multiplications of large
+ * integers instead of adding up one term at a time.
+ * @param n1 The first term.
+ * @param n2 The term after the last one.
+ * @param term The values \\( [a(n), b(n), p(n), q(n)] \\).
+ * @ignore
+ */
+function split(n1: number, n2: number, term: (n: number) => bigint[]): Split {
+	if(n2 - n1 === 1) {
+		const [a, b, p, q] = term(n1);
+		return {P: p, Q: q, B: b, T: a * p};
+	}
+	const m = Math.floor((n1 + n2) / 2);
+	const l = split(n1, m, term), r = split(m, n2, term);
+	return {
+		P: l.P * r.P,
+		Q: l.Q * r.Q,
+		B: l.B * r.B,
+		T: r.B * r.Q * l.T + l.B * l.P * r.T
+	};
+}
+
+/**
+ * Evaluates the integer square root of a non negative integer by Newton's
+ * method.
+ * @ignore
+ */
+function isqrt(n: bigint) {
+	const one = BigInt(1), two = BigInt(2);
+	if(n <= one)
+		return n;
+	let x = BigInt("1" + "0".repeat(Math.ceil(n.toString().length / 2)));
+	while(true) {
+		const y = (x + n / x) / two;
+		if(y >= x)
+			return x;
+		x = y;
+	}
+}
+
+/**
+ * Evaluates \\( \tanh^{-1} (1/x) \\) scaled by \\( 10^{digits} \\) from the series
+ * \\[ \tanh^{-1} \frac{1}{x} = \sum_{n=0}^{\infty} \frac{1}{(2n+1) x^{2n+1}} \\]
+ * @param x An integer more than 1.
+ * @param digits The number of digits after the decimal point.
+ * @ignore
+ */
+function acoth(x: number, digits: number) {
+	const one = BigInt(1), X = BigInt(x);
+	const terms = Math.ceil(digits / (2 * Math.log10(x))) + 1;
+	const s = split(0, terms, n => [one, BigInt(2 * n + 1), one, n === 0? one: X * X]);
+	return s.T * power10(digits) / (s.B * s.Q * X);
+}
+
+/**
+ * Evaluates \\( \ln 2 \\) scaled by \\( 10^{digits} \\).
+ * @param digits The number of digits after the decimal point.
+ * @ignore
+ */
+function log2(digits: number) {
+	return BigInt(18) * acoth(26, digits) - BigInt(2) * acoth(4801, digits) + BigInt(8) * acoth(8749, digits);
+}
+
+/**
+ * The constants computed so far with their guard digits, keyed by the
+ * precision they were asked for.
+ * @ignore
+ */
+const CACHE = {
+	pi: new Map<number, Component>(),
+	e: new Map<number, Component>(),
+	ln2: new Map<number, Component>(),
+	ln10: new Map<number, Component>(),
+	eulerGamma: new Map<number, Component>()
+};
+
+/**
+ * Looks up a constant in the cache, computing it with a few guard digits if
+ * it has not been asked for with this precision before, and rounds it.
+ * @param name The name of the constant.
+ * @param compute Computes the constant scaled by \\( 10^{digits} \\).
+ * @param context The context settings to use.
+ * @ignore
+ */
+function cached(name: keyof typeof CACHE, compute: (digits: number) => bigint, context: MathContext) {
+	let value = CACHE[name].get(context.precision);
+	if(value === undefined) {
+		const digits = context.precision + GUARD_DIGITS;
+		value = Component.create(decimate(compute(digits).toString(), digits));
+		CACHE[name].set(context.precision, value);
+	}
+	return Component.round(value, context);
+}
+
+/**
+ * Mathematical constants computed to any precision. Every constant is
+ * computed once for each precision it is asked for and cached. Unlike the
+ * fixed values [[Component.PI]], [[Component.E]], [[Component.ln2]] and
+ * [[Component.ln10]], which are correct up to 100 decimal places, these may
+ * be used with context settings of any precision.
+ */
+export namespace Constants {
+	/**
+	 * Evaluates the circle constant \\( \pi \\) with rounding according to
+	 * {@link mathenv.mode}.
+	 */
+	export function pi(): Component;
+	/**
+	 * Evaluates the circle constant \\( \pi \\) with rounding according to the
+	 * given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The Chudnovsky series,
+	 * \\[ \frac{1}{\pi} = \frac{12}{640320^{3/2}} \sum_{n=0}^{\infty} \frac{(-1)^n (6n)! (13591409 + 545140134 n)}{(3n)! (n!)^3 640320^{3n}} \\]
+	 * each term of which adds about 14 digits, summed up by binary splitting.
+	 * @param context The context settings to use.
+	 */
+	export function pi(context: MathContext): Component;
+	export function pi(context=mathenv.mode) {
+		return cached("pi", digits => {
+			const one = BigInt(1), C = BigInt(640320);
+			const C3_24 = C * C * C / BigInt(24);
+			const terms = Math.ceil(digits / 14) + 1;
+			const s = split(0, terms, n => {
+				if(n === 0)
+					return [BigInt(13591409), one, one, one];
+				const N = BigInt(n);
+				return [
+					BigInt(13591409) + BigInt(545140134) * N,
+					one,
+					-BigInt(6 * n - 5) * BigInt(2 * n - 1) * BigInt(6 * n - 1),
+					N * N * N * C3_24
+				];
+			});
+			const sqrt10005 = isqrt(BigInt(10005) * power10(2 * digits));
+			return BigInt(426880) * sqrt10005 * s.Q / s.T;
+		}, context);
+	}
+
+	/**
+	 * Evaluates Euler's number \\( e \\) with rounding according to
+	 * {@link mathenv.mode}.
+	 */
+	export function e(): Component;
+	/**
+	 * Evaluates Euler's number \\( e \\) with rounding according to the given
+	 * context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * \\[ e = \sum_{n=0}^{\infty} \frac{1}{n!} \\]
+	 * summed up by binary splitting.
+	 * @param context The context settings to use.
+	 */
+	export function e(context: MathContext): Component;
+	export function e(context=mathenv.mode) {
+		return cached("e", digits => {
+			const one = BigInt(1);
+			// Enough terms for n! to exceed the precision.
+			let terms = 1;
+			for(let log = 0; log <= digits; terms++)
+				log += Math.log10(terms);
+			const s = split(0, terms, n => [one, one, one, n === 0? one: BigInt(n)]);
+			return s.T * power10(digits) / (s.B * s.Q);
+		}, context);
+	}
+
+	/**
+	 * Evaluates the natural logarithm of 2 with rounding according to
+	 * {@link mathenv.mode}.
+	 */
+	export function ln2(): Component;
+	/**
+	 * Evaluates the natural logarithm of 2 with rounding according to the given
+	 * context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * \\[ \ln 2 = 18 \tanh^{-1} \frac{1}{26} - 2 \tanh^{-1} \frac{1}{4801} + 8 \tanh^{-1} \frac{1}{8749} \\]
+	 * where each series is summed up by binary splitting.
+	 * @param context The context settings to use.
+	 */
+	export function ln2(context: MathContext): Component;
+	export function ln2(context=mathenv.mode) {
+		return cached("ln2", log2, context);
+	}
+
+	/**
+	 * Evaluates the natural logarithm of 10 with rounding according to
+	 * {@link mathenv.mode}.
+	 */
+	export function ln10(): Component;
+	/**
+	 * Evaluates the natural logarithm of 10 with rounding according to the
+	 * given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * \\[ \ln 10 = 3 \ln 2 + \ln \frac{5}{4} = 3 \ln 2 + 2 \tanh^{-1} \frac{1}{9} \\]
+	 * @param context The context settings to use.
+	 * @see [[ln2]]
+	 */
+	export function ln10(context: MathContext): Component;
+	export function ln10(context=mathenv.mode) {
+		return cached("ln10", digits => BigInt(3) * log2(digits) + BigInt(2) * acoth(9, digits), context);
+	}
+
+	/**
+	 * Evaluates the Euler-Mascheroni constant \\( \gamma \\) with rounding
+	 * according to {@link mathenv.mode}.
+	 */
+	export function eulerGamma(): Component;
+	/**
+	 * Evaluates the Euler-Mascheroni constant \\( \gamma \\) with rounding
+	 * according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The algorithm of Brent and McMillan,
+	 * \\[ \gamma = \frac{U}{V} - \ln n + O(e^{-4n}), \quad U = \sum_{k=0}^{\infty} \left( \frac{n^k}{k!} \right)^2 (H_k - \ln n), \quad V = \sum_{k=0}^{\infty} \left( \frac{n^k}{k!} \right)^2 \\]
+	 * where \\( H_k \\) is the \\( k \\)th harmonic number and \\( n \\) is a
+	 * power of 2, so that \\( \ln n \\) is a multiple of \\( \ln 2 \\).
+	 * @param context The context settings to use.
+	 */
+	export function eulerGamma(context: MathContext): Component;
+	export function eulerGamma(context=mathenv.mode) {
+		return cached("eulerGamma", digits => {
+			const m = Math.ceil(Math.log2(digits * Math.LN10 / 4 + 1));
+			const n = BigInt(Math.pow(2, m)), n2 = n * n, zero = BigInt(0);
+			// A = B (H_k - ln n) and B = (n^k / k!)^2 scaled by 10^digits.
+			let A = -BigInt(m) * log2(digits), B = power10(digits);
+			let U = A, V = B;
+			for(let k = 1; A !== zero || B !== zero; k++) {
+				const K = BigInt(k);
+				B = B * n2 / (K * K);
+				A = (A * n2 / K + B) / K;
+				U += A;
+				V += B;
+			}
+			return U * power10(digits) / V;
+		}, context);
+	}
+}
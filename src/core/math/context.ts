@@ -130,12 +130,27 @@ export enum RoundingMode {
  */
 export type MathContext = {
 	/**
-	 * The number of decimal places a [[BigNum]] object should store. This does
-	 * not represent the number of significant digits in the number unlike the
-	 * JAVA implementation of the same concept.
+	 * The number of digits a [[BigNum]] object should store. By default this
+	 * is the number of decimal places, not the number of significant digits
+	 * unlike the JAVA implementation of the same concept. Set
+	 * [[precisionType]] to `"significant"` to count significant digits
+	 * instead.
 	 */
 	precision: number;
 
+	/**
+	 * What the [[precision]] counts.
+	 * - `"decimal"`: The number of places after the decimal point. Very small
+	 * numbers lose relative precision, \\( 6.674 \times 10^{-11} \\) keeping
+	 * only 7 significant digits with 17 decimal places.
+	 * - `"significant"`: The number of digits from the leading non-zero digit,
+	 * so that very small and very large numbers keep the same relative
+	 * precision.
+	 * 
+	 * Defaults to `"decimal"` if not given.
+	 */
+	precisionType?: "decimal" | "significant";
+
 	/**
 	 * The rounding algorithm that should be used for a particular numerical
 	 * operation. Care must be taken as to when the UNNECESSARY mode is used,
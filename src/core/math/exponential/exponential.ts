@@ -1,5 +1,6 @@
 import { MathContext } from "../context";
 import { Component } from "../component";
+import { Constants } from "../constants";
 import { UndefinedValue } from "../../errors";
 
 export namespace Exponent {
@@ -20,23 +21,17 @@ export namespace Exponent {
 	 * @param context The context settings to use.
 	 */
 	export function exp(x: Component, context: MathContext) {
+		// e^x < 10^-(p + 1) rounds off like any number that small.
+		if(x.lessThan(Component.create(-(context.precision + 1) * Math.LN10)))
+			return Component.round(Component.create(`1e-${context.precision + 2}`), context);
+		// range reduction, k being the nearest integer to x / ln 2 and ln 2
+		// having as many more decimal places as k has digits
+		const k = Math.round(Number(x.toString()) / Math.LN2);
 		const ctx: MathContext = {
-			precision: 2 * context.precision,
+			precision: 2 * context.precision + String(Math.abs(k)).length,
 			rounding: context.rounding
 		};
-		const threshold = Component.create("0.5").mul(Component.ln2, ctx);
-		// range reduction
-		let k = 0;
-		let r: Component;
-		let ln2_sum = Component.ZERO;
-		const increment = x.lessThan(Component.ZERO)? -1: 1;
-		while(true) {
-			r = x.sub(ln2_sum, ctx);
-			if(r.lessEquals(threshold, ctx))
-				break;
-			ln2_sum = increment === 1? ln2_sum.add(Component.ln2, ctx) : ln2_sum.sub(Component.ln2, ctx);
-			k += increment;
-		}
+		const r = x.sub(Constants.ln2(ctx).mul(Component.create(k), ctx), ctx);
 		let sum = Component.ZERO;
 		let term = Component.ONE;
 		let n = 0;
@@ -170,7 +165,7 @@ export namespace Exponent {
 		};
 		const [k, f] = range_adjust(x, ctx);
 		const ln_1pf = ln_1p(f, ctx);
-		const res = Component.create(k).mul(Component.ln2, ctx).add(ln_1pf, ctx);
+		const res = Component.create(k).mul(Constants.ln2(ctx), ctx).add(ln_1pf, ctx);
 		return Component.round(res, context);
 	}
 	
@@ -1,4 +1,8 @@
 import { Numerical } from "../definitions";
+import { Component } from "./component";
+import { UndefinedValue } from "../errors";
+import { RoundingMode } from "./context";
+import { Bessel } from "./special/bessel";
 
 /**
  * The negative value of its argument.
@@ -432,6 +436,33 @@ export function exp<T extends Numerical>(x: number | T, ...args: any[]) {
 	return x.classRef.exp(x, ...args);
 }
 
+/**
+ * The square root function.
+ * @param x A number.
+ */
+export function sqrt(x: number): number;
+/**
+ * The square root function. This function looks for the definition of
+ * the square root function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's square root function.
+ * @throws If the square root function is not defined for the argument object type.
+ */
+export function sqrt<T extends Numerical>(x: T, ...args: any[]): T;
+export function sqrt<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return Math.sqrt(<number>x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("sqrt");
+	if(def === "undefined")
+		throw new TypeError("Operation sqrt not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).sqrt(...args);
+	return x.classRef.sqrt(x, ...args);
+}
+
 /**
  * The absolute value function.
  * @param x A number.
@@ -513,6 +544,714 @@ export function ceil<T extends Numerical>(x: number | T, ...args: any[]) {
 	return x.classRef.ceil(x, ...args);
 }
 
+/**
+ * The coefficients of the Lanczos approximation of the gamma function with
+ * \\( g = 7 \\), accurate to about 15 significant digits.
+ * @ignore
+ */
+const LANCZOS = [
+	0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+	771.32342877765313, -176.61502916214059, 12.507343278686905,
+	-0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+/**
+ * Evaluates the logarithm of the gamma function of a number not less than
+ * \\( \frac{1}{2} \\) by the Lanczos approximation.
+ * @ignore
+ */
+function lanczos(x: number) {
+	x -= 1;
+	let a = LANCZOS[0];
+	for(let i = 1; i < LANCZOS.length; i++)
+		a += LANCZOS[i] / (x + i);
+	const t = x + 7.5;
+	return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/**
+ * Evaluates the gamma function of a double precision number, reflecting the
+ * numbers less than \\( \frac{1}{2} \\).
+ * @ignore
+ */
+function gammaOf(x: number): number {
+	if(x <= 0 && Number.isInteger(x))
+		throw new UndefinedValue("gamma", Component.create(x));
+	if(Number.isInteger(x) && x <= 171)
+		return factorialOf(x - 1);
+	if(x < 0.5)
+		return Math.PI / (Math.sin(Math.PI * x) * gammaOf(1 - x));
+	return Math.exp(lanczos(x));
+}
+
+/**
+ * Evaluates the logarithm of the absolute value of the gamma function of a
+ * double precision number.
+ * @ignore
+ */
+function lgammaOf(x: number): number {
+	if(x <= 0 && Number.isInteger(x))
+		throw new UndefinedValue("lgamma", Component.create(x));
+	if(x < 0.5)
+		return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lgammaOf(1 - x);
+	return lanczos(x);
+}
+
+/**
+ * Evaluates the factorial of a double precision number.
+ * @ignore
+ */
+function factorialOf(n: number) {
+	if(!Number.isInteger(n))
+		return gammaOf(n + 1);
+	if(n < 0)
+		throw new UndefinedValue("factorial", Component.create(n));
+	let res = 1;
+	for(let i = 2; i <= n && res !== Infinity; i++)
+		res *= i;
+	return res;
+}
+
+/**
+ * Evaluates the binomial coefficient of double precision numbers.
+ * @ignore
+ */
+function binomialOf(n: number, k: number) {
+	if(Number.isInteger(k)) {
+		if(k < 0 || Number.isInteger(n) && n >= 0 && k > n)
+			return 0;
+		if(Number.isInteger(n) && n >= 0)
+			k = Math.min(k, n - k);
+		let res = 1;
+		for(let i = 1; i <= k; i++)
+			res = res * (n - k + i) / i;
+		return Number.isInteger(n)? Math.round(res): res;
+	}
+	if(n < 0 && Number.isInteger(n))
+		throw new UndefinedValue("binomial", Component.create(n));
+	if(n - k + 1 <= 0 && Number.isInteger(n - k))
+		return 0;
+	return gammaOf(n + 1) / (gammaOf(k + 1) * gammaOf(n - k + 1));
+}
+
+/**
+ * Evaluates the beta function of double precision numbers.
+ * @ignore
+ */
+function betaOf(a: number, b: number) {
+	if(a <= 0 && Number.isInteger(a))
+		throw new UndefinedValue("beta", Component.create(a));
+	if(b <= 0 && Number.isInteger(b))
+		throw new UndefinedValue("beta", Component.create(b));
+	if(a + b <= 0 && Number.isInteger(a + b))
+		return 0;
+	if(a > 0 && b > 0)
+		return Math.exp(lgammaOf(a) + lgammaOf(b) - lgammaOf(a + b));
+	return gammaOf(a) * gammaOf(b) / gammaOf(a + b);
+}
+
+/**
+ * Evaluates the error function of a double precision number from the series
+ * of positive terms
+ * \\( \frac{2}{\sqrt{\pi}} e^{-x^2} \sum_{n=0}^{\infty} \frac{2^n x^{2n+1}}{1 \cdot 3 \cdots (2n+1)} \\)
+ * for \\( \lvert x \rvert < 2 \\), and from the complementary error function
+ * otherwise.
+ * @ignore
+ */
+function erfOf(x: number): number {
+	if(Math.abs(x) >= 2)
+		return Math.sign(x) * (1 - erfcOf(Math.abs(x)));
+	let sum = 0, term = x;
+	for(let n = 0; Math.abs(term) > 1e-17 * Math.abs(sum); n++) {
+		sum += term;
+		term *= 2 * x * x / (2 * n + 3);
+	}
+	return 2 / Math.sqrt(Math.PI) * Math.exp(-x * x) * sum;
+}
+
+/**
+ * Evaluates the complementary error function of a double precision number
+ * from the continued fraction
+ * \\( \frac{e^{-x^2}}{\sqrt{\pi}} \cfrac{1}{x + \cfrac{1/2}{x + \cfrac{1}{x + \cfrac{3/2}{x + \cdots}}}} \\)
+ * for \\( x \geqslant 2 \\).
+ * @ignore
+ */
+function erfcOf(x: number): number {
+	if(x < 0)
+		return 2 - erfcOf(-x);
+	if(x < 2)
+		return 1 - erfOf(x);
+	let f = x, c = x, d = 0;
+	for(let n = 1; n < 500; n++) {
+		d = 1 / (x + n / 2 * d);
+		c = x + n / 2 / c;
+		const delta = c * d;
+		f *= delta;
+		if(Math.abs(delta - 1) < 1e-16)
+			break;
+	}
+	return Math.exp(-x * x) / (Math.sqrt(Math.PI) * f);
+}
+
+/**
+ * Evaluates the inverse error function of a double precision number by two
+ * steps of Newton's method starting from the approximation of M. Giles.
+ * @ignore
+ */
+function erfinvOf(y: number) {
+	if(!(Math.abs(y) < 1))
+		throw new UndefinedValue("erfinv", Component.create(y));
+	let w = -Math.log((1 - y) * (1 + y));
+	let p: number;
+	if(w < 5) {
+		w -= 2.5;
+		p = 2.81022636e-08;
+		for(const c of [3.43273939e-07, -3.5233877e-06, -4.39150654e-06, 0.00021858087, -0.00125372503, -0.00417768164, 0.246640727, 1.50140941])
+			p = c + p * w;
+	} else {
+		w = Math.sqrt(w) - 3;
+		p = -0.000200214257;
+		for(const c of [0.000100950558, 0.00134934322, -0.00367342844, 0.00573950773, -0.0076224613, 0.00943887047, 1.00167406, 2.83297682])
+			p = c + p * w;
+	}
+	// Newton's method on erfc x = 1 - |y| keeps the digits of y close to 1.
+	const d = 1 - Math.abs(y);
+	let x = p * Math.abs(y);
+	for(let i = 0; i < 2; i++)
+		x += (erfcOf(x) - d) * Math.sqrt(Math.PI) / 2 * Math.exp(x * x);
+	return Math.sign(y) * x;
+}
+
+/**
+ * Evaluates the incomplete gamma functions \\( [\gamma(s, x), \Gamma(s, x)] \\)
+ * of double precision numbers, by the series of the lower function for
+ * \\( x < s + 1 \\) and by the continued fraction of the upper function
+ * otherwise.
+ * @ignore
+ */
+function incompleteGammaOf(x: number, s: number, name: string): [number, number] {
+	if(x < 0)
+		throw new UndefinedValue(name + " (for non negative reals)", Component.create(x));
+	const pole = s <= 0 && Number.isInteger(s);
+	if(pole && name === "lowergamma")
+		throw new UndefinedValue(name, Component.create(s));
+	if(x === 0) {
+		if(s <= 0)
+			throw new UndefinedValue(name, Component.create(x));
+		return [0, gammaOf(s)];
+	}
+	const prefactor = Math.exp(s * Math.log(x) - x);
+	if(x < s + 1 && !pole) {
+		let sum = 0, term = 1 / s;
+		for(let n = 1; Math.abs(term) > 1e-17 * Math.abs(sum); n++) {
+			sum += term;
+			term *= x / (s + n);
+		}
+		const lower = prefactor * sum;
+		return [lower, gammaOf(s) - lower];
+	}
+	let b = x + 1 - s, c = b, d = 1 / b, h = d;
+	for(let i = 1; i < 500; i++) {
+		const a = -i * (i - s);
+		b += 2;
+		d = 1 / (a * d + b);
+		c = i === 1? b: b + a / c;
+		h *= c * d;
+		if(Math.abs(c * d - 1) < 1e-16)
+			break;
+	}
+	const upper = prefactor * h;
+	// Only the upper function is defined at the poles of the gamma function.
+	return [pole? NaN: gammaOf(s) - upper, upper];
+}
+
+/**
+ * Evaluates one of the Bessel functions of double precision numbers by the
+ * algorithms of arbitrary precision, with as many decimal places as it takes
+ * for the result to have the significant digits of a double precision number.
+ * @ignore
+ */
+function besselOf(x: number, nu: number, name: keyof typeof Bessel): number {
+	const z = {re: Component.create(x), im: Component.ZERO}, order = Component.create(nu);
+	let precision = 20;
+	while(true) {
+		const res = Bessel[name](z, order, {precision, rounding: RoundingMode.HALF_EVEN});
+		if(res.im.sign !== 0)
+			throw new UndefinedValue(name + " (for real results)", Component.create(x));
+		const value = Number(res.re.toString());
+		const needed = value === 0? precision + 40: 20 + Math.max(0, Math.ceil(-Math.log10(Math.abs(value))));
+		if(needed <= precision || needed > 360)
+			return value;
+		precision = needed;
+	}
+}
+
+/**
+ * The gamma function.
+ * @param x A number.
+ * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+ */
+export function gamma(x: number): number;
+/**
+ * The gamma function. This function looks for the definition of
+ * the gamma function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's gamma function.
+ * @throws If the gamma function is not defined for the argument object type.
+ */
+export function gamma<T extends Numerical>(x: T, ...args: any[]): T;
+export function gamma<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return gammaOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("gamma");
+	if(def === "undefined")
+		throw new TypeError("Operation gamma not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).gamma(...args);
+	return x.classRef.gamma(x, ...args);
+}
+
+/**
+ * The natural logarithm of the absolute value of the gamma function.
+ * @param x A number.
+ * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+ */
+export function lgamma(x: number): number;
+/**
+ * The natural logarithm of the absolute value of the gamma function. This function looks for the definition of
+ * the log-gamma function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's log-gamma function.
+ * @throws If the log-gamma function is not defined for the argument object type.
+ */
+export function lgamma<T extends Numerical>(x: T, ...args: any[]): T;
+export function lgamma<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return lgammaOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("lgamma");
+	if(def === "undefined")
+		throw new TypeError("Operation lgamma not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).lgamma(...args);
+	return x.classRef.lgamma(x, ...args);
+}
+
+/**
+ * The factorial function, which is the gamma function of `x + 1` for numbers that are not integers.
+ * @param x A number.
+ * @throws {@link UndefinedValue} If `x` is a negative integer.
+ */
+export function factorial(x: number): number;
+/**
+ * The factorial function, which is the gamma function of `x + 1` for numbers that are not integers. This function looks for the definition of
+ * the factorial function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's factorial function.
+ * @throws If the factorial function is not defined for the argument object type.
+ */
+export function factorial<T extends Numerical>(x: T, ...args: any[]): T;
+export function factorial<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return factorialOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("factorial");
+	if(def === "undefined")
+		throw new TypeError("Operation factorial not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).factorial(...args);
+	return x.classRef.factorial(x, ...args);
+}
+
+/**
+ * The beta function.
+ * @param a A number.
+ * @param b A number.
+ * @throws {@link UndefinedValue} If `a` or `b` is zero or a negative integer.
+ */
+export function beta(a: number, b: number): number;
+/**
+ * The beta function. This function looks for the definition of
+ * the beta function in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param a A [[Numerical]].
+ * @param b A [[Numerical]] of the same type.
+ * @param args Any additional parameters required by the object's beta function.
+ * @throws If the beta function is not defined for the argument object type.
+ */
+export function beta<T extends Numerical>(a: T, b: T, ...args: any[]): T;
+export function beta<T extends Numerical>(a: number | T, b: number | T, ...args: any[]) {
+	if(typeof a === "number" && typeof b === "number")
+		return betaOf(a, b);
+	if(!(a instanceof Numerical) || !(b instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = a.getDefinition("beta");
+	if(def === "undefined")
+		throw new TypeError("Operation beta not defined for object of type " + a.classRef.name);
+	if(def === "instance")
+		return (<any>a).beta(b, ...args);
+	return a.classRef.beta(a, b, ...args);
+}
+
+/**
+ * The binomial coefficient, generalized by the gamma function to numbers that are not integers.
+ * @param n A number.
+ * @param k A number.
+ * @throws {@link UndefinedValue} If `n` is a negative integer and `k` is not an integer.
+ */
+export function binomial(n: number, k: number): number;
+/**
+ * The binomial coefficient, generalized by the gamma function to numbers that are not integers. This function looks for the definition of
+ * the binomial coefficient in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param n A [[Numerical]].
+ * @param k A [[Numerical]] of the same type.
+ * @param args Any additional parameters required by the object's binomial coefficient.
+ * @throws If the binomial coefficient is not defined for the argument object type.
+ */
+export function binomial<T extends Numerical>(n: T, k: T, ...args: any[]): T;
+export function binomial<T extends Numerical>(n: number | T, k: number | T, ...args: any[]) {
+	if(typeof n === "number" && typeof k === "number")
+		return binomialOf(n, k);
+	if(!(n instanceof Numerical) || !(k instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = n.getDefinition("binomial");
+	if(def === "undefined")
+		throw new TypeError("Operation binomial not defined for object of type " + n.classRef.name);
+	if(def === "instance")
+		return (<any>n).binomial(k, ...args);
+	return n.classRef.binomial(n, k, ...args);
+}
+
+/**
+ * The error function.
+ * @param x A number.
+ */
+export function erf(x: number): number;
+/**
+ * The error function. This function looks for the definition of
+ * the error function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's error function.
+ * @throws If the error function is not defined for the argument object type.
+ */
+export function erf<T extends Numerical>(x: T, ...args: any[]): T;
+export function erf<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return erfOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("erf");
+	if(def === "undefined")
+		throw new TypeError("Operation erf not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).erf(...args);
+	return x.classRef.erf(x, ...args);
+}
+
+/**
+ * The complementary error function, `1 - erf(x)`.
+ * @param x A number.
+ */
+export function erfc(x: number): number;
+/**
+ * The complementary error function, `1 - erf(x)`. This function looks for the definition of
+ * the complementary error function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's complementary error function.
+ * @throws If the complementary error function is not defined for the argument object type.
+ */
+export function erfc<T extends Numerical>(x: T, ...args: any[]): T;
+export function erfc<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return erfcOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("erfc");
+	if(def === "undefined")
+		throw new TypeError("Operation erfc not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).erfc(...args);
+	return x.classRef.erfc(x, ...args);
+}
+
+/**
+ * The inverse error function.
+ * @param x A number.
+ * @throws {@link UndefinedValue} If `x` is not in (-1, 1).
+ */
+export function erfinv(x: number): number;
+/**
+ * The inverse error function. This function looks for the definition of
+ * the inverse error function in the [[Numerical]] object.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param args Any additional parameters required by the object's inverse error function.
+ * @throws If the inverse error function is not defined for the argument object type.
+ */
+export function erfinv<T extends Numerical>(x: T, ...args: any[]): T;
+export function erfinv<T extends Numerical>(x: number | T, ...args: any[]) {
+	if(typeof x === "number")
+		return erfinvOf(x);
+	if(!(x instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("erfinv");
+	if(def === "undefined")
+		throw new TypeError("Operation erfinv not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).erfinv(...args);
+	return x.classRef.erfinv(x, ...args);
+}
+
+/**
+ * The lower incomplete gamma function \\( \gamma(s, x) \\).
+ * @param x The upper limit of the integral, a non negative number.
+ * @param s A number.
+ * @throws {@link UndefinedValue} If `x` is negative.
+ */
+export function lowergamma(x: number, s: number): number;
+/**
+ * The lower incomplete gamma function \\( \gamma(s, x) \\). This function looks for the definition of
+ * the lower incomplete gamma function in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param s A [[Numerical]] of the same type.
+ * @param args Any additional parameters required by the object's lower incomplete gamma function.
+ * @throws If the lower incomplete gamma function is not defined for the argument object type.
+ */
+export function lowergamma<T extends Numerical>(x: T, s: T, ...args: any[]): T;
+export function lowergamma<T extends Numerical>(x: number | T, s: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof s === "number")
+		return incompleteGammaOf(x, s, "lowergamma")[0];
+	if(!(x instanceof Numerical) || !(s instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("lowergamma");
+	if(def === "undefined")
+		throw new TypeError("Operation lowergamma not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).lowergamma(s, ...args);
+	return x.classRef.lowergamma(x, s, ...args);
+}
+
+/**
+ * The upper incomplete gamma function \\( \Gamma(s, x) \\).
+ * @param x The lower limit of the integral, a non negative number.
+ * @param s A number.
+ * @throws {@link UndefinedValue} If `x` is negative.
+ */
+export function uppergamma(x: number, s: number): number;
+/**
+ * The upper incomplete gamma function \\( \Gamma(s, x) \\). This function looks for the definition of
+ * the upper incomplete gamma function in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param s A [[Numerical]] of the same type.
+ * @param args Any additional parameters required by the object's upper incomplete gamma function.
+ * @throws If the upper incomplete gamma function is not defined for the argument object type.
+ */
+export function uppergamma<T extends Numerical>(x: T, s: T, ...args: any[]): T;
+export function uppergamma<T extends Numerical>(x: number | T, s: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof s === "number")
+		return incompleteGammaOf(x, s, "uppergamma")[1];
+	if(!(x instanceof Numerical) || !(s instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("uppergamma");
+	if(def === "undefined")
+		throw new TypeError("Operation uppergamma not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).uppergamma(s, ...args);
+	return x.classRef.uppergamma(x, s, ...args);
+}
+
+/**
+ * The Bessel function of the first kind \\( J_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function besselJ(x: number, nu: number): number;
+/**
+ * The Bessel function of the first kind \\( J_\nu(x) \\). This function looks for the definition of
+ * the Bessel function of the first kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's Bessel function of the first kind.
+ * @throws If the Bessel function of the first kind is not defined for the argument object type.
+ */
+export function besselJ<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function besselJ<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "besselJ");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("besselJ");
+	if(def === "undefined")
+		throw new TypeError("Operation besselJ not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).besselJ(nu, ...args);
+	return x.classRef.besselJ(x, nu, ...args);
+}
+
+/**
+ * The Bessel function of the second kind \\( Y_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function besselY(x: number, nu: number): number;
+/**
+ * The Bessel function of the second kind \\( Y_\nu(x) \\). This function looks for the definition of
+ * the Bessel function of the second kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's Bessel function of the second kind.
+ * @throws If the Bessel function of the second kind is not defined for the argument object type.
+ */
+export function besselY<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function besselY<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "besselY");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("besselY");
+	if(def === "undefined")
+		throw new TypeError("Operation besselY not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).besselY(nu, ...args);
+	return x.classRef.besselY(x, nu, ...args);
+}
+
+/**
+ * The modified Bessel function of the first kind \\( I_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function besselI(x: number, nu: number): number;
+/**
+ * The modified Bessel function of the first kind \\( I_\nu(x) \\). This function looks for the definition of
+ * the modified Bessel function of the first kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's modified Bessel function of the first kind.
+ * @throws If the modified Bessel function of the first kind is not defined for the argument object type.
+ */
+export function besselI<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function besselI<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "besselI");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("besselI");
+	if(def === "undefined")
+		throw new TypeError("Operation besselI not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).besselI(nu, ...args);
+	return x.classRef.besselI(x, nu, ...args);
+}
+
+/**
+ * The modified Bessel function of the second kind \\( K_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function besselK(x: number, nu: number): number;
+/**
+ * The modified Bessel function of the second kind \\( K_\nu(x) \\). This function looks for the definition of
+ * the modified Bessel function of the second kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's modified Bessel function of the second kind.
+ * @throws If the modified Bessel function of the second kind is not defined for the argument object type.
+ */
+export function besselK<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function besselK<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "besselK");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("besselK");
+	if(def === "undefined")
+		throw new TypeError("Operation besselK not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).besselK(nu, ...args);
+	return x.classRef.besselK(x, nu, ...args);
+}
+
+/**
+ * The spherical Bessel function of the first kind \\( j_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function sphericalJ(x: number, nu: number): number;
+/**
+ * The spherical Bessel function of the first kind \\( j_\nu(x) \\). This function looks for the definition of
+ * the spherical Bessel function of the first kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's spherical Bessel function of the first kind.
+ * @throws If the spherical Bessel function of the first kind is not defined for the argument object type.
+ */
+export function sphericalJ<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function sphericalJ<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "sphericalJ");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("sphericalJ");
+	if(def === "undefined")
+		throw new TypeError("Operation sphericalJ not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).sphericalJ(nu, ...args);
+	return x.classRef.sphericalJ(x, nu, ...args);
+}
+
+/**
+ * The spherical Bessel function of the second kind \\( y_\nu(x) \\).
+ * @param x A number.
+ * @param nu The order.
+ * @throws {@link UndefinedValue} If the result is not a real number.
+ */
+export function sphericalY(x: number, nu: number): number;
+/**
+ * The spherical Bessel function of the second kind \\( y_\nu(x) \\). This function looks for the definition of
+ * the spherical Bessel function of the second kind in the [[Numerical]] object of the first argument.
+ * @template T Asserts object passed to be [[Numerical]].
+ * @param x A [[Numerical]].
+ * @param nu A [[Numerical]] of the same type, the order.
+ * @param args Any additional parameters required by the object's spherical Bessel function of the second kind.
+ * @throws If the spherical Bessel function of the second kind is not defined for the argument object type.
+ */
+export function sphericalY<T extends Numerical>(x: T, nu: T, ...args: any[]): T;
+export function sphericalY<T extends Numerical>(x: number | T, nu: number | T, ...args: any[]) {
+	if(typeof x === "number" && typeof nu === "number")
+		return besselOf(x, nu, "sphericalY");
+	if(!(x instanceof Numerical) || !(nu instanceof Numerical))
+		throw TypeError("Numerical operations not defined on object.");
+	const def = x.getDefinition("sphericalY");
+	if(def === "undefined")
+		throw new TypeError("Operation sphericalY not defined for object of type " + x.classRef.name);
+	if(def === "instance")
+		return (<any>x).sphericalY(nu, ...args);
+	return x.classRef.sphericalY(x, nu, ...args);
+}
+
 /**
  * Prints the string representation of an object to the default console.
  * @param obj Object to print.
@@ -1,31 +1,63 @@
 import { MathContext } from "./context";
 import { Component } from "./component";
 import { mathenv } from "../env";
+import { NoConvergence } from "../errors";
+
+/**
+ * The number of iterations after which [[newton_raphson]] gives up.
+ * @ignore
+ */
+const MAX_ITERATIONS = 100;
+
+/**
+ * The arithmetic the root finding algorithms need of the numbers they work
+ * with, such as the [[Component]] and the [[BigNum]] instances.
+ * @ignore
+ */
+export interface Arithmetic<T> {
+	add(that: T, context: MathContext): T;
+	sub(that: T, context: MathContext): T;
+	mul(that: T, context: MathContext): T;
+	div(that: T, context: MathContext): T;
+	equals(that: T, context: MathContext): boolean;
+}
+
 /**
  * Uses the Newton-Raphson algorithm to find the root of a given equation.
- * The exact derivative (found analytically) is assumed to be known.
- * @param f Function whose root is to be found
- * @param f_ The derivative of `f`.
+ * The exact derivative (found analytically) is assumed to be known. If the
+ * second derivative is known as well, Halley's method
+ * \\[ x_{n+1} = x_n - \frac{f(x_n)}{f'(x_n) - \frac{f(x_n) f''(x_n)}{2 f'(x_n)}} \\]
+ * is used instead, which triples the number of correct digits with every step.
+ * @param f Evaluates the function whose root is to be found, followed by its
+ * 			first and, optionally, its second derivative, at a given point.
  * @param x The initial trial solution.
  * @returns The root of the given function `f` correct upto the number of decimal
- * 			places specified by the default [[MathContext]].
+ * 			places specified by the given [[MathContext]], not yet rounded.
+ * @throws {@link NoConvergence} If the iterations do not settle within
+ * 			[[MAX_ITERATIONS]] steps.
  * @ignore
  */
-export function newton_raphson(f: (x: Component) => Component, f_: (x: Component) => Component, x: Component, context = mathenv.mode) {
+export function newton_raphson<T extends Arithmetic<T>>(f: (x: T, context: MathContext) => T[], x: T, context = mathenv.mode) {
 	const ctx: MathContext = {
 		precision: 2 * context.precision,
 		rounding: context.rounding
 	};
 	let X = x;
-	let Y: Component;
-	while (true) {
-		if (f(X).equals(Component.ZERO, ctx))
-			return Component.round(X, context);
-		Y = Component.create(X.toString());
-		X = X.sub(f(X).div(f_(X), ctx), ctx);
-		if (X.equals(Y, ctx))
-			return Component.round(X, context);
+	for (let i = 0; i < MAX_ITERATIONS; i++) {
+		const [y, dy, d2y] = f(X, ctx);
+		let step: T;
+		if (d2y === undefined)
+			step = y.div(dy, ctx);
+		else {
+			const correction = y.mul(d2y, ctx).div(dy.add(dy, ctx), ctx);
+			step = y.div(dy.sub(correction, ctx), ctx);
+		}
+		const Y = X;
+		X = X.sub(step, ctx);
+		if (X.equals(Y, context))
+			return X;
 	}
+	throw new NoConvergence("Newton-Raphson");
 }
 
 /**
@@ -1,6 +1,24 @@
-import { RoundingMode } from "./context";
+import { MathContext, RoundingMode } from "./context";
 import { pad } from "./parsers";
 
+/**
+ * The powers of 10 used so far, the index being the exponent.
+ * @ignore
+ */
+const POWERS: bigint[] = [];
+
+/**
+ * Evaluates a non negative integer power of 10. The powers are cached since
+ * the same few are needed to scale and round numbers over and over again.
+ * @param n The exponent.
+ */
+export function power10(n: number) {
+	let res = POWERS[n];
+	if(res === undefined)
+		res = POWERS[n] = BigInt(pad("1", n, "0", "end"));
+	return res;
+}
+
 /**
  * Rounds a number off, accurate to the given power of 10. The rounding algorithms
  * are heavily influenced by the [Java implementation of the same](https://docs.oracle.com/javase/8/docs/api/java/math/RoundingMode.html).
@@ -9,11 +27,11 @@ import { pad } from "./parsers";
  * @param mode Flag for which rounding algorithm to use.
  */
 export function roundTo(num: bigint, power: number, mode: RoundingMode) {
-	const divider = BigInt(pad("1", power, "0", "end"));
+	const divider = power10(power);
 	let rounded = num / divider;
 	const last = num % divider;
 	const one = BigInt("1"), ten = BigInt("10");
-	const FIVE = BigInt(pad("5", power - 1, "0", "end")), ONE = BigInt(pad("1", power - 1, "0", "end"));
+	const ONE = power10(power - 1), FIVE = BigInt(5) * ONE;
 	switch(mode) {
 	case RoundingMode.UP:
 		if(last >= ONE) rounded += one;
@@ -49,4 +67,21 @@ export function roundTo(num: bigint, power: number, mode: RoundingMode) {
 		break;
 	}
 	return rounded;
+}
+
+/**
+ * Finds the number of decimal places to which a number is to be rounded off
+ * according to the given context settings. When the precision counts
+ * significant digits this depends on the position of the leading digit of the
+ * number, and is negative if digits before the decimal point are to be
+ * discarded.
+ * @param num The digits of the number as an unscaled integer.
+ * @param scale The number of digits of `num` after the decimal point.
+ * @param context The context settings to use.
+ */
+export function decimalPlaces(num: bigint, scale: number, context: MathContext) {
+	if(context.precisionType !== "significant" || num === BigInt(0))
+		return context.precision;
+	const digits = (num < 0? -num: num).toString().length;
+	return context.precision - digits + scale;
 }
\ No newline at end of file
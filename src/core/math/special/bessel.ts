@@ -0,0 +1,562 @@
+import { MathContext, RoundingMode } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+import { UndefinedValue } from "../../errors";
+import { Complex, real, add, sub, neg, mul, div, ln, exp } from "./complex";
+
+/**
+ * The extra digits the intermediate results are computed with before the
+ * result is rounded according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * Approximates the real and imaginary parts of a [[Complex]] number by
+ * javascript numbers.
+ * @ignore
+ */
+function approx(z: Complex) {
+	return [Number(z.re.toString()), Number(z.im.toString())];
+}
+
+/**
+ * Checks whether a [[Complex]] number vanishes up to the decimal places of
+ * the context settings.
+ * @ignore
+ */
+function isZero(z: Complex, context: MathContext) {
+	return z.re.equals(Component.ZERO, context) && z.im.equals(Component.ZERO, context);
+}
+
+/**
+ * Checks whether a number is an integer.
+ * @ignore
+ */
+function isInteger(x: Component) {
+	return x.decimal === "";
+}
+
+/**
+ * Multiplies a [[Complex]] number by a real one.
+ * @ignore
+ */
+function scale(z: Complex, x: Component, context: MathContext): Complex {
+	return {re: z.re.mul(x, context), im: z.im.mul(x, context)};
+}
+
+/**
+ * Rounds a [[Complex]] number according to the context settings.
+ * @ignore
+ */
+function round(z: Complex, context: MathContext): Complex {
+	return {re: Component.round(z.re, context), im: Component.round(z.im, context)};
+}
+
+/**
+ * Finds the context settings the series of order \\( \nu \\) at \\( z \\)
+ * are summed up with. The decimal places are fixed, so the rounding errors
+ * of the small numbers grow with the factors they are multiplied by, like
+ * the growing terms of the series, about \\( e^{\lvert z \rvert} \\), and the
+ * factorials and powers of the orders \\( \pm\nu \\). Besides the guard digits,
+ * these have as many more decimal places as \\( e^{\lvert z \rvert} \\),
+ * \\( \Gamma(\lvert \nu \rvert) \\) and \\( (z/2)^{-\lvert \nu \rvert} \\) have
+ * digits before the decimal point, and the given number of extra ones.
+ * @ignore
+ */
+function working(z: Complex, nu: Component, extra: number, context: MathContext): MathContext {
+	const [a, b] = approx(z);
+	const n = Math.abs(Number(nu.toString()));
+	const r = Math.hypot(a, b);
+	// Stirling's approximation of the logarithm of the gamma function.
+	const lgamma = n > 1? (n - 0.5) * Math.log(n) - n + Math.log(2 * Math.PI) / 2: 0;
+	const digits = r / Math.LN10 + Math.max(0, lgamma / Math.LN10) + Math.max(0, n * Math.log10(2 / r));
+	return {
+		precision: context.precision + GUARD_DIGITS + Math.ceil(digits + extra),
+		rounding: context.rounding
+	};
+}
+
+/**
+ * Evaluates \\( h^\nu \\), by repeated squaring for the integers and as
+ * \\( e^{\nu \ln h} \\) otherwise.
+ * @ignore
+ */
+function power(h: Complex, nu: Component, context: MathContext): Complex {
+	if(!isInteger(nu))
+		return exp(scale(ln(h, context), nu, context), context);
+	const n = Number(nu.toString());
+	let res = real(Component.ONE);
+	let base = n < 0? div(real(Component.ONE), h, context): h;
+	for(let k = Math.abs(n); k > 0; k = Math.floor(k / 2)) {
+		if(k % 2 === 1)
+			res = mul(res, base, context);
+		if(k > 1)
+			base = mul(base, base, context);
+	}
+	return res;
+}
+
+/**
+ * Sums up the series
+ * \\[ \left( \frac{z}{2} \right)^\nu \sum_{k=0}^{\infty} \frac{(\pm z^2/4)^k}{k! \, \Gamma(\nu + k + 1)} \\]
+ * which is \\( I_\nu(z) \\) with the positive sign and \\( J_\nu(z) \\) with
+ * the negative one, unless \\( \nu \\) is a negative integer.
+ * @param sign The sign of \\( z^2/4 \\).
+ * @ignore
+ */
+function series(z: Complex, nu: Component, sign: number, context: MathContext) {
+	const h = scale(z, Component.create("0.5"), context);
+	const q = scale(mul(h, h, context), Component.create(sign), context);
+	const [a, b] = approx(q);
+	const size = Math.hypot(a, b);
+	const n = Number(nu.toString());
+	let term = div(power(h, nu, context), real(Component.gamma(nu.add(Component.ONE, context), context)), context);
+	let sum = term;
+	// The terms only get smaller once k (ν + k) exceeds |z|^2 / 4.
+	for(let k = 1; k * (n + k) <= size || !isZero(term, context); k++) {
+		const d = Component.create(k).mul(nu.add(Component.create(k), context), context);
+		term = div(mul(term, q, context), real(d), context);
+		sum = add(sum, term, context);
+	}
+	return sum;
+}
+
+/**
+ * Evaluates the parts of the functions \\( Y_n(z) \\) and \\( K_n(z) \\) of
+ * non negative integer order that are not multiples of \\( \ln \frac{z}{2} \\),
+ * the finite sum
+ * \\[ F = \sum_{k=0}^{n-1} \frac{(n-k-1)!}{k!} \left( \mp \frac{z^2}{4} \right)^k \left( \frac{z}{2} \right)^{-n} \\]
+ * and the series
+ * \\[ G = \left( \frac{z}{2} \right)^n \sum_{k=0}^{\infty} (H_k + H_{n+k}) \frac{(\pm z^2/4)^k}{k! \, (n+k)!} \\]
+ * where \\( H_k \\) is the \\( k \\)th harmonic number, along with the series
+ * \\( S \\) of \\( I_n(z) \\) or \\( J_n(z) \\) summed up in the same loop.
+ * @param sign The sign of \\( z^2/4 \\), positive for \\( K_n \\) and
+ * negative for \\( Y_n \\).
+ * @ignore
+ */
+function logSeries(z: Complex, n: number, sign: number, context: MathContext) {
+	const h = scale(z, Component.create("0.5"), context);
+	const q = scale(mul(h, h, context), Component.create(sign), context);
+	const [a, b] = approx(q);
+	const size = Math.hypot(a, b);
+	let F = real(Component.ZERO);
+	if(n > 0) {
+		let term = scale(power(h, Component.create(-n), context), Component.factorial(Component.create(n - 1), context), context);
+		for(let k = 0; k < n; k++) {
+			F = add(F, term, context);
+			if(k < n - 1)
+				term = div(neg(mul(term, q, context)), real(Component.create((k + 1) * (n - k - 1))), context);
+		}
+	}
+	let harmonic = Component.ZERO;
+	for(let j = 1; j <= n; j++)
+		harmonic = harmonic.add(Component.ONE.div(Component.create(j), context), context);
+	let term = div(power(h, Component.create(n), context), real(Component.factorial(Component.create(n), context)), context);
+	let S = term, G = scale(term, harmonic, context);
+	for(let k = 1; k * (n + k) <= size || !isZero(term, context); k++) {
+		term = div(mul(term, q, context), real(Component.create(k * (n + k))), context);
+		const H = Component.ONE.div(Component.create(k), context).add(Component.ONE.div(Component.create(n + k), context), context);
+		harmonic = harmonic.add(H, context);
+		S = add(S, term, context);
+		G = add(G, scale(term, harmonic, context), context);
+	}
+	return {F, G, S};
+}
+
+/**
+ * Sums up the asymptotic expansion
+ * \\[ \sum_{k=0}^{\infty} a_k(\nu) w^k, \quad a_k(\nu) = \frac{(4\nu^2 - 1^2)(4\nu^2 - 3^2) \cdots (4\nu^2 - (2k-1)^2)}{k! \, 8^k} \\]
+ * as long as its terms get smaller. The expansion terminates for the half
+ * integer orders.
+ * @param w The reciprocal of the argument, up to a factor of \\( \pm 1 \\)
+ * or \\( \pm \imath \\).
+ * @returns The sum, or `undefined` if the terms start to grow before they
+ * vanish.
+ * @ignore
+ */
+function expansion(nu: Component, w: Complex, context: MathContext) {
+	const mu = nu.mul(nu, context).mul(Component.create(4), context);
+	const m = Number(mu.toString());
+	const [a, b] = approx(w);
+	const r = Math.hypot(a, b);
+	let sum = real(Component.ONE), term = sum;
+	for(let k = 1; ; k++) {
+		const c = mu.sub(Component.create((2 * k - 1) * (2 * k - 1)), context).div(Component.create(8 * k), context);
+		term = mul(scale(term, c, context), w, context);
+		if(isZero(term, context))
+			return sum;
+		// Once (2k + 1)^2 exceeds 4ν^2 the ratio of the terms only grows.
+		const ratio = Math.abs(m - (2 * k + 1) * (2 * k + 1)) / (8 * (k + 1)) * r;
+		if(ratio >= 1 && (2 * k + 1) * (2 * k + 1) > m)
+			return undefined;
+		sum = add(sum, term, context);
+	}
+}
+
+/**
+ * Evaluates \\( [J_\nu(z), Y_\nu(z)] \\) for large \\( \lvert z \rvert \\)
+ * from the asymptotic expansions of the Hankel functions
+ * \\[ H^{(1,2)}_\nu(z) \sim \sqrt{\frac{2}{\pi z}} e^{\pm \imath \omega} \sum_{k=0}^{\infty} a_k(\nu) \left( \frac{\pm \imath}{z} \right)^k, \quad \omega = z - \frac{\nu \pi}{2} - \frac{\pi}{4} \\]
+ * in the right half plane, and from
+ * \\[ J_\nu(-z) = e^{\pm \nu \pi \imath} J_\nu(z), \quad Y_\nu(-z) = e^{\mp \nu \pi \imath} Y_\nu(z) \pm 2 \imath \cos \nu \pi \, J_\nu(z) \\]
+ * in the left one, with the upper signs when \\( -z \\) lies in the upper
+ * half plane.
+ * @returns The values, or `undefined` if the expansions do not reach the
+ * decimal places of the context settings.
+ * @ignore
+ */
+function hankel(z: Complex, nu: Component, context: MathContext): Complex[] | undefined {
+	const pi = Constants.pi(context);
+	if(z.re.sign < 0) {
+		const res = hankel(neg(z), nu, context);
+		if(res === undefined)
+			return undefined;
+		const [J, Y] = res;
+		const {sin, cos: c} = circular(nu, context);
+		const m = z.im.sign < 0? -1: 1;
+		const s = sin.mul(Component.create(m), context);
+		const twice = scale(mul({re: Component.ZERO, im: Component.create(2 * m)}, J, context), c, context);
+		return [mul({re: c, im: s}, J, context), add(mul({re: c, im: s.neg}, Y, context), twice, context)];
+	}
+	const u = div({re: Component.ZERO, im: Component.ONE}, z, context);
+	const S1 = expansion(nu, u, context), S2 = expansion(nu, neg(u), context);
+	if(S1 === undefined || S2 === undefined)
+		return undefined;
+	const omega = z.re.sub(pi.mul(nu.mul(Component.create("0.5"), context).add(Component.create("0.25"), context), context), context);
+	const L = ln(scale(z, pi.div(Component.TWO, context), context), context);
+	const half = Component.create("0.5");
+	const H1 = mul(exp({re: z.im.neg.sub(L.re.mul(half, context), context), im: omega.sub(L.im.mul(half, context), context)}, context), S1, context);
+	const H2 = mul(exp({re: z.im.sub(L.re.mul(half, context), context), im: omega.neg.sub(L.im.mul(half, context), context)}, context), S2, context);
+	const d = sub(H1, H2, context);
+	return [scale(add(H1, H2, context), half, context), {re: d.im.mul(half, context), im: d.re.mul(half, context).neg}];
+}
+
+/**
+ * Evaluates \\( I_\nu(z) \\) for large \\( \lvert z \rvert \\) from the
+ * asymptotic expansion
+ * \\[ I_\nu(z) \sim \frac{e^z}{\sqrt{2 \pi z}} \sum_{k=0}^{\infty} a_k(\nu) \left( -\frac{1}{z} \right)^k \pm \imath e^{\pm \nu \pi \imath} \frac{e^{-z}}{\sqrt{2 \pi z}} \sum_{k=0}^{\infty} \frac{a_k(\nu)}{z^k} \\]
+ * with the upper signs in the upper half plane.
+ * @returns The value, or `undefined` if the expansions do not reach the
+ * decimal places of the context settings.
+ * @ignore
+ */
+function modifiedI(z: Complex, nu: Component, context: MathContext) {
+	const u = div(real(Component.ONE), z, context);
+	const S1 = expansion(nu, neg(u), context), S2 = expansion(nu, u, context);
+	if(S1 === undefined || S2 === undefined)
+		return undefined;
+	const pi = Constants.pi(context);
+	const L = ln(scale(z, pi.mul(Component.TWO, context), context), context);
+	const half = Component.create("0.5");
+	const e1 = exp(sub(z, scale(L, half, context), context), context);
+	const e2 = exp(sub(neg(z), scale(L, half, context), context), context);
+	const {sin, cos} = circular(nu, context);
+	const m = z.im.sign < 0? -1: 1;
+	const c: Complex = {re: sin.neg, im: cos.mul(Component.create(m), context)};
+	return add(mul(e1, S1, context), mul(mul(c, e2, context), S2, context), context);
+}
+
+/**
+ * Evaluates \\( K_\nu(z) \\) for large \\( \lvert z \rvert \\) from the
+ * asymptotic expansion
+ * \\[ K_\nu(z) \sim \sqrt{\frac{\pi}{2z}} e^{-z} \sum_{k=0}^{\infty} \frac{a_k(\nu)}{z^k} \\]
+ * @returns The value, or `undefined` if the expansion does not reach the
+ * decimal places of the context settings.
+ * @ignore
+ */
+function modifiedK(z: Complex, nu: Component, context: MathContext) {
+	const S = expansion(nu, div(real(Component.ONE), z, context), context);
+	if(S === undefined)
+		return undefined;
+	const L = ln(scale(z, Component.TWO.div(Constants.pi(context), context), context), context);
+	return mul(exp(sub(neg(z), scale(L, Component.create("0.5"), context), context), context), S, context);
+}
+
+/**
+ * Checks whether the asymptotic expansions may reach the decimal places of
+ * the context settings at \\( z \\), which takes at least
+ * \\( e^{-2 \lvert z \rvert} < 10^{-precision} \\).
+ * @ignore
+ */
+function isLarge(z: Complex, context: MathContext) {
+	const [a, b] = approx(z);
+	return 2 * Math.hypot(a, b) > context.precision * Math.LN10;
+}
+
+/**
+ * Finds the context settings the asymptotic expansions are summed up with,
+ * with as many more decimal places as the given exponential factor has
+ * digits, and as \\( \lvert z \rvert \\) has, for the reduction of the
+ * arguments of the circular functions.
+ * @param exponent The natural logarithm of the exponential factor.
+ * @ignore
+ */
+function asymptotic(z: Complex, exponent: number, context: MathContext): MathContext {
+	const [a, b] = approx(z);
+	return {
+		precision: context.precision + GUARD_DIGITS + Math.ceil(Math.max(0, exponent) / Math.LN10 + Math.log10(Math.hypot(a, b))),
+		rounding: context.rounding
+	};
+}
+
+/**
+ * Finds the number of digits lost dividing by \\( \sin \nu \pi \\), from the
+ * distance of \\( \nu \\) to the nearest integer.
+ * @ignore
+ */
+function nearInteger(nu: Component) {
+	const exact: MathContext = {
+		precision: nu.decimal.length,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const f = nu.sub(Component.floor(nu), exact);
+	const d = Math.min(Number(f.toString()), Number(Component.ONE.sub(f, exact).toString()));
+	return Math.max(0, -Math.log10(d));
+}
+
+/**
+ * Evaluates \\( \sin \nu \pi \\) and \\( \cos \nu \pi \\).
+ * @ignore
+ */
+function circular(nu: Component, context: MathContext) {
+	const angle = Constants.pi(context).mul(nu, context);
+	return {sin: Component.sin(angle, context), cos: Component.cos(angle, context)};
+}
+
+/**
+ * Evaluates the function of order \\( \nu \\) at 0, where the functions
+ * \\( J_\nu \\) and \\( I_\nu \\) are 1 for \\( \nu = 0 \\) and vanish for
+ * the positive and the negative integer orders.
+ * @throws {@link UndefinedValue} For the other orders.
+ * @ignore
+ */
+function atZero(name: string, z: Complex, nu: Component) {
+	if(nu.sign === 0)
+		return real(Component.ONE);
+	if(nu.sign > 0 || isInteger(nu))
+		return real(Component.ZERO);
+	throw new UndefinedValue(name, z.re);
+}
+
+/**
+ * The Bessel functions, the solutions of
+ * \\[ z^2 \frac{d^2 w}{dz^2} + z \frac{dw}{dz} + (z^2 - \nu^2) w = 0 \\]
+ * and the related modified and spherical Bessel functions of real order,
+ * evaluated to any precision. The functions are analytic in the complex
+ * plane cut along the negative real axis, where the principal branches are
+ * taken, and entire for the integer orders.
+ */
+export namespace Bessel {
+	/**
+	 * Evaluates the Bessel function of the first kind \\( J_\nu(z) \\) with
+	 * rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For small \\( \lvert z \rvert \\) the series
+	 * \\[ J_\nu(z) = \left( \frac{z}{2} \right)^\nu \sum_{k=0}^{\infty} \frac{(-z^2/4)^k}{k! \, \Gamma(\nu + k + 1)} \\]
+	 * is summed up with as many more decimal places as are lost to the
+	 * cancellation of its terms, and for large \\( \lvert z \rvert \\) the
+	 * asymptotic expansions of the Hankel functions
+	 * \\( J_\nu = \frac{1}{2} (H^{(1)}_\nu + H^{(2)}_\nu) \\) are used. The
+	 * negative integer orders follow from \\( J_{-n}(z) = (-1)^n J_n(z) \\).
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\) and \\( \nu \\) is a
+	 * negative number other than an integer.
+	 */
+	export function besselJ(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0)
+			return atZero("besselJ", z, nu);
+		if(nu.sign < 0 && isInteger(nu)) {
+			const res = besselJ(z, nu.neg, context);
+			return Number(nu.toString()) % 2 === 0? res: neg(res);
+		}
+		const b = approx(z)[1];
+		if(isLarge(z, context)) {
+			const res = hankel(z, nu, asymptotic(z, Math.abs(b), context));
+			if(res !== undefined)
+				return round(res[0], context);
+		}
+		const ctx = working(z, nu, 0, context);
+		return round(series(z, nu, -1, ctx), context);
+	}
+
+	/**
+	 * Evaluates the Bessel function of the second kind \\( Y_\nu(z) \\) with
+	 * rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For small \\( \lvert z \rvert \\) and orders other than the integers
+	 * \\[ Y_\nu(z) = \frac{J_\nu(z) \cos \nu \pi - J_{-\nu}(z)}{\sin \nu \pi} \\]
+	 * and for the integer orders \\( n \geqslant 0 \\) the limit
+	 * \\[ Y_n(z) = \frac{2}{\pi} \left( \ln \frac{z}{2} + \gamma \right) J_n(z) - \frac{1}{\pi} \sum_{k=0}^{n-1} \frac{(n-k-1)!}{k!} \left( \frac{z}{2} \right)^{2k-n} - \frac{1}{\pi} \left( \frac{z}{2} \right)^n \sum_{k=0}^{\infty} (H_k + H_{n+k}) \frac{(-z^2/4)^k}{k! \, (n+k)!} \\]
+	 * where \\( \gamma \\) is the Euler-Mascheroni constant and \\( H_k \\) is
+	 * the \\( k \\)th harmonic number, with \\( Y_{-n}(z) = (-1)^n Y_n(z) \\).
+	 * For large \\( \lvert z \rvert \\) the asymptotic expansions of the
+	 * Hankel functions \\( Y_\nu = \frac{1}{2 \imath} (H^{(1)}_\nu - H^{(2)}_\nu) \\)
+	 * are used.
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\).
+	 */
+	export function besselY(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0)
+			throw new UndefinedValue("besselY", z.re);
+		const b = approx(z)[1];
+		if(isLarge(z, context)) {
+			const res = hankel(z, nu, asymptotic(z, Math.abs(b), context));
+			if(res !== undefined)
+				return round(res[1], context);
+		}
+		if(isInteger(nu)) {
+			const n = Number(nu.toString());
+			const ctx = working(z, nu, 0, context);
+			const {F, G, S} = logSeries(z, Math.abs(n), -1, ctx);
+			const pi = Constants.pi(ctx);
+			const l = add(ln(scale(z, Component.create("0.5"), ctx), ctx), real(Constants.eulerGamma(ctx)), ctx);
+			const sum = sub(scale(mul(l, S, ctx), Component.TWO, ctx), add(F, G, ctx), ctx);
+			const res = scale(sum, Component.ONE.div(pi, ctx), ctx);
+			return round(n < 0 && n % 2 !== 0? neg(res): res, context);
+		}
+		const ctx = working(z, nu, nearInteger(nu), context);
+		const {sin, cos} = circular(nu, ctx);
+		const J = series(z, nu, -1, ctx), N = series(z, nu.neg, -1, ctx);
+		const res = scale(sub(scale(J, cos, ctx), N, ctx), Component.ONE.div(sin, ctx), ctx);
+		return round(res, context);
+	}
+
+	/**
+	 * Evaluates the modified Bessel function of the first kind \\( I_\nu(z) \\)
+	 * with rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For small \\( \lvert z \rvert \\) the series
+	 * \\[ I_\nu(z) = \left( \frac{z}{2} \right)^\nu \sum_{k=0}^{\infty} \frac{(z^2/4)^k}{k! \, \Gamma(\nu + k + 1)} \\]
+	 * is summed up, and for large \\( \lvert z \rvert \\) its asymptotic
+	 * expansion
+	 * \\[ I_\nu(z) \sim \frac{e^z}{\sqrt{2 \pi z}} \sum_{k=0}^{\infty} a_k(\nu) \left( -\frac{1}{z} \right)^k \pm \imath e^{\pm \nu \pi \imath} \frac{e^{-z}}{\sqrt{2 \pi z}} \sum_{k=0}^{\infty} \frac{a_k(\nu)}{z^k} \\]
+	 * is used, with the upper signs in the upper half plane. The negative
+	 * integer orders follow from \\( I_{-n}(z) = I_n(z) \\).
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\) and \\( \nu \\) is a
+	 * negative number other than an integer.
+	 */
+	export function besselI(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0)
+			return atZero("besselI", z, nu);
+		if(nu.sign < 0 && isInteger(nu))
+			return besselI(z, nu.neg, context);
+		const a = approx(z)[0];
+		if(isLarge(z, context)) {
+			const res = modifiedI(z, nu, asymptotic(z, Math.abs(a), context));
+			if(res !== undefined)
+				return round(res, context);
+		}
+		const ctx = working(z, nu, 0, context);
+		return round(series(z, nu, 1, ctx), context);
+	}
+
+	/**
+	 * Evaluates the modified Bessel function of the second kind \\( K_\nu(z) \\)
+	 * with rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For small \\( \lvert z \rvert \\) and orders other than the integers
+	 * \\[ K_\nu(z) = \frac{\pi}{2} \frac{I_{-\nu}(z) - I_\nu(z)}{\sin \nu \pi} \\]
+	 * and for the integer orders \\( n \geqslant 0 \\) the limit
+	 * \\[ K_n(z) = (-1)^{n+1} \left( \ln \frac{z}{2} + \gamma \right) I_n(z) + \frac{1}{2} \sum_{k=0}^{n-1} \frac{(n-k-1)!}{k!} \left( -\frac{z^2}{4} \right)^k \left( \frac{z}{2} \right)^{-n} + \frac{(-1)^n}{2} \left( \frac{z}{2} \right)^n \sum_{k=0}^{\infty} (H_k + H_{n+k}) \frac{(z^2/4)^k}{k! \, (n+k)!} \\]
+	 * with \\( K_{-\nu}(z) = K_\nu(z) \\). For large \\( \lvert z \rvert \\)
+	 * the asymptotic expansion
+	 * \\[ K_\nu(z) \sim \sqrt{\frac{\pi}{2z}} e^{-z} \sum_{k=0}^{\infty} \frac{a_k(\nu)}{z^k} \\]
+	 * is used.
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\).
+	 */
+	export function besselK(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0)
+			throw new UndefinedValue("besselK", z.re);
+		if(nu.sign < 0)
+			return besselK(z, nu.neg, context);
+		const a = approx(z)[0];
+		if(isLarge(z, context)) {
+			const res = modifiedK(z, nu, asymptotic(z, -a, context));
+			if(res !== undefined)
+				return round(res, context);
+		}
+		if(isInteger(nu)) {
+			const n = Number(nu.toString());
+			const ctx = working(z, nu, 0, context);
+			const {F, G, S} = logSeries(z, n, 1, ctx);
+			const l = add(ln(scale(z, Component.create("0.5"), ctx), ctx), real(Constants.eulerGamma(ctx)), ctx);
+			const sum = add(F, n % 2 === 0? sub(G, scale(mul(l, S, ctx), Component.TWO, ctx), ctx): sub(scale(mul(l, S, ctx), Component.TWO, ctx), G, ctx), ctx);
+			return round(scale(sum, Component.create("0.5"), ctx), context);
+		}
+		const ctx = working(z, nu, nearInteger(nu), context);
+		const {sin} = circular(nu, ctx);
+		const d = sub(series(z, nu.neg, 1, ctx), series(z, nu, 1, ctx), ctx);
+		const res = scale(d, Constants.pi(ctx).div(sin.mul(Component.TWO, ctx), ctx), ctx);
+		return round(res, context);
+	}
+
+	/**
+	 * Evaluates the spherical Bessel function of the first kind
+	 * \\[ j_\nu(z) = \sqrt{\frac{\pi}{2z}} J_{\nu + 1/2}(z) \\]
+	 * with rounding according to the given context settings.
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\) and \\( \nu \\) is negative.
+	 * @see [[besselJ]]
+	 */
+	export function sphericalJ(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0) {
+			if(nu.sign < 0)
+				throw new UndefinedValue("sphericalJ", z.re);
+			return real(nu.sign === 0? Component.ONE: Component.ZERO);
+		}
+		return spherical(besselJ, z, nu, context);
+	}
+
+	/**
+	 * Evaluates the spherical Bessel function of the second kind
+	 * \\[ y_\nu(z) = \sqrt{\frac{\pi}{2z}} Y_{\nu + 1/2}(z) \\]
+	 * with rounding according to the given context settings.
+	 * @param z A complex number.
+	 * @param nu The order, a real number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\).
+	 * @see [[besselY]]
+	 */
+	export function sphericalY(z: Complex, nu: Component, context: MathContext): Complex {
+		if(z.re.sign === 0 && z.im.sign === 0)
+			throw new UndefinedValue("sphericalY", z.re);
+		return spherical(besselY, z, nu, context);
+	}
+
+	/**
+	 * Evaluates \\( \sqrt{\frac{\pi}{2z}} f_{\nu + 1/2}(z) \\), with as many
+	 * more decimal places as the factor has digits before the decimal point.
+	 * @ignore
+	 */
+	function spherical(f: (z: Complex, nu: Component, context: MathContext) => Complex, z: Complex, nu: Component, context: MathContext) {
+		const [a, b] = approx(z);
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS + Math.ceil(Math.max(0, -Math.log10(Math.hypot(a, b)) / 2)),
+			rounding: context.rounding
+		};
+		const half = Component.create("0.5");
+		const factor = exp(scale(ln(scale(z, Component.TWO.div(Constants.pi(ctx), ctx), ctx), ctx), half.neg, ctx), ctx);
+		return round(mul(factor, f(z, nu.add(half, ctx), ctx), ctx), context);
+	}
+}
@@ -0,0 +1,117 @@
+import { MathContext } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+
+/**
+ * A complex number \\( re + \imath \, im \\) used by the algorithms of the
+ * special functions.
+ * @ignore
+ */
+export type Complex = {re: Component, im: Component};
+
+/**
+ * Creates a real [[Complex]] number.
+ * @ignore
+ */
+export function real(x: Component): Complex {
+	return {re: x, im: Component.ZERO};
+}
+
+/**
+ * Adds two [[Complex]] numbers.
+ * @ignore
+ */
+export function add(x: Complex, y: Complex, context: MathContext): Complex {
+	return {re: x.re.add(y.re, context), im: x.im.add(y.im, context)};
+}
+
+/**
+ * Subtracts one [[Complex]] number from another.
+ * @ignore
+ */
+export function sub(x: Complex, y: Complex, context: MathContext): Complex {
+	return {re: x.re.sub(y.re, context), im: x.im.sub(y.im, context)};
+}
+
+/**
+ * The negative of a [[Complex]] number.
+ * @ignore
+ */
+export function neg(x: Complex): Complex {
+	return {re: x.re.neg, im: x.im.neg};
+}
+
+/**
+ * Multiplies two [[Complex]] numbers.
+ * @ignore
+ */
+export function mul(x: Complex, y: Complex, context: MathContext): Complex {
+	return {
+		re: x.re.mul(y.re, context).sub(x.im.mul(y.im, context), context),
+		im: x.re.mul(y.im, context).add(x.im.mul(y.re, context), context)
+	};
+}
+
+/**
+ * Divides one [[Complex]] number by another.
+ * @ignore
+ */
+export function div(x: Complex, y: Complex, context: MathContext): Complex {
+	const ctx: MathContext = {
+		precision: 2 * context.precision,
+		rounding: context.rounding
+	};
+	const d = y.re.mul(y.re, ctx).add(y.im.mul(y.im, ctx), ctx);
+	return {
+		re: x.re.mul(y.re, ctx).add(x.im.mul(y.im, ctx), ctx).div(d, context),
+		im: x.im.mul(y.re, ctx).sub(x.re.mul(y.im, ctx), ctx).div(d, context)
+	};
+}
+
+/**
+ * The principal value of the natural logarithm of a [[Complex]] number.
+ * @ignore
+ */
+export function ln(x: Complex, context: MathContext): Complex {
+	if(x.im.sign === 0 && x.re.sign > 0)
+		return real(Component.ln(x.re, context));
+	const ctx: MathContext = {
+		precision: 2 * context.precision,
+		rounding: context.rounding
+	};
+	const r2 = x.re.mul(x.re, ctx).add(x.im.mul(x.im, ctx), ctx);
+	return {
+		re: Component.ln(r2, ctx).div(Component.TWO, context),
+		im: Component.atan2(x.im, x.re, context)
+	};
+}
+
+/**
+ * The exponential of a [[Complex]] number.
+ * @ignore
+ */
+export function exp(x: Complex, context: MathContext): Complex {
+	if(x.im.sign === 0)
+		return real(Component.exp(x.re, context));
+	const r = Component.exp(x.re, context);
+	return {
+		re: r.mul(Component.cos(x.im, context), context),
+		im: r.mul(Component.sin(x.im, context), context)
+	};
+}
+
+/**
+ * Evaluates \\( \sin \pi z = \sin \pi a \cosh \pi b + \imath \cos \pi a \sinh \pi b \\)
+ * where \\( z = a + \imath b \\).
+ * @ignore
+ */
+export function sinPi(x: Complex, context: MathContext): Complex {
+	const pi = Constants.pi(context);
+	const a = pi.mul(x.re, context), b = pi.mul(x.im, context);
+	if(b.sign === 0)
+		return real(Component.sin(a, context));
+	return {
+		re: Component.sin(a, context).mul(Component.cosh(b, context), context),
+		im: Component.cos(a, context).mul(Component.sinh(b, context), context)
+	};
+}
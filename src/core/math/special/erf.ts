@@ -0,0 +1,174 @@
+import { MathContext, RoundingMode } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+import { UndefinedValue } from "../../errors";
+
+/**
+ * The extra digits the intermediate results are computed with before the
+ * result is rounded according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * Checks whether \\( \operatorname{erfc} \lvert x \rvert < e^{-x^2} \\) vanishes
+ * up to the decimal places of the context settings.
+ * @ignore
+ */
+function saturated(x: Component, context: MathContext) {
+	const a = Number(x.toString());
+	return a * a > context.precision * Math.LN10 + 1;
+}
+
+/**
+ * Evaluates the error function from the series
+ * \\[ \operatorname{erf} x = \frac{2}{\sqrt{\pi}} e^{-x^2} \sum_{n=0}^{\infty} \frac{2^n x^{2n+1}}{1 \cdot 3 \cdots (2n+1)} \\]
+ * whose terms are all of the same sign. The sum grows like \\( e^{x^2} \\), so
+ * it is found with as many more decimal places as it has digits before the
+ * decimal point.
+ * @ignore
+ */
+function series(x: Component, context: MathContext) {
+	const a = Number(x.toString());
+	const ctx: MathContext = {
+		precision: context.precision + GUARD_DIGITS + Math.ceil(a * a / Math.LN10),
+		rounding: context.rounding
+	};
+	const x2 = x.mul(x, ctx);
+	const r = x2.mul(Component.TWO, ctx);
+	let sum = Component.ZERO;
+	let term = x;
+	for(let n = 0; !term.equals(Component.ZERO, ctx); n++) {
+		sum = sum.add(term, ctx);
+		term = term.mul(r, ctx).div(Component.create(2 * n + 3), ctx);
+	}
+	const factor = Component.TWO.div(Component.sqrt(Constants.pi(ctx), ctx), ctx).mul(Component.exp(x2.neg, ctx), ctx);
+	return sum.mul(factor, ctx);
+}
+
+/**
+ * Approximates the inverse error function of \\( 1 - d \\) for \\( 0 < d < 1 \\)
+ * to about 7 significant digits, by the polynomials of M. Giles in
+ * \\( w = -\ln \left( d(2-d) \right) \\). Here \\( w \\) is found from
+ * the digits of \\( d \\), which may be too small for a javascript number.
+ * @returns The approximation, and about the number of zeroes after the decimal
+ * point of \\( d \\).
+ * @ignore
+ */
+function guess(d: Component) {
+	const zeros = d.decimal.length - d.decimal.replace(/^0+/, "").length;
+	const lnd = Math.log(Number("0." + d.decimal.slice(zeros))) - zeros * Math.LN10;
+	let w = -lnd - Math.log(2 - Number(d.toString()));
+	const digits = Math.ceil(w / Math.LN10);
+	let p: number;
+	if(w < 5) {
+		w -= 2.5;
+		p = 2.81022636e-08;
+		for(const c of [3.43273939e-07, -3.5233877e-06, -4.39150654e-06, 0.00021858087, -0.00125372503, -0.00417768164, 0.246640727, 1.50140941])
+			p = c + p * w;
+	} else if(w > 40) {
+		// Far beyond the range of the polynomials, the asymptotic expansion
+		// erfc x ~ e^{-x^2} / (x √π) is solved for x.
+		let x = Math.sqrt(w + Math.LN2);
+		for(let i = 0; i < 3; i++)
+			x = Math.sqrt(w + Math.LN2 - Math.log(x * Math.sqrt(Math.PI)));
+		return {x: Component.create(x.toFixed(17)), digits};
+	} else {
+		w = Math.sqrt(w) - 3;
+		p = -0.000200214257;
+		for(const c of [0.000100950558, 0.00134934322, -0.00367342844, 0.00573950773, -0.0076224613, 0.00943887047, 1.00167406, 2.83297682])
+			p = c + p * w;
+	}
+	return {x: Component.create((p * (1 - Number(d.toString()))).toFixed(17)), digits};
+}
+
+/**
+ * The error function and the functions related to it, evaluated to any
+ * precision.
+ */
+export namespace ErrorFunction {
+	/**
+	 * Evaluates the error function
+	 * \\[ \operatorname{erf} x = \frac{2}{\sqrt{\pi}} \int_0^x e^{-t^2} dt \\]
+	 * with rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * The series
+	 * \\[ \operatorname{erf} x = \frac{2}{\sqrt{\pi}} e^{-x^2} \sum_{n=0}^{\infty} \frac{2^n x^{2n+1}}{1 \cdot 3 \cdots (2n+1)} \\]
+	 * of positive terms is summed up, unless \\( e^{-x^2} \\) is too small for
+	 * the result to differ from \\( \pm 1 \\) in the required decimal places.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 */
+	export function erf(x: Component, context: MathContext) {
+		if(x.sign === 0)
+			return Component.ZERO;
+		if(saturated(x, context))
+			return x.sign > 0? Component.ONE: Component.ONE.neg;
+		return Component.round(series(x, context), context);
+	}
+
+	/**
+	 * Evaluates the complementary error function
+	 * \\( \operatorname{erfc} x = 1 - \operatorname{erf} x \\) with rounding
+	 * according to the given context settings.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @see [[erf]]
+	 */
+	export function erfc(x: Component, context: MathContext) {
+		if(saturated(x, context))
+			return x.sign > 0? Component.ZERO: Component.TWO;
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		return Component.round(Component.ONE.sub(series(x, ctx), ctx), context);
+	}
+
+	/**
+	 * Evaluates the inverse error function, the number \\( x \\) for which
+	 * \\( \operatorname{erf} x = y \\), with rounding according to the given
+	 * context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * Starting from an approximation correct to about 7 significant digits,
+	 * Newton's method is applied to \\( \operatorname{erfc} x = 1 - \lvert y \rvert \\),
+	 * \\[ x_{n+1} = x_n + \frac{\sqrt{\pi}}{2} e^{x_n^2} \left( \operatorname{erfc} x_n - 1 + \lvert y \rvert \right) \\]
+	 * which doubles the number of correct digits with every step.
+	 * @param y A number in \\( (-1, 1) \\).
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( \lvert y \rvert \geqslant 1 \\).
+	 */
+	export function erfinv(y: Component, context: MathContext) {
+		const a = Component.abs(y);
+		if(!a.lessThan(Component.ONE))
+			throw new UndefinedValue("erfinv", y);
+		if(a.sign === 0)
+			return Component.ZERO;
+		const d = Component.ONE.sub(a, {precision: a.decimal.length, rounding: RoundingMode.HALF_EVEN});
+		const start = guess(d);
+		let x = start.x;
+		// erfc(x) - d loses about as many digits as there are zeroes after the
+		// decimal point in d, which are made up for by the factor e^{x^2}.
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS + Math.max(0, start.digits),
+			rounding: context.rounding
+		};
+		const tolerance: MathContext = {
+			precision: context.precision + GUARD_DIGITS / 2,
+			rounding: context.rounding
+		};
+		const factor = Component.sqrt(Constants.pi(ctx), ctx).div(Component.TWO, ctx);
+		while(true) {
+			const erfc = Component.ONE.sub(series(x, ctx), ctx);
+			const step = factor.mul(Component.exp(x.mul(x, ctx), ctx), ctx).mul(erfc.sub(d, ctx), ctx);
+			x = x.add(step, ctx);
+			if(step.equals(Component.ZERO, tolerance))
+				break;
+		}
+		return Component.round(y.sign < 0? x.neg: x, context);
+	}
+}
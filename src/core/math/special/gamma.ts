@@ -0,0 +1,547 @@
+import { MathContext, RoundingMode } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+import { UndefinedValue } from "../../errors";
+import { Complex, real, add, sub, mul, div, ln, exp, sinPi } from "./complex";
+
+/**
+ * The extra digits the intermediate results are computed with before the
+ * result is rounded according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * The Bernoulli numbers \\( B_2, B_4, \cdots \\) computed so far, each as a
+ * pair of numerator and denominator.
+ * @ignore
+ */
+const BERNOULLI: [bigint, bigint][] = [];
+
+/**
+ * Evaluates the tangent numbers \\( T_1, T_2, \cdots, T_n \\), the
+ * coefficients of the Taylor series of \\( \tan x \\) multiplied by the
+ * factorials, by the algorithm of Brent and Harvey. The element at index 0
+ * is unused.
+ * @param n The number of tangent numbers.
+ * @ignore
+ */
+function tangents(n: number) {
+	const T = [BigInt(0), BigInt(1)];
+	for(let k = 2; k <= n; k++)
+		T.push(BigInt(k - 1) * T[k - 1]);
+	for(let k = 2; k <= n; k++)
+		for(let j = k; j <= n; j++)
+			T[j] = BigInt(j - k) * T[j - 1] + BigInt(j - k + 2) * T[j];
+	return T;
+}
+
+/**
+ * Evaluates the Bernoulli number \\( B_{2k} \\) exactly from the tangent number
+ * \\( T_k \\),
+ * \\[ B_{2k} = (-1)^{k-1} \frac{2k \, T_k}{4^k (4^k - 1)} \\]
+ * @param k A positive integer.
+ * @returns The numerator and the denominator of the Bernoulli number.
+ * @ignore
+ */
+export function bernoulli(k: number) {
+	if(k > BERNOULLI.length) {
+		const n = Math.max(k, 2 * BERNOULLI.length);
+		const T = tangents(n);
+		const one = BigInt(1);
+		BERNOULLI.length = 0;
+		for(let i = 1; i <= n; i++) {
+			const p = one << BigInt(2 * i);
+			const num = BigInt(2 * i) * T[i];
+			BERNOULLI.push([i % 2 === 1? num: -num, p * (p - one)]);
+		}
+	}
+	return BERNOULLI[k - 1];
+}
+
+/**
+ * Evaluates the product of the integers from `a` to `b` by splitting the range
+ * into halves.
+ * @ignore
+ */
+function product(a: number, b: number): bigint {
+	if(b - a < 8) {
+		let p = BigInt(1);
+		for(let i = a; i <= b; i++)
+			p *= BigInt(i);
+		return p;
+	}
+	const m = Math.floor((a + b) / 2);
+	return product(a, m) * product(m + 1, b);
+}
+
+/**
+ * The context settings under which the sum or difference of two numbers is
+ * exact.
+ * @ignore
+ */
+function exact(...values: Component[]): MathContext {
+	return {
+		precision: Math.max(...values.map(x => x.decimal.length)),
+		rounding: RoundingMode.HALF_EVEN
+	};
+}
+
+/**
+ * Checks whether a number is an integer.
+ * @ignore
+ */
+function isInteger(x: Component) {
+	return x.compareTo(Component.floor(x)) === 0;
+}
+
+/**
+ * Checks whether a number is a pole of the gamma function, that is, an integer
+ * which is not positive.
+ * @ignore
+ */
+function isPole(x: Component) {
+	return x.sign <= 0 && isInteger(x);
+}
+
+/**
+ * Evaluates the sign of the gamma function of a real number which is not a
+ * pole.
+ * @ignore
+ */
+function sign(x: Component) {
+	if(x.sign > 0)
+		return 1;
+	return Number(Component.floor(x).toString()) % 2 === 0? 1: -1;
+}
+
+/**
+ * Multiplies a number by a sign.
+ * @ignore
+ */
+function signed(x: Component, s: number) {
+	return s < 0? x.neg: x;
+}
+
+/**
+ * Evaluates Stirling's series for the logarithm of the gamma function,
+ * \\[ \ln \Gamma(w) \approx \left( w - \frac{1}{2} \right) \ln w - w + \frac{1}{2} \ln 2\pi + \sum_{k=1}^{\infty} \frac{B_{2k}}{2k(2k-1) w^{2k-1}} \\]
+ * summed up until the terms vanish. The argument must be large enough for
+ * the terms to vanish before they start growing.
+ * @ignore
+ */
+function stirling(w: Complex, context: MathContext) {
+	const half = Component.create("0.5");
+	const ln2pi = Component.ln(Component.TWO.mul(Constants.pi(context), context), context);
+	let sum = sub(mul({re: w.re.sub(half, context), im: w.im}, ln(w, context), context), w, context);
+	sum = add(sum, real(half.mul(ln2pi, context)), context);
+	const inv = div(real(Component.ONE), w, context);
+	const inv2 = mul(inv, inv, context);
+	let power = inv;
+	for(let k = 1; ; k++) {
+		const [num, den] = bernoulli(k);
+		const coeff = Component.create(num.toString()).div(Component.create((den * BigInt(2 * k * (2 * k - 1))).toString()), context);
+		const term = mul(real(coeff), power, context);
+		if(term.re.equals(Component.ZERO, context) && term.im.equals(Component.ZERO, context))
+			return sum;
+		sum = add(sum, term, context);
+		power = mul(power, inv2, context);
+	}
+}
+
+/**
+ * Evaluates a logarithm of the gamma function, correct up to the decimal
+ * places of the context settings. The imaginary part is not reduced to
+ * any particular branch.
+ * 
+ * For \\( \mathrm{Re}(z) \geqslant \frac{1}{2} \\) the argument is shifted until
+ * it is at least \\( 0.4 \\) times the number of digits needed in magnitude, so
+ * that Stirling's series is accurate enough, using
+ * \\[ \ln \Gamma(z) = \ln \Gamma(z + N) - \ln \left( z (z+1) \cdots (z+N-1) \right) \\]
+ * The other numbers are reflected by
+ * \\[ \ln \Gamma(z) = \ln \pi - \ln \sin \pi z - \ln \Gamma(1 - z) \\]
+ * @param z A number which is not a pole.
+ * @param context The context settings to use.
+ * @ignore
+ */
+function lnGamma(z: Complex, context: MathContext): Complex {
+	const a = Number(z.re.toString()), b = Number(z.im.toString());
+	if(a < 0.5) {
+		// sin(πz) is small near the poles and has to be found with as many more
+		// decimal places for its logarithm to be accurate.
+		const n = Component.round(z.re, {precision: 0, rounding: RoundingMode.HALF_EVEN});
+		const d = Number(z.re.sub(n, exact(z.re)).toString());
+		const size = Math.hypot(Math.sin(Math.PI * d), Math.sinh(Math.PI * b));
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS + Math.max(0, Math.ceil(-Math.log10(size))),
+			rounding: context.rounding
+		};
+		const reflected = {re: Component.ONE.sub(z.re, exact(z.re)), im: z.im.neg};
+		const lnpi = real(Component.ln(Constants.pi(ctx), ctx));
+		return sub(sub(lnpi, ln(sinPi(z, ctx), ctx), ctx), lnGamma(reflected, context), context);
+	}
+	const digits = context.precision + GUARD_DIGITS;
+	const r = 0.4 * digits + 1;
+	const N = Math.max(0, Math.ceil(Math.sqrt(Math.max(0, r * r - b * b)) - a));
+	const ctx: MathContext = {
+		precision: digits + Math.ceil(Math.log10(Math.hypot(a + N, b) + 1)),
+		rounding: context.rounding
+	};
+	let w = z;
+	let P = real(Component.ONE);
+	for(let j = 0; j < N; j++) {
+		P = mul(P, w, ctx);
+		w = {re: w.re.add(Component.ONE, ctx), im: w.im};
+	}
+	return N === 0? stirling(w, ctx): sub(stirling(w, ctx), ln(P, ctx), ctx);
+}
+
+/**
+ * Evaluates \\( e^{L} \\) where \\( L \\) is found with as many more decimal
+ * places as the integer part of the result has digits.
+ * @param f Evaluates \\( L \\) correct up to the decimal places of the given
+ * context settings.
+ * @param context The context settings to use.
+ * @ignore
+ */
+function exponential(f: (context: MathContext) => Complex, context: MathContext) {
+	const ctx = (extra: number): MathContext => ({
+		precision: context.precision + GUARD_DIGITS + extra,
+		rounding: context.rounding
+	});
+	let L = f(ctx(0));
+	const digits = Math.max(0, Math.ceil(Number(L.re.toString()) / Math.LN10));
+	if(digits > 0)
+		L = f(ctx(digits));
+	return exp(L, ctx(digits));
+}
+
+/**
+ * Evaluates \\( \ln \lvert \Gamma(x) \rvert \\) for a real number which is not a
+ * pole.
+ * @ignore
+ */
+function lnAbsGamma(x: Component, context: MathContext) {
+	return real(lnGamma(real(x), context).re);
+}
+
+/**
+ * Evaluates the series
+ * \\[ S = \sum_{n=0}^{\infty} \frac{x^n}{s (s+1) \cdots (s+n)} \\]
+ * for which \\( \gamma(s, x) = x^s e^{-x} S \\). For \\( x < s + 1 \\) its
+ * terms are all of the same sign and decrease from the first one.
+ * @ignore
+ */
+function lowerSeries(x: Component, s: Component, context: MathContext) {
+	const ctx: MathContext = {
+		precision: context.precision + Math.ceil(Math.log10(Math.abs(Number(s.toString())) + 1)),
+		rounding: context.rounding
+	};
+	let sum = Component.ZERO;
+	let term = Component.ONE.div(s, ctx);
+	for(let n = 1; !term.equals(Component.ZERO, ctx); n++) {
+		sum = sum.add(term, ctx);
+		term = term.mul(x, ctx).div(s.add(Component.create(n), ctx), ctx);
+	}
+	return sum;
+}
+
+/**
+ * Evaluates the continued fraction
+ * \\[ F = \cfrac{1}{x + 1 - s - \cfrac{1 (1 - s)}{x + 3 - s - \cfrac{2 (2 - s)}{x + 5 - s - \cdots}}} \\]
+ * for which \\( \Gamma(s, x) = x^s e^{-x} F \\), by the modified Lentz's
+ * method. It converges quickly for \\( x \geqslant s + 1 \\). The last few
+ * digits of the factors never settle, so they are found with more decimal
+ * places than they are compared to 1 with.
+ * @ignore
+ */
+function upperFraction(x: Component, s: Component, context: MathContext) {
+	const ctx: MathContext = {
+		precision: context.precision + GUARD_DIGITS + Math.ceil(Math.log10(Number(x.toString()) + Math.abs(Number(s.toString())) + 1)),
+		rounding: context.rounding
+	};
+	let b = x.add(Component.ONE, ctx).sub(s, ctx);
+	let c = b;
+	let d = Component.ONE.div(b, ctx);
+	let h = d;
+	for(let i = 1; ; i++) {
+		const a = Component.create(i).mul(Component.create(i).sub(s, ctx), ctx).neg;
+		b = b.add(Component.TWO, ctx);
+		d = Component.ONE.div(a.mul(d, ctx).add(b, ctx), ctx);
+		c = i === 1? b: b.add(a.div(c, ctx), ctx);
+		const delta = c.mul(d, ctx);
+		h = h.mul(delta, ctx);
+		if(delta.sub(Component.ONE, ctx).equals(Component.ZERO, context))
+			return h;
+	}
+}
+
+/**
+ * Evaluates \\( x^s e^{-x} S \\) from the logarithm of its absolute value,
+ * where \\( S \\) is found by [[lowerSeries]] or [[upperFraction]].
+ * @ignore
+ */
+function incomplete(x: Component, s: Component, S: (context: MathContext) => Component, context: MathContext) {
+	let sgn = 1;
+	const res = exponential(ctx => {
+		const sum = S(ctx);
+		sgn = sum.sign;
+		return real(s.mul(Component.ln(x, ctx), ctx).sub(x, ctx).add(Component.ln(Component.abs(sum), ctx), ctx));
+	}, context).re;
+	return signed(res, sgn);
+}
+
+/**
+ * The gamma function and the functions related to it, evaluated to any
+ * precision.
+ */
+export namespace Gamma {
+	/**
+	 * Evaluates the gamma function with rounding according to the given context
+	 * settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For positive integers, \\( \Gamma(n) = (n-1)! \\) is evaluated exactly.
+	 * For other numbers, \\( \Gamma(x) = \pm e^{\ln \lvert \Gamma(x) \rvert} \\)
+	 * where the logarithm is evaluated from Stirling's series
+	 * \\[ \ln \Gamma(x) \approx \left( x - \frac{1}{2} \right) \ln x - x + \frac{1}{2} \ln 2\pi + \sum_{k=1}^{\infty} \frac{B_{2k}}{2k(2k-1) x^{2k-1}} \\]
+	 * after shifting the argument by the recurrence \\( \Gamma(x+1) = x\Gamma(x) \\).
+	 * The numbers less than \\( \frac{1}{2} \\) are reflected by
+	 * \\[ \Gamma(x) \Gamma(1-x) = \frac{\pi}{\sin \pi x} \\]
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+	 */
+	export function gamma(x: Component, context: MathContext) {
+		if(isPole(x))
+			throw new UndefinedValue("gamma", x);
+		if(isInteger(x))
+			return Component.round(Component.create(product(1, Number(x.toString()) - 1).toString()), context);
+		const res = exponential(ctx => lnAbsGamma(x, ctx), context).re;
+		return Component.round(signed(res, sign(x)), context);
+	}
+
+	/**
+	 * Evaluates the natural logarithm of the absolute value of the gamma
+	 * function, \\( \ln \lvert \Gamma(x) \rvert \\), with rounding according to
+	 * the given context settings. This does not overflow for large arguments
+	 * unlike the gamma function itself.
+	 * @param x A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is zero or a negative integer.
+	 * @see [[gamma]]
+	 */
+	export function lgamma(x: Component, context: MathContext) {
+		if(isPole(x))
+			throw new UndefinedValue("lgamma", x);
+		if(x.equals(Component.ONE, exact(x)) || x.equals(Component.TWO, exact(x)))
+			return Component.ZERO;
+		return Component.round(lnAbsGamma(x, context).re, context);
+	}
+
+	/**
+	 * Evaluates the factorial \\( n! \\) with rounding according to the given
+	 * context settings. The factorials of non negative integers are evaluated
+	 * exactly. For other numbers it is \\( \Gamma(n+1) \\).
+	 * @param n A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `n` is a negative integer.
+	 */
+	export function factorial(n: Component, context: MathContext) {
+		if(isInteger(n)) {
+			if(n.sign < 0)
+				throw new UndefinedValue("factorial", n);
+			return Component.round(Component.create(product(1, Number(n.toString())).toString()), context);
+		}
+		return gamma(n.add(Component.ONE, exact(n)), context);
+	}
+
+	/**
+	 * Evaluates the binomial coefficient
+	 * \\[ \binom{n}{k} = \frac{\Gamma(n+1)}{\Gamma(k+1) \Gamma(n-k+1)} \\]
+	 * with rounding according to the given context settings. For an integer
+	 * \\( k \\) this is the polynomial
+	 * \\[ \binom{n}{k} = \frac{n (n-1) \cdots (n-k+1)}{k!} \\]
+	 * which is 0 for negative \\( k \\), and is evaluated exactly if \\( n \\)
+	 * is an integer too. The coefficient is 0 wherever only the denominator has
+	 * a pole.
+	 * @param n A number.
+	 * @param k A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `n` is a negative integer and `k` is not
+	 * an integer.
+	 */
+	export function binomial(n: Component, k: Component, context: MathContext) {
+		if(isInteger(k)) {
+			if(k.sign < 0)
+				return Component.ZERO;
+			const K = Number(k.toString());
+			if(isInteger(n)) {
+				const N = Number(n.toString());
+				if(N >= 0 && K > N)
+					return Component.ZERO;
+				const j = N >= 0? Math.min(K, N - K): K;
+				const num = product(N - j + 1, N);
+				return Component.round(Component.create((num / product(1, j)).toString()), context);
+			}
+			// The product is found with as many more decimal places as it has
+			// digits before the decimal point.
+			const a = Number(n.toString());
+			let digits = 0;
+			for(let i = 0; i < K; i++)
+				digits += Math.log10(Math.abs(a - i) + 1);
+			const ctx: MathContext = {
+				precision: context.precision + GUARD_DIGITS + Math.ceil(digits),
+				rounding: context.rounding
+			};
+			let num = Component.ONE;
+			for(let i = 0; i < K; i++)
+				num = num.mul(n.sub(Component.create(i), ctx), ctx);
+			return Component.round(num.div(Component.create(product(1, K).toString()), ctx), context);
+		}
+		const n1 = n.add(Component.ONE, exact(n));
+		if(isPole(n1))
+			throw new UndefinedValue("binomial", n);
+		const k1 = k.add(Component.ONE, exact(k));
+		const d = n1.sub(k, exact(n1, k));
+		if(isPole(d))
+			return Component.ZERO;
+		const res = exponential(ctx => real(lnAbsGamma(n1, ctx).re.sub(lnAbsGamma(k1, ctx).re, ctx).sub(lnAbsGamma(d, ctx).re, ctx)), context).re;
+		return Component.round(signed(res, sign(n1) * sign(k1) * sign(d)), context);
+	}
+
+	/**
+	 * Evaluates the beta function
+	 * \\[ \mathrm{B}(a, b) = \frac{\Gamma(a) \Gamma(b)}{\Gamma(a+b)} \\]
+	 * with rounding according to the given context settings, from the
+	 * logarithms of the gamma functions so that they do not overflow. It is 0
+	 * wherever only \\( a + b \\) is a pole of the gamma function.
+	 * @param a A number.
+	 * @param b A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `a` or `b` is zero or a negative integer.
+	 */
+	export function beta(a: Component, b: Component, context: MathContext) {
+		if(isPole(a))
+			throw new UndefinedValue("beta", a);
+		if(isPole(b))
+			throw new UndefinedValue("beta", b);
+		const s = a.add(b, exact(a, b));
+		if(isPole(s))
+			return Component.ZERO;
+		const res = exponential(ctx => real(lnAbsGamma(a, ctx).re.add(lnAbsGamma(b, ctx).re, ctx).sub(lnAbsGamma(s, ctx).re, ctx)), context).re;
+		return Component.round(signed(res, sign(a) * sign(b) * sign(s)), context);
+	}
+
+	/**
+	 * Evaluates the lower incomplete gamma function
+	 * \\[ \gamma(s, x) = \int_0^x t^{s-1} e^{-t} dt \\]
+	 * with rounding according to the given context settings. For
+	 * \\( s \leqslant 0 \\) it is the analytic continuation of the integral.
+	 * 
+	 * **Method**:
+	 * 
+	 * For \\( x < s + 1 \\) the series
+	 * \\[ \gamma(s, x) = x^s e^{-x} \sum_{n=0}^{\infty} \frac{x^n}{s (s+1) \cdots (s+n)} \\]
+	 * is used. Otherwise it is \\( \Gamma(s) - \Gamma(s, x) \\) where the
+	 * upper incomplete gamma function is found from its continued fraction.
+	 * @param x The upper limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is negative, if `s` is zero or a
+	 * negative integer, or if `x` is zero and `s` is not positive.
+	 * @see [[uppergamma]]
+	 */
+	export function lowergamma(x: Component, s: Component, context: MathContext) {
+		if(x.sign < 0)
+			throw new UndefinedValue("lowergamma (for non negative reals)", x);
+		if(isPole(s))
+			throw new UndefinedValue("lowergamma", s);
+		if(x.sign === 0) {
+			if(s.sign > 0)
+				return Component.ZERO;
+			throw new UndefinedValue("lowergamma", x);
+		}
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		if(x.lessThan(s.add(Component.ONE, exact(s))))
+			return Component.round(incomplete(x, s, c => lowerSeries(x, s, c), ctx), context);
+		return Component.round(gamma(s, ctx).sub(incomplete(x, s, c => upperFraction(x, s, c), ctx), ctx), context);
+	}
+
+	/**
+	 * Evaluates the upper incomplete gamma function
+	 * \\[ \Gamma(s, x) = \int_x^{\infty} t^{s-1} e^{-t} dt \\]
+	 * with rounding according to the given context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * For \\( x \geqslant s + 1 \\), or when \\( s \\) is a pole of the gamma
+	 * function, the continued fraction
+	 * \\[ \Gamma(s, x) = x^s e^{-x} \cfrac{1}{x + 1 - s - \cfrac{1 (1 - s)}{x + 3 - s - \cdots}} \\]
+	 * is evaluated. Otherwise it is \\( \Gamma(s) - \gamma(s, x) \\).
+	 * @param x The lower limit of the integral, a non negative number.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If `x` is negative, or if `x` is zero and `s`
+	 * is not positive.
+	 * @see [[lowergamma]]
+	 */
+	export function uppergamma(x: Component, s: Component, context: MathContext) {
+		if(x.sign < 0)
+			throw new UndefinedValue("uppergamma (for non negative reals)", x);
+		if(x.sign === 0) {
+			if(s.sign > 0)
+				return gamma(s, context);
+			throw new UndefinedValue("uppergamma", x);
+		}
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		if(isPole(s) || !x.lessThan(s.add(Component.ONE, exact(s))))
+			return Component.round(incomplete(x, s, c => upperFraction(x, s, c), ctx), context);
+		return Component.round(gamma(s, ctx).sub(incomplete(x, s, c => lowerSeries(x, s, c), ctx), ctx), context);
+	}
+
+	/**
+	 * Evaluates the gamma function of the complex number \\( a + \imath b \\)
+	 * with rounding according to the given context settings, the same way as
+	 * [[gamma]] does for the real numbers.
+	 * @param a The real part of the number.
+	 * @param b The imaginary part of the number, which is not zero.
+	 * @param context The context settings to use.
+	 * @returns The real and the imaginary parts of the value.
+	 */
+	export function complexGamma(a: Component, b: Component, context: MathContext): [Component, Component] {
+		const res = exponential(ctx => lnGamma({re: a, im: b}, ctx), context);
+		return [Component.round(res.re, context), Component.round(res.im, context)];
+	}
+
+	/**
+	 * Evaluates the principal value of the natural logarithm of the gamma
+	 * function of the complex number \\( a + \imath b \\), with the imaginary
+	 * part in \\( (-\pi, \pi] \\), with rounding according to the given context
+	 * settings.
+	 * @param a The real part of the number.
+	 * @param b The imaginary part of the number, which is not zero.
+	 * @param context The context settings to use.
+	 * @returns The real and the imaginary parts of the value.
+	 */
+	export function complexLgamma(a: Component, b: Component, context: MathContext): [Component, Component] {
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		const L = lnGamma({re: a, im: b}, ctx);
+		const twoPi = Component.TWO.mul(Constants.pi(ctx), ctx);
+		const turns = Component.round(L.im.div(twoPi, ctx), {precision: 0, rounding: RoundingMode.HALF_EVEN});
+		let im = L.im.sub(turns.mul(twoPi, ctx), ctx);
+		if(im.lessEquals(Constants.pi(ctx).neg, ctx))
+			im = im.add(twoPi, ctx);
+		return [Component.round(L.re, context), Component.round(im, context)];
+	}
+}
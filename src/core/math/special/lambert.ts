@@ -0,0 +1,202 @@
+import { MathContext } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+import { BigNum } from "../bignum";
+import { Arithmetic, newton_raphson } from "../numerical";
+import { UndefinedValue } from "../../errors";
+
+/**
+ * The extra digits the intermediate results are computed with before the
+ * result is rounded according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * A complex number approximated by javascript numbers, as the pair of its
+ * real and imaginary parts.
+ * @ignore
+ */
+type Approximation = [number, number];
+
+/**
+ * Approximates a complex [[BigNum]] by javascript numbers.
+ * @ignore
+ */
+function approx(x: BigNum): Approximation {
+	return [Number(x.components[0].toString()), x.dim > 1? Number(x.components[1].toString()): 0];
+}
+
+/**
+ * The principal value of the natural logarithm of an [[Approximation]].
+ * @ignore
+ */
+function ln([a, b]: Approximation): Approximation {
+	return [Math.log(Math.hypot(a, b)), Math.atan2(b, a)];
+}
+
+/**
+ * Divides one [[Approximation]] by another.
+ * @ignore
+ */
+function div([a, b]: Approximation, [c, d]: Approximation): Approximation {
+	const r = c * c + d * d;
+	return [(a * c + b * d) / r, (b * c - a * d) / r];
+}
+
+/**
+ * Approximates \\( W(z) \\) near the branch point \\( z = -\frac{1}{e} \\) by the
+ * series
+ * \\[ W(z) = -1 \pm p - \frac{p^2}{3} \pm \frac{11}{72} p^3 + \cdots \\]
+ * in \\( p = \sqrt{2 (ez + 1)} \\), which may be too small for a javascript
+ * number.
+ * @param q The number \\( ez + 1 \\).
+ * @param sign The sign of \\( p \\), positive for the principal branch.
+ * @ignore
+ */
+function series(q: BigNum, sign: number, context: MathContext) {
+	const p = BigNum.sqrt(q.add(q, context), context);
+	const s = BigNum.real(sign);
+	const p2 = p.mul(p, context);
+	const terms = [s.mul(p, context), p2.div(BigNum.real(-3), context), s.mul(p2, context).mul(p, context).mul(BigNum.real(11), context).div(BigNum.real(72), context)];
+	return terms.reduce((w, t) => w.add(t, context), BigNum.real(-1));
+}
+
+/**
+ * Approximates \\( W_k(z) \\) away from the branch point to start the
+ * iterations with, by \\( \ln(1 + z) \\) for the principal branch near 0,
+ * and by the asymptotic expansion
+ * \\[ W_k(z) \approx L_1 - L_2 + \frac{L_2}{L_1} \\]
+ * where \\( L_1 = \ln z + 2 \pi \imath k \\) and \\( L_2 = \ln L_1 \\) elsewhere.
+ * @param z The number.
+ * @param k The branch.
+ * @ignore
+ */
+function guess(z: Approximation, k: number): Approximation {
+	const [x, y] = z;
+	const r = Math.hypot(x, y);
+	if(k === 0 && (r <= 0.5 || (x >= 0 && r < 3)))
+		return ln([1 + x, y]);
+	const l = ln(z);
+	const L1: Approximation = [l[0], l[1] + 2 * Math.PI * k];
+	const L2 = ln(L1);
+	const ratio = div(L2, L1);
+	return [L1[0] - L2[0] + ratio[0], L1[1] - L2[1] + ratio[1]];
+}
+
+/**
+ * Approximates \\( W_k(z) \\) by \\( L_1 - L_2 + \frac{L_2}{L_1} \\) as in
+ * [[guess]], for the numbers too large or too small to be approximated by
+ * javascript numbers.
+ * @param z The number.
+ * @param k The branch.
+ * @ignore
+ */
+function extremeGuess(z: BigNum, k: number, context: MathContext) {
+	// The modulus of a tiny z would be lost among the decimal places.
+	const ctx: MathContext = {
+		precision: context.precision + Math.max(...z.components.map(c => c.decimal.length)),
+		rounding: context.rounding
+	};
+	const L1 = BigNum.ln(z, {branch: k}, ctx);
+	const L2 = BigNum.ln(L1, context);
+	return L1.sub(L2, context).add(L2.div(L1, context), context);
+}
+
+/**
+ * Evaluates the exponential of a complex [[BigNum]] as
+ * \\( e^{a + \imath b} = e^a (\cos b + \imath \sin b) \\).
+ * @ignore
+ */
+function exp(w: BigNum, context: MathContext) {
+	const r = Component.exp(w.components[0], context);
+	if(w.dim === 1)
+		return new BigNum(r);
+	const b = w.components[1];
+	return new BigNum(r.mul(Component.cos(b, context), context), r.mul(Component.sin(b, context), context));
+}
+
+/**
+ * Solves \\( w e^w = z \\) for \\( w \\) by Halley's method, starting from
+ * the given approximation.
+ * @ignore
+ */
+function solve<T extends Arithmetic<T>>(z: T, w: T, exponential: (w: T, context: MathContext) => T, context: MathContext) {
+	return newton_raphson<T>((w, ctx) => {
+		const e = exponential(w, ctx);
+		const we = w.mul(e, ctx);
+		const dy = we.add(e, ctx);
+		return [we.sub(z, ctx), dy, dy.add(e, ctx)];
+	}, w, context);
+}
+
+/**
+ * The Lambert W function, evaluated to any precision.
+ */
+export namespace LambertW {
+	/**
+	 * Evaluates the branch \\( W_k \\) of the Lambert W function, the inverse
+	 * of \\( w e^w \\), with rounding according to the given context settings.
+	 * The branches follow the conventions of Corless et al.: \\( W_0 \\) and
+	 * \\( W_{-1} \\) are real for the real numbers in
+	 * \\( \left[ -\frac{1}{e}, \infty \right) \\) and \\( \left[ -\frac{1}{e}, 0 \right) \\)
+	 * respectively.
+	 * 
+	 * **Method**:
+	 * 
+	 * Halley's method is applied to \\( w e^w - z = 0 \\),
+	 * \\[ w_{n+1} = w_n - \frac{w_n e^{w_n} - z}{e^{w_n} (w_n + 1) - \frac{(w_n + 2)(w_n e^{w_n} - z)}{2 w_n + 2}} \\]
+	 * starting from an approximation in the right branch. Near the branch
+	 * point \\( -\frac{1}{e} \\), where the derivative vanishes, and where
+	 * \\( e^w \\) is very small, the iterations are carried out with more
+	 * decimal places.
+	 * @param z A complex number.
+	 * @param k The branch, an integer.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 0 \\) and \\( k \neq 0 \\).
+	 */
+	export function lambertW(z: BigNum, k: number, context: MathContext) {
+		if(z.components.every(x => x.sign === 0)) {
+			if(k === 0)
+				return BigNum.real(0);
+			throw new UndefinedValue("lambertW", z);
+		}
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		const q = new BigNum(Constants.e(ctx)).mul(z, ctx).add(BigNum.real(1), ctx);
+		const Q = approx(q), Z = approx(z);
+		const size = Math.hypot(Q[0], Q[1]);
+		const near = k === 0 || (k === -1 && Z[1] >= 0) || (k === 1 && Z[1] < 0);
+		if(size === 0 && near)
+			return BigNum.real(-1);
+		// The root is about as sensitive to the rounding errors as
+		// 1 / √(ez + 1) near the branch point.
+		const digits: MathContext = {
+			precision: ctx.precision + Math.max(0, Math.ceil(-Math.log10(size) / 2)),
+			rounding: context.rounding
+		};
+		let w: BigNum;
+		if(near && size < 0.8)
+			w = series(q, k === 0? 1: -1, digits);
+		else if(Z.every(isFinite) && (k === 0 || Z[0] !== 0 || Z[1] !== 0)) {
+			const [a, b] = guess(Z, k);
+			w = BigNum.complex(a.toFixed(17), b.toFixed(17));
+		} else w = extremeGuess(z, k, ctx);
+		// The exponential of a root far out on the negative real side, as on
+		// the branch -1 near 0, has as many leading zeroes as |w| / ln 10.
+		const re = Number(w.components[0].toString());
+		const work: MathContext = {
+			precision: digits.precision + (re < 0? Math.ceil(-re / Math.LN10): 0),
+			rounding: context.rounding
+		};
+		if(z.dim === 1 && Q[0] >= 0 && (k === 0 || (k === -1 && Z[0] < 0))) {
+			const x = z.components[0];
+			const res = solve<Component>(x, w.components[0], (w, c) => Component.exp(w, c), work);
+			return new BigNum(Component.round(res, context));
+		}
+		const res = solve<BigNum>(z, w, exp, work);
+		return BigNum.round(res, context);
+	}
+}
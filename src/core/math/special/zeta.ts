@@ -0,0 +1,372 @@
+import { MathContext } from "../context";
+import { Component } from "../component";
+import { Constants } from "../constants";
+import { UndefinedValue } from "../../errors";
+import { bernoulli, Gamma } from "./gamma";
+import { Complex, real, add, sub, neg, mul, div, ln, exp } from "./complex";
+
+/**
+ * The extra digits the intermediate results are computed with before the
+ * result is rounded according to the context settings.
+ * @ignore
+ */
+const GUARD_DIGITS = 10;
+
+/**
+ * Approximates the parts of a [[Complex]] number by javascript numbers.
+ * @ignore
+ */
+function approx(x: Complex): [number, number] {
+	return [Number(x.re.toString()), Number(x.im.toString())];
+}
+
+/**
+ * Approximates the absolute value of a [[Complex]] number by a javascript
+ * number.
+ * @ignore
+ */
+function magnitude(x: Complex) {
+	const [a, b] = approx(x);
+	return Math.hypot(a, b);
+}
+
+/**
+ * Creates a real [[Complex]] number from an integer.
+ * @ignore
+ */
+function integer(n: number) {
+	return real(Component.create(n));
+}
+
+/**
+ * Checks whether a [[Complex]] number is zero up to the decimal places of the
+ * context settings.
+ * @ignore
+ */
+function isZero(x: Complex, context: MathContext) {
+	return x.re.equals(Component.ZERO, context) && x.im.equals(Component.ZERO, context);
+}
+
+/**
+ * Checks whether a [[Complex]] number is exactly a real integer.
+ * @ignore
+ */
+function isInteger(x: Complex) {
+	return x.im.sign === 0 && x.re.compareTo(Component.floor(x.re)) === 0;
+}
+
+/**
+ * Rounds both the parts of a [[Complex]] number.
+ * @ignore
+ */
+function round(x: Complex, context: MathContext): Complex {
+	return {re: Component.round(x.re, context), im: Component.round(x.im, context)};
+}
+
+/**
+ * Evaluates the Bernoulli number \\( B_n \\), with \\( B_1 = -\frac{1}{2} \\),
+ * rounded according to the context settings.
+ * @ignore
+ */
+function bernoulliNumber(n: number, context: MathContext) {
+	if(n === 0)
+		return Component.ONE;
+	if(n === 1)
+		return Component.create("-0.5");
+	if(n % 2 === 1)
+		return Component.ZERO;
+	const [num, den] = bernoulli(n / 2);
+	return Component.create(num.toString()).div(Component.create(den.toString()), context);
+}
+
+/**
+ * Evaluates \\( x^{-s} = e^{-s \ln x} \\) for the principal value of the
+ * logarithm.
+ * @ignore
+ */
+function power(x: Complex, s: Complex, context: MathContext) {
+	return exp(neg(mul(s, ln(x, context), context)), context);
+}
+
+/**
+ * Evaluates the Hurwitz zeta function
+ * \\[ \zeta(s, a) = \sum_{k=0}^{\infty} \frac{1}{(k+a)^s} \\]
+ * for \\( \mathrm{Re}(a) \geqslant 0 \\) by the Euler-Maclaurin formula
+ * \\[ \zeta(s, a) = \sum_{k=0}^{N-1} \frac{1}{(k+a)^s} + \frac{w^{1-s}}{s-1} + \frac{1}{2 w^s} + \sum_{j=1}^{\infty} \frac{B_{2j}}{(2j)!} \frac{s (s+1) \cdots (s+2j-2)}{w^{s+2j-1}} \\]
+ * where \\( w = N + a \\). The sum over \\( j \\) diverges, but with
+ * \\( 2 \pi \lvert w \rvert \\) larger than the number of digits needed its terms
+ * vanish before they start growing. The terms of the first sum are found with
+ * as many more decimal places as the largest of them has digits before the
+ * decimal point.
+ * @ignore
+ */
+function hurwitz(s: Complex, a: Complex, context: MathContext) {
+	const [sigma, t] = approx(s);
+	const [alpha, beta] = approx(a);
+	const N = Math.max(0, Math.ceil(context.precision * Math.LN10 / (2 * Math.PI) + Math.hypot(sigma, t) - alpha) + 1);
+	const near = Math.max(Math.hypot(alpha, beta), Number.MIN_VALUE), far = Math.hypot(alpha + N, beta);
+	const size = Math.max(0, -sigma * Math.log10(near), (1 - sigma) * Math.log10(far)) + Math.abs(t) * Math.PI / 2 / Math.LN10;
+	const ctx: MathContext = {
+		precision: context.precision + Math.ceil(size + Math.log10(N + 1)),
+		rounding: context.rounding
+	};
+	const one = real(Component.ONE);
+	let sum = real(Component.ZERO);
+	let w = a;
+	for(let k = 0; k < N; k++) {
+		sum = add(sum, power(w, s, ctx), ctx);
+		w = add(w, one, ctx);
+	}
+	const ws = power(w, s, ctx);
+	sum = add(sum, div(mul(ws, w, ctx), sub(s, one, ctx), ctx), ctx);
+	sum = add(sum, mul(ws, real(Component.create("0.5")), ctx), ctx);
+	// The terms are split as c_j r_j, where c_j = B_{2j} (2π)^{2j} / (2j)! is
+	// about ±2 and r_j = s (s+1) ... (s+2j-2) / (2π)^{2j} w^{s+2j-1} decreases,
+	// so that neither loses any significant digits.
+	const twoPi = Component.TWO.mul(Constants.pi(ctx), ctx);
+	const twoPiSq = twoPi.mul(twoPi, ctx);
+	const u = div(one, mul(w, real(twoPi), ctx), ctx);
+	const u2 = mul(u, u, ctx);
+	let r = mul(mul(s, ws, ctx), div(u, real(twoPi), ctx), ctx);
+	let scale = Component.ONE;
+	let factorial = BigInt(1);
+	for(let j = 1; ; j++) {
+		scale = scale.mul(twoPiSq, ctx);
+		factorial *= BigInt((2 * j - 1) * 2 * j);
+		const [num, den] = bernoulli(j);
+		const c = Component.create(num.toString()).mul(scale, ctx).div(Component.create((den * factorial).toString()), ctx);
+		const term = mul(real(c), r, ctx);
+		if(isZero(term, ctx))
+			return sum;
+		sum = add(sum, term, ctx);
+		r = mul(mul(r, add(s, integer(2 * j - 1), ctx), ctx), mul(add(s, integer(2 * j), ctx), u2, ctx), ctx);
+	}
+}
+
+/**
+ * Sums up the series
+ * \\[ \operatorname{Li}_s(z) = \sum_{k=1}^{\infty} \frac{z^k}{k^s} \\]
+ * with as many more decimal places as the largest of its terms has digits
+ * before the decimal point. The number of terms needed is found beforehand.
+ * @ignore
+ */
+function direct(s: Complex, z: Complex, context: MathContext) {
+	const [sigma] = approx(s);
+	const lnr = Math.log(magnitude(z));
+	let peak = 0, n = 1;
+	for(; ; n++) {
+		const size = (n * lnr - sigma * Math.log(n)) / Math.LN10;
+		peak = Math.max(peak, size);
+		if(size < -context.precision && n * lnr < sigma)
+			break;
+	}
+	const ctx: MathContext = {
+		precision: context.precision + Math.ceil(peak + Math.log10(n)),
+		rounding: context.rounding
+	};
+	const lnz = ln(z, ctx);
+	let sum = real(Component.ZERO);
+	for(let k = 1; k <= n; k++) {
+		const lnk = real(Component.ln(Component.create(k), ctx));
+		sum = add(sum, exp(sub(mul(integer(k), lnz, ctx), mul(s, lnk, ctx), ctx), ctx), ctx);
+	}
+	return sum;
+}
+
+/**
+ * Evaluates the polylogarithm of a positive integer order \\( n \\) by the series
+ * \\[ \operatorname{Li}_n(z) = \frac{\mu^{n-1}}{(n-1)!} \left( H_{n-1} - \ln(-\mu) \right) + \sum_{k \neq n-1} \zeta(n-k) \frac{\mu^k}{k!} \\]
+ * where \\( \mu = \ln z \\), which converges for \\( \lvert \mu \rvert < 2 \pi \\).
+ * The coefficients are found with as many more decimal places as the powers of
+ * \\( \mu \\) have digits before the decimal point.
+ * @ignore
+ */
+function logSeries(n: number, z: Complex, context: MathContext) {
+	const mu = ln(z, context);
+	const size = Math.max(0, Math.log10(magnitude(mu)));
+	let sum = real(Component.ZERO);
+	let powers = real(Component.ONE);
+	let factorial = BigInt(1);
+	for(let k = 0; ; k++) {
+		const ctx: MathContext = {
+			precision: context.precision + Math.ceil(k * size),
+			rounding: context.rounding
+		};
+		const f = Component.create(factorial.toString());
+		if(k === n - 1) {
+			let H = Component.ZERO;
+			for(let j = 1; j < n; j++)
+				H = H.add(Component.ONE.div(Component.create(j), ctx), ctx);
+			const c = div(sub(real(H), ln(neg(mu), ctx), ctx), real(f), ctx);
+			sum = add(sum, mul(c, powers, context), context);
+		} else {
+			const c = Zeta.zeta(integer(n - k), ctx).re.div(f, ctx);
+			const term = mul(real(c), powers, context);
+			// The zeta function vanishes at the negative even integers, while
+			// the other coefficients only round off to zero once negligible.
+			const trivial = k > n && (k - n) % 2 === 0;
+			if(k >= n && !trivial && isZero(term, context))
+				return sum;
+			sum = add(sum, term, context);
+		}
+		powers = mul(powers, mu, context);
+		factorial *= BigInt(k + 1);
+	}
+}
+
+/**
+ * Evaluates the polylogarithm of a positive integer order \\( n \\) for
+ * \\( \lvert z \rvert > 1 \\) by the inversion formula
+ * \\[ \operatorname{Li}_n(z) = (-1)^{n-1} \operatorname{Li}_n \left( \frac{1}{z} \right) - \frac{(2 \pi \imath)^n}{n!} B_n \left( \frac{1}{2} + \frac{\ln(-z)}{2 \pi \imath} \right) \\]
+ * where \\( B_n \\) is the Bernoulli polynomial.
+ * @ignore
+ */
+function inversion(n: number, z: Complex, context: MathContext) {
+	const L = ln(neg(z), context);
+	const twoPi = Component.TWO.mul(Constants.pi(context), context);
+	const x: Complex = {
+		re: Component.create("0.5").add(L.im.div(twoPi, context), context),
+		im: L.re.div(twoPi, context).neg
+	};
+	let digits = n * Math.log10(1 + magnitude(x));
+	for(let j = 2; j <= n; j++)
+		digits += Math.log10(j);
+	const ctx: MathContext = {
+		precision: context.precision + Math.ceil(digits),
+		rounding: context.rounding
+	};
+	let B = real(Component.ZERO);
+	let binomial = BigInt(1);
+	for(let k = 0; k <= n; k++) {
+		const c = bernoulliNumber(k, ctx).mul(Component.create(binomial.toString()), ctx);
+		B = add(mul(B, x, ctx), real(c), ctx);
+		binomial = binomial * BigInt(n - k) / BigInt(k + 1);
+	}
+	let f = Component.ONE;
+	for(let j = 1; j <= n; j++)
+		f = f.mul(twoPi, ctx).div(Component.create(j), ctx);
+	const units: Complex[] = [
+		real(f), {re: Component.ZERO, im: f}, real(f.neg), {re: Component.ZERO, im: f.neg}
+	];
+	const inverse = direct(integer(n), div(real(Component.ONE), z, context), context);
+	return sub(n % 2 === 1? inverse: neg(inverse), mul(units[n % 4], B, ctx), context);
+}
+
+/**
+ * Evaluates the polylogarithm by its relation to the Hurwitz zeta function
+ * \\[ \operatorname{Li}_s(z) = \frac{\Gamma(1-s)}{(2 \pi)^{1-s}} \left( \imath^{1-s} \zeta \left( 1-s, \frac{1}{2} + \frac{\ln(-z)}{2 \pi \imath} \right) + \imath^{s-1} \zeta \left( 1-s, \frac{1}{2} - \frac{\ln(-z)}{2 \pi \imath} \right) \right) \\]
+ * which holds unless \\( s \\) is a positive integer. The zeta functions are
+ * found with as many more decimal places as the factor in front of them, or
+ * its inverse, has digits before the decimal point.
+ * @ignore
+ */
+function jonquiere(s: Complex, z: Complex, context: MathContext) {
+	const one = real(Component.ONE);
+	const t = sub(one, s, context);
+	const lnPrefactor = (ctx: MathContext) => {
+		const [re, im] = Gamma.complexLgamma(t.re, t.im, ctx);
+		const ln2pi = Component.ln(Component.TWO.mul(Constants.pi(ctx), ctx), ctx);
+		return sub({re, im}, mul(t, real(ln2pi), ctx), ctx);
+	};
+	const estimate = approx(lnPrefactor({precision: 10, rounding: context.rounding}))[0];
+	const ctx: MathContext = {
+		precision: context.precision + Math.ceil((Math.abs(estimate) + Math.abs(approx(s)[1]) * Math.PI / 2) / Math.LN10),
+		rounding: context.rounding
+	};
+	const twoPi = Component.TWO.mul(Constants.pi(ctx), ctx);
+	const L = ln(neg(z), ctx);
+	const u: Complex = {re: L.im.div(twoPi, ctx), im: L.re.div(twoPi, ctx).neg};
+	const half = real(Component.create("0.5"));
+	const rotation = mul(t, {re: Component.ZERO, im: Constants.pi(ctx).div(Component.TWO, ctx)}, ctx);
+	const sum = add(
+		mul(exp(rotation, ctx), hurwitz(t, add(half, u, ctx), ctx), ctx),
+		mul(exp(neg(rotation), ctx), hurwitz(t, sub(half, u, ctx), ctx), ctx),
+		ctx
+	);
+	return mul(exp(lnPrefactor(ctx), ctx), sum, ctx);
+}
+
+/**
+ * The Riemann zeta function and the polylogarithm, evaluated to any
+ * precision for complex arguments.
+ */
+export namespace Zeta {
+	/**
+	 * Evaluates the Riemann zeta function
+	 * \\[ \zeta(s) = \sum_{k=1}^{\infty} \frac{1}{k^s} \\]
+	 * or its analytic continuation, with rounding according to the given
+	 * context settings.
+	 * 
+	 * **Method**:
+	 * 
+	 * At the integers \\( s = -m \leqslant 0 \\) the exact values
+	 * \\[ \zeta(-m) = (-1)^m \frac{B_{m+1}}{m+1} \\]
+	 * are used. Elsewhere the Euler-Maclaurin formula is applied to the sum.
+	 * @param s A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} At the pole \\( s = 1 \\).
+	 */
+	export function zeta(s: Complex, context: MathContext): Complex {
+		if(isInteger(s) && s.re.sign <= 0) {
+			const m = -Number(s.re.toString());
+			const res = bernoulliNumber(m + 1, context).div(Component.create(m + 1), context);
+			return real(m % 2 === 0? res: res.neg);
+		}
+		if(s.im.sign === 0 && s.re.compareTo(Component.ONE) === 0)
+			throw new UndefinedValue("zeta", s.re);
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		return round(hurwitz(s, real(Component.ONE), ctx), context);
+	}
+
+	/**
+	 * Evaluates the polylogarithm
+	 * \\[ \operatorname{Li}_s(z) = \sum_{k=1}^{\infty} \frac{z^k}{k^s} \\]
+	 * or its analytic continuation, with rounding according to the given
+	 * context settings. The principal branch of the logarithm is used for the
+	 * continuation, so that \\( \operatorname{Li}_1(z) = -\ln(1-z) \\).
+	 * 
+	 * **Method**:
+	 * 
+	 * For \\( \lvert z \rvert \leqslant \frac{1}{2} \\) the series is summed up.
+	 * Otherwise, for the positive integers \\( s = n \\) the series in powers of
+	 * \\( \ln z \\) is used for \\( \lvert z \rvert < 2 \\), and the inversion
+	 * formula relating \\( \operatorname{Li}_n(z) \\) to \\( \operatorname{Li}_n(1/z) \\)
+	 * beyond. The other orders are found from the Hurwitz zeta function.
+	 * @param s The order of the polylogarithm.
+	 * @param z A number.
+	 * @param context The context settings to use.
+	 * @throws {@link UndefinedValue} If \\( z = 1 \\) and \\( \mathrm{Re}(s) \leqslant 1 \\).
+	 */
+	export function polylog(s: Complex, z: Complex, context: MathContext): Complex {
+		const one = real(Component.ONE);
+		if(z.re.sign === 0 && z.im.sign === 0)
+			return real(Component.ZERO);
+		if(z.im.sign === 0 && z.re.compareTo(Component.ONE) === 0) {
+			if(Component.ONE.lessThan(s.re))
+				return zeta(s, context);
+			throw new UndefinedValue("polylog", z.re);
+		}
+		const ctx: MathContext = {
+			precision: context.precision + GUARD_DIGITS,
+			rounding: context.rounding
+		};
+		if(s.re.sign === 0 && s.im.sign === 0)
+			return round(div(z, sub(one, z, ctx), ctx), context);
+		const r = magnitude(z);
+		let res: Complex;
+		if(r <= 0.5)
+			res = direct(s, z, ctx);
+		else if(isInteger(s) && s.re.sign > 0) {
+			const n = Number(s.re.toString());
+			if(n === 1)
+				res = neg(ln(sub(one, z, ctx), ctx));
+			else if(r < 2)
+				res = logSeries(n, z, ctx);
+			else res = inversion(n, z, ctx);
+		} else res = jonquiere(s, z, ctx);
+		return round(res, context);
+	}
+}
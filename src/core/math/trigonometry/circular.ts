@@ -1,4 +1,5 @@
 import { Component } from "../component";
+import { Constants } from "../constants";
 import { MathContext } from "../context";
 import { UndefinedValue } from "../../errors";
 import { Numerical } from "../../definitions";
@@ -27,8 +28,9 @@ export namespace TrigCyclic {
 			precision: 2 * context.precision,
 			rounding: context.rounding
 		};
-		x = x.mod(Component.TWO.mul(Component.PI, ctx), ctx);
-		if(Component.abs(x, context).equals(Component.PI, context))
+		const pi = Constants.pi(ctx);
+		x = x.mod(Component.TWO.mul(pi, ctx), ctx);
+		if(Component.abs(x, context).equals(pi, context))
 			return Component.ZERO;
 		const x_sq = x.mul(x, ctx);
 		let sum = Component.ZERO;
@@ -68,7 +70,7 @@ export namespace TrigCyclic {
 			precision: 2 * context.precision,
 			rounding: context.rounding
 		};
-		x = x.mod(Component.TWO.mul(Component.PI, ctx), ctx);
+		x = x.mod(Component.TWO.mul(Constants.pi(ctx), ctx), ctx);
 		const x_sq = x.mul(x, ctx);
 		let sum = Component.ZERO;
 		let term = Component.ONE;
@@ -170,7 +172,7 @@ export namespace TrigCyclic {
 			precision: context.precision + 5,
 			rounding: context.rounding
 		};
-		const piBy2 = Component.PI.div(Component.TWO, ctx);
+		const piBy2 = Constants.pi(ctx).div(Component.TWO, ctx);
 		const z = Component.ONE.sub(x, ctx).div(Component.TWO, ctx);
 		const s = z.pow(half, ctx);
 		const temp = asin_less(s, ctx);
@@ -203,7 +205,7 @@ export namespace TrigCyclic {
 		};
 		const half = Component.create("0.5");
 		if(Component.abs(x, context).lessThan(half)) {
-			const res = Component.PI.mul(half, ctx).sub(asin_less(x, ctx), ctx);
+			const res = Constants.pi(ctx).mul(half, ctx).sub(asin_less(x, ctx), ctx);
 			return Component.round(res, context);
 		}
 		const z = Component.ONE.sub(x, ctx).div(Component.TWO, ctx);
@@ -299,17 +301,17 @@ export namespace TrigCyclic {
 			const num = Component.ONE.sub(x, ctx);
 			const den = Component.ONE.add(x, ctx);
 			less = num.div(den, ctx);
-			referenceValue = Component.PI.div(Component.FOUR, ctx);
+			referenceValue = Constants.pi(ctx).div(Component.FOUR, ctx);
 			sign = -1;
 		} else if(x.lessThan(limit3)) {
 			const num = x.sub(Component.ONE, ctx);
 			const den = x.add(Component.ONE, ctx);
 			less = num.div(den, ctx);
-			referenceValue = Component.PI.div(Component.FOUR, ctx);
+			referenceValue = Constants.pi(ctx).div(Component.FOUR, ctx);
 			sign = 1;
 		} else {
 			less = Component.ONE.div(x, ctx);
-			referenceValue = Component.PI.div(Component.TWO, ctx);
+			referenceValue = Constants.pi(ctx).div(Component.TWO, ctx);
 			sign = -1;
 		}
 		const res = sign === 1? referenceValue.add(atan_less(less, ctx), ctx):
@@ -345,14 +347,14 @@ export namespace TrigCyclic {
 		const xComp = x.compareTo(Component.ZERO);
 		if(xComp === 0 && yComp === 0)
 			throw new UndefinedValue("atan2", <Numerical><unknown>[0, 0]);
-		const pi = Component.PI;
-		const two = Component.TWO;
-		if(xComp === 0)
-			return yComp === -1? pi.div(two, context).neg: pi.div(two, context);
 		const ctx: MathContext = {
 			precision: context.precision + 5,
 			rounding: context.rounding
 		};
+		const pi = Constants.pi(ctx);
+		const two = Component.TWO;
+		if(xComp === 0)
+			return yComp === -1? pi.div(two, context).neg: pi.div(two, context);
 		const arg = y.div(x, ctx);
 		if(xComp === 1) return atan(arg, context);
 		const value = atan(arg, ctx);
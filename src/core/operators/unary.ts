@@ -41,7 +41,55 @@ export enum UnaryOperator {
 	/** Represents the greatest integer function. */
 	FLOOR = "floor",
 	/** Represents the least integer function. */
-	CEIL = "ceil"
+	CEIL = "ceil",
+	/** Represents the error function. */
+	ERF = "erf",
+	/** Represents the complementary error function. */
+	ERFC = "erfc",
+	/** Represents the inverse error function. */
+	ERFINV = "erfinv",
+	/**
+	 * Represents the lower incomplete gamma function. The parameter `s` of
+	 * \\( \gamma(s, x) \\) is the first element of the rest arguments of the
+	 * expression.
+	 */
+	LOWERGAMMA = "lowergamma",
+	/**
+	 * Represents the upper incomplete gamma function. The parameter `s` of
+	 * \\( \Gamma(s, x) \\) is the first element of the rest arguments of the
+	 * expression.
+	 */
+	UPPERGAMMA = "uppergamma",
+	/**
+	 * Represents the Bessel function of the first kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	BESSELJ = "besselJ",
+	/**
+	 * Represents the Bessel function of the second kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	BESSELY = "besselY",
+	/**
+	 * Represents the modified Bessel function of the first kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	BESSELI = "besselI",
+	/**
+	 * Represents the modified Bessel function of the second kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	BESSELK = "besselK",
+	/**
+	 * Represents the spherical Bessel function of the first kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	SPHERICALJ = "sphericalJ",
+	/**
+	 * Represents the spherical Bessel function of the second kind. The order \\( \nu \\) is the first
+	 * element of the rest arguments of the expression.
+	 */
+	SPHERICALY = "sphericalY"
 }
 
 /**
@@ -0,0 +1,286 @@
+import { Evaluable, isExpression, isConstant, Expression } from "./definitions";
+import { BinaryOperator } from "./operators/binary";
+import { UnaryOperator } from "./operators/unary";
+
+/**
+ * Contains helper functions needed to convert [[Evaluable]] quantities to
+ * strings, either as plain text or as LaTeX markup.
+ */
+export namespace ExpressionPrinter {
+	/**
+	 * The output formats supported.
+	 */
+	export type Format = "text" | "latex";
+
+	/**
+	 * Names of the greek letters which have a LaTeX command of the same name.
+	 * @ignore
+	 */
+	const GREEK = [
+		"alpha", "beta", "gamma", "delta", "epsilon", "varepsilon", "zeta", "eta",
+		"theta", "vartheta", "iota", "kappa", "lambda", "mu", "nu", "xi", "pi",
+		"rho", "sigma", "tau", "upsilon", "phi", "varphi", "chi", "psi", "omega",
+		"Gamma", "Delta", "Theta", "Lambda", "Xi", "Pi", "Sigma", "Upsilon", "Phi",
+		"Psi", "Omega"
+	];
+
+	/**
+	 * LaTeX commands of the functions which have one.
+	 * @ignore
+	 */
+	const LATEX_FUNCTIONS: {[op: string]: string} = {
+		sin: "\\sin", cos: "\\cos", tan: "\\tan",
+		asin: "\\arcsin", acos: "\\arccos", atan: "\\arctan",
+		sinh: "\\sinh", cosh: "\\cosh", tanh: "\\tanh",
+		ln: "\\ln", log: "\\log", exp: "\\exp",
+		erfinv: "\\operatorname{erf}^{-1}"
+	};
+
+	/**
+	 * Letters of the Bessel functions, which are subscripted by the order.
+	 * @ignore
+	 */
+	const BESSEL: {[op: string]: string} = {
+		besselJ: "J", besselY: "Y", besselI: "I", besselK: "K",
+		sphericalJ: "j", sphericalY: "y"
+	};
+
+	/**
+	 * Converts the name of a quantity to LaTeX. Names of greek letters are
+	 * turned into the corresponding commands and anything after the first
+	 * underscore is treated as a subscript. For example, `"theta_1"` becomes
+	 * `"\theta_{1}"`.
+	 * @param name The name to convert.
+	 */
+	export function latexName(name: string): string {
+		const index = name.indexOf("_");
+		const base = index === -1? name: name.substring(0, index);
+		const symbol = GREEK.indexOf(base) !== -1? "\\" + base: base;
+		if(index === -1)
+			return symbol;
+		return symbol + "_{" + latexName(name.substring(index + 1)) + "}";
+	}
+
+	/**
+	 * Checks whether a constant prints as a sum or difference of terms (like
+	 * a negative or a complex number) and hence needs to be parenthesised the
+	 * same way as a sum.
+	 * @ignore
+	 */
+	function isCompound(e: Evaluable) {
+		return /^-|\s[+-]\s/.test(e.toString());
+	}
+
+	/**
+	 * Checks whether a quantity is a unnamed constant vector along one of the
+	 * coordinate axes with unit length. Such vectors are printed as basis
+	 * vectors when they appear inside an expression.
+	 * @ignore
+	 */
+	function basisIndex(e: Evaluable) {
+		if(!isConstant(e) || e.quantity !== "vector" || e.name !== "")
+			return -1;
+		const values = (<Evaluable[]>e.value).map(x => x.toString());
+		const index = values.indexOf("1");
+		if(index === -1 || values.some((x, i) => i !== index && x !== "0"))
+			return -1;
+		return index + 1;
+	}
+
+	/**
+	 * Checks whether a quantity is a vector expression with known components,
+	 * which is printed as a column of those components.
+	 * @ignore
+	 */
+	function isColumn(e: Evaluable) {
+		return isExpression(e) && e.quantity === "vector" && e.components !== undefined;
+	}
+
+	/**
+	 * Prints the components of a vector as a column.
+	 * @ignore
+	 */
+	function column(rows: Evaluable[], format: Format) {
+		if(format === "latex")
+			return "\\begin{pmatrix} " + rows.map(x => print(x, format)).join(" \\\\ ") + " \\end{pmatrix}";
+		return "(" + rows.map(x => print(x, format)).join(", ") + ")";
+	}
+
+	/**
+	 * The binding strength of the root operation of an expression. Higher
+	 * values bind tighter.
+	 * @ignore
+	 */
+	function precedence(e: Evaluable, format: Format) {
+		if(!isExpression(e))
+			return isConstant(e) && isCompound(e)? 1: 5;
+		if(isColumn(e))
+			return 5;
+		switch(e.op) {
+		case BinaryOperator.ADD:
+		case BinaryOperator.SUB:
+		case UnaryOperator.NEG:
+			return 1;
+		case BinaryOperator.MUL:
+		case BinaryOperator.DIV:
+		case BinaryOperator.SCALE:
+			return 2;
+		case BinaryOperator.DOT:
+		case BinaryOperator.CROSS:
+			return format === "latex"? 2: 5;
+		case BinaryOperator.POW:
+			return 4;
+		}
+		return 5;
+	}
+
+	/**
+	 * Checks whether an expression is printed with a leading minus sign.
+	 * @ignore
+	 */
+	function isNegative(e: Evaluable) {
+		if(isExpression(e))
+			return e.op === UnaryOperator.NEG;
+		return isConstant(e) && e.toString().charAt(0) === "-";
+	}
+
+	/**
+	 * Checks whether an expression is a single signed term, like `-x` or `-2`.
+	 * A product or quotient with such a term on its left hand side need not be
+	 * parenthesised.
+	 * @ignore
+	 */
+	function isSigned(e: Evaluable) {
+		if(isExpression(e))
+			return e.op === UnaryOperator.NEG;
+		return isConstant(e) && /^-[^\s]*$/.test(e.toString());
+	}
+
+	/**
+	 * Wraps a string in parentheses.
+	 * @ignore
+	 */
+	function paren(s: string, format: Format) {
+		return format === "latex"? "\\left(" + s + "\\right)": "(" + s + ")";
+	}
+
+	/**
+	 * Prints an operand, parenthesising it if required.
+	 * @ignore
+	 */
+	function operand(e: Evaluable, format: Format, wrap: boolean) {
+		const s = print(e, format);
+		return wrap? paren(s, format): s;
+	}
+
+	/**
+	 * Prints a product of a scalar and a vector, the scalar being printed first.
+	 * @ignore
+	 */
+	function product(k: Evaluable, v: Evaluable, format: Format) {
+		const a = operand(k, format, precedence(k, format) < 2);
+		const b = operand(v, format, precedence(v, format) < 2);
+		return format === "latex"? a + " " + b: a + "*" + b;
+	}
+
+	/**
+	 * Prints an expression whose root operator is binary.
+	 * @ignore
+	 */
+	function binary(e: Expression, format: Format) {
+		const latex = format === "latex";
+		const l = e.lhs, r = e.rhs;
+		const pl = precedence(l, format), pr = precedence(r, format);
+		switch(e.op) {
+		case BinaryOperator.ADD:
+			return print(l, format) + " + " + operand(r, format, isNegative(r));
+		case BinaryOperator.SUB:
+			return print(l, format) + " - " + operand(r, format, pr <= 1);
+		case BinaryOperator.MUL:
+			if(e.quantity === "vector")
+				return product(l, r, format);
+			return operand(l, format, pl < 2 && !isSigned(l)) + (latex? " \\cdot ": "*") + operand(r, format, pr < 2);
+		case BinaryOperator.SCALE:
+			return product(r, l, format);
+		case BinaryOperator.DIV:
+			if(latex)
+				return "\\frac{" + print(l, format) + "}{" + print(r, format) + "}";
+			return operand(l, format, pl < 2 && !isSigned(l)) + "/" + operand(r, format, pr <= 2);
+		case BinaryOperator.POW:
+			if(latex)
+				return operand(l, format, pl <= 4) + "^{" + print(r, format) + "}";
+			return operand(l, format, pl <= 4) + "^" + operand(r, format, pr < 4);
+		case BinaryOperator.DOT:
+		case BinaryOperator.CROSS:
+			if(latex)
+				return operand(l, format, pl < 2) + (e.op === BinaryOperator.DOT? " \\cdot ": " \\times ") + operand(r, format, pr < 2);
+			return e.op + "(" + print(l, format) + ", " + print(r, format) + ")";
+		case BinaryOperator.MAG:
+			// The left hand side operand is the class implementing the operation.
+			return latex? "\\left\\lvert " + print(r, format) + " \\right\\rvert": "|" + print(r, format) + "|";
+		case BinaryOperator.UNIT:
+			return latex? "\\hat{" + operand(r, format, pr < 5) + "}": "unit(" + print(r, format) + ")";
+		}
+		return e.op + "(" + print(l, format) + ", " + print(r, format) + ")";
+	}
+
+	/**
+	 * Prints an expression whose root operator is unary.
+	 * @ignore
+	 */
+	function unary(e: Expression, format: Format) {
+		const a = e.arg;
+		const s = print(a, format);
+		if(e.op === UnaryOperator.NEG)
+			return "-" + operand(a, format, precedence(a, format) <= 1);
+		const params = e.rest.map(x => print(x, format));
+		if(format === "text")
+			return e.op + "(" + [s, ...params].join(", ") + ")";
+		switch(e.op) {
+		case UnaryOperator.SQRT:
+			return "\\sqrt{" + s + "}";
+		case UnaryOperator.ABS:
+			return "\\left\\lvert " + s + " \\right\\rvert";
+		case UnaryOperator.FLOOR:
+			return "\\left\\lfloor " + s + " \\right\\rfloor";
+		case UnaryOperator.CEIL:
+			return "\\left\\lceil " + s + " \\right\\rceil";
+		case UnaryOperator.LOWERGAMMA:
+			return "\\gamma" + paren(params[0] + ", " + s, format);
+		case UnaryOperator.UPPERGAMMA:
+			return "\\Gamma" + paren(params[0] + ", " + s, format);
+		case UnaryOperator.BESSELJ:
+		case UnaryOperator.BESSELY:
+		case UnaryOperator.BESSELI:
+		case UnaryOperator.BESSELK:
+		case UnaryOperator.SPHERICALJ:
+		case UnaryOperator.SPHERICALY:
+			return BESSEL[e.op] + "_{" + params[0] + "}" + paren(s, format);
+		}
+		const command = LATEX_FUNCTIONS[e.op] || "\\operatorname{" + e.op + "}";
+		return command + paren(s, format);
+	}
+
+	/**
+	 * Converts an [[Evaluable]] quantity to a string. Constants and variables
+	 * are printed by their own `toString`/`toLatex` methods, vector expressions
+	 * with known components as a column of those components and the other
+	 * expressions in infix notation with the minimum number of parentheses
+	 * required by the precedence of the operators.
+	 * @param e The quantity to print.
+	 * @param format Whether to produce plain text or LaTeX.
+	 */
+	export function print(e: Evaluable, format: Format): string {
+		if(!isExpression(e)) {
+			const index = basisIndex(e);
+			if(index !== -1)
+				return format === "latex"? "\\hat{e}_{" + index + "}": "e_" + index;
+			return format === "latex"? e.toLatex(): e.toString();
+		}
+		if(isColumn(e))
+			return column(e.components, format);
+		if(e.operands.length === 1)
+			return unary(e, format);
+		return binary(e, format);
+	}
+}
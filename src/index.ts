@@ -1,5 +1,6 @@
 export * from "./core/math/context";
 export * from "./core/math/component";
+export * from "./core/math/constants";
 export * from "./core/math/bignum";
 export * from "./core/math/functions";
 export { levicivita, kronecker } from "./core/math/numerical";
@@ -11,5 +12,15 @@ export * from "./core/expression";
 export * from "./core/errors";
 export * from "./core/interval";
 export * from "./scalar";
+export * from "./parser";
+export * from "./simplify";
+export * from "./compile";
+export * from "./coordinates";
 export * from "./vector";
-export * from "./matrix";
\ No newline at end of file
+export * from "./matrix";
+export * from "./rotation";
+export * from "./calculus/derivative";
+export * from "./calculus/series";
+export * from "./calculus/integral";
+export * from "./calculus/curve";
+export * from "./calculus/surface";
@@ -0,0 +1,225 @@
+import { Scalar, e, pi, tau } from "./scalar";
+import { Component } from "./core/math/component";
+import { UnaryOperator, isUnaryOperator } from "./core/operators/unary";
+import { ParseError } from "./core/errors";
+import * as func from "./core/math/functions";
+
+/**
+ * A single token read from the string form of an expression.
+ * @ignore
+ */
+type Lexeme = {
+	kind: "number" | "name" | "symbol" | "end",
+	text: string,
+	position: number
+}
+
+/**
+ * Splits the string form of an expression into tokens.
+ * @param input The string to split.
+ * @ignore
+ */
+function tokenize(input: string) {
+	const tokens: Lexeme[] = [];
+	const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+	const name = /^[A-Za-z_][A-Za-z0-9_]*/;
+	let i = 0;
+	while(i < input.length) {
+		const c = input.charAt(i);
+		if(/\s/.test(c)) {
+			i++;
+			continue;
+		}
+		const rest = input.substring(i);
+		let match: RegExpExecArray | null;
+		if((match = number.exec(rest)) !== null)
+			tokens.push({kind: "number", text: match[0].toLowerCase(), position: i});
+		else if((match = name.exec(rest)) !== null)
+			tokens.push({kind: "name", text: match[0], position: i});
+		else if("+-*/^(),".indexOf(c) !== -1)
+			tokens.push({kind: "symbol", text: c, position: i});
+		else
+			throw new ParseError(input, i, `Unexpected character "${c}"`);
+		i += tokens[tokens.length - 1].text.length;
+	}
+	tokens.push({kind: "end", text: "", position: input.length});
+	return tokens;
+}
+
+/**
+ * The number of constant parameters the functions which have any take after
+ * their argument.
+ * @ignore
+ */
+const PARAMETERS: {[op: string]: number} = {
+	lowergamma: 1,
+	uppergamma: 1,
+	besselJ: 1,
+	besselY: 1,
+	besselI: 1,
+	besselK: 1,
+	sphericalJ: 1,
+	sphericalY: 1
+};
+
+/**
+ * A recursive descent parser for scalar expressions. The grammar, in the order
+ * of increasing precedence, is
+ * ```
+ * expression := term (("+" | "-") term)*
+ * term       := unary (("*" | "/") unary)*
+ * unary      := ("+" | "-") unary | power
+ * power      := primary ("^" unary)?
+ * primary    := number | name | name "(" expression ("," expression)* ")" | "(" expression ")"
+ * ```
+ * The functions with constant parameters, like the incomplete gamma functions,
+ * take them after the argument, for example `lowergamma(x, 2)`.
+ * @ignore
+ */
+class ScalarParser {
+	private readonly tokens: Lexeme[];
+	private index = 0;
+
+	constructor(private readonly input: string) {
+		this.tokens = tokenize(input);
+	}
+
+	private get current() {
+		return this.tokens[this.index];
+	}
+
+	private fail(token: Lexeme, reason?: string): never {
+		if(reason === undefined)
+			reason = token.kind === "end"? "Unexpected end of input": `Unexpected token "${token.text}"`;
+		throw new ParseError(this.input, token.position, reason);
+	}
+
+	private accept(symbol: string) {
+		const token = this.current;
+		if(token.kind === "symbol" && token.text === symbol) {
+			this.index++;
+			return true;
+		}
+		return false;
+	}
+
+	private expect(symbol: string) {
+		if(!this.accept(symbol))
+			this.fail(this.current, this.current.kind === "end"? `Expected "${symbol}" before end of input`: undefined);
+	}
+
+	public parse() {
+		const res = this.expression();
+		if(this.current.kind !== "end")
+			this.fail(this.current);
+		return res;
+	}
+
+	private expression(): Scalar {
+		let res = this.term();
+		while(true) {
+			if(this.accept("+"))
+				res = res.add(this.term());
+			else if(this.accept("-"))
+				res = res.sub(this.term());
+			else return res;
+		}
+	}
+
+	private term(): Scalar {
+		let res = this.unary();
+		while(true) {
+			if(this.accept("*"))
+				res = res.mul(this.unary());
+			else if(this.accept("/"))
+				res = res.div(this.unary());
+			else return res;
+		}
+	}
+
+	private unary(): Scalar {
+		if(this.accept("-"))
+			return this.unary().neg;
+		if(this.accept("+"))
+			return this.unary();
+		return this.power();
+	}
+
+	private power(): Scalar {
+		const base = this.primary();
+		if(this.accept("^"))
+			return base.pow(this.unary());
+		return base;
+	}
+
+	private primary(): Scalar {
+		const token = this.current;
+		if(token.kind === "number") {
+			this.index++;
+			return Scalar.constant(Component.create(token.text));
+		}
+		if(token.kind === "name") {
+			this.index++;
+			if(this.accept("(")) {
+				if(!isUnaryOperator(token.text) || token.text === UnaryOperator.NEG)
+					this.fail(token, `Unknown function "${token.text}"`);
+				const arg = this.expression();
+				const params: Scalar[] = [];
+				for(let i = 0; i < (PARAMETERS[token.text] || 0); i++) {
+					this.expect(",");
+					const param = this.current;
+					params.push(this.expression());
+					if(!(params[i] instanceof Scalar.Constant))
+						this.fail(param, `The parameters of "${token.text}" must be constant`);
+				}
+				this.expect(")");
+				return (<any>func)[token.text](arg, ...params);
+			}
+			return resolve(token.text);
+		}
+		if(this.accept("(")) {
+			const res = this.expression();
+			this.expect(")");
+			return res;
+		}
+		return this.fail(token);
+	}
+}
+
+/**
+ * Maps a name appearing in an expression to the constant or the variable it
+ * represents.
+ * @param name The identifier.
+ * @ignore
+ */
+function resolve(name: string) {
+	switch(name) {
+	case "pi":
+		return pi;
+	case "e":
+		return e;
+	case "tau":
+		return tau;
+	}
+	return Scalar.variable(name);
+}
+
+/**
+ * Parses the string form of a scalar expression into an expression tree. The
+ * supported operators are `+`, `-`, `*`, `/` and `^` (exponentiation, right
+ * associative) along with the unary `+` and `-`. Any of the functions in
+ * [[UnaryOperator]], like `sin`, `ln` and `sqrt`, may be called with an argument
+ * in parentheses.
+ * 
+ * Numbers are read exactly as written, in decimal or scientific notation,
+ * without any loss of precision. The names `pi`, `e` and `tau` refer to the
+ * respective constants, any other name is a [[Scalar.Variable]] from the
+ * [[Scalar.variable]] registry.
+ * @param input The string form of the expression.
+ * @return The parsed scalar. Sub expressions without variables are evaluated
+ * while parsing.
+ * @throws {@link ParseError} If the string is not a valid expression.
+ */
+export function parseScalar(input: string): Scalar {
+	return new ScalarParser(input).parse();
+}
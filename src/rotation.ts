@@ -0,0 +1,470 @@
+import { Vector } from "./vector";
+import { Matrix } from "./matrix";
+import { BigNum } from "./core/math/bignum";
+import { Component } from "./core/math/component";
+import { Constants } from "./core/math/constants";
+import { MathContext } from "./core/math/context";
+import { mathenv } from "./core/env";
+import { InvalidDimension, UndefinedValue } from "./core/errors";
+
+/**
+ * The angles of a rotation about the axes of the body, applied in the order
+ * yaw, pitch and roll. That is, the rotation is the intrinsic rotation by
+ * \\( \psi \\) (yaw) about the z axis, followed by \\( \theta \\) (pitch) about
+ * the new y axis, followed by \\( \phi \\) (roll) about the newest x axis.
+ */
+export type EulerAngles = {
+	/** The angle \\( \phi \\) about the x axis, in \\( (-\pi, \pi] \\). */
+	roll: BigNum,
+	/** The angle \\( \theta \\) about the y axis, in \\( \left[ -\frac{\pi}{2}, \frac{\pi}{2} \right] \\). */
+	pitch: BigNum,
+	/** The angle \\( \psi \\) about the z axis, in \\( (-\pi, \pi] \\). */
+	yaw: BigNum
+}
+
+/**
+ * Returns the components \\( (w, x, y, z) \\) of a quaternion
+ * \\( w + x \imath + y \jmath + z k \\).
+ * @param name The name of the operation.
+ * @param q The quaternion.
+ * @throws {@link InvalidDimension} If `q` is not a quaternion.
+ * @ignore
+ */
+function quaternion(name: string, q: BigNum) {
+	if(q.dim > 4)
+		throw new InvalidDimension(name, q.dim, 4);
+	return [0, 1, 2, 3].map(i => q.components[i] || Component.ZERO);
+}
+
+/**
+ * Returns the real value of a number.
+ * @param name The name of the operation.
+ * @param x The number.
+ * @throws {@link UndefinedValue} If `x` is not real.
+ * @ignore
+ */
+function real(name: string, x: BigNum) {
+	if(x.dim !== 1)
+		throw new UndefinedValue(name, x);
+	return x.components[0];
+}
+
+/**
+ * Rotates a vector \\( \vec{v} \\) in 3 dimensions by a quaternion \\( q \\)
+ * with rounding according to {@link mathenv.mode}.
+ * @param v The vector.
+ * @param q The quaternion.
+ * @returns The rotated vector.
+ */
+export function rotate(v: Vector.Constant, q: BigNum): Vector.Constant;
+/**
+ * Rotates a vector \\( \vec{v} \\) in 3 dimensions by a quaternion \\( q \\)
+ * with rounding according to the given context settings. The vector is taken
+ * as the pure quaternion \\( v = v_x \imath + v_y \jmath + v_z k \\) and the
+ * result is the vector part of
+ * \\[ q v q^* \\]
+ * which is the rotation by the angle \\( \alpha \\) about the axis
+ * \\( \hat{n} \\) if \\( q = \cos \frac{\alpha}{2} + \hat{n} \sin \frac{\alpha}{2} \\).
+ * A quaternion that is not of absolute value 1 also scales the vector by
+ * \\( \lvert q \rvert^2 \\).
+ * @param v The vector.
+ * @param q The quaternion.
+ * @param context The context settings to use.
+ * @returns The rotated vector.
+ * @throws {@link InvalidDimension} If `v` has more than 3 components or `q`
+ * is not a quaternion.
+ * @see {@link BigNum.fromAxisAngle}
+ */
+export function rotate(v: Vector.Constant, q: BigNum, context: MathContext): Vector.Constant;
+export function rotate(v: Vector.Constant, q: BigNum, context=mathenv.mode) {
+	// The trailing zeroes of a vector are trimmed, as in (1, 0, 0).
+	if(v.value.length > 3)
+		throw new InvalidDimension("rotate", v.value.length, 3);
+	quaternion("rotate", q);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const p = new BigNum([Component.ZERO].concat([0, 1, 2].map(i => v.value[i]? real("rotate", v.value[i].value): Component.ZERO)));
+	const res = q.mul(p, ctx).mul(q.conj, ctx);
+	return new Vector.Constant([1, 2, 3].map(i => BigNum.round(new BigNum(res.components[i] || Component.ZERO), context)));
+}
+
+/**
+ * Composes rotations given as quaternions with rounding according to
+ * {@link mathenv.mode}.
+ * @param rotations The quaternions, in the order the rotations are applied.
+ * @returns The quaternion of the combined rotation.
+ */
+export function compose(rotations: BigNum[]): BigNum;
+/**
+ * Composes rotations given as quaternions with rounding according to the
+ * given context settings. Rotating by \\( q_1 \\) and then by \\( q_2 \\)
+ * is the rotation by \\( q_2 q_1 \\).
+ * @param rotations The quaternions, in the order the rotations are applied.
+ * @param context The context settings to use.
+ * @returns The quaternion of the combined rotation.
+ * @throws {@link InvalidDimension} If any of the numbers is not a quaternion.
+ */
+export function compose(rotations: BigNum[], context: MathContext): BigNum;
+export function compose(rotations: BigNum[], context=mathenv.mode) {
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const res = rotations.reduce((acc, q) => {
+		quaternion("compose", q);
+		return q.mul(acc, ctx);
+	}, BigNum.real(1));
+	return BigNum.round(res, context);
+}
+
+/**
+ * Creates the rotation matrix of a quaternion with rounding according to
+ * {@link mathenv.mode}.
+ * @param q The quaternion.
+ * @returns The rotation matrix.
+ */
+export function toRotationMatrix(q: BigNum): Matrix;
+/**
+ * Creates the rotation matrix of a quaternion with rounding according to the
+ * given context settings. The elements are those of [[toExactRotationMatrix]]
+ * converted to javascript numbers, so the elements of very small rotations
+ * may be lost.
+ * @param q The quaternion.
+ * @param context The context settings to use.
+ * @returns The rotation matrix.
+ * @throws {@link InvalidDimension} If `q` is not a quaternion.
+ * @see {@link rotate}
+ */
+export function toRotationMatrix(q: BigNum, context: MathContext): Matrix;
+export function toRotationMatrix(q: BigNum, context=mathenv.mode) {
+	quaternion("toRotationMatrix", q);
+	const rows = toExactRotationMatrix(q, context);
+	return new Matrix(rows.map(row => row.map(a => Number(a.toString()))));
+}
+
+/**
+ * Creates the rows of the rotation matrix of a quaternion with rounding
+ * according to {@link mathenv.mode}.
+ * @param q The quaternion.
+ * @returns The rows of the rotation matrix.
+ */
+export function toExactRotationMatrix(q: BigNum): BigNum[][];
+/**
+ * Creates the rotation matrix \\( R \\) of a quaternion \\( q = w + x \imath + y \jmath + z k \\)
+ * with rounding according to the given context settings, such that rotating
+ * a vector by \\( q \\) is the same as multiplying it by \\( R \\) on the left,
+ * \\[ R = \begin{pmatrix}
+ * 	w^2 + x^2 - y^2 - z^2 & 2 (xy - wz) & 2 (xz + wy) \\\\
+ * 	2 (xy + wz) & w^2 - x^2 + y^2 - z^2 & 2 (yz - wx) \\\\
+ * 	2 (xz - wy) & 2 (yz + wx) & w^2 - x^2 - y^2 + z^2
+ * \end{pmatrix} \\]
+ * Unlike [[toRotationMatrix]], the elements are returned as numbers of any
+ * precision instead of a [[Matrix]] of javascript numbers.
+ * @param q The quaternion.
+ * @param context The context settings to use.
+ * @returns The rows of the rotation matrix.
+ * @throws {@link InvalidDimension} If `q` is not a quaternion.
+ * @see {@link rotate}
+ */
+export function toExactRotationMatrix(q: BigNum, context: MathContext): BigNum[][];
+export function toExactRotationMatrix(q: BigNum, context=mathenv.mode) {
+	const [w, x, y, z] = quaternion("toExactRotationMatrix", q);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const mul = (a: Component, b: Component) => a.mul(b, ctx);
+	const twice = (a: Component, b: Component, c: Component, d: Component) => Component.TWO.mul(mul(a, b).add(mul(c, d), ctx), ctx);
+	const [ww, xx, yy, zz] = [mul(w, w), mul(x, x), mul(y, y), mul(z, z)];
+	const elements = [
+		[ww.add(xx, ctx).sub(yy, ctx).sub(zz, ctx), twice(x, y, w.neg, z), twice(x, z, w, y)],
+		[twice(x, y, w, z), ww.sub(xx, ctx).add(yy, ctx).sub(zz, ctx), twice(y, z, w.neg, x)],
+		[twice(x, z, w.neg, y), twice(y, z, w, x), ww.sub(xx, ctx).sub(yy, ctx).add(zz, ctx)]
+	];
+	return elements.map(row => row.map(a => new BigNum(Component.round(a, context))));
+}
+
+/**
+ * Creates the quaternion of a rotation matrix with rounding according to
+ * {@link mathenv.mode}.
+ * @param m The rotation matrix, or its rows.
+ * @returns The quaternion of the rotation.
+ */
+export function fromRotationMatrix(m: Matrix | BigNum[][]): BigNum;
+/**
+ * Creates the quaternion \\( q = w + x \imath + y \jmath + z k \\) of a rotation
+ * matrix with rounding according to the given context settings. Of the two
+ * quaternions \\( \pm q \\) of every rotation, the one with \\( w \geqslant 0 \\)
+ * is returned.
+ * 
+ * **Method**:
+ * 
+ * The largest of \\( w, x, y, z \\) in absolute value is calculated from
+ * the diagonal, for example
+ * \\[ w = \frac{1}{2} \sqrt{1 + R_{11} + R_{22} + R_{33}} \\]
+ * and the rest from the off diagonal elements, for example
+ * \\( x = \frac{R_{32} - R_{23}}{4w} \\), which avoids dividing by small
+ * numbers.
+ * @param m The rotation matrix, or its rows as given by [[toExactRotationMatrix]].
+ * @param context The context settings to use.
+ * @returns The quaternion of the rotation.
+ * @throws {@link InvalidDimension} If `m` is not a 3 by 3 matrix.
+ * @throws {@link UndefinedValue} If any of the elements is not real.
+ */
+export function fromRotationMatrix(m: Matrix | BigNum[][], context: MathContext): BigNum;
+export function fromRotationMatrix(m: Matrix | BigNum[][], context=mathenv.mode) {
+	const R = m instanceof Matrix?
+		m.elements.map(row => row.map(a => Component.create(a.toString()))):
+		m.map(row => row.map(a => real("fromRotationMatrix", a)));
+	const col = R.map(row => row.length).find(n => n !== 3);
+	if(R.length !== 3 || col !== undefined)
+		throw new InvalidDimension("fromRotationMatrix", R.length !== 3? R.length: <number>col, 3);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const quarter = Component.create("0.25");
+	const [a, b, c] = [R[0][0], R[1][1], R[2][2]];
+	// The squares 4w², 4x², 4y² and 4z².
+	const squares = [
+		Component.ONE.add(a, ctx).add(b, ctx).add(c, ctx),
+		Component.ONE.add(a, ctx).sub(b, ctx).sub(c, ctx),
+		Component.ONE.sub(a, ctx).add(b, ctx).sub(c, ctx),
+		Component.ONE.sub(a, ctx).sub(b, ctx).add(c, ctx)
+	];
+	// The products 4wx, 4wy, 4wz, 4xy, 4xz and 4yz.
+	const products = new Map<string, Component>([
+		["01", R[2][1].sub(R[1][2], ctx)], ["02", R[0][2].sub(R[2][0], ctx)], ["03", R[1][0].sub(R[0][1], ctx)],
+		["12", R[0][1].add(R[1][0], ctx)], ["13", R[0][2].add(R[2][0], ctx)], ["23", R[1][2].add(R[2][1], ctx)]
+	]);
+	const k = squares.reduce((max, s, i) => s.compareTo(squares[max]) > 0? i: max, 0);
+	const largest = Component.sqrt(squares[k], ctx).mul(Component.create("0.5"), ctx);
+	const q = [0, 1, 2, 3].map(i => {
+		if(i === k)
+			return largest;
+		const p = <Component>products.get(i < k? `${i}${k}`: `${k}${i}`);
+		return p.mul(quarter, ctx).div(largest, ctx);
+	});
+	const res = new BigNum(q);
+	return BigNum.round(q[0].lessThan(Component.ZERO)? res.neg: res, context);
+}
+
+/**
+ * Creates the quaternion of a rotation given by its Euler angles with
+ * rounding according to {@link mathenv.mode}.
+ * @param angles The Euler angles.
+ * @returns The quaternion of the rotation.
+ */
+export function fromEulerAngles(angles: EulerAngles): BigNum;
+/**
+ * Creates the quaternion of a rotation given by its Euler angles with
+ * rounding according to the given context settings. The quaternion is the
+ * composition
+ * \\[ q = \left( \cos \frac{\psi}{2} + k \sin \frac{\psi}{2} \right) \left( \cos \frac{\theta}{2} + \jmath \sin \frac{\theta}{2} \right) \left( \cos \frac{\phi}{2} + \imath \sin \frac{\phi}{2} \right) \\]
+ * @param angles The Euler angles.
+ * @param context The context settings to use.
+ * @returns The quaternion of the rotation.
+ * @throws {@link UndefinedValue} If any of the angles is not real.
+ */
+export function fromEulerAngles(angles: EulerAngles, context: MathContext): BigNum;
+export function fromEulerAngles(angles: EulerAngles, context=mathenv.mode) {
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const half = Component.create("0.5");
+	const [roll, pitch, yaw] = [angles.roll, angles.pitch, angles.yaw].map((angle, i) => {
+		const a = real("fromEulerAngles", angle).mul(half, ctx);
+		const axis = [Component.ZERO, Component.ZERO, Component.ZERO];
+		axis[i] = Component.sin(a, ctx);
+		return new BigNum([Component.cos(a, ctx)].concat(axis));
+	});
+	const res = yaw.mul(pitch, ctx).mul(roll, ctx);
+	return BigNum.round(res, context);
+}
+
+/**
+ * Calculates the Euler angles of the rotation by a quaternion with rounding
+ * according to {@link mathenv.mode}.
+ * @param q The quaternion.
+ * @returns The Euler angles.
+ */
+export function toEulerAngles(q: BigNum): EulerAngles;
+/**
+ * Calculates the Euler angles of the rotation by a quaternion
+ * \\( q = w + x \imath + y \jmath + z k \\) with rounding according to the
+ * given context settings,
+ * \\[ \begin{align}
+ * 	\phi &= \operatorname{atan2} \left( 2 (wx + yz), w^2 - x^2 - y^2 + z^2 \right) \\\\
+ * 	\theta &= \sin^{-1} \frac{2 (wy - xz)}{\lvert q \rvert^2} \\\\
+ * 	\psi &= \operatorname{atan2} \left( 2 (wz + xy), w^2 + x^2 - y^2 - z^2 \right)
+ * \end{align} \\]
+ * At \\( \theta = \pm \frac{\pi}{2} \\) (the gimbal lock) only one of
+ * \\( \psi \mp \phi \\) is defined, and the roll is taken to be 0.
+ * @param q The quaternion.
+ * @param context The context settings to use.
+ * @returns The Euler angles.
+ * @throws {@link InvalidDimension} If `q` is not a quaternion.
+ * @throws {@link UndefinedValue} If `q` is 0.
+ */
+export function toEulerAngles(q: BigNum, context: MathContext): EulerAngles;
+export function toEulerAngles(q: BigNum, context=mathenv.mode) {
+	const [w, x, y, z] = quaternion("toEulerAngles", q);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const norm = BigNum.absSq(q, ctx).components[0];
+	if(norm.equals(Component.ZERO, ctx))
+		throw new UndefinedValue("toEulerAngles", q);
+	const mul = (a: Component, b: Component) => a.mul(b, ctx);
+	const twice = (a: Component, b: Component, c: Component, d: Component) => Component.TWO.mul(mul(a, b).add(mul(c, d), ctx), ctx);
+	const [ww, xx, yy, zz] = [mul(w, w), mul(x, x), mul(y, y), mul(z, z)];
+	const sine = twice(w, y, x.neg, z).div(norm, ctx);
+	const pi = Constants.pi(ctx);
+	let roll: Component, pitch: Component, yaw: Component;
+	const locked = Component.abs(Component.round(sine, context)).equals(Component.ONE, context);
+	if(locked) {
+		const sign = sine.sign;
+		roll = Component.ZERO;
+		pitch = pi.mul(Component.create(sign * 0.5), ctx);
+		yaw = Component.atan2(x, w, ctx).mul(Component.create(-2 * sign), ctx);
+		if(yaw.compareTo(pi) > 0)
+			yaw = yaw.sub(pi.mul(Component.TWO, ctx), ctx);
+		else if(yaw.compareTo(pi.neg) <= 0)
+			yaw = yaw.add(pi.mul(Component.TWO, ctx), ctx);
+	} else {
+		roll = Component.atan2(twice(w, x, y, z), ww.sub(xx, ctx).sub(yy, ctx).add(zz, ctx), ctx);
+		pitch = Component.asin(sine, ctx);
+		yaw = Component.atan2(twice(w, z, x, y), ww.add(xx, ctx).sub(yy, ctx).sub(zz, ctx), ctx);
+	}
+	const round = (a: Component) => new BigNum(Component.round(a, context));
+	return {roll: round(roll), pitch: round(pitch), yaw: round(yaw)};
+}
+
+/**
+ * Interpolates between two quaternions along the great arc from `q1` to `q2`,
+ * without choosing the shorter one.
+ * @ignore
+ */
+function interpolate(q1: BigNum, q2: BigNum, t: BigNum, context: MathContext) {
+	const step = q1.inv(context).mul(q2, context);
+	return q1.mul(step.pow(t, context), context);
+}
+
+/**
+ * Interpolates spherically between two rotations with rounding according to
+ * {@link mathenv.mode}.
+ * @param q1 The quaternion of the rotation at \\( t = 0 \\).
+ * @param q2 The quaternion of the rotation at \\( t = 1 \\).
+ * @param t The parameter, a real number.
+ * @returns The interpolated quaternion.
+ */
+export function slerp(q1: BigNum, q2: BigNum, t: BigNum): BigNum;
+/**
+ * Interpolates spherically between two rotations with rounding according to
+ * the given context settings,
+ * \\[ \operatorname{slerp}(q_1, q_2, t) = q_1 \left( q_1^{-1} q_2 \right)^t \\]
+ * which for quaternions of absolute value 1 moves along the great arc at a
+ * constant angular speed. As \\( q_2 \\) and \\( -q_2 \\) are the same rotation,
+ * the one closer to \\( q_1 \\) is used so that the shorter arc is taken.
+ * 
+ * The power is evaluated as \\( e^{t \ln (q_1^{-1} q_2)} \\), which stays
+ * accurate for rotations that are very close to each other.
+ * @param q1 The quaternion of the rotation at \\( t = 0 \\).
+ * @param q2 The quaternion of the rotation at \\( t = 1 \\).
+ * @param t The parameter, a real number.
+ * @param context The context settings to use.
+ * @returns The interpolated quaternion.
+ * @throws {@link InvalidDimension} If `q1` or `q2` is not a quaternion.
+ * @throws {@link UndefinedValue} If `t` is not real.
+ */
+export function slerp(q1: BigNum, q2: BigNum, t: BigNum, context: MathContext): BigNum;
+export function slerp(q1: BigNum, q2: BigNum, t: BigNum, context=mathenv.mode) {
+	const a = quaternion("slerp", q1), b = quaternion("slerp", q2);
+	real("slerp", t);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const dot = a.reduce((acc, x, i) => acc.add(x.mul(b[i], ctx), ctx), Component.ZERO);
+	const res = interpolate(q1, dot.lessThan(Component.ZERO)? q2.neg: q2, t, ctx);
+	return BigNum.round(res, context);
+}
+
+/**
+ * Calculates the control point of a quaternion for [[squad]] interpolation
+ * with rounding according to {@link mathenv.mode}.
+ * @param previous The previous quaternion in the sequence.
+ * @param q The quaternion.
+ * @param next The next quaternion in the sequence.
+ * @returns The control point.
+ */
+export function squadControlPoint(previous: BigNum, q: BigNum, next: BigNum): BigNum;
+/**
+ * Calculates the control point of a quaternion \\( q_i \\) for [[squad]]
+ * interpolation with rounding according to the given context settings,
+ * \\[ s_i = q_i \exp \left( -\frac{\ln \left( q_i^{-1} q_{i+1} \right) + \ln \left( q_i^{-1} q_{i-1} \right)}{4} \right) \\]
+ * which makes the interpolated rotations smooth at \\( q_i \\).
+ * @param previous The previous quaternion \\( q_{i-1} \\) in the sequence.
+ * @param q The quaternion \\( q_i \\).
+ * @param next The next quaternion \\( q_{i+1} \\) in the sequence.
+ * @param context The context settings to use.
+ * @returns The control point.
+ * @throws {@link InvalidDimension} If any of the numbers is not a quaternion.
+ */
+export function squadControlPoint(previous: BigNum, q: BigNum, next: BigNum, context: MathContext): BigNum;
+export function squadControlPoint(previous: BigNum, q: BigNum, next: BigNum, context=mathenv.mode) {
+	[previous, q, next].forEach(x => quaternion("squadControlPoint", x));
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const inv = q.inv(ctx);
+	const sum = BigNum.ln(inv.mul(next, ctx), ctx).add(BigNum.ln(inv.mul(previous, ctx), ctx), ctx);
+	const res = q.mul(BigNum.exp(sum.div(BigNum.real(-4), ctx), ctx), ctx);
+	return BigNum.round(res, context);
+}
+
+/**
+ * Interpolates between two rotations by spherical quadrangle interpolation
+ * with rounding according to {@link mathenv.mode}.
+ * @param q1 The quaternion of the rotation at \\( t = 0 \\).
+ * @param q2 The quaternion of the rotation at \\( t = 1 \\).
+ * @param s1 The control point of `q1`.
+ * @param s2 The control point of `q2`.
+ * @param t The parameter, a real number.
+ * @returns The interpolated quaternion.
+ */
+export function squad(q1: BigNum, q2: BigNum, s1: BigNum, s2: BigNum, t: BigNum): BigNum;
+/**
+ * Interpolates between two rotations by spherical quadrangle interpolation
+ * with rounding according to the given context settings,
+ * \\[ \operatorname{squad}(q_1, q_2, s_1, s_2, t) = \operatorname{slerp} \left( \operatorname{slerp}(q_1, q_2, t), \operatorname{slerp}(s_1, s_2, t), 2t (1 - t) \right) \\]
+ * Unlike [[slerp]], the arcs are not shortened, so consecutive quaternions
+ * in a sequence should be chosen with non negative dot products.
+ * @param q1 The quaternion of the rotation at \\( t = 0 \\).
+ * @param q2 The quaternion of the rotation at \\( t = 1 \\).
+ * @param s1 The control point of `q1`.
+ * @param s2 The control point of `q2`.
+ * @param t The parameter, a real number.
+ * @param context The context settings to use.
+ * @returns The interpolated quaternion.
+ * @throws {@link InvalidDimension} If any of the numbers is not a quaternion.
+ * @throws {@link UndefinedValue} If `t` is not real.
+ * @see {@link squadControlPoint}
+ */
+export function squad(q1: BigNum, q2: BigNum, s1: BigNum, s2: BigNum, t: BigNum, context: MathContext): BigNum;
+export function squad(q1: BigNum, q2: BigNum, s1: BigNum, s2: BigNum, t: BigNum, context=mathenv.mode) {
+	[q1, q2, s1, s2].forEach(x => quaternion("squad", x));
+	real("squad", t);
+	const ctx: MathContext = {
+		precision: context.precision + 5,
+		rounding: context.rounding
+	};
+	const h = BigNum.real(2).mul(t, ctx).mul(BigNum.real(1).sub(t, ctx), ctx);
+	const res = interpolate(interpolate(q1, q2, t, ctx), interpolate(s1, s2, t, ctx), h, ctx);
+	return BigNum.round(res, context);
+}
@@ -4,11 +4,16 @@ import { ExpressionBuilder } from "./core/expression";
 import { UnaryOperator, isUnaryOperator } from "./core/operators/unary";
 import { Vector } from "./vector";
 import { Overwrite, IndeterminateForm } from "./core/errors";
-import { abs, sin, cos, tan, asin, acos, atan, sinh, cosh, tanh, asinh, acosh, atanh, exp, log, ln, floor, ceil } from "./core/math/functions";
+import { abs, sin, cos, tan, asin, acos, atan, sinh, cosh, tanh, asinh, acosh, atanh, exp, log, ln, sqrt, floor, ceil, erf, erfc, erfinv, lowergamma, uppergamma, besselJ, besselY, besselI, besselK, sphericalJ, sphericalY } from "./core/math/functions";
 import { BigNum } from "./core/math/bignum";
 import { mathenv } from "./core/env";
-import { MathContext, RoundingMode } from "./core/math/context";
+import { MathContext } from "./core/math/context";
 import { Component } from "./core/math/component";
+import { Constants } from "./core/math/constants";
+import { diff } from "./calculus/derivative";
+import { simplify, Simplifier } from "./simplify";
+import { parseScalar } from "./parser";
+import { ExpressionPrinter } from "./core/printer";
 
 /**
  * Base class to works with scalar quantities.
@@ -20,6 +25,11 @@ export abstract class Scalar extends Numerical implements Token, Evaluable {
 
 	public abstract neg: Scalar;
 
+	/**
+	 * The LaTeX representation of `this` quantity.
+	 */
+	public abstract toLatex(): string;
+
 	/**
 	 * Adds two [[Scalar]]s together. If `this` and `that` are both constants
 	 * then numerically adds the two and returns a new {@link Scalar.Constant} object
@@ -322,6 +332,22 @@ export abstract class Scalar extends Numerical implements Token, Evaluable {
 		return new Scalar.Expression(UnaryOperator.LOG, x);
 	}
 
+	/**
+	 * Calculates the square root of a [[Scalar]].
+	 * @param x A scalar constant.
+	 */
+	public static sqrt(x: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the square root of a [[Scalar]].
+	 * @param x A scalar variable or expression.
+	 */
+	public static sqrt(x: Scalar.Variable | Scalar.Expression): Scalar.Expression;
+	public static sqrt(x: Scalar) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(sqrt(x.value));
+		return new Scalar.Expression(UnaryOperator.SQRT, x);
+	}
+
 	/**
 	 * Evaluates the largest integer less than or equal to a [[Scalar]].
 	 * @param x A scalar constant.
@@ -353,6 +379,214 @@ export abstract class Scalar extends Numerical implements Token, Evaluable {
 			return new Scalar.Constant(ceil(x.value));
 		return new Scalar.Expression(UnaryOperator.CEIL, x);
 	}
+
+	/**
+	 * Calculates the error function of a [[Scalar]].
+	 * @param x A scalar constant.
+	 */
+	public static erf(x: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the error function of a [[Scalar]].
+	 * @param x A scalar variable or expression.
+	 */
+	public static erf(x: Scalar.Variable | Scalar.Expression): Scalar.Expression;
+	public static erf(x: Scalar) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(erf(x.value));
+		return new Scalar.Expression(UnaryOperator.ERF, x);
+	}
+
+	/**
+	 * Calculates the complementary error function of a [[Scalar]].
+	 * @param x A scalar constant.
+	 */
+	public static erfc(x: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the complementary error function of a [[Scalar]].
+	 * @param x A scalar variable or expression.
+	 */
+	public static erfc(x: Scalar.Variable | Scalar.Expression): Scalar.Expression;
+	public static erfc(x: Scalar) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(erfc(x.value));
+		return new Scalar.Expression(UnaryOperator.ERFC, x);
+	}
+
+	/**
+	 * Calculates the inverse error function of a [[Scalar]].
+	 * @param x A scalar constant.
+	 */
+	public static erfinv(x: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the inverse error function of a [[Scalar]].
+	 * @param x A scalar variable or expression.
+	 */
+	public static erfinv(x: Scalar.Variable | Scalar.Expression): Scalar.Expression;
+	public static erfinv(x: Scalar) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(erfinv(x.value));
+		return new Scalar.Expression(UnaryOperator.ERFINV, x);
+	}
+
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) of a [[Scalar]].
+	 * @param x A scalar constant, the upper limit of the integral.
+	 * @param s A scalar constant.
+	 */
+	public static lowergamma(x: Scalar.Constant, s: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the lower incomplete gamma function \\( \gamma(s, x) \\) of a [[Scalar]].
+	 * The parameter `s` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression, the upper limit of the integral.
+	 * @param s A scalar constant.
+	 */
+	public static lowergamma(x: Scalar.Variable | Scalar.Expression, s: Scalar.Constant): Scalar.Expression;
+	public static lowergamma(x: Scalar, s: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(lowergamma(x.value, s.value));
+		return new Scalar.Expression(UnaryOperator.LOWERGAMMA, x, s);
+	}
+
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) of a [[Scalar]].
+	 * @param x A scalar constant, the lower limit of the integral.
+	 * @param s A scalar constant.
+	 */
+	public static uppergamma(x: Scalar.Constant, s: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the upper incomplete gamma function \\( \Gamma(s, x) \\) of a [[Scalar]].
+	 * The parameter `s` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression, the lower limit of the integral.
+	 * @param s A scalar constant.
+	 */
+	public static uppergamma(x: Scalar.Variable | Scalar.Expression, s: Scalar.Constant): Scalar.Expression;
+	public static uppergamma(x: Scalar, s: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(uppergamma(x.value, s.value));
+		return new Scalar.Expression(UnaryOperator.UPPERGAMMA, x, s);
+	}
+
+	/**
+	 * Calculates the Bessel function of the first kind \\( J_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselJ(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the Bessel function of the first kind \\( J_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselJ(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static besselJ(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(besselJ(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.BESSELJ, x, nu);
+	}
+
+	/**
+	 * Calculates the Bessel function of the second kind \\( Y_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselY(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the Bessel function of the second kind \\( Y_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselY(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static besselY(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(besselY(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.BESSELY, x, nu);
+	}
+
+	/**
+	 * Calculates the modified Bessel function of the first kind \\( I_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselI(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the modified Bessel function of the first kind \\( I_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselI(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static besselI(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(besselI(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.BESSELI, x, nu);
+	}
+
+	/**
+	 * Calculates the modified Bessel function of the second kind \\( K_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselK(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the modified Bessel function of the second kind \\( K_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static besselK(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static besselK(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(besselK(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.BESSELK, x, nu);
+	}
+
+	/**
+	 * Calculates the spherical Bessel function of the first kind \\( j_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static sphericalJ(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the spherical Bessel function of the first kind \\( j_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static sphericalJ(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static sphericalJ(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(sphericalJ(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.SPHERICALJ, x, nu);
+	}
+
+	/**
+	 * Calculates the spherical Bessel function of the second kind \\( y_\nu(x) \\) of a [[Scalar]].
+	 * @param x A scalar constant.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static sphericalY(x: Scalar.Constant, nu: Scalar.Constant): Scalar.Constant;
+	/**
+	 * Calculates the spherical Bessel function of the second kind \\( y_\nu(x) \\) of a [[Scalar]].
+	 * The order `nu` is stored in the [[Scalar.Expression.rest]] of the
+	 * expression.
+	 * @param x A scalar variable or expression.
+	 * @param nu A scalar constant, the order.
+	 */
+	public static sphericalY(x: Scalar.Variable | Scalar.Expression, nu: Scalar.Constant): Scalar.Expression;
+	public static sphericalY(x: Scalar, nu: Scalar.Constant) {
+		if(x instanceof Scalar.Constant)
+			return new Scalar.Constant(sphericalY(x.value, nu.value));
+		return new Scalar.Expression(UnaryOperator.SPHERICALY, x, nu);
+	}
 }
 
 /**
@@ -553,6 +787,24 @@ export namespace Scalar {
 			}
 			return new Scalar.Expression(BinaryOperator.POW, this, that);
 		}
+
+		/**
+		 * The plain text representation of `this` constant. Named constants
+		 * are represented by their names.
+		 */
+		public toString() {
+			return this.name || this.value.toString();
+		}
+
+		/**
+		 * The LaTeX representation of `this` constant. Named constants
+		 * are represented by their names.
+		 */
+		public toLatex() {
+			if(this.name)
+				return ExpressionPrinter.latexName(this.name);
+			return this.value.toString().replace(/e(\d+)/g, "e_{$1}");
+		}
 	}
 
 	/**
@@ -645,6 +897,20 @@ export namespace Scalar {
 		public pow(that: Scalar) {
 			return new Scalar.Expression(BinaryOperator.POW, this, that);
 		}
+
+		/**
+		 * The plain text representation of `this` variable, which is its name.
+		 */
+		public toString() {
+			return this.name;
+		}
+
+		/**
+		 * The LaTeX representation of `this` variable.
+		 */
+		public toLatex() {
+			return ExpressionPrinter.latexName(this.name);
+		}
 	}
 
 	/**
@@ -799,6 +1065,25 @@ export namespace Scalar {
 			return this.arg_list.has(v);
 		}
 
+		/**
+		 * Evaluates the derivative of `this` [[Scalar.Expression]] with respect
+		 * to the given [[Scalar.Variable]] symbolically.
+		 * @param v The variable to differentiate with respect to.
+		 * @see [[diff]]
+		 */
+		public diff(v: Scalar.Variable) {
+			return diff(this, v);
+		}
+
+		/**
+		 * Simplifies `this` [[Scalar.Expression]] algebraically.
+		 * @param rules The rewrite rules to use, [[Simplifier.DEFAULT]] by default.
+		 * @see [[simplify]]
+		 */
+		public simplify(rules?: Simplifier.Rule[]) {
+			return simplify(this, rules);
+		}
+
 		/**
 		 * Evaluates this [[Scalar.Expression]] at the given values for the
 		 * [[Variable]] objects `this` depends on. In case `this` is not a
@@ -815,6 +1100,20 @@ export namespace Scalar {
 				return <Scalar.Variable>res;
 			return <Scalar.Expression>res;
 		}
+
+		/**
+		 * The plain text representation of `this` expression in infix notation.
+		 */
+		public toString(): string {
+			return ExpressionPrinter.print(this, "text");
+		}
+
+		/**
+		 * The LaTeX representation of `this` expression.
+		 */
+		public toLatex(): string {
+			return ExpressionPrinter.print(this, "latex");
+		}
 	}
 
 	/**
@@ -939,25 +1238,61 @@ export namespace Scalar {
 		return v;
 	}
 
+	/**
+	 * Parses the string form of a scalar expression, for example
+	 * ```javascript
+	 * const f = Scalar.parse("sin(x)^2 + 3*x*y - ln(z)");
+	 * ```
+	 * Variable names are resolved through [[Scalar.variable]] and the names
+	 * `pi`, `e` and `tau` refer to the exported constants.
+	 * @param expr The string form of the expression.
+	 * @return The expression tree (or a constant/variable for simple inputs).
+	 * @throws {@link ParseError} If the string is not a valid expression. The
+	 * error message contains the position of the offending character.
+	 * @see [[parseScalar]]
+	 */
+	export function parse(expr: string) {
+		return parseScalar(expr);
+	}
+
 	export const ZERO = Scalar.constant(0);
+	export const ONE = Scalar.constant(1);
 }
 
 /**
  * Represents the idea of infinity.
  */
 // export const oo = Scalar.constant(Infinity);
+/**
+ * Creates a constant whose value is computed to the precision of
+ * {@link mathenv.mode} every time it is read, so that it stays correct at
+ * whatever precision the expressions it appears in are evaluated with.
+ * @param compute Evaluates the constant with the given context settings.
+ * @param name The name of the constant. Named constants are declared the same
+ * way as by [[Scalar.constant]].
+ * @ignore
+ */
+export function mathematicalConstant(compute: (context: MathContext) => Component, name?: string) {
+	const scalar = name === undefined? new Scalar.Constant(new BigNum(compute(mathenv.mode))): Scalar.constant(compute(mathenv.mode), name);
+	Object.defineProperty(scalar, "value", {
+		get: () => new BigNum(compute(mathenv.mode)),
+		enumerable: true
+	});
+	return scalar;
+}
+
 /**
  * The irrational Euler's number. The derivative of the exponential function to
  * the base of this number gives the same exponential function.
  */
-export const e = Scalar.constant(Component.E);
+export const e = mathematicalConstant(context => Constants.e(context), "e");
 /**
  * The circle constant pi. It is defined as the ratio of the circumference
  * of a circle to its diameter.
  */
-export const pi = Scalar.constant(Component.PI);
+export const pi = mathematicalConstant(context => Constants.pi(context), "pi");
 /**
  * The circle constant tau. It is defined as the ratio of the circumference
  * of a circle to its radius. It is twice the value of pi.
  */
-export const tau = Scalar.constant(Component.TWO.mul(Component.PI, {precision: 50, rounding: RoundingMode.UP}));
\ No newline at end of file
+export const tau = mathematicalConstant(context => Constants.pi({...context, precision: context.precision + 1}).mul(Component.TWO, context), "tau");
@@ -0,0 +1,504 @@
+import { Scalar } from "./scalar";
+import { BinaryOperator } from "./core/operators/binary";
+import { UnaryOperator } from "./core/operators/unary";
+import * as func from "./core/math/functions";
+import { Operator } from "./core/definitions";
+
+/**
+ * A term of a sum, a constant coefficient times a non constant factor. The
+ * factor is `undefined` for the constant term.
+ * @ignore
+ */
+type Term = {
+	coefficient: Scalar.Constant,
+	factor: Scalar | undefined
+}
+
+/**
+ * A factor of a product, a base raised to an exponent.
+ * @ignore
+ */
+type Factor = {
+	base: Scalar,
+	exponent: Scalar
+}
+
+/**
+ * A product split into its constant numerator and denominator and the
+ * remaining non constant factors.
+ * @ignore
+ */
+type Product = {
+	numerator: Scalar.Constant,
+	denominator: Scalar.Constant,
+	factors: Factor[]
+}
+
+/**
+ * Checks whether a [[Scalar]] is a constant equal to the given number.
+ * @ignore
+ */
+function isNumber(x: Scalar, n: number) {
+	return x instanceof Scalar.Constant && x.equals(Scalar.constant(n));
+}
+
+/**
+ * Checks whether a constant is a negative real number.
+ * @ignore
+ */
+function isNegative(x: Scalar.Constant) {
+	return x.value.dim === 1 && x.value.components[0].sign === -1;
+}
+
+/**
+ * Returns the value of a constant as a javascript number if it is a real
+ * integer small enough to be represented exactly, otherwise `undefined`.
+ * @ignore
+ */
+function integer(x: Scalar) {
+	if(!(x instanceof Scalar.Constant) || x.value.dim !== 1 || x.value.components[0].decimal !== "")
+		return undefined;
+	const n = Number(x.value.components[0].toString());
+	return Number.isSafeInteger(n)? n: undefined;
+}
+
+/**
+ * Raises a constant to a non negative integer power by repeated squaring so
+ * that integers and terminating decimals stay exact.
+ * @ignore
+ */
+function power(x: Scalar.Constant, n: number) {
+	let res = Scalar.ONE, base = x;
+	while(n > 0) {
+		if(n % 2 === 1)
+			res = res.mul(base);
+		base = base.mul(base);
+		n = Math.floor(n / 2);
+	}
+	return res;
+}
+
+/**
+ * The greatest common divisor of two non negative integers.
+ * @ignore
+ */
+function gcd(a: number, b: number): number {
+	return b === 0? a: gcd(b, a % b);
+}
+
+/**
+ * Checks whether `x` is an expression with the given root operator.
+ * @ignore
+ */
+function isOp(x: Scalar, op: BinaryOperator | UnaryOperator): x is Scalar.Expression {
+	return x instanceof Scalar.Expression && x.op === op;
+}
+
+/**
+ * Rebuilds an expression node with new operands, evaluating it if all the
+ * operands are constants.
+ * @ignore
+ */
+function rebuild(e: Scalar.Expression, operands: Scalar[]): Scalar {
+	if(operands.length === 1)
+		return (<any>func)[e.op](operands[0], ...e.rest);
+	return (<any>operands[0])[e.op](operands[1], ...e.rest);
+}
+
+/**
+ * Splits a sum into its terms, each with its sign folded into the coefficient.
+ * @ignore
+ */
+function terms(x: Scalar, sign: Scalar.Constant, res: Term[] = []) {
+	if(x instanceof Scalar.Constant)
+		res.push({coefficient: sign.mul(x), factor: undefined});
+	else if(isOp(x, BinaryOperator.ADD) || isOp(x, BinaryOperator.SUB)) {
+		terms(<Scalar>x.lhs, sign, res);
+		terms(<Scalar>x.rhs, x.op === BinaryOperator.SUB? sign.neg: sign, res);
+	} else if(isOp(x, UnaryOperator.NEG))
+		terms(<Scalar>x.arg, sign.neg, res);
+	else if(isOp(x, BinaryOperator.MUL) && x.lhs instanceof Scalar.Constant)
+		res.push({coefficient: sign.mul(x.lhs), factor: <Scalar>x.rhs});
+	else res.push({coefficient: sign, factor: x});
+	return res;
+}
+
+/**
+ * Adds up a list of terms, subtracting the ones with negative coefficients.
+ * @ignore
+ */
+function sum(list: Term[]) {
+	let res: Scalar | undefined = undefined;
+	for(const t of list) {
+		if(isNumber(t.coefficient, 0))
+			continue;
+		const negative = isNegative(t.coefficient);
+		const k = negative? t.coefficient.neg: t.coefficient;
+		let x: Scalar = k;
+		if(t.factor !== undefined)
+			x = isNumber(k, 1)? t.factor: k.mul(<Scalar.Variable | Scalar.Expression>t.factor);
+		if(res === undefined)
+			res = negative? x.neg: x;
+		else res = negative? res.sub(x): res.add(x);
+	}
+	return res || Scalar.ZERO;
+}
+
+/**
+ * Splits a product (or quotient) raised to the integer power `n` into its
+ * constant parts and the remaining factors.
+ * @ignore
+ */
+function factors(x: Scalar, n: number, res: Product) {
+	const m = integer(isOp(x, BinaryOperator.POW)? <Scalar>x.rhs: Scalar.ZERO);
+	if(x instanceof Scalar.Constant) {
+		if(n > 0)
+			res.numerator = res.numerator.mul(power(x, n));
+		else res.denominator = res.denominator.mul(power(x, -n));
+	} else if(isOp(x, UnaryOperator.NEG)) {
+		if(n % 2 !== 0)
+			res.numerator = res.numerator.neg;
+		factors(<Scalar>x.arg, n, res);
+	} else if(isOp(x, BinaryOperator.MUL) || isOp(x, BinaryOperator.DIV)) {
+		factors(<Scalar>x.lhs, n, res);
+		factors(<Scalar>x.rhs, x.op === BinaryOperator.DIV? -n: n, res);
+	} else if(isOp(x, BinaryOperator.POW) && m !== undefined && Number.isSafeInteger(m * n))
+		factors(<Scalar>x.lhs, m * n, res);
+	else if(isOp(x, BinaryOperator.POW))
+		res.factors.push({base: <Scalar>x.lhs, exponent: n === 1? <Scalar>x.rhs: (<Scalar>x.rhs).mul(Scalar.constant(n))});
+	else res.factors.push({base: x, exponent: Scalar.constant(n)});
+	return res;
+}
+
+/**
+ * Multiplies a list of factors, `undefined` if the list is empty.
+ * @ignore
+ */
+function product(list: Factor[]) {
+	let res: Scalar | undefined = undefined;
+	for(const f of list) {
+		const x = isNumber(f.exponent, 1)? f.base: f.base.pow(f.exponent);
+		res = res === undefined? x: res.mul(x);
+	}
+	return res;
+}
+
+/**
+ * Checks whether a [[Scalar]] is the square of the given unary function and
+ * returns the argument of the function if it is.
+ * @ignore
+ */
+function squareOf(x: Scalar | undefined, op: UnaryOperator) {
+	if(x !== undefined && isOp(x, BinaryOperator.POW) && isNumber(<Scalar>x.rhs, 2)) {
+		const base = <Scalar>x.lhs;
+		if(isOp(base, op))
+			return <Scalar>base.arg;
+	}
+	return undefined;
+}
+
+/**
+ * Contains the rewrite rules used by [[simplify]]. A rule looks at a single
+ * expression node, whose operands have already been simplified, and returns an
+ * equivalent simpler [[Scalar]] or `undefined` if it does not apply. The rules
+ * are grouped into rule sets which may be combined to choose the identities
+ * [[simplify]] is allowed to use.
+ */
+export namespace Simplifier {
+	/**
+	 * A rewrite rule for a single expression node.
+	 */
+	export type Rule = (e: Scalar.Expression) => Scalar | undefined;
+
+	/**
+	 * Removes the additive and multiplicative identities, multiplications by
+	 * zero and trivial powers like `x + 0`, `1*x`, `x/1`, `x^1`, `x^0` and `1^x`.
+	 * @param e The expression node to rewrite.
+	 */
+	export function identities(e: Scalar.Expression): Scalar | undefined {
+		if(e.operands.length === 1)
+			return isOp(<Scalar>e.arg, UnaryOperator.NEG) && e.op === UnaryOperator.NEG? <Scalar>(<Scalar.Expression>e.arg).arg: undefined;
+		const a = <Scalar>e.lhs, b = <Scalar>e.rhs;
+		switch(e.op) {
+		case BinaryOperator.ADD:
+			return isNumber(a, 0)? b: isNumber(b, 0)? a: undefined;
+		case BinaryOperator.SUB:
+			return isNumber(b, 0)? a: isNumber(a, 0)? b.neg: undefined;
+		case BinaryOperator.MUL:
+			if(isNumber(a, 0) || isNumber(b, 0))
+				return Scalar.ZERO;
+			return isNumber(a, 1)? b: isNumber(b, 1)? a: undefined;
+		case BinaryOperator.DIV:
+			return isNumber(a, 0)? Scalar.ZERO: isNumber(b, 1)? a: undefined;
+		case BinaryOperator.POW:
+			if(isNumber(b, 0) || isNumber(a, 1))
+				return Scalar.ONE;
+			return isNumber(b, 1)? a: undefined;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Collects like terms of a sum, so that `2*x + y - x` becomes `x + y` and
+	 * `x - x` becomes `0`. The constant terms are added up and written last.
+	 * @param e The expression node to rewrite.
+	 */
+	export function likeTerms(e: Scalar.Expression): Scalar | undefined {
+		if(e.op !== BinaryOperator.ADD && e.op !== BinaryOperator.SUB && e.op !== UnaryOperator.NEG)
+			return undefined;
+		const collected: Term[] = [];
+		const index = new Map<string, number>();
+		let constant = Scalar.ZERO;
+		for(const t of terms(e, Scalar.ONE)) {
+			if(t.factor === undefined) {
+				constant = constant.add(t.coefficient);
+				continue;
+			}
+			const key = t.factor.toString();
+			const i = index.get(key);
+			if(i === undefined) {
+				index.set(key, collected.length);
+				collected.push(t);
+			} else collected[i] = {coefficient: collected[i].coefficient.add(t.coefficient), factor: t.factor};
+		}
+		collected.push({coefficient: constant, factor: undefined});
+		return sum(collected);
+	}
+
+	/**
+	 * Merges the powers of the same base in a product or quotient, so that
+	 * `x^2*x^3` becomes `x^5`, `x/x` becomes `1` and `(x^2)^3` becomes `x^6`.
+	 * The constant factors are multiplied together and written first, and the
+	 * remaining factors are sorted so that equal products print alike.
+	 * @param e The expression node to rewrite.
+	 */
+	export function powers(e: Scalar.Expression): Scalar | undefined {
+		if(e.op !== BinaryOperator.MUL && e.op !== BinaryOperator.DIV && e.op !== BinaryOperator.POW)
+			return undefined;
+		const parts = factors(e, 1, {numerator: Scalar.ONE, denominator: Scalar.ONE, factors: []});
+		if(isNumber(parts.numerator, 0))
+			return Scalar.ZERO;
+		const p = integer(parts.numerator), q = integer(parts.denominator);
+		if(p !== undefined && q !== undefined && q !== 0) {
+			const g = gcd(Math.abs(p), q);
+			parts.numerator = Scalar.constant(p / g);
+			parts.denominator = Scalar.constant(q / g);
+		} else if(parts.numerator.equals(parts.denominator))
+			parts.numerator = parts.denominator = Scalar.ONE;
+		const merged: Factor[] = [];
+		const index = new Map<string, number>();
+		for(const f of parts.factors) {
+			const key = f.base.toString();
+			const i = index.get(key);
+			if(i === undefined) {
+				index.set(key, merged.length);
+				merged.push(f);
+			} else merged[i] = {base: f.base, exponent: merged[i].exponent.add(f.exponent)};
+		}
+		const sorted = merged.filter(f => !isNumber(f.exponent, 0)).sort((a, b) => {
+			const p = a.base.toString(), q = b.base.toString();
+			return p < q? -1: p > q? 1: 0;
+		});
+		const over = sorted.filter(f => f.exponent instanceof Scalar.Constant && isNegative(f.exponent));
+		const num = product(sorted.filter(f => over.indexOf(f) === -1));
+		const den = product(over.map(f => ({base: f.base, exponent: f.exponent.neg})));
+		const k = parts.numerator;
+		let res: Scalar | undefined = num;
+		if(den !== undefined || !isNumber(parts.denominator, 1)) {
+			const d = den === undefined? parts.denominator: isNumber(parts.denominator, 1)? den: parts.denominator.mul(<Scalar.Expression>den);
+			// A lone constant goes over the denominator, as in 2/x.
+			if(res === undefined && den !== undefined && !isNumber(k, 1) && !isNumber(k, -1))
+				return k.div(<Scalar.Expression>d);
+			res = (res || Scalar.ONE).div(d);
+		}
+		if(res === undefined)
+			return k;
+		if(isNumber(k, 1))
+			return res;
+		if(isNumber(k, -1))
+			return res.neg;
+		return k.mul(<Scalar.Expression>res);
+	}
+
+	/**
+	 * Applies the parity of the trigonometric, hyperbolic and error functions,
+	 * like `sin(-x) = -sin(x)` and `cos(-x) = cos(x)`.
+	 * @param e The expression node to rewrite.
+	 */
+	export function parity(e: Scalar.Expression): Scalar | undefined {
+		if(e.operands.length !== 1 || !isOp(<Scalar>e.arg, UnaryOperator.NEG))
+			return undefined;
+		const u = <Scalar>(<Scalar.Expression>e.arg).arg;
+		switch(e.op) {
+		case UnaryOperator.COS:
+		case UnaryOperator.COSH:
+			return (<any>func)[e.op](u);
+		case UnaryOperator.SIN:
+		case UnaryOperator.TAN:
+		case UnaryOperator.ASIN:
+		case UnaryOperator.ATAN:
+		case UnaryOperator.SINH:
+		case UnaryOperator.TANH:
+		case UnaryOperator.ASINH:
+		case UnaryOperator.ATANH:
+		case UnaryOperator.ERF:
+		case UnaryOperator.ERFINV:
+			return (<Scalar>(<any>func)[e.op](u)).neg;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Applies the Pythagorean identities \\( \sin^2 u + \cos^2 u = 1 \\) and
+	 * \\( \cosh^2 u - \sinh^2 u = 1 \\) to the terms of a sum.
+	 * @param e The expression node to rewrite.
+	 */
+	export function pythagorean(e: Scalar.Expression): Scalar | undefined {
+		if(e.op !== BinaryOperator.ADD && e.op !== BinaryOperator.SUB)
+			return undefined;
+		const list = terms(e, Scalar.ONE);
+		const pairs: [UnaryOperator, UnaryOperator, Scalar.Constant][] = [
+			[UnaryOperator.SIN, UnaryOperator.COS, Scalar.ONE],
+			[UnaryOperator.COSH, UnaryOperator.SINH, Scalar.ONE.neg]
+		];
+		for(const [f, g, sign] of pairs)
+			for(let i = 0; i < list.length; i++) {
+				const u = squareOf(list[i].factor, f);
+				if(u === undefined)
+					continue;
+				const k = list[i].coefficient;
+				const j = list.findIndex(t => {
+					const v = squareOf(t.factor, g);
+					return v !== undefined && v.toString() === u.toString() && t.coefficient.equals(k.mul(sign));
+				});
+				if(j === -1)
+					continue;
+				const rest = list.filter((_, m) => m !== i && m !== j);
+				rest.push({coefficient: k, factor: undefined});
+				return sum(rest);
+			}
+		return undefined;
+	}
+
+	/**
+	 * Cancels the logarithms of exponentials and vice versa, `ln(exp(u)) = u`,
+	 * `exp(ln(u)) = u` and `log(10^u) = u`.
+	 * @param e The expression node to rewrite.
+	 */
+	export function inverses(e: Scalar.Expression): Scalar | undefined {
+		if(e.operands.length !== 1)
+			return undefined;
+		const a = <Scalar>e.arg;
+		if(e.op === UnaryOperator.LN && isOp(a, UnaryOperator.EXP))
+			return <Scalar>a.arg;
+		if(e.op === UnaryOperator.EXP && isOp(a, UnaryOperator.LN))
+			return <Scalar>a.arg;
+		if(e.op === UnaryOperator.LOG && isOp(a, BinaryOperator.POW) && isNumber(<Scalar>a.lhs, 10))
+			return <Scalar>a.rhs;
+		return undefined;
+	}
+
+	/**
+	 * The logarithms [[logPower]] brings exponents out of, by operator.
+	 * @ignore
+	 */
+	const LOGARITHMS: Partial<Record<Operator, (x: Scalar) => Scalar>> = {
+		[UnaryOperator.LN]: func.ln,
+		[UnaryOperator.LOG]: func.log
+	};
+
+	/**
+	 * Brings the exponent out of a logarithm, `ln(u^v) = v*ln(u)`. This holds
+	 * for positive real `u` only, so it is not one of the [[DEFAULT]] rules.
+	 * @param e The expression node to rewrite.
+	 */
+	export function logPower(e: Scalar.Expression): Scalar | undefined {
+		const log = LOGARITHMS[e.op];
+		if(log === undefined || !isOp(<Scalar>e.arg, BinaryOperator.POW))
+			return undefined;
+		const a = <Scalar.Expression>e.arg;
+		return (<Scalar>a.rhs).mul(log(<Scalar>a.lhs));
+	}
+
+	/** Constant folding, identities, like terms and powers. */
+	export const ALGEBRAIC: Rule[] = [identities, likeTerms, powers];
+	/** Identities of the trigonometric and hyperbolic functions. */
+	export const TRIGONOMETRIC: Rule[] = [parity, pythagorean];
+	/** Identities of the logarithms and exponentials. */
+	export const LOGARITHMIC: Rule[] = [inverses];
+	/**
+	 * Identities which only hold for positive real arguments, like
+	 * `ln(u^v) = v*ln(u)`. These are opt-in, add them to [[DEFAULT]] to use them.
+	 */
+	export const POSITIVE: Rule[] = [logPower];
+	/** The rules used by [[simplify]] unless told otherwise. */
+	export const DEFAULT: Rule[] = ALGEBRAIC.concat(TRIGONOMETRIC, LOGARITHMIC);
+}
+
+/**
+ * The maximum number of passes over an expression tree [[simplify]] makes.
+ * @ignore
+ */
+const MAX_PASSES = 32;
+
+/**
+ * Simplifies every node of an expression tree bottom up. The operands of each
+ * node are simplified first, the node is rebuilt from them (which evaluates
+ * it if all of them are constants) and then the rules are tried in order.
+ * @ignore
+ */
+function pass(x: Scalar, rules: Simplifier.Rule[]): Scalar {
+	if(!(x instanceof Scalar.Expression) || !x.operands.every(a => a instanceof Scalar))
+		return x;
+	let res = rebuild(x, x.operands.map(a => pass(<Scalar>a, rules)));
+	for(const rule of rules) {
+		if(!(res instanceof Scalar.Expression))
+			break;
+		const next = rule(res);
+		if(next !== undefined)
+			res = next;
+	}
+	return res;
+}
+
+/**
+ * Returns a constant as is.
+ * @param expr The constant to simplify.
+ * @param rules The rewrite rules to use.
+ */
+export function simplify(expr: Scalar.Constant, rules?: Simplifier.Rule[]): Scalar.Constant;
+/**
+ * Returns a variable as is.
+ * @param expr The variable to simplify.
+ * @param rules The rewrite rules to use.
+ */
+export function simplify(expr: Scalar.Variable, rules?: Simplifier.Rule[]): Scalar.Variable;
+/**
+ * Simplifies a scalar expression algebraically. Sub expressions without
+ * variables are evaluated, identities are removed, like terms are collected and
+ * powers of the same base are merged, along with the trigonometric and
+ * logarithmic identities in the rule set. The rules are applied until the
+ * expression stops changing, so simplifying the result again returns an
+ * equivalent expression. The result is built from scratch and hence its
+ * `arg_list` only has the variables which are left after simplification.
+ * 
+ * Some of the rules, like \\( \frac{x}{x} = 1 \\), only hold where both sides
+ * are defined. Pass in a smaller rule set, like [[Simplifier.ALGEBRAIC]], to
+ * leave out the trigonometric and logarithmic identities, or add
+ * [[Simplifier.POSITIVE]] to assume the variables are positive reals and use
+ * \\( \ln u^v = v \ln u \\) as well.
+ * @param expr The expression to simplify.
+ * @param rules The rewrite rules to use, [[Simplifier.DEFAULT]] by default.
+ * @return The simplified scalar, which may be a constant or a variable.
+ */
+export function simplify(expr: Scalar, rules?: Simplifier.Rule[]): Scalar;
+export function simplify(expr: Scalar, rules = Simplifier.DEFAULT) {
+	let res = expr;
+	for(let i = 0; i < MAX_PASSES; i++) {
+		const next = pass(res, rules);
+		if(next.toString() === res.toString())
+			return next;
+		res = next;
+	}
+	return res;
+}
@@ -3,10 +3,14 @@ import { BinaryOperator, isBinaryOperator } from "./core/operators/binary";
 import { UnaryOperator, isUnaryOperator } from "./core/operators/unary";
 import { ExpressionBuilder } from "./core/expression";
 import { Scalar } from "./scalar";
-import { InvalidIndex } from "./core/errors";
+import { InvalidIndex, InvalidDimension, DivisionByZero } from "./core/errors";
 import { MathContext } from "./core/math/context";
-import { mathenv } from "./core/env";
+import { mathenv, CoordinateSystem } from "./core/env";
 import { BigNum } from "./core/math/bignum";
+import { partial, grad } from "./calculus/derivative";
+import { scaleFactors } from "./coordinates";
+import { simplify } from "./simplify";
+import { ExpressionPrinter } from "./core/printer";
 
 /**
  * The double underscore.
@@ -26,6 +30,11 @@ export abstract class Vector extends Numerical implements Token, Evaluable {
 	readonly abstract X: (i: number) => Scalar;
 	readonly quantity = "vector";
 
+	/**
+	 * The LaTeX representation of `this` quantity.
+	 */
+	public abstract toLatex(): string;
+
 	/**
 	 * Adds two [[Vector]]s together. If `this` and `that` are both constants
 	 * then vectorially adds the two and returns a new [[Vector.Constant]] object
@@ -61,7 +70,7 @@ export abstract class Vector extends Numerical implements Token, Evaluable {
 	 * @param that The scalar to subtract from `this`.
 	 * @return The vector product of `this` and `that`.
 	 */
-	// public abstract cross(that: Vector): Vector;
+	public abstract cross(that: Vector): Vector;
 
 	/**
 	 * Scales, or multiplies the "size" (magnitude) of, `this` vector by given
@@ -74,11 +83,20 @@ export abstract class Vector extends Numerical implements Token, Evaluable {
 	public abstract scale(k: Scalar): Vector;
 
 	/**
-	 * Computes the magnitude of a constant vector numerically.
+	 * Computes the magnitude of a constant vector numerically with rounding
+	 * according to {@link mathenv.mode}.
 	 * @param A The [[Vector]] whose magnitude is to be calculated.
 	 * @return The [[Scalar]] magnitude of the given [[Vector]].
 	 */
-	// public static mag(A: Vector.Constant): Scalar.Constant;
+	public static mag(A: Vector.Constant): Scalar.Constant;
+	/**
+	 * Computes the magnitude of a constant vector numerically with rounding
+	 * according to the given context settings.
+	 * @param A The [[Vector]] whose magnitude is to be calculated.
+	 * @param context The context settings to use.
+	 * @return The [[Scalar]] magnitude of the given [[Vector]].
+	 */
+	public static mag(A: Vector.Constant, context: MathContext): Scalar.Constant;
 	/**
 	* Computes the magnitude of a given vector. If `A` vector is a constant
 	* vector then numerically calculates the magnitude otherwise creates a
@@ -86,36 +104,59 @@ export abstract class Vector extends Numerical implements Token, Evaluable {
 	* @param A The [[Vector]] whose magnitude is to be calculated.
 	* @return The [[Scalar]] magnitude of the given [[Vector]].
 	*/
-	// public static mag(A: Vector): Scalar.Expression;
-	public static mag(A: Vector) {
-		throw new Error("Not implemented");
-		// if(A instanceof Vector.Constant) {
-		// 	let m = BigNum.real(0);
-		// 	for(let i = 1; i <= A.value.length; i++)
-		// 		m = m.add(A.X(i).value.mul(A.X(i).value));
-		// 	return Scalar.constant(Math.sqrt(m));
-		// }
-		// return new Scalar.Expression(BinaryOperator.MAG, <Evaluable><unknown>Vector, A);
+	public static mag(A: Vector.Variable | Vector.Expression): Scalar.Expression;
+	/** @internal */
+	public static mag(A: Vector, ...args: any[]): Scalar;
+	public static mag(A: Vector, ...args: any[]) {
+		if(A instanceof Vector.Constant) {
+			const context = args[0] || mathenv.mode;
+			const ctx: MathContext = {
+				precision: context.precision + 5,
+				rounding: context.rounding
+			};
+			let m = BigNum.real(0);
+			for(const x of A.value)
+				m = m.add(BigNum.absSq(x.value, ctx), ctx);
+			return new Scalar.Constant(m.pow(BigNum.real("0.5"), context));
+		}
+		return new Scalar.Expression(BinaryOperator.MAG, <Evaluable><unknown>Vector, A, ...args);
 	}
 
 	/**
-	 * For a given constant vector `A`, numerically evaluates the unit vector along `A`.
+	 * For a given constant vector `A`, numerically evaluates the unit vector along `A`
+	 * with rounding according to {@link mathenv.mode}.
 	 * @param A The [[Vector.Constant]] along which the unit vector is to be calculated.
 	 * @return The unit vector along the given [[Vector]] `A`.
+	 * @throws {@link DivisionByZero} If `A` is the zero vector.
 	 */
-	// public static unit(A: Vector.Constant): Vector.Constant;
+	public static unit(A: Vector.Constant): Vector.Constant;
+	/**
+	 * For a given constant vector `A`, numerically evaluates the unit vector along `A`
+	 * with rounding according to the given context settings.
+	 * @param A The [[Vector.Constant]] along which the unit vector is to be calculated.
+	 * @param context The context settings to use.
+	 * @return The unit vector along the given [[Vector]] `A`.
+	 * @throws {@link DivisionByZero} If `A` is the zero vector.
+	 */
+	public static unit(A: Vector.Constant, context: MathContext): Vector.Constant;
 	/**
 	 * For a given variable vector `A`, creates an [[Expression]] for the unit vector along `A`.
 	 * @param A The [[Vector.Constant]] along which the unit vector is to be calculated.
 	 * @return The unit vector along the given [[Vector]] `A`.
 	 */
-	// public static unit(A: Vector): Vector.Expression;
-	public static unit(A: Vector) {
-		throw new Error("Not implemented");
-		// if(A instanceof Vector.Constant)
-		// 	return A.scale(Scalar.constant(1).div(Vector.mag(A)));
-		// const m = Vector.mag(A);
-		// return new Vector.Expression(BinaryOperator.UNIT, <Evaluable><unknown>Vector, A, (i: number) => A.X(i).div(m));
+	public static unit(A: Vector.Variable | Vector.Expression): Vector.Expression;
+	/** @internal */
+	public static unit(A: Vector, ...args: any[]): Vector;
+	public static unit(A: Vector, ...args: any[]) {
+		if(A instanceof Vector.Constant) {
+			const context = args[0] || mathenv.mode;
+			const m = <Scalar.Constant>Vector.mag(A, context);
+			if(m.equals(Scalar.ZERO, context))
+				throw new DivisionByZero("Unit vector along the zero vector is undefined.");
+			return new Vector.Constant(A.value.map(x => x.value.div(m.value, context)));
+		}
+		const m = Vector.mag(A, ...args);
+		return new Vector.Expression(BinaryOperator.UNIT, <Evaluable><unknown>Vector, A, (i: number) => A.X(i).div(m), ...args);
 	}
 }
 
@@ -300,6 +341,14 @@ export namespace Vector {
 		 * @return The inner product of `this` and `that`.
 		 */
 		public dot(that: Vector.Constant): Scalar.Constant;
+		/**
+		 * Calculates the scalar product of two [[Vector.Constant]] objects
+		 * numerically with rounding according to the given context settings.
+		 * @param that The [[Vector.Constant]] to compute scalar product with `this`.
+		 * @param context The context settings to use.
+		 * @return The inner product of `this` and `that`.
+		 */
+		public dot(that: Vector.Constant, context: MathContext): Scalar.Constant;
 		/**
 		 * Creates and returns a [[Vector.Expression]] for the dot product of
 		 * two [[Vector]] objects. The [[type]] of `this` does not matter because
@@ -309,12 +358,12 @@ export namespace Vector {
 		 * @return Expression for inner product of `this` and `that`.
 		 */
 		public dot(that: Vector.Variable | Vector.Expression): Scalar.Expression;
-		public dot(that: Vector) {
+		public dot(that: Vector, context=mathenv.mode) {
 			if(that instanceof Vector.Constant) {
 				let parallel = BigNum.real(0);
 				const m = Math.max(this.value.length, that.value.length);
 				for(let i = 1; i <= m; i++)
-					parallel = parallel.add(this.X(i).value.mul(that.X(i).value));
+					parallel = parallel.add(this.X(i).value.mul(that.X(i).value, context), context);
 				return new Scalar.Constant(parallel);
 			}
 			return new Scalar.Expression(BinaryOperator.DOT, this, that);
@@ -325,7 +374,7 @@ export namespace Vector {
 		 * @param that The [[Vector.Constant]] to compute cross product with `this`.
 		 * @return The vector product of `this` and `that`.
 		 */
-		// public cross(that: Vector.Constant): Vector.Constant;
+		public cross(that: Vector.Constant): Vector.Constant;
 		/**
 		 * Creates and returns a [[Vector.Expression]] for the cross product of
 		 * two [[Vector]] objects. The [[type]] of `this` does not matter because
@@ -334,33 +383,22 @@ export namespace Vector {
 		 * @param that The [[Vector]] to add to `this`.
 		 * @return Expression for vector product of `this` and `that`.
 		 */
-		// public cross(that: Vector.Variable | Vector.Expression): Vector.Expression;
+		public cross(that: Vector.Variable | Vector.Expression): Vector.Expression;
 		public cross(that: Vector) {
-			throw new Error("Not implemented");
-			// if(this.dimension > 3)
-			// 	throw new Error("Cross product defined only in 3 dimensions.");
-			// if(that instanceof Vector.Constant) {
-			// 	if(that.dimension > 3)
-			// 		throw new Error("Cross product defined only in 3 dimensions.");
-			// 	const a1 = this.X(1).value, a2 = this.X(2).value, a3 = this.X(3).value;
-			// 	const b1 = that.X(1).value, b2 = that.X(2).value, b3 = that.X(3).value;
-			// 	return Vector.constant([
-			// 		a2 * b3 - a3 * b2,
-			// 		a3 * b1 - a1 * b3,
-			// 		a1 * b2 - a2 * b1
-			// 	]);
-			// }
-			// return new Vector.Expression(BinaryOperator.CROSS, this, that, (i: number) => {
-			// 	if(i <= 0)
-			// 		throw new InvalidIndex(i, 0);
-			// 	if(this.value.length > 3)
-			// 		throw new Error("Cross product defined only in 3 dimensions.");
-			// 	const a1 = <Scalar>this.X(1), a2 = <Scalar>this.X(2), a3 = <Scalar>this.X(3);
-			// 	const b1 = <Scalar>that.X(1), b2 = <Scalar>that.X(2), b3 = <Scalar>that.X(3);
-			// 	return (i === 1)? a2.mul(b3).sub(a3.mul(b2)):
-			// 			(i === 2)? a3.mul(b1).sub(a1.mul(b3)):
-			// 			a1.mul(b2).sub(a2.mul(b1));
-			// });
+			if(this.value.length > 3)
+				throw new InvalidDimension("cross", this.value.length, 3);
+			if(that instanceof Vector.Constant) {
+				if(that.value.length > 3)
+					throw new InvalidDimension("cross", that.value.length, 3);
+				const a1 = this.X(1), a2 = this.X(2), a3 = this.X(3);
+				const b1 = that.X(1), b2 = that.X(2), b3 = that.X(3);
+				return Vector.constant([
+					a2.mul(b3).sub(a3.mul(b2)),
+					a3.mul(b1).sub(a1.mul(b3)),
+					a1.mul(b2).sub(a2.mul(b1))
+				]);
+			}
+			return new Vector.Expression(BinaryOperator.CROSS, this, that, (i: number) => crossComponent(this, that, i));
 		}
 
 		/**
@@ -386,6 +424,28 @@ export namespace Vector {
 				return (<Scalar>this.X(i)).mul(k);
 			});
 		}
+
+		/**
+		 * The plain text representation of `this` constant. Named constants
+		 * are represented by their names, the others as column vectors with
+		 * the components separated by semicolons.
+		 */
+		public toString() {
+			if(this.name)
+				return this.name;
+			return "[" + (this.value.length === 0? "0": this.value.map(x => x.toString()).join("; ")) + "]";
+		}
+
+		/**
+		 * The LaTeX representation of `this` constant. Named constants
+		 * are represented by their names, the others as column vectors.
+		 */
+		public toLatex() {
+			if(this.name)
+				return "\\vec{" + ExpressionPrinter.latexName(this.name) + "}";
+			const rows = this.value.length === 0? "0": this.value.map(x => x.toLatex()).join(" \\\\ ");
+			return "\\begin{pmatrix} " + rows + " \\end{pmatrix}";
+		}
 	}
 
 	/**
@@ -496,15 +556,9 @@ export namespace Vector {
 		 */
 		public cross(that: Vector) {
 			return new Vector.Expression(BinaryOperator.CROSS, this, that, (i: number) => {
-				if(i <= 0)
-					throw new Error("Indexing starts from `1`.");
 				if(this.value.length > 3)
-					throw new Error("Cross product defined only in 3 dimensions.");
-				const a1 = <Scalar>this.X(1), a2 = <Scalar>this.X(2), a3 = <Scalar>this.X(3);
-				const b1 = <Scalar>that.X(1), b2 = <Scalar>that.X(2), b3 = <Scalar>that.X(3);
-				return (i === 1)? a2.mul(b3).sub(a3.mul(b2)):
-					(i === 2)? a3.mul(b1).sub(a1.mul(b3)):
-						a1.mul(b2).sub(a2.mul(b1));
+					throw new InvalidDimension("cross", this.value.length, 3);
+				return crossComponent(this, that, i);
 			});
 		}
 
@@ -522,6 +576,20 @@ export namespace Vector {
 				return (<Scalar>this.X(i)).mul(k);
 			});
 		}
+
+		/**
+		 * The plain text representation of `this` variable, which is its name.
+		 */
+		public toString() {
+			return this.name;
+		}
+
+		/**
+		 * The LaTeX representation of `this` variable.
+		 */
+		public toLatex() {
+			return "\\vec{" + ExpressionPrinter.latexName(this.name) + "}";
+		}
 	}
 
 	/**
@@ -660,17 +728,7 @@ export namespace Vector {
 		 * @return Expression for vector product of `this` and `that`.
 		 */
 		public cross(that: Vector) {
-			return new Vector.Expression(BinaryOperator.CROSS, this, that, (i: number) => {
-				if(i <= 0)
-					throw new Error("Indexing starts from `1`.");
-				// if(this.value.length > 3)
-				// 	throw new Error("Cross product defined only in 3 dimensions.");
-				const a1 = <Scalar>this.X(1), a2 = <Scalar>this.X(2), a3 = <Scalar>this.X(3);
-				const b1 = <Scalar>that.X(1), b2 = <Scalar>that.X(2), b3 = <Scalar>that.X(3);
-				return (i === 1)? a2.mul(b3).sub(a3.mul(b2)):
-					(i === 2)? a3.mul(b1).sub(a1.mul(b3)):
-						a1.mul(b2).sub(a2.mul(b1));
-			});
+			return new Vector.Expression(BinaryOperator.CROSS, this, that, (i: number) => crossComponent(this, that, i));
 		}
 
 		/**
@@ -688,6 +746,18 @@ export namespace Vector {
 			});
 		}
 
+		/**
+		 * The components of `this` expression, or `undefined` if the number of
+		 * components is not known. That is the case when `this` depends on a
+		 * [[Vector.Variable]] created without any components.
+		 */
+		public get components(): Scalar[] | undefined {
+			const n = dimension(this);
+			if(n === 0 || !isKnown(this))
+				return undefined;
+			return Array.from({length: n}, (_, i) => this.X(i + 1));
+		}
+
 		/**
 		 * Checks whether `this` [[Vector.Expression]] depends on a given
 		 * [[Variable]].
@@ -713,6 +783,20 @@ export namespace Vector {
 				return <Vector.Variable>res;
 			return <Vector.Expression>res;
 		}
+
+		/**
+		 * The plain text representation of `this` expression in infix notation.
+		 */
+		public toString(): string {
+			return ExpressionPrinter.print(this, "text");
+		}
+
+		/**
+		 * The LaTeX representation of `this` expression.
+		 */
+		public toLatex(): string {
+			return ExpressionPrinter.print(this, "latex");
+		}
 	}
 
 	/**
@@ -797,6 +881,310 @@ export namespace Vector {
 		return c;
 	}
 
+	/**
+	 * Creates a vector from a list of its [[Scalar]] components. If all the
+	 * components are constants then a [[Vector.Constant]] is returned. Otherwise
+	 * the vector is built as a sum of the basis vectors scaled by the components,
+	 * so that it can be evaluated using [[Vector.Expression.at]], and the
+	 * returned [[Vector.Expression]] gives back the components as they were
+	 * passed in through its `X` accessor.
+	 * @param components The components of the vector, the first element being
+	 * the first component.
+	 */
+	export function expression(components: Scalar.Constant[]): Vector.Constant;
+	/**
+	 * Creates a vector from a list of its [[Scalar]] components. If all the
+	 * components are constants then a [[Vector.Constant]] is returned. Otherwise
+	 * the vector is built as a sum of the basis vectors scaled by the components,
+	 * so that it can be evaluated using [[Vector.Expression.at]], and the
+	 * returned [[Vector.Expression]] gives back the components as they were
+	 * passed in through its `X` accessor.
+	 * @param components The components of the vector, the first element being
+	 * the first component.
+	 */
+	export function expression(components: Scalar[]): Vector;
+	export function expression(components: Scalar[]) {
+		const n = components.length;
+		const basis = (i: number) => new Vector.Constant(components.map((_, j) => BigNum.real(i === j? 1: 0)));
+		const known = components.map(x => x instanceof Scalar.Constant? x.value: BigNum.real(0));
+		const unknown: number[] = [];
+		for(let i = 0; i < n; i++)
+			if(!(components[i] instanceof Scalar.Constant))
+				unknown.push(i);
+		if(unknown.length === 0)
+			return new Vector.Constant(known);
+		const X = (i: number) => {
+			if(i <= 0)
+				throw new InvalidIndex(i, 0);
+			return (i <= n)? components[i - 1]: Scalar.ZERO;
+		};
+		const last = <number>unknown.pop();
+		const term = (i: number) => basis(i).scale(<Scalar.Variable | Scalar.Expression>components[i]);
+		// The constant part is left out of the sum when it is the zero vector.
+		let res: Vector | undefined = known.some(x => !x.equals(BigNum.real(0)))? new Vector.Constant(known): undefined;
+		for(const i of unknown)
+			res = res === undefined? term(i): res.add(term(i));
+		if(res === undefined)
+			return new Vector.Expression(BinaryOperator.SCALE, basis(last), components[last], X);
+		return new Vector.Expression(BinaryOperator.ADD, res, term(last), X);
+	}
+
+	/**
+	 * Computes the `i`th component of the vector product of two 3 dimensional
+	 * vectors. The components beyond the third are zero.
+	 * @ignore
+	 */
+	function crossComponent(A: Vector, B: Vector, i: number) {
+		if(i <= 0)
+			throw new InvalidIndex(i, 0);
+		if(i > 3)
+			return Scalar.ZERO;
+		const a1 = <Scalar>A.X(1), a2 = <Scalar>A.X(2), a3 = <Scalar>A.X(3);
+		const b1 = <Scalar>B.X(1), b2 = <Scalar>B.X(2), b3 = <Scalar>B.X(3);
+		return (i === 1)? a2.mul(b3).sub(a3.mul(b2)):
+			(i === 2)? a3.mul(b1).sub(a1.mul(b3)):
+				a1.mul(b2).sub(a2.mul(b1));
+	}
+
+	/**
+	 * Finds the number of components a vector is known to have. A vector
+	 * variable with no components given has no known dimension and gives 0.
+	 * @ignore
+	 */
+	function dimension(F: Vector): number {
+		if(F instanceof Vector.Constant || F instanceof Vector.Variable)
+			return F.value.length;
+		if(F instanceof Vector.Expression) {
+			if(F.op === BinaryOperator.CROSS)
+				return 3;
+			return Math.max(0, ...F.operands.map(x => x instanceof Vector? dimension(x): 0));
+		}
+		return 0;
+	}
+
+	/**
+	 * Checks whether every vector `F` is built from has known components.
+	 * @ignore
+	 */
+	function isKnown(F: Vector): boolean {
+		if(F instanceof Vector.Variable)
+			return F.value.length > 0;
+		if(F instanceof Vector.Expression)
+			return F.operands.every(x => !(x instanceof Vector) || isKnown(x));
+		return true;
+	}
+
+	/**
+	 * Adds a list of scalars dropping the zero constants.
+	 * @ignore
+	 */
+	function sum(terms: Scalar[]) {
+		const nonzero = terms.filter(x => !(x instanceof Scalar.Constant && x.equals(Scalar.ZERO)));
+		if(nonzero.length === 0)
+			return Scalar.ZERO;
+		return nonzero.reduce((acc, x) => acc.add(x));
+	}
+
+	/**
+	 * Subtracts `b` from `a` dropping the zero constants.
+	 * @ignore
+	 */
+	function difference(a: Scalar, b: Scalar) {
+		if(b instanceof Scalar.Constant && b.equals(Scalar.ZERO))
+			return a;
+		if(a instanceof Scalar.Constant && a.equals(Scalar.ZERO))
+			return b.neg;
+		return a.sub(b);
+	}
+
+	/**
+	 * Multiplies a list of scalars dropping the unit constants.
+	 * @ignore
+	 */
+	function product(factors: Scalar[]) {
+		if(factors.some(x => x instanceof Scalar.Constant && x.equals(Scalar.ZERO)))
+			return Scalar.ZERO;
+		const rest = factors.filter(x => !(x instanceof Scalar.Constant && x.equals(Scalar.ONE)));
+		if(rest.length === 0)
+			return Scalar.ONE;
+		return rest.reduce((acc, x) => acc.mul(x));
+	}
+
+	/**
+	 * Divides `a` by `b` dropping the unit divisor.
+	 * @ignore
+	 */
+	function quotient(a: Scalar, b: Scalar) {
+		if(b instanceof Scalar.Constant && b.equals(Scalar.ONE))
+			return a;
+		if(a instanceof Scalar.Constant && a.equals(Scalar.ZERO))
+			return a;
+		return a.div(b);
+	}
+
+	/**
+	 * Simplifies the results of the vector operators in coordinate systems
+	 * other than cartesian, where the scale factors leave them cluttered.
+	 * @ignore
+	 */
+	function tidy(x: Scalar, system: CoordinateSystem) {
+		return system === "cartesian"? x: simplify(x);
+	}
+
+	/**
+	 * Evaluates the divergence of a vector field symbolically in
+	 * {@link mathenv.coordinate_system}. In cartesian coordinates it is
+	 * 
+	 * \\[ \nabla \cdot \vec{F} = \sum_i \frac{\partial F_i}{\partial x_i} \\]
+	 * 
+	 * @param F The vector field.
+	 * @param vars The variables \\( x_i \\), the `i`th variable corresponding to
+	 * the `i`th component of `F`.
+	 * @return The divergence of `F`.
+	 */
+	export function div(F: Vector, vars: Scalar.Variable[]): Scalar;
+	/**
+	 * Evaluates the divergence of a vector field symbolically in an orthogonal
+	 * coordinate system with the scale factors \\( h_i \\),
+	 * 
+	 * \\[ \nabla \cdot \vec{F} = \frac{1}{h_1 h_2 h_3} \sum_i \frac{\partial}{\partial q_i} \left( \frac{h_1 h_2 h_3}{h_i} F_i \right) \\]
+	 * 
+	 * in three dimensions, and likewise in the others.
+	 * @param F The vector field, its components being along the unit vectors
+	 * of the system.
+	 * @param vars The coordinates \\( q_i \\), the `i`th variable corresponding
+	 * to the `i`th component of `F`.
+	 * @param system The coordinate system of `vars`.
+	 * @return The divergence of `F`.
+	 * @throws {@link InvalidDimension} If the number of variables is not the
+	 * dimension of the system.
+	 */
+	export function div(F: Vector, vars: Scalar.Variable[], system: CoordinateSystem): Scalar;
+	export function div(F: Vector, vars: Scalar.Variable[], system=mathenv.coordinate_system) {
+		const h = scaleFactors(vars, system);
+		const others = (i: number) => h.filter((_, j) => j !== i);
+		return tidy(quotient(sum(vars.map((v, i) => partial(product(others(i).concat(F.X(i + 1))), v))), product(h)), system);
+	}
+
+	/**
+	 * Evaluates the curl of a 3 dimensional vector field symbolically in
+	 * {@link mathenv.coordinate_system}. In cartesian coordinates it is
+	 * 
+	 * \\[ \nabla \times \vec{F} = \left(\frac{\partial F_3}{\partial x_2} - \frac{\partial F_2}{\partial x_3}\right) \hat{e}_1
+	 * + \left(\frac{\partial F_1}{\partial x_3} - \frac{\partial F_3}{\partial x_1}\right) \hat{e}_2
+	 * + \left(\frac{\partial F_2}{\partial x_1} - \frac{\partial F_1}{\partial x_2}\right) \hat{e}_3 \\]
+	 * 
+	 * @param F The vector field.
+	 * @param vars The variables \\( x_1, x_2, x_3 \\).
+	 * @return The curl of `F`.
+	 * @throws {@link InvalidDimension} If the number of variables is not 3 or
+	 * `F` has more than 3 components.
+	 */
+	export function curl(F: Vector, vars: Scalar.Variable[]): Vector;
+	/**
+	 * Evaluates the curl of a 3 dimensional vector field symbolically in an
+	 * orthogonal coordinate system with the scale factors \\( h_i \\), whose
+	 * first component is
+	 * 
+	 * \\[ \left(\nabla \times \vec{F}\right)_1 = \frac{1}{h_2 h_3} \left( \frac{\partial (h_3 F_3)}{\partial q_2} - \frac{\partial (h_2 F_2)}{\partial q_3} \right) \\]
+	 * 
+	 * and the others follow by cyclic permutations of the indices.
+	 * @param F The vector field, its components being along the unit vectors
+	 * of the system.
+	 * @param vars The coordinates \\( q_1, q_2, q_3 \\).
+	 * @param system The coordinate system of `vars`.
+	 * @return The curl of `F`.
+	 * @throws {@link InvalidDimension} If the number of variables is not 3 or
+	 * `F` has more than 3 components.
+	 */
+	export function curl(F: Vector, vars: Scalar.Variable[], system: CoordinateSystem): Vector;
+	export function curl(F: Vector, vars: Scalar.Variable[], system=mathenv.coordinate_system) {
+		if(vars.length !== 3)
+			throw new InvalidDimension("curl", vars.length, 3);
+		const n = dimension(F);
+		if(n > 3)
+			throw new InvalidDimension("curl", n, 3);
+		const h = scaleFactors(vars, system);
+		const d = (i: number, j: number) => partial(product([h[i - 1], F.X(i)]), vars[j - 1]);
+		return Vector.expression([
+			quotient(difference(d(3, 2), d(2, 3)), product([h[1], h[2]])),
+			quotient(difference(d(1, 3), d(3, 1)), product([h[2], h[0]])),
+			quotient(difference(d(2, 1), d(1, 2)), product([h[0], h[1]]))
+		].map(x => tidy(x, system)));
+	}
+
+	/**
+	 * Evaluates the Laplacian of a scalar field symbolically in
+	 * {@link mathenv.coordinate_system}. In cartesian coordinates it is
+	 * 
+	 * \\[ \nabla^2 f = \nabla \cdot \nabla f = \sum_i \frac{\partial^2 f}{\partial x_i^2} \\]
+	 * 
+	 * @param f The scalar field.
+	 * @param vars The variables \\( x_i \\).
+	 * @return The Laplacian of `f`.
+	 */
+	export function laplacian(f: Scalar, vars: Scalar.Variable[]): Scalar;
+	/**
+	 * Evaluates the Laplacian of a scalar field symbolically in an orthogonal
+	 * coordinate system with the scale factors \\( h_i \\),
+	 * 
+	 * \\[ \nabla^2 f = \frac{1}{h_1 h_2 h_3} \sum_i \frac{\partial}{\partial q_i} \left( \frac{h_1 h_2 h_3}{h_i^2} \frac{\partial f}{\partial q_i} \right) \\]
+	 * 
+	 * in three dimensions, and likewise in the others.
+	 * @param f The scalar field.
+	 * @param vars The coordinates \\( q_i \\).
+	 * @param system The coordinate system of `vars`.
+	 * @return The Laplacian of `f`.
+	 * @throws {@link InvalidDimension} If the number of variables is not the
+	 * dimension of the system.
+	 */
+	export function laplacian(f: Scalar, vars: Scalar.Variable[], system: CoordinateSystem): Scalar;
+	/**
+	 * Evaluates the vector Laplacian of a vector field symbolically in
+	 * {@link mathenv.coordinate_system}. In cartesian coordinates it is the
+	 * Laplacian of each of its components,
+	 * 
+	 * \\[ \left(\nabla^2 \vec{F}\right)_i = \nabla^2 F_i \\]
+	 * 
+	 * @param F The vector field.
+	 * @param vars The variables \\( x_i \\), the `i`th variable corresponding to
+	 * the `i`th component of `F`.
+	 * @return The vector Laplacian of `F`.
+	 */
+	export function laplacian(F: Vector, vars: Scalar.Variable[]): Vector;
+	/**
+	 * Evaluates the vector Laplacian of a 3 dimensional vector field
+	 * symbolically in an orthogonal coordinate system,
+	 * 
+	 * \\[ \nabla^2 \vec{F} = \nabla (\nabla \cdot \vec{F}) - \nabla \times (\nabla \times \vec{F}) \\]
+	 * 
+	 * which in cartesian coordinates is the Laplacian of each component.
+	 * @param F The vector field, its components being along the unit vectors
+	 * of the system.
+	 * @param vars The coordinates \\( q_i \\), the `i`th variable corresponding
+	 * to the `i`th component of `F`.
+	 * @param system The coordinate system of `vars`.
+	 * @return The vector Laplacian of `F`.
+	 * @throws {@link InvalidDimension} If the system is not cartesian and the
+	 * number of variables is not 3.
+	 */
+	export function laplacian(F: Vector, vars: Scalar.Variable[], system: CoordinateSystem): Vector;
+	export function laplacian(f: Scalar | Vector, vars: Scalar.Variable[], system=mathenv.coordinate_system): Scalar | Vector {
+		if(f instanceof Vector) {
+			if(system === "cartesian")
+				return Vector.expression(vars.map((_, i) => <Scalar>laplacian(f.X(i + 1), vars, system)));
+			if(vars.length !== 3)
+				throw new InvalidDimension("laplacian", vars.length, 3);
+			const G = grad(div(f, vars, system), vars, system), C = curl(curl(f, vars, system), vars, system);
+			return Vector.expression(vars.map((_, i) => tidy(difference(G.X(i + 1), C.X(i + 1)), system)));
+		}
+		const h = scaleFactors(vars, system);
+		const others = (i: number) => h.filter((_, j) => j !== i);
+		// The coefficients H/h_i^2 are simplified since h_i divides H.
+		const coefficient = (i: number) => simplify(quotient(product(others(i)), h[i]));
+		return tidy(quotient(sum(vars.map((v, i) => partial(product([coefficient(i), partial(f, v)]), v))), product(h)), system);
+	}
+
 	/**
 	 * Creates a new [[Vector.Variable]] object if it has not been created before.
 	 * Otherwise just returns the previously created object.
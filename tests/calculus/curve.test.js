@@ -0,0 +1,50 @@
+const { Scalar } = require("../../build/scalar");
+const { Vector } = require("../../build/vector");
+const { Interval } = require("../../build/core/interval");
+const { RoundingMode } = require("../../build/core/math/context");
+const { InvalidDimension } = require("../../build/core/errors");
+const { grad } = require("../../build/calculus/derivative");
+const { Curve, lineIntegral } = require("../../build/calculus/curve");
+
+const ctx = {precision: 8, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x"), y = Scalar.variable("y"), z = Scalar.variable("z");
+const t = Scalar.variable("t");
+
+describe("Parametric curves", function() {
+	const circle = new Curve(Vector.expression([Scalar.parse("cos(t)"), Scalar.parse("sin(t)"), Scalar.ZERO]), t, Interval.closed(0, 2 * Math.PI));
+
+	it("Differentiates the position vector", function() {
+		expect(circle.tangent.X(1).toString()).toBe("-sin(t)");
+		expect(circle.tangent.X(2).toString()).toBe("cos(t)");
+		expect(circle.tangent.X(3)).toEqual(Scalar.ZERO);
+	});
+
+	it("Evaluates points and tangents", function() {
+		expect(circle.at(0).equals(Vector.constant([1, 0, 0]))).toBe(true);
+		expect(circle.tangentAt(0).equals(Vector.constant([0, 1, 0]))).toBe(true);
+		expect(() => new Curve(Vector.expression([t, x]), t, Interval.closed(0, 1), 2).at(0)).toThrow(TypeError);
+	});
+});
+
+describe("Line integrals", function() {
+	const circle = new Curve(Vector.expression([Scalar.parse("cos(t)"), Scalar.parse("sin(t)"), Scalar.ZERO]), t, Interval.closed(0, 2 * Math.PI));
+
+	it("Integrates scalar fields along the arc length", function() {
+		expect(lineIntegral(Scalar.ONE, [x, y, z], circle, {context: ctx}).value.toString()).toBe("6.28318531");
+		expect(lineIntegral(Scalar.parse("x^2"), [x, y, z], circle, {context: ctx}).value.toString()).toBe("3.14159265");
+		const helix = new Curve(Vector.expression([Scalar.parse("cos(t)"), Scalar.parse("sin(t)"), t]), t, Interval.closed(0, 2 * Math.PI));
+		expect(lineIntegral(Scalar.ONE, [x, y, z], helix, {context: ctx}).value.toString()).toBe("8.88576588");
+		const cusp = new Curve(Vector.expression([Scalar.parse("t^2"), Scalar.parse("t^3")]), t, Interval.closed(0, 1), 2);
+		expect(lineIntegral(Scalar.ONE, [x, y], cusp, {context: ctx}).value.toString()).toBe("1.43970987");
+	});
+
+	it("Integrates the work done by vector fields", function() {
+		expect(lineIntegral(Vector.expression([y.neg, x, Scalar.ZERO]), [x, y, z], circle, {context: ctx}).value.toString()).toBe("6.28318531");
+		const cubic = new Curve(Vector.expression([t, Scalar.parse("t^2"), Scalar.parse("t^3")]), t, Interval.closed(0, 1));
+		expect(lineIntegral(grad(Scalar.parse("x*y*z"), [x, y, z]), [x, y, z], cubic, {context: ctx}).value.toString()).toBe("1");
+	});
+
+	it("Throws for mismatched dimensions", function() {
+		expect(() => lineIntegral(Scalar.ONE, [x, y], circle)).toThrow(InvalidDimension);
+	});
+});
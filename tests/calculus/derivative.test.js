@@ -0,0 +1,182 @@
+const { Scalar } = require("../../build/scalar");
+const { BigNum } = require("../../build/core/math/bignum");
+const { RoundingMode } = require("../../build/core/math/context");
+const { Vector } = require("../../build/vector");
+const { diff, partial, grad } = require("../../build/calculus/derivative");
+const func = require("../../build/core/math/functions");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+const z = Scalar.variable("z");
+
+function valueAt(expr, values) {
+	if(expr instanceof Scalar.Constant)
+		return expr;
+	const map = new Map(values.map(([v, n]) => [v, Scalar.constant(n)]));
+	return expr.at(map);
+}
+
+function checkAt(expr, v, point, expected) {
+	const res = valueAt(diff(expr, v), point);
+	expect(res).toBeInstanceOf(Scalar.Constant);
+	expect(res.value.equals(BigNum.real(expected), ctx)).toBe(true);
+}
+
+describe("Symbolic differentiation", function() {
+	describe("Trivial cases", function() {
+		it("differentiates constants to zero", function() {
+			expect(diff(Scalar.constant(5), x)).toBe(Scalar.ZERO);
+		});
+
+		it("differentiates variables", function() {
+			expect(diff(x, x)).toBe(Scalar.ONE);
+			expect(diff(y, x)).toBe(Scalar.ZERO);
+		});
+
+		it("returns zero for expressions independent of the variable", function() {
+			expect(diff(func.sin(y).mul(y), x)).toBe(Scalar.ZERO);
+		});
+
+		it("folds constant results", function() {
+			const d = diff(Scalar.constant(3).mul(x).add(Scalar.constant(2)), x);
+			expect(d).toBeInstanceOf(Scalar.Constant);
+			expect(d.value.equals(BigNum.real(3))).toBe(true);
+		});
+
+		it("is available as a method on expressions", function() {
+			const expr = x.mul(y);
+			expect(expr.diff(x)).toBe(y);
+			expect(expr.diff(y)).toBe(x);
+		});
+	});
+
+	describe("Binary operators", function() {
+		it("sum and difference rules", function() {
+			checkAt(x.mul(x).add(x), x, [[x, 3]], 7);
+			checkAt(x.mul(x).sub(x.mul(y)), x, [[x, 3], [y, 2]], 4);
+		});
+
+		it("product rule", function() {
+			checkAt(x.mul(func.sin(x)), x, [[x, 0.5]], Math.sin(0.5) + 0.5 * Math.cos(0.5));
+		});
+
+		it("quotient rule", function() {
+			checkAt(x.div(x.add(Scalar.ONE)), x, [[x, 2]], 1 / 9);
+			checkAt(x.div(Scalar.constant(4)), x, [[x, 2]], 0.25);
+		});
+
+		it("power rule", function() {
+			checkAt(x.pow(Scalar.constant(3)), x, [[x, 2]], 12);
+			checkAt(Scalar.constant(2).pow(x), x, [[x, 3]], 8 * Math.log(2));
+			checkAt(x.pow(x), x, [[x, 2]], 4 * (Math.log(2) + 1));
+		});
+	});
+
+	describe("Chain rule for unary operators", function() {
+		const u = x.mul(x);
+		const cases = [
+			["neg", (t) => -2 * t],
+			["sin", (t) => 2 * t * Math.cos(t * t)],
+			["cos", (t) => -2 * t * Math.sin(t * t)],
+			["tan", (t) => 2 * t / Math.cos(t * t) ** 2],
+			["asin", (t) => 2 * t / Math.sqrt(1 - t ** 4)],
+			["acos", (t) => -2 * t / Math.sqrt(1 - t ** 4)],
+			["atan", (t) => 2 * t / (1 + t ** 4)],
+			["sinh", (t) => 2 * t * Math.cosh(t * t)],
+			["cosh", (t) => 2 * t * Math.sinh(t * t)],
+			["tanh", (t) => 2 * t / Math.cosh(t * t) ** 2],
+			["asinh", (t) => 2 * t / Math.sqrt(t ** 4 + 1)],
+			["atanh", (t) => 2 * t / (1 - t ** 4)],
+			["ln", (t) => 2 / t],
+			["exp", (t) => 2 * t * Math.exp(t * t)],
+			["sqrt", () => 1],
+			["abs", (t) => 2 * t]
+		];
+		for(const [name, derivative] of cases) {
+			it(name, function() {
+				checkAt(func[name](u), x, [[x, 0.5]], derivative(0.5));
+			});
+		}
+
+		it("acosh", function() {
+			checkAt(func.acosh(u), x, [[x, 2]], 4 / Math.sqrt(15));
+		});
+
+		it("error functions", function() {
+			const gauss = (t) => 2 / Math.sqrt(Math.PI) * Math.exp(-(t ** 4));
+			checkAt(func.erf(u), x, [[x, 0.5]], 2 * 0.5 * gauss(0.5));
+			checkAt(func.erfc(u), x, [[x, 0.5]], -2 * 0.5 * gauss(0.5));
+			const v = func.erfinv(u);
+			const w = func.erfinv(0.25);
+			checkAt(v, x, [[x, 0.5]], Math.sqrt(Math.PI) / 2 * Math.exp(w * w));
+		});
+
+		it("incomplete gamma functions", function() {
+			const s = Scalar.constant(2.5);
+			checkAt(func.lowergamma(u, s), x, [[x, 0.5]], 0.25 ** 1.5 * Math.exp(-0.25));
+			checkAt(func.uppergamma(u, s), x, [[x, 0.5]], -(0.25 ** 1.5) * Math.exp(-0.25));
+		});
+
+		it("Bessel functions", function() {
+			// J_{1/2}(t) = √(2 / πt) sin t and j_0(t) = sin t / t
+			const t = 0.25;
+			const half = Scalar.constant(0.5);
+			checkAt(func.besselJ(u, half), x, [[x, 0.5]], Math.sqrt(2 / Math.PI) * (Math.cos(t) / Math.sqrt(t) - Math.sin(t) / (2 * t ** 1.5)));
+			checkAt(func.sphericalJ(u, Scalar.ZERO), x, [[x, 0.5]], (t * Math.cos(t) - Math.sin(t)) / (t * t));
+		});
+
+		it("floor and ceil", function() {
+			expect(diff(func.floor(u), x)).toBe(Scalar.ZERO);
+			expect(diff(func.ceil(u), x)).toBe(Scalar.ZERO);
+		});
+
+		it("log", function() {
+			const d = diff(func.log(x), x);
+			expect(d.op).toBe("div");
+		});
+	});
+});
+
+describe("Partial derivatives", function() {
+	it("holds other variables constant", function() {
+		const f = x.mul(x).mul(y).add(func.sin(z));
+		expect(valueAt(partial(f, x), [[x, 2], [y, 3]]).value.equals(BigNum.real(12))).toBe(true);
+		expect(valueAt(partial(f, y), [[x, 2]]).value.equals(BigNum.real(4))).toBe(true);
+		expect(valueAt(partial(f, z), [[z, 0.25]]).value.equals(BigNum.real(Math.cos(0.25)), ctx)).toBe(true);
+		expect(partial(Scalar.constant(4), x)).toBe(Scalar.ZERO);
+		expect(partial(y, x)).toBe(Scalar.ZERO);
+	});
+});
+
+describe("Gradient", function() {
+	it("of a constant is the zero vector", function() {
+		const g = grad(Scalar.constant(7), [x, y, z]);
+		expect(g).toBeInstanceOf(Vector.Constant);
+		expect(g.equals(Vector.constant([]))).toBe(true);
+	});
+
+	it("of a variable is a basis vector", function() {
+		const g = grad(y, [x, y, z]);
+		expect(g).toBeInstanceOf(Vector.Constant);
+		expect(g.equals(Vector.constant([0, 1, 0]))).toBe(true);
+	});
+
+	it("of an expression has the partial derivatives as components", function() {
+		const f = x.mul(y).add(y.mul(z));
+		const g = grad(f, [x, y, z]);
+		expect(g).toBeInstanceOf(Vector.Expression);
+		expect(g.X(1)).toBe(y);
+		expect(g.X(3)).toBe(y);
+		expect(g.X(4)).toBe(Scalar.ZERO);
+	});
+
+	it("evaluates at a point", function() {
+		const f = x.mul(x).add(func.sin(y)).add(z.mul(x));
+		const g = grad(f, [x, y, z]);
+		const map = new Map([[x, Scalar.constant(1)], [y, Scalar.constant(0)], [z, Scalar.constant(2)]]);
+		const res = g.at(map);
+		expect(res).toBeInstanceOf(Vector.Constant);
+		expect(res.equals(Vector.constant([4, 1, 1]), ctx)).toBe(true);
+	});
+});
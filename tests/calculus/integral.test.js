@@ -0,0 +1,97 @@
+const { Scalar } = require("../../build/scalar");
+const { BigNum } = require("../../build/core/math/bignum");
+const { Component } = require("../../build/core/math/component");
+const { Interval } = require("../../build/core/interval");
+const { RoundingMode } = require("../../build/core/math/context");
+const { InvalidDimension, NoConvergence } = require("../../build/core/errors");
+const { compile } = require("../../build/compile");
+const { integrate, integrate2d, integrate3d } = require("../../build/calculus/integral");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x");
+const tolerance = Component.create("1e-10");
+
+function check(res, expected) {
+	expect(res.value.toString()).toBe(expected);
+	expect(res.error.components[0].lessEquals(tolerance)).toBe(true);
+}
+
+describe("Integrates functions of one variable", function() {
+	const exp = Scalar.parse("exp(x)");
+
+	it("Uses Gauss-Legendre rules", function() {
+		check(integrate(exp, x, Interval.closed(0, 1), {context: ctx}), "1.7182818285");
+		check(integrate(Scalar.parse("x^3 - 2*x"), x, Interval.closed(-1, 2), {method: "gauss-legendre", context: ctx}), "0.75");
+	});
+
+	it("Uses Romberg's method", function() {
+		check(integrate(exp, x, Interval.closed(0, 1), {method: "romberg", context: ctx}), "1.7182818285");
+		check(integrate(exp, x, Interval.open(0, 1), {method: "romberg", context: ctx}), "1.7182818285");
+	});
+
+	it("Uses the tanh-sinh method", function() {
+		check(integrate(exp, x, Interval.closed(0, 1), {method: "tanh-sinh", context: ctx}), "1.7182818285");
+		check(integrate(Scalar.parse("sin(x)"), x, Interval.closed(0, 3), {method: "tanh-sinh", context: ctx}), "1.9899924966");
+	});
+
+	it("Integrates endpoint singularities of open intervals", function() {
+		check(integrate(Scalar.parse("1/sqrt(x)"), x, Interval.open_closed(0, 1), {context: ctx}), "2");
+		check(integrate(Scalar.parse("1/sqrt(1 - x)"), x, Interval.closed_open(0, 1), {context: ctx}), "2");
+		check(integrate((v, c) => BigNum.real(1).div(BigNum.sqrt(v, c), c), Interval.open_closed(0, 4), {context: ctx}), "4");
+	});
+
+	it("Integrates callbacks and compiled expressions", function() {
+		check(integrate(v => v.mul(v), Interval.closed(-1, 2), {context: ctx}), "3");
+		const f = compile(Scalar.parse("x*exp(x)"), [x], {backend: "bignum", context: {precision: 20, rounding: RoundingMode.HALF_EVEN}});
+		check(integrate(f, Interval.closed(0, 1), {context: ctx}), "1");
+	});
+
+	it("Throws for invalid arguments", function() {
+		expect(() => integrate(exp, x, Interval.closed(0, Infinity))).toThrow(TypeError);
+		expect(() => integrate(exp, x, Interval.closed(0, 1), {method: "simpson"})).toThrow(TypeError);
+	});
+});
+
+describe("Integrates functions of several variables", function() {
+	const low = {precision: 6, rounding: RoundingMode.HALF_EVEN};
+	const y = Scalar.variable("y"), z = Scalar.variable("z");
+	const one = () => BigNum.real(1);
+
+	it("Integrates over rectangular regions", function() {
+		expect(integrate2d(Scalar.parse("x*y"), [x, y], Interval.closed(0, 1), Interval.closed(0, 2), {context: low}).toString()).toBe("1");
+		expect(integrate2d((u, v) => u.add(v), Interval.closed(0, 1), [1, 3], {context: low}).toString()).toBe("5");
+		expect(integrate3d(Scalar.parse("x*y*z"), [x, y, z], Interval.closed(0, 1), Interval.closed(0, 1), Interval.closed(0, 2), {context: low}).toString()).toBe("0.5");
+		const high = {precision: 30, rounding: RoundingMode.HALF_EVEN};
+		expect(integrate2d(Scalar.parse("pi*x"), [x, y], Interval.closed(0, 1), Interval.closed(0, 2), {context: high}).toString()).toBe("3.14159265358979323846264338328");
+	});
+
+	it("Integrates over regions with variable limits", function() {
+		const semicircle = Scalar.parse("sqrt(1 - x^2)");
+		expect(integrate2d(Scalar.ONE, [x, y], Interval.closed(-1, 1), [0, semicircle], {method: "tanh-sinh", context: low}).toString()).toBe("1.570796");
+		const upper = (u, c) => BigNum.sqrt(BigNum.real(1).sub(u.mul(u, c), c), c);
+		expect(integrate2d(one, Interval.closed(-1, 1), [0, upper], {method: "tanh-sinh", context: low}).toString()).toBe("1.570796");
+		expect(integrate3d(Scalar.ONE, [x, y, z], Interval.closed(0, 1), [0, Scalar.parse("1 - x")], [0, Scalar.parse("1 - x - y")], {context: low}).toString()).toBe("0.166667");
+	});
+
+	it("Falls back to the tanh-sinh rule if the default rule does not converge", function() {
+		const semicircle = Scalar.parse("sqrt(1 - x^2)");
+		const ctx = {precision: 8, rounding: RoundingMode.HALF_EVEN};
+		expect(integrate2d(Scalar.ONE, [x, y], Interval.closed(-1, 1), [0, semicircle], {context: ctx}).toString()).toBe("1.57079633");
+		expect(() => integrate2d(Scalar.ONE, [x, y], Interval.closed(-1, 1), [0, semicircle], {method: "gauss-legendre", context: ctx})).toThrow(NoConvergence);
+	}, 30000);
+
+	it("Multiplies by the Jacobian of the coordinate system", function() {
+		expect(integrate2d(one, Interval.closed(0, 1), Interval.closed(0, 2 * Math.PI), {coordinates: "polar", context: low}).toString()).toBe("3.141593");
+		expect(integrate3d(Scalar.parse("z"), [x, y, z], Interval.closed(0, 2), Interval.closed(0, 2 * Math.PI), Interval.closed(0, 3), {coordinates: "cylindrical", context: low}).toString()).toBe("56.548668");
+		expect(integrate3d(one, Interval.closed(0, 1), Interval.closed(0, Math.PI), Interval.closed(0, 2 * Math.PI), {coordinates: "spherical", context: {precision: 4, rounding: RoundingMode.HALF_EVEN}}).toString()).toBe("4.1888");
+	});
+
+	it("Throws for invalid arguments", function() {
+		expect(() => integrate2d(one, Interval.closed(0, Infinity), Interval.closed(0, 1))).toThrow(TypeError);
+		expect(() => integrate2d(one, [0, u => u], Interval.closed(0, 1))).toThrow(TypeError);
+		expect(() => integrate2d(one, Interval.closed(0, 1), [0, Scalar.parse("x")])).toThrow(TypeError);
+		expect(() => integrate2d(Scalar.parse("x*y"), [x, y], Interval.closed(0, 1), [0, Scalar.parse("y")])).toThrow(TypeError);
+		expect(() => integrate2d(one, Interval.closed(0, 1), Interval.closed(0, 1), {coordinates: "spherical"})).toThrow(InvalidDimension);
+		expect(() => integrate3d(one, Interval.closed(0, 1), Interval.closed(0, 1), Interval.closed(0, 1), {coordinates: "polar"})).toThrow(InvalidDimension);
+	});
+});
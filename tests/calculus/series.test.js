@@ -0,0 +1,60 @@
+const { Scalar } = require("../../build/scalar");
+const { BigNum } = require("../../build/core/math/bignum");
+const { RoundingMode } = require("../../build/core/math/context");
+const { series, maclaurin } = require("../../build/calculus/series");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+
+function coefficients(res) {
+	return res.coefficients.map(c => c.toString());
+}
+
+describe("Expands scalars in power series", function() {
+	it("Evaluates Maclaurin series", function() {
+		const exp = maclaurin(Scalar.parse("exp(x)"), x, 4, ctx);
+		expect(coefficients(exp)).toEqual(["1", "1", "0.5", "0.1666666667", "0.0416666667"]);
+		expect(exp.polynomial.toString()).toBe("1 + x + 0.5*x^2 + 0.1666666667*x^3 + 0.0416666667*x^4");
+		const sin = maclaurin(Scalar.parse("sin(x)"), x, 5, ctx);
+		expect(coefficients(sin)).toEqual(["0", "1", "0", "-0.1666666667", "0", "0.0083333333"]);
+		expect(sin.polynomial.toString()).toBe("x - 0.1666666667*x^3 + 0.0083333333*x^5");
+		expect(coefficients(maclaurin(Scalar.parse("1/(1 - x)"), x, 3))).toEqual(["1", "1", "1", "1"]);
+	});
+
+	it("Evaluates Taylor series about a point", function() {
+		const ln = series(Scalar.parse("ln(x)"), x, 1, 3, ctx);
+		expect(coefficients(ln)).toEqual(["0", "1", "-0.5", "0.3333333333"]);
+		expect(ln.polynomial.toString()).toBe("x - 1 - 0.5*(x - 1)^2 + 0.3333333333*(x - 1)^3");
+		const cube = series(Scalar.parse("x^3"), x, BigNum.real(2), 4);
+		expect(coefficients(cube)).toEqual(["8", "12", "6", "1", "0"]);
+		expect(cube.polynomial.toString()).toBe("8 + 12*(x - 2) + 6*(x - 2)^2 + (x - 2)^3");
+	});
+
+	it("Evaluates the coefficients at the given precision", function() {
+		const context = {precision: 40, rounding: RoundingMode.HALF_EVEN};
+		const sin = series(Scalar.parse("sin(x)"), x, 1, 1, context);
+		expect(coefficients(sin)).toEqual(["0.8414709848078965066525023216302989996226", "0.5403023058681397174009366074429766037323"]);
+		const tan = maclaurin(Scalar.parse("tan(x)"), x, 9, context);
+		expect(coefficients(tan).slice(7)).toEqual(["0.053968253968253968253968253968253968254", "0", "0.0218694885361552028218694885361552028219"]);
+	});
+
+	it("Composes the series of functions", function() {
+		expect(maclaurin(Scalar.parse("asin(x)"), x, 5, ctx).polynomial.toString()).toBe("x + 0.1666666667*x^3 + 0.075*x^5");
+		expect(maclaurin(Scalar.parse("sqrt(1 + x)"), x, 3, ctx).polynomial.toString()).toBe("1 + 0.5*x - 0.125*x^2 + 0.0625*x^3");
+		expect(maclaurin(Scalar.parse("besselJ(x, 0)"), x, 4, ctx).polynomial.toString()).toBe("1 - 0.25*x^2 + 0.015625*x^4");
+		expect(series(Scalar.parse("x^x"), x, 1, 3, ctx).polynomial.toString()).toBe("1 + x - 1 + (x - 1)^2 + 0.5*(x - 1)^3");
+	});
+
+	it("Expands constants and variables", function() {
+		expect(series(Scalar.constant(3), x, 0, 2).polynomial.toString()).toBe("3");
+		expect(series(x, x, 2, 2).polynomial.toString()).toBe("2 + x - 2");
+		expect(series(Scalar.ZERO, x, 0, 2).polynomial).toBe(Scalar.ZERO);
+	});
+
+	it("Throws for invalid arguments", function() {
+		expect(() => series(Scalar.parse("x*y"), x, 0, 2)).toThrow(TypeError);
+		expect(() => series(x, x, 0, 1.5)).toThrow(TypeError);
+		expect(() => series(x, x, 0, -1)).toThrow(TypeError);
+	});
+});
@@ -0,0 +1,49 @@
+const { Scalar } = require("../../build/scalar");
+const { Vector } = require("../../build/vector");
+const { Interval } = require("../../build/core/interval");
+const { RoundingMode } = require("../../build/core/math/context");
+const { InvalidDimension } = require("../../build/core/errors");
+const { Surface, surfaceArea, surfaceIntegral, flux } = require("../../build/calculus/surface");
+
+const ctx = {precision: 3, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x"), y = Scalar.variable("y"), z = Scalar.variable("z");
+const u = Scalar.variable("u"), v = Scalar.variable("v");
+const plane = new Surface(Vector.expression([u, v, Scalar.ZERO]), u, v, Interval.closed(0, 1), Interval.closed(0, 2));
+const r = Vector.expression(["sin(u)*cos(v)", "sin(u)*sin(v)", "cos(u)"].map(e => Scalar.parse(e)));
+
+describe("Parametric surfaces", function() {
+	it("Computes the normal from the partial derivatives", function() {
+		expect(plane.normal.equals(Vector.constant([0, 0, 1]))).toBe(true);
+		expect(plane.reversed().normal.equals(Vector.constant([0, 0, -1]))).toBe(true);
+		const sphere = new Surface(r, u, v, Interval.closed(0, Math.PI), Interval.closed(0, 2 * Math.PI));
+		expect(sphere.normal.X(1).toString()).toBe("cos(v)*sin(u)^2");
+		expect(sphere.normalAt(Math.PI / 2, 0).equals(Vector.constant([1, 0, 0]), ctx)).toBe(true);
+		expect(sphere.at(0, 0).equals(Vector.constant([0, 0, 1]))).toBe(true);
+	});
+});
+
+describe("Surface integrals", function() {
+	it("Computes areas", function() {
+		expect(surfaceArea(plane, {context: ctx}).toString()).toBe("2");
+		const sphere = new Surface(r, u, v, Interval.closed(0, Math.PI), Interval.closed(0, 2 * Math.PI));
+		expect(surfaceArea(sphere, {context: ctx}).toString()).toBe("12.566");
+	});
+
+	it("Integrates scalar fields", function() {
+		expect(surfaceIntegral(Scalar.parse("x*y + z"), [x, y, z], plane, {context: ctx}).toString()).toBe("1");
+	});
+
+	it("Computes fluxes with the orientation of the surface", function() {
+		const F = Vector.expression([x, y, Scalar.parse("z + 3")]);
+		expect(flux(F, [x, y, z], plane, {context: ctx}).toString()).toBe("6");
+		expect(flux(F, [x, y, z], plane.reversed(), {context: ctx}).toString()).toBe("-6");
+		// Stokes's theorem: the circulation of (-y, x, 0) around the unit circle is 2 pi.
+		const hemisphere = new Surface(r, u, v, Interval.closed(0, Math.PI / 2), Interval.closed(0, 2 * Math.PI));
+		expect(flux(Vector.curl(Vector.expression([y.neg, x, Scalar.ZERO]), [x, y, z]), [x, y, z], hemisphere, {context: ctx}).toString()).toBe("6.283");
+	});
+
+	it("Throws for mismatched dimensions", function() {
+		expect(() => surfaceIntegral(Scalar.ONE, [x, y], plane)).toThrow(InvalidDimension);
+		expect(() => flux(Vector.expression([x, y]), [x, y], plane)).toThrow(InvalidDimension);
+	});
+});
@@ -0,0 +1,59 @@
+const { Scalar } = require("../build/scalar");
+const { compile } = require("../build/compile");
+const { BigNum } = require("../build/core/math/bignum");
+const { RoundingMode } = require("../build/core/math/context");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+
+describe("Compiles scalar expressions", function() {
+	const expr = Scalar.parse("sin(x)^2 + 3*x*y - ln(y) + sqrt(x)/(y + 1)");
+
+	it("Compiles to javascript numbers", function() {
+		const f = compile(expr, [x, y]);
+		const g = compile(expr, [y, x], {backend: "number"});
+		const value = Math.pow(Math.sin(0.5), 2) + 3 * 0.5 * 2 - Math.log(2) + Math.sqrt(0.5) / 3;
+		expect(f(0.5, 2)).toBeCloseTo(value, 14);
+		expect(g(2, 0.5)).toBeCloseTo(value, 14);
+		expect(compile(Scalar.parse("log(100*y)"), [y])(10)).toBeCloseTo(3, 14);
+		expect(compile(x, [x])(4)).toBe(4);
+	});
+
+	it("Compiles to BigNum", function() {
+		const f = compile(expr, [x, y], {backend: "bignum", context: ctx});
+		const at = expr.at(new Map([[x, Scalar.constant(0.5)], [y, Scalar.constant(2)]]));
+		expect(f(0.5, BigNum.real(2)).equals(at.value, ctx)).toBe(true);
+		expect(f(0.5, 2).toString()).toBe("2.7724039269");
+		expect(compile(Scalar.parse("log(100*y)"), [y], {backend: "bignum", context: ctx})(10).toString()).toBe("3");
+	});
+
+	it("Raises to integer powers exactly", function() {
+		const f = compile(Scalar.parse("x^y"), [x, y], {backend: "bignum", context: ctx});
+		expect(f(-1.5, 3).toString()).toBe("-3.375");
+		expect(f(2, -2).toString()).toBe("0.25");
+		expect(f(4, 0.5).toString()).toBe("2");
+	});
+
+	it("Compiles functions with parameters", function() {
+		const f = Scalar.parse("erf(x) + lowergamma(x^2, 2)");
+		const at = f.at(new Map([[x, Scalar.constant(1)]]));
+		expect(compile(f, [x])(1)).toBeCloseTo(Number(at.value.toString()), 14);
+		expect(compile(f, [x], {backend: "bignum", context: ctx})(1).toString()).toBe("1.1069419106");
+		const h = Scalar.parse("besselJ(x, 1) * besselK(x, 0)");
+		expect(compile(h, [x])(2.5)).toBeCloseTo(0.49709410246427405 * 0.06234755320036619, 14);
+		const g = new Scalar.Expression("uppergamma", x, y);
+		expect(() => compile(g, [x, y])).toThrow(TypeError);
+	});
+
+	it("Compiles constants", function() {
+		expect(compile(Scalar.constant(2.5), [])()).toBe(2.5);
+		expect(compile(Scalar.constant(2.5), [x], {backend: "bignum"})(1)).toEqual(BigNum.real(2.5));
+	});
+
+	it("Throws for missing variables and complex constants", function() {
+		expect(() => compile(expr, [x])).toThrow(TypeError);
+		expect(() => compile(y, [x])).toThrow(TypeError);
+		expect(() => compile(Scalar.constant(BigNum.complex(1, 1)), [])).toThrow(TypeError);
+	});
+});
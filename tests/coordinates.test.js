@@ -0,0 +1,110 @@
+const { Scalar } = require("../build/scalar");
+const { Vector } = require("../build/vector");
+const { BigNum } = require("../build/core/math/bignum");
+const { RoundingMode } = require("../build/core/math/context");
+const { InvalidDimension } = require("../build/core/errors");
+const { mathenv } = require("../build/core/env");
+const { grad } = require("../build/calculus/derivative");
+const { scaleFactors, toCartesian, fromCartesian } = require("../build/coordinates");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const r = Scalar.variable("r"), theta = Scalar.variable("theta"), phi = Scalar.variable("phi");
+const z = Scalar.variable("z");
+const spherical = [r, theta, phi];
+const values = list => list.map(x => x.toString());
+const components = (F, n) => [...Array(n).keys()].map(i => F.X(i + 1).toString());
+
+describe("Scale factors", function() {
+	it("Creates the scale factors of the built in systems", function() {
+		expect(values(scaleFactors([r, theta]))).toEqual(["1", "1"]);
+		expect(values(scaleFactors([r, theta], "polar"))).toEqual(["1", "r"]);
+		expect(values(scaleFactors([r, phi, z], "cylindrical"))).toEqual(["1", "r", "1"]);
+		expect(values(scaleFactors(spherical, "spherical"))).toEqual(["1", "r", "r*sin(theta)"]);
+	});
+
+	it("Checks the number of coordinates", function() {
+		expect(() => scaleFactors([r, theta], "spherical")).toThrow(InvalidDimension);
+		expect(() => scaleFactors(spherical, "polar")).toThrow(InvalidDimension);
+	});
+});
+
+describe("Converts coordinates", function() {
+	const real = list => list.map(x => BigNum.real(x));
+
+	it("Converts to cartesian coordinates", function() {
+		expect(values(toCartesian(real([2, Math.PI / 2, 0]), "spherical", ctx))).toEqual(["2", "0", "0"]);
+		expect(values(toCartesian(real([2, Math.PI / 3]), "polar", ctx))).toEqual(["1", "1.7320508076"]);
+		expect(toCartesian(Vector.constant([1, 0, 3]), "cylindrical", ctx).equals(Vector.constant([1, 0, 3]))).toBe(true);
+		expect(values(toCartesian(real([1, 2])))).toEqual(["1", "2"]);
+	});
+
+	it("Converts from cartesian coordinates", function() {
+		expect(values(fromCartesian(real([-1, -1, 5]), "cylindrical", ctx))).toEqual(["1.4142135624", "-2.3561944902", "5"]);
+		expect(values(fromCartesian(real([0, 0, -2]), "spherical", ctx))).toEqual(["2", "3.1415926536", "0"]);
+		expect(values(fromCartesian(real([0, 0]), "polar", ctx))).toEqual(["0", "0"]);
+		expect(values(fromCartesian(real([-2, 0]), "polar", ctx))).toEqual(["2", "3.1415926536"]);
+		expect(values(fromCartesian(real([0, 3, 0]), "spherical", ctx))).toEqual(["3", "1.5707963268", "1.5707963268"]);
+		expect(fromCartesian(Vector.constant([1, 1]), "polar", ctx).toString()).toBe("[1.4142135624; 0.7853981634]");
+	});
+
+	it("Uses the default coordinate system", function() {
+		mathenv.coordinate_system = "polar";
+		try {
+			expect(values(fromCartesian(real([0, 2]), undefined, ctx))).toEqual(["2", "1.5707963268"]);
+			expect(toCartesian(Vector.constant([2])).equals(Vector.constant([2, 0]))).toBe(true);
+		} finally {
+			mathenv.coordinate_system = "cartesian";
+		}
+	});
+
+	it("Needs the conversions of user defined systems", function() {
+		const scaled = {name: "scaled", dimension: 2, scaleFactors: () => [Scalar.constant(2), Scalar.ONE]};
+		expect(() => toCartesian(real([1, 1]), scaled)).toThrow(TypeError);
+		const withConversion = Object.assign({toCartesian: q => [q[0].mul(BigNum.real(2)), q[1]]}, scaled);
+		expect(values(toCartesian(real([1, 1]), withConversion))).toEqual(["2", "1"]);
+	});
+});
+
+describe("Vector operators in curvilinear coordinates", function() {
+	it("Evaluates gradients", function() {
+		expect(components(grad(Scalar.parse("r^2*cos(theta)"), spherical, "spherical"), 3)).toEqual(["2*cos(theta)*r", "-r*sin(theta)", "0"]);
+		expect(components(grad(phi, [r, phi, z], "cylindrical"), 3)).toEqual(["0", "1/r", "0"]);
+		const parabolic = {
+			name: "parabolic",
+			dimension: 2,
+			scaleFactors: ([s, t]) => [s.mul(s).add(t.mul(t)), s.mul(s).add(t.mul(t))]
+		};
+		const s = Scalar.variable("s"), t = Scalar.variable("t");
+		expect(grad(s, [s, t], parabolic).X(1).toString()).toBe("1/(s^2 + t^2)");
+	});
+
+	it("Evaluates divergences", function() {
+		expect(Vector.div(Vector.expression([Scalar.parse("r^2"), Scalar.ZERO, Scalar.ZERO]), spherical, "spherical").toString()).toBe("4*r");
+		expect(Vector.div(Vector.expression([r, Scalar.ZERO]), [r, theta], "polar").toString()).toBe("2");
+	});
+
+	it("Evaluates curls", function() {
+		const F = Vector.expression([Scalar.ZERO, Scalar.ZERO, Scalar.parse("r*sin(theta)")]);
+		expect(components(Vector.curl(F, spherical, "spherical"), 3)).toEqual(["2*cos(theta)", "-2*sin(theta)", "0"]);
+		expect(() => Vector.curl(F, [r, theta], "polar")).toThrow(InvalidDimension);
+	});
+
+	it("Evaluates Laplacians", function() {
+		expect(Vector.laplacian(Scalar.parse("1/r"), spherical, "spherical")).toEqual(Scalar.ZERO);
+		expect(Vector.laplacian(Scalar.parse("r^2"), spherical, "spherical").toString()).toBe("6");
+		expect(Vector.laplacian(Scalar.parse("ln(r)"), [r, theta], "polar")).toEqual(Scalar.ZERO);
+		const L = Vector.laplacian(Vector.expression([r, Scalar.ZERO, Scalar.ZERO]), spherical, "spherical");
+		expect(components(L, 3)).toEqual(["0", "0", "0"]);
+		const M = Vector.laplacian(Vector.constant([1]), spherical, "spherical");
+		expect(components(M, 3)).toEqual(["-2/r^2", "0", "0"]);
+	});
+
+	it("Uses the default coordinate system", function() {
+		mathenv.coordinate_system = "spherical";
+		try {
+			expect(Vector.div(Vector.expression([Scalar.parse("r^2"), Scalar.ZERO, Scalar.ZERO]), spherical).toString()).toBe("4*r");
+		} finally {
+			mathenv.coordinate_system = "cartesian";
+		}
+	});
+});
@@ -0,0 +1,52 @@
+const { mathenv, withContext, withContextAsync } = require("../../build/core/env");
+const { MathContext } = require("../../build/core/math/context");
+const { BigNum } = require("../../build/core/math/bignum");
+
+describe("Scopes context settings", function() {
+	const third = () => BigNum.real(1).div(BigNum.real(3)).toString();
+
+	it("Uses the given settings inside the scope", function() {
+		expect(withContext(MathContext.HIGH_PRECISION, () => mathenv.mode)).toBe(MathContext.HIGH_PRECISION);
+		expect(withContext(MathContext.HIGH_PRECISION, third)).toBe("0." + "3".repeat(50));
+		expect(mathenv.mode).toBe(MathContext.DEFAULT_CONTEXT);
+		expect(third()).toBe("0." + "3".repeat(17));
+	});
+
+	it("Nests scopes", function() {
+		withContext(MathContext.SCIENTIFIC, () => {
+			expect(mathenv.mode).toBe(MathContext.SCIENTIFIC);
+			withContext(MathContext.HIGH_PRECISION, () => expect(mathenv.mode).toBe(MathContext.HIGH_PRECISION));
+			expect(mathenv.mode).toBe(MathContext.SCIENTIFIC);
+			mathenv.mode = MathContext.HIGH_PREC_SCIENTIFIC;
+			expect(mathenv.mode).toBe(MathContext.HIGH_PREC_SCIENTIFIC);
+		});
+		expect(mathenv.mode).toBe(MathContext.DEFAULT_CONTEXT);
+	});
+
+	it("Restores the settings on exceptions", function() {
+		expect(() => withContext(MathContext.HIGH_PRECISION, () => {
+			throw new Error("failed");
+		})).toThrow("failed");
+		expect(mathenv.mode).toBe(MathContext.DEFAULT_CONTEXT);
+	});
+
+	it("Keeps concurrent asynchronous scopes apart", async function() {
+		const delay = () => new Promise(resolve => setTimeout(resolve, 5));
+		const run = context => withContextAsync(context, async () => {
+			const before = mathenv.mode;
+			await delay();
+			return [before, mathenv.mode];
+		});
+		const [a, b] = await Promise.all([run(MathContext.HIGH_PRECISION), run(MathContext.SCIENTIFIC)]);
+		expect(a).toEqual([MathContext.HIGH_PRECISION, MathContext.HIGH_PRECISION]);
+		expect(b).toEqual([MathContext.SCIENTIFIC, MathContext.SCIENTIFIC]);
+		expect(mathenv.mode).toBe(MathContext.DEFAULT_CONTEXT);
+	});
+
+	it("Restores the settings on rejection", async function() {
+		await expect(withContextAsync(MathContext.HIGH_PRECISION, async () => {
+			throw new Error("failed");
+		})).rejects.toThrow("failed");
+		expect(mathenv.mode).toBe(MathContext.DEFAULT_CONTEXT);
+	});
+});
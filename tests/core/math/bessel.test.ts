@@ -0,0 +1,105 @@
+import { Component } from "../../../src/core/math/component";
+import { BigNum } from "../../../src/core/math/bignum";
+import { Constants } from "../../../src/core/math/constants";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { UndefinedValue } from "../../../src/core/errors";
+
+describe("Evaluates the Bessel functions", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const close = (a: BigNum, b: BigNum) => BigNum.abs(a.sub(b, context), context).equals(BigNum.real(0), check);
+
+	it("Agrees with the known values", function() {
+		const one = BigNum.real(1), zero = BigNum.real(0);
+		expect(close(BigNum.besselJ(one, zero, context), BigNum.real("0.7651976865579665514497175261026632209093"))).toBe(true);
+		expect(close(BigNum.besselY(one, zero, context), BigNum.real("0.0882569642156769579829267660235151628278"))).toBe(true);
+		expect(close(BigNum.besselI(one, zero, context), BigNum.real("1.2660658777520083355982446252147175376077"))).toBe(true);
+		expect(close(BigNum.besselK(one, zero, context), BigNum.real("0.4210244382407083333356273792126090361362"))).toBe(true);
+		expect(close(BigNum.besselJ(one, one, context), BigNum.real("0.4400505857449335159596822037189149131274"))).toBe(true);
+		expect(close(BigNum.besselY(one, one, context), BigNum.real("-0.7812128213002887165471500000479648205499"))).toBe(true);
+	});
+
+	it("Real orders", function() {
+		expect(close(BigNum.besselY(BigNum.real(5), BigNum.real("2.3"), context), BigNum.real("0.3355400806535539972658436794016097144173"))).toBe(true);
+		expect(close(BigNum.besselK(BigNum.real(3), BigNum.real("1.7"), context), BigNum.real("0.0526055040847254002854701485113611319826"))).toBe(true);
+		expect(close(BigNum.besselJ(BigNum.real(4), BigNum.real("-2.5"), context), BigNum.real("-0.0145679476685218007666785535204236327832"))).toBe(true);
+		expect(close(BigNum.besselY(BigNum.real(2), BigNum.real(-3), context), BigNum.real("1.1277837768404277860815839577317923832238"))).toBe(true);
+		expect(close(BigNum.besselY(BigNum.real(30), BigNum.real(40), context), BigNum.real("-33.3936689073303135383842739850052399054151"))).toBe(true);
+	});
+
+	it("Large arguments", function() {
+		const x = BigNum.real(100), nu = BigNum.real("3.2");
+		expect(close(BigNum.besselJ(x, nu, context), BigNum.real("0.0798045803624196300964838666227925764514"))).toBe(true);
+		expect(close(BigNum.besselY(x, nu, context), BigNum.real("-0.0007800633403169728543623137618933831708"))).toBe(true);
+		const y = BigNum.real(60), zero = BigNum.real(0);
+		expect(close(BigNum.besselI(y, zero, context), BigNum.real("5894077055609801168278817.4403339047379789830203162139496595651087"))).toBe(true);
+		expect(close(BigNum.besselK(y, zero, context), BigNum.real("0.0000000000000000000000000014138978405591"))).toBe(true);
+	});
+
+	it("Half integer orders", function() {
+		// J_{1/2}(x) = √(2 / πx) sin x and j_0(x) = sin x / x, y_0(x) = -cos x / x
+		const x = Component.create(1000);
+		const factor = Component.sqrt(Component.TWO.div(Constants.pi(context).mul(x, context), context), context);
+		const J = BigNum.besselJ(new BigNum(x), BigNum.real("0.5"), context);
+		expect(close(J, new BigNum(factor.mul(Component.sin(x, context), context)))).toBe(true);
+		const y = Component.create("2.5");
+		const j0 = BigNum.sphericalJ(new BigNum(y), BigNum.real(0), context);
+		const y0 = BigNum.sphericalY(new BigNum(y), BigNum.real(0), context);
+		expect(close(j0, new BigNum(Component.sin(y, context).div(y, context)))).toBe(true);
+		expect(close(y0, new BigNum(Component.cos(y, context).div(y, context).neg))).toBe(true);
+	});
+
+	it("Complex numbers", function() {
+		const z = BigNum.complex(1, 1);
+		expect(close(BigNum.besselJ(z, BigNum.real(0), context), BigNum.complex("0.9376084768060292765997381974258187169463", "-0.4965299476091221321664597212252381995018"))).toBe(true);
+		// J_ν(-x) = e^{ινπ} J_ν(x)
+		const J = BigNum.besselJ(BigNum.real(-1), BigNum.real("0.5"), context);
+		expect(close(J, BigNum.complex("0", "0.6713967071418030904163640120404670805456"))).toBe(true);
+		// 1 + i + j lies in the plane of 1 + i√2.
+		const root2 = Component.sqrt(Component.TWO, context);
+		for(const f of [BigNum.besselJ, BigNum.besselK]) {
+			const [re, im] = f(new BigNum(Component.ONE, root2), BigNum.real(1), context).components;
+			const b = im.div(root2, context);
+			expect(close(f(BigNum.hyper(1, 1, 1), BigNum.real(1), context), new BigNum(re, b, b))).toBe(true);
+		}
+	});
+
+	it("Satisfies the Wronskians", function() {
+		const ctx: MathContext = {
+			precision: 60,
+			rounding: RoundingMode.HALF_EVEN
+		};
+		for(const [z, nu] of [[BigNum.complex(-3, -2), "0.7"], [BigNum.complex("5", "-0.1"), "-1.5"], [BigNum.complex(0, 4), "2"]]) {
+			const n = BigNum.real(<string>nu), n1 = n.add(BigNum.real(1), ctx);
+			const x = <BigNum>z;
+			// J_{ν+1} Y_ν - J_ν Y_{ν+1} = 2 / πz
+			const JY = BigNum.besselJ(x, n1, ctx).mul(BigNum.besselY(x, n, ctx), ctx).sub(BigNum.besselJ(x, n, ctx).mul(BigNum.besselY(x, n1, ctx), ctx), ctx);
+			expect(close(JY, BigNum.real(2).div(new BigNum(Constants.pi(ctx)).mul(x, ctx), ctx))).toBe(true);
+			// I_ν K_{ν+1} + I_{ν+1} K_ν = 1 / z
+			const IK = BigNum.besselI(x, n, ctx).mul(BigNum.besselK(x, n1, ctx), ctx).add(BigNum.besselI(x, n1, ctx).mul(BigNum.besselK(x, n, ctx), ctx), ctx);
+			expect(close(IK, x.inv(ctx))).toBe(true);
+		}
+	});
+
+	it("At zero", function() {
+		const zero = BigNum.real(0);
+		expect(BigNum.besselJ(zero, zero, context).toString()).toBe("1");
+		expect(BigNum.besselI(zero, BigNum.real(2), context).toString()).toBe("0");
+		expect(BigNum.besselJ(zero, BigNum.real(-3), context).toString()).toBe("0");
+		expect(BigNum.sphericalJ(zero, zero, context).toString()).toBe("1");
+		expect(() => BigNum.besselJ(zero, BigNum.real("-0.5"))).toThrow(UndefinedValue);
+		expect(() => BigNum.besselY(zero, zero)).toThrow(UndefinedValue);
+		expect(() => BigNum.besselK(zero, BigNum.real(1))).toThrow(UndefinedValue);
+		expect(() => BigNum.sphericalY(zero, zero)).toThrow(UndefinedValue);
+	});
+
+	it("Throws for orders that are not real", function() {
+		expect(() => BigNum.besselJ(BigNum.real(1), BigNum.complex(1, 1))).toThrow(UndefinedValue);
+	});
+});
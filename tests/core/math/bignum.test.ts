@@ -1,5 +1,6 @@
 import { BigNum } from "../../../src/core/math/bignum";
 import { Component } from "../../../src/core/math/component";
+import { Constants } from "../../../src/core/math/constants";
 import { mathenv } from "../../../src/core/env";
 import { MathContext, RoundingMode } from "../../../src/core/math/context";
 import { DivisionByZero, UndefinedValue } from "../../../src/core/errors";
@@ -694,6 +695,10 @@ describe("Divides", function() {
 		});
 	});
 
+	it("a real number by a complex number", function() {
+		expect(BigNum.real("2").div(BigNum.complex("1", "1"))).toEqual(BigNum.complex("1", "-1"));
+	});
+
 	describe("for 6 reals", function() {
 		const a = BigNum.hyper("3", "3", "2", "1", "1", "1");
 		it("right division", function() {
@@ -792,6 +797,166 @@ describe("Logarithm", function() {
 			expect(() => BigNum.ln(BigNum.real(0))).toThrow(UndefinedValue);
 		});
 	});
+
+	describe("ln with branches", function() {
+		const ctx: MathContext = {
+			precision: 30,
+			rounding: RoundingMode.HALF_EVEN
+		};
+		const pi = Constants.pi(MathContext.HIGH_PRECISION);
+
+		test("the principal branch", function() {
+			const x = BigNum.complex(-3, 2);
+			expect(BigNum.ln(x, {branch: 0}, ctx)).toEqual(BigNum.ln(x, ctx));
+			expect(BigNum.ln(x, {branch: 0})).toEqual(BigNum.ln(x));
+		});
+
+		test("the options after the context", function() {
+			const x = BigNum.real(-1);
+			expect(BigNum.ln(x, ctx, {branch: 1})).toEqual(BigNum.ln(x, {branch: 1}, ctx));
+			expect(BigNum.ln(x, ctx, {branch: 1})).not.toEqual(BigNum.ln(x, ctx));
+		});
+
+		test("for complex numbers", function() {
+			const ln = BigNum.ln(BigNum.real(-1), {branch: 1}, ctx);
+			expect(ln.equals(new BigNum(Component.ZERO, pi.mul(Component.create(3), ctx)), ctx)).toBe(true);
+			const lnRoot2 = Component.ln(Component.TWO.pow(Component.create("0.5")));
+			const theta = pi.mul(Component.create("0.25")).sub(pi.mul(Component.TWO));
+			expect(BigNum.ln(BigNum.complex(1, 1), {branch: -1}).equals(new BigNum(lnRoot2, theta))).toBe(true);
+		});
+
+		test("for hyper complex numbers", function() {
+			const ln = BigNum.ln(BigNum.hyper(0, 0, 2), {branch: 1}, ctx);
+			const res = new BigNum(Constants.ln2(ctx), Component.ZERO, pi.mul(Component.create("2.5"), ctx));
+			expect(ln.equals(res, ctx)).toBe(true);
+			expect(BigNum.exp(ln, ctx).equals(BigNum.hyper(0, 0, 2, 0), ctx)).toBe(true);
+		});
+
+		it("throws appropriate errors", function() {
+			expect(() => BigNum.ln(BigNum.real(2), {branch: 0.5})).toThrow(TypeError);
+			expect(() => BigNum.ln(BigNum.real(0), {branch: 1})).toThrow(UndefinedValue);
+			expect(() => BigNum.ln(BigNum.real(2), ctx, 1)).toThrow(TypeError);
+		});
+	});
+});
+
+describe("Argument", function() {
+	const ctx: MathContext = {
+		precision: 30,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const pi = Constants.pi(MathContext.HIGH_PRECISION);
+
+	it("for reals", function() {
+		expect(BigNum.arg(BigNum.real(2))).toEqual(BigNum.real(0));
+		expect(BigNum.arg(BigNum.real(-2), ctx).equals(new BigNum(pi), ctx)).toBe(true);
+	});
+
+	it("for complex numbers", function() {
+		const quarter = pi.mul(Component.create("0.25"), ctx);
+		expect(BigNum.arg(BigNum.complex(1, 1), ctx).equals(new BigNum(quarter), ctx)).toBe(true);
+		expect(BigNum.arg(BigNum.complex(-1, -1), ctx).equals(new BigNum(quarter.mul(Component.create(-3), ctx)), ctx)).toBe(true);
+	});
+
+	it("for hyper complex numbers", function() {
+		const x = BigNum.hyper(-1, 0, -1, 0);
+		expect(BigNum.arg(x, ctx).equals(new BigNum(pi.mul(Component.create("0.75"), ctx)), ctx)).toBe(true);
+	});
+
+	it("throws appropriate errors", function() {
+		expect(() => BigNum.arg(BigNum.real(0))).toThrow(UndefinedValue);
+	});
+});
+
+describe("Polar form", function() {
+	const ctx: MathContext = {
+		precision: 30,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const close = (a: BigNum, b: BigNum) => BigNum.abs(a.sub(b, ctx), ctx).equals(BigNum.real(0), mathenv.mode);
+
+	it("converts to polar form", function() {
+		const polar = BigNum.complex(3, -4).toPolar(ctx);
+		expect(polar.r).toEqual(BigNum.real(5));
+		expect(polar.theta).toEqual(BigNum.arg(BigNum.complex(3, -4), ctx));
+		expect(polar.axis).toEqual(BigNum.complex(0, 1));
+		const q = BigNum.hyper(1, 2, -2, 1).toPolar(ctx);
+		expect(q.r.equals(BigNum.real(10).pow(BigNum.real("0.5"), ctx), ctx)).toBe(true);
+		expect(close(q.axis, BigNum.hyper(0, 2, -2, 1).div(BigNum.real(3), ctx))).toBe(true);
+		expect(BigNum.real(0).toPolar()).toEqual({r: BigNum.real(0), theta: BigNum.real(0), axis: BigNum.complex(0, 1)});
+	});
+
+	it("converts from polar form", function() {
+		const pi = Constants.pi(MathContext.HIGH_PRECISION);
+		const x = BigNum.polar(BigNum.real(2), new BigNum(pi.div(Component.create(6), ctx)), ctx);
+		expect(close(x, BigNum.complex(Math.sqrt(3).toString(), "1"))).toBe(true);
+		expect(BigNum.polar(BigNum.real(2), new BigNum(pi), ctx)).toEqual(BigNum.real(-2));
+		expect(() => BigNum.polar(BigNum.complex(1, 1), BigNum.real(1))).toThrow(UndefinedValue);
+	});
+
+	it("round trips", function() {
+		for(const x of [BigNum.complex(3, -4), BigNum.real(-2), BigNum.hyper(1, 2, -2, 1), BigNum.hyper(-1, 0, 0, 0, 0, 3)]) {
+			const {r, theta, axis} = x.toPolar(ctx);
+			expect(close(BigNum.polar(r, theta, axis, ctx), x)).toBe(true);
+			expect(close(r.mul(BigNum.fromAxisAngle(axis, theta, ctx), ctx), x)).toBe(true);
+		}
+	});
+
+	it("from axis and angle", function() {
+		const q = BigNum.fromAxisAngle(BigNum.hyper(0, 0, 0, 5), BigNum.real("0.5"), ctx);
+		expect(q).toEqual(new BigNum(Component.cos(Component.create("0.5"), ctx), Component.ZERO, Component.ZERO, Component.sin(Component.create("0.5"), ctx)));
+		expect(BigNum.abs(q, ctx)).toEqual(BigNum.real(1));
+		expect(() => BigNum.fromAxisAngle(BigNum.real(1), BigNum.real(1))).toThrow(UndefinedValue);
+	});
+});
+
+describe("Roots", function() {
+	const ctx: MathContext = {
+		precision: 30,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("of unity", function() {
+		const roots = BigNum.nthRoots(BigNum.real(1), 4, ctx);
+		const units = [BigNum.real(1), BigNum.complex(0, 1), BigNum.real(-1), BigNum.complex(0, -1)];
+		expect(roots).toEqual(units);
+	});
+
+	it("for complex numbers", function() {
+		const x = BigNum.complex(-8, 3);
+		const roots = BigNum.nthRoots(x, 5, ctx);
+		expect(roots.length).toBe(5);
+		expect(roots[0].equals(x.pow(BigNum.real("0.2"), ctx), ctx)).toBe(true);
+		for(const r of roots) {
+			const power = [1, 2, 3, 4].reduce(acc => acc.mul(r, ctx), r);
+			expect(BigNum.abs(power.sub(x, ctx), ctx).equals(BigNum.real(0), mathenv.mode)).toBe(true);
+		}
+		expect(BigNum.nthRoots(BigNum.real(-4), 2, ctx)).toEqual([BigNum.complex(0, 2), BigNum.complex(0, -2)]);
+	});
+
+	it("for hyper complex numbers", function() {
+		const x = BigNum.hyper(1, 1, 1, 1);
+		for(const r of BigNum.nthRoots(x, 3, ctx)) {
+			const cube = r.mul(r, ctx).mul(r, ctx);
+			expect(BigNum.abs(cube.sub(x, ctx), ctx).equals(BigNum.real(0), mathenv.mode)).toBe(true);
+		}
+	});
+
+	it("of small numbers", function() {
+		const context: MathContext = {precision: 25, rounding: RoundingMode.HALF_UP};
+		expect(BigNum.nthRoots(BigNum.real("1e-40"), 2, context)).toEqual([BigNum.real("1e-20"), BigNum.real("-1e-20")]);
+		const x = BigNum.complex("0.00000000000000000000000000000000000000003", "-0.00000000000000000000000000000000000000004");
+		expect(BigNum.nthRoots(x, 2, context)[0].toString()).toBe("0.0000000000000000000063246 - 0.0000000000000000000031623i");
+	});
+
+	it("of zero", function() {
+		expect(BigNum.nthRoots(BigNum.real(0), 3)).toEqual([BigNum.real(0), BigNum.real(0), BigNum.real(0)]);
+	});
+
+	it("throws appropriate errors", function() {
+		expect(() => BigNum.nthRoots(BigNum.real(2), 0)).toThrow(TypeError);
+		expect(() => BigNum.nthRoots(BigNum.real(2), 2.5)).toThrow(TypeError);
+	});
 });
 
 describe("Power", function() {
@@ -0,0 +1,39 @@
+import { benchmark } from "../../../scripts/benchmark";
+import { Component } from "../../../src/core/math/component";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+
+describe("Performs at high precision", function() {
+	const context: MathContext = {
+		precision: 250,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const a = Component.ONE.div(Component.SEVEN, context);
+	const b = Component.TWO.div(Component.THREE, context);
+	const x = Component.create("1.2345");
+
+	benchmark("Multiplication", function() {
+		for(let i = 0; i < 1000; i++)
+			a.mul(b, context);
+	}, 250);
+
+	benchmark("Division", function() {
+		for(let i = 0; i < 1000; i++)
+			a.div(b, context);
+	}, 250);
+
+	benchmark("Exponential", function() {
+		Component.exp(x, context);
+	}, 100);
+
+	benchmark("Logarithm", function() {
+		Component.ln(x, context);
+	}, 100);
+
+	benchmark("Sine", function() {
+		Component.sin(x, context);
+	}, 100);
+
+	benchmark("Arc tangent", function() {
+		Component.atan(x, context);
+	}, 100);
+});
@@ -1,5 +1,5 @@
 import { Component } from "../../../src/core/math/component";
-import { IndeterminateForm, DivisionByZero, UndefinedValue, IllegalNumberFormat } from "../../../src/core/errors";
+import { IndeterminateForm, DivisionByZero, UndefinedValue, IllegalNumberFormat, NoConvergence } from "../../../src/core/errors";
 import { RoundingMode, MathContext } from "../../../src/core/math/context";
 import { mathenv } from "../../../src/core/env";
 
@@ -204,6 +204,12 @@ describe("Mixed values", function() {
 			precision: 2,
 			rounding: RoundingMode.HALF_UP
 		})).toEqual(Component.create("0"));
+		const a2 = Component.create("0.123456");
+		const b2 = Component.create("0.5");
+		expect(a2.div(b2, {
+			precision: 2,
+			rounding: RoundingMode.HALF_UP
+		})).toEqual(Component.create("0.25"));
 	});
 });
 
@@ -327,6 +333,17 @@ describe("Rounds", function() {
 				expect(() => Component.round(n, context)).toThrow();
 		});
 	});
+
+	it("Significant digits", function() {
+		const ctx: MathContext = {
+			precision: 3,
+			rounding: RoundingMode.HALF_UP,
+			precisionType: "significant"
+		};
+		const numbers = ["6.67430e-11", "-0.0009996", "123456", "5.0049", "0"].map(s => Component.create(s));
+		const rounded = ["6.67e-11", "-0.001", "123000", "5.00", "0"].map(s => Component.create(s));
+		numbers.forEach((n, i) => expect(Component.round(n, ctx)).toEqual(rounded[i]));
+	});
 });
 
 describe("Comparison", function() {
@@ -892,4 +909,33 @@ describe("Inverse hyperbolic trigonometry", function() {
 			}
 		});
 	});
-});
\ No newline at end of file
+});
+
+describe("Significant digits", function() {
+	const context: MathContext = {
+		precision: 10,
+		rounding: RoundingMode.HALF_EVEN,
+		precisionType: "significant"
+	};
+
+	it("Keeps the relative precision of arithmetic", function() {
+		const G = Component.create("6.6743e-11"), M = Component.create("5.972e24");
+		expect(G.mul(M, context)).toEqual(Component.create("398589196000000"));
+		expect(Component.ONE.div(Component.create("3e-15"), context)).toEqual(Component.create("333333333300000"));
+		expect(Component.ONE.div(G, context)).toEqual(Component.create("14982844640"));
+	});
+
+	it("Evaluates functions of small and large numbers", function() {
+		expect(Component.sin(Component.create("1e-30"), context)).toEqual(Component.create("1e-30"));
+		expect(Component.exp(Component.create("-50"), context)).toEqual(Component.create("1.928749848e-22"));
+		expect(Component.exp(Component.create("100"), context)).toEqual(Component.create("2.688117142e43"));
+		expect(Component.sqrt(Component.create("2e-40"), context)).toEqual(Component.create("1.414213562e-20"));
+		expect(Component.ln(Component.create("1.000000000000000000001"), context)).toEqual(Component.create("1e-21"));
+		expect(Component.sinh(Component.ZERO, context)).toEqual(Component.ZERO);
+	});
+
+	it("Keeps the leading zeroes of tiny results", function() {
+		expect(Component.exp(Component.create("-3000"), context)).toEqual(Component.create("1.307839019e-1303"));
+		expect(() => Component.exp(Component.create("-1e25"), context)).toThrow(NoConvergence);
+	});
+});
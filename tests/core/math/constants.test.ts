@@ -0,0 +1,94 @@
+import { Constants } from "../../../src/core/math/constants";
+import { Component } from "../../../src/core/math/component";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { mathenv, withContext } from "../../../src/core/env";
+import { BigNum } from "../../../src/core/math/bignum";
+import { Scalar, e, pi, tau } from "../../../src/scalar";
+import { diff } from "../../../src/calculus/derivative";
+import { compile } from "../../../src/compile";
+import { log } from "../../../src/core/math/functions";
+
+describe("Computes constants", function() {
+	const context: MathContext = {
+		precision: 100,
+		rounding: RoundingMode.DOWN
+	};
+
+	it("Agrees with the known values", function() {
+		expect(Constants.pi(context)).toEqual(Component.round(Component.PI, context));
+		expect(Constants.e(context)).toEqual(Component.round(Component.E, context));
+		expect(Constants.ln2(context)).toEqual(Component.round(Component.ln2, context));
+		expect(Constants.ln10(context)).toEqual(Component.round(Component.ln10, context));
+		const gamma = "0.5772156649015328606065120900824024310421593359399235988057672348848677267776646709369470632917467495";
+		expect(Constants.eulerGamma(context)).toEqual(Component.create(gamma));
+	});
+
+	it("Rounds according to the default context", function() {
+		expect(Constants.pi()).toEqual(Component.round(Component.PI, mathenv.mode));
+		expect(Constants.e()).toEqual(Component.round(Component.E, mathenv.mode));
+	});
+
+	it("Goes beyond 100 decimal places", function() {
+		const ctx: MathContext = {
+			precision: 1000,
+			rounding: RoundingMode.DOWN
+		};
+		const pi = Constants.pi(ctx).toString();
+		expect(pi.length).toBe(1002);
+		expect(pi.substring(992)).toBe("2164201989");
+	});
+});
+
+describe("Evaluates functions beyond 100 decimal places", function() {
+	const context: MathContext = {
+		precision: 300,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 295,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Exponential and logarithm", function() {
+		expect(Component.exp(Constants.ln2(context), context).equals(Component.TWO, check)).toBe(true);
+		expect(Component.exp(Component.ONE, context).equals(Constants.e(context), check)).toBe(true);
+		expect(Component.ln(Component.create("10"), context).equals(Constants.ln10(context), check)).toBe(true);
+	});
+
+	it("Trigonometry", function() {
+		const pi = Constants.pi(context);
+		expect(Component.sin(pi.div(Component.SIX, context), context).equals(Component.create("0.5"), check)).toBe(true);
+		expect(Component.atan(Component.ONE, context).equals(pi.div(Component.FOUR, context), check)).toBe(true);
+	});
+});
+
+describe("Evaluates the scalar constants at any precision", function() {
+	const context: MathContext = {
+		precision: 150,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Reads the constants with the settings in effect", function() {
+		withContext(context, () => {
+			expect(pi.value.equals(new BigNum(Constants.pi(context)), context)).toBe(true);
+			expect(e.value.equals(new BigNum(Constants.e(context)), context)).toBe(true);
+			const twoPi = Constants.pi({precision: 160, rounding: RoundingMode.HALF_EVEN}).mul(Component.TWO);
+			expect(tau.value.equals(new BigNum(Component.round(twoPi, context)), context)).toBe(true);
+		});
+		expect(pi.value.equals(new BigNum(Constants.pi(mathenv.mode)))).toBe(true);
+	});
+
+	it("Compiles the constants with the given settings", function() {
+		const x = Scalar.variable("x");
+		const f = compile(x.mul(pi), [x], {backend: "bignum", context});
+		expect(f(BigNum.real(1)).equals(new BigNum(Constants.pi(context)), context)).toBe(true);
+	});
+
+	it("Differentiates logarithms to base 10", function() {
+		const x = Scalar.variable("x");
+		const d = diff(log(x), x);
+		const res = withContext(context, () => <Scalar.Constant>(<Scalar.Expression>d).at(new Map([[x, Scalar.constant(1)]])));
+		const expected = BigNum.real(1).div(new BigNum(Constants.ln10(context)), context);
+		expect(res.value.equals(expected, {precision: 145, rounding: RoundingMode.HALF_EVEN})).toBe(true);
+	});
+});
@@ -0,0 +1,96 @@
+import { Component } from "../../../src/core/math/component";
+import { BigNum } from "../../../src/core/math/bignum";
+import { Constants } from "../../../src/core/math/constants";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { UndefinedValue } from "../../../src/core/errors";
+
+describe("Evaluates the error functions", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Agrees with the known values", function() {
+		expect(Component.erf(Component.create("0.5"), context).equals(Component.create("0.5204998778130465376827466538919645287365"), check)).toBe(true);
+		expect(Component.erf(Component.create("-2"), context).equals(Component.create("-0.9953222650189527341620692563672529286109"), check)).toBe(true);
+		expect(Component.erfc(Component.create("3"), context).equals(Component.create("0.0000220904969985854413727761295823203798"), check)).toBe(true);
+		expect(Component.erf(Component.ZERO, context).toString()).toBe("0.0");
+	});
+
+	it("Saturates for large arguments", function() {
+		expect(Component.erf(Component.create("12"), context).toString()).toBe("1.0");
+		expect(Component.erfc(Component.create("-12"), context).toString()).toBe("2.0");
+		expect(Component.erfc(Component.create("12"), context).toString()).toBe("0.0");
+	});
+
+	it("Inverts the error function", function() {
+		expect(Component.erfinv(Component.create("0.5"), context).equals(Component.create("0.4769362762044698733814183536431305598090"), check)).toBe(true);
+		const y = Component.create("-0.999999999999999999999999999999");
+		const x = Component.erfinv(y, context);
+		expect(Component.erf(x, context).equals(y, check)).toBe(true);
+		const d = Component.create("1e-100");
+		const z = Component.erfinv(Component.ONE.sub(d, {precision: 100, rounding: RoundingMode.HALF_EVEN}), context);
+		expect(Component.erfc(z, {precision: 140, rounding: RoundingMode.HALF_EVEN}).equals(d, {precision: 135, rounding: RoundingMode.HALF_EVEN})).toBe(true);
+	});
+
+	it("Throws outside the domain of the inverse", function() {
+		expect(() => Component.erfinv(Component.ONE)).toThrow(UndefinedValue);
+		expect(() => Component.erfinv(Component.create("-1.5"))).toThrow(UndefinedValue);
+		expect(() => BigNum.erfinv(BigNum.complex(0, 1))).toThrow(UndefinedValue);
+	});
+
+	it("Complex numbers", function() {
+		expect(BigNum.erf(BigNum.complex(0, 1), context).equals(BigNum.complex("0", "1.6504257587975428760253377295613624438957"), check)).toBe(true);
+		const res = BigNum.erf(BigNum.complex(1, 1), context);
+		const conj = BigNum.erf(BigNum.complex(1, -1), context);
+		expect(res.add(BigNum.erfc(BigNum.complex(1, 1), context), context).equals(BigNum.real(1), check)).toBe(true);
+		expect(res.add(conj, context).equals(BigNum.real("2.6323025633958952897605421604873407380554"), check)).toBe(true);
+	});
+});
+
+describe("Evaluates the incomplete gamma functions", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Agrees with the closed forms", function() {
+		// γ(2, 1) = 1 - 2/e
+		expect(Component.lowergamma(Component.ONE, Component.TWO, context).equals(Component.create("0.2642411176571153568089524596770782651084"), check)).toBe(true);
+		// Γ(1/2, x) = √π erfc(√x)
+		const x = Component.FIVE, s = Component.create("0.5");
+		const sqrtPi = Component.sqrt(Constants.pi(context), context);
+		const erfc = Component.erfc(Component.sqrt(x, context), context);
+		expect(Component.uppergamma(x, s, context).equals(sqrtPi.mul(erfc, context), check)).toBe(true);
+		expect(Component.lowergamma(x, s, context).equals(Component.create("1.7696792476451032179786766476138848533855"), check)).toBe(true);
+	});
+
+	it("Sums up to the gamma function", function() {
+		for(const [x, s] of [["0.3", "4.5"], ["30", "20"], ["2", "-1.5"], ["0.3", "-0.5"]]) {
+			const a = Component.create(x), b = Component.create(s);
+			const sum = Component.lowergamma(a, b, context).add(Component.uppergamma(a, b, context), context);
+			expect(sum.equals(Component.gamma(b, context), check)).toBe(true);
+		}
+	});
+
+	it("The upper function at the poles", function() {
+		// Γ(0, x) is the exponential integral E₁(x).
+		expect(Component.uppergamma(Component.TWO, Component.ZERO, context).equals(Component.create("0.0489005107080611195672398352280495223145"), check)).toBe(true);
+		expect(() => Component.lowergamma(Component.TWO, Component.ZERO)).toThrow(UndefinedValue);
+	});
+
+	it("Throws for negative arguments", function() {
+		expect(() => Component.lowergamma(Component.ONE.neg, Component.TWO)).toThrow(UndefinedValue);
+		expect(() => Component.uppergamma(Component.ONE.neg, Component.TWO)).toThrow(UndefinedValue);
+		expect(() => Component.uppergamma(Component.ZERO, Component.ONE.neg)).toThrow(UndefinedValue);
+		expect(Component.uppergamma(Component.ZERO, Component.THREE, context).toString()).toBe("2.0");
+	});
+});
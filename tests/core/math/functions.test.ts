@@ -1,6 +1,8 @@
 import * as func from "../../../src/core/math/functions";
 // import { Scalar } from "../../../src/scalar";
 import { Component } from "../../../src/core/math/component";
+import { BigNum } from "../../../src/core/math/bignum";
+import { UndefinedValue } from "../../../src/core/errors";
 
 describe("Checks mathematical functions", function() {
 	describe("neg", function() {
@@ -415,6 +417,119 @@ describe("Checks mathematical functions", function() {
 		// 	expect(func.floor(x)).toBeInstanceOf(Scalar.Expression);
 		// });
 	});
+
+	describe("gamma", function() {
+		it("Accessor", function() {
+			expect(func["gamma"]).toBe(func.gamma);
+			expect(func["lgamma"]).toBe(func.lgamma);
+			expect(func["factorial"]).toBe(func.factorial);
+		});
+
+		it("Number", function() {
+			for(let i = 1; i <= 10; i++)
+				expect(func.gamma(i + 1)).toBe(i * func.gamma(i));
+			expect(func.gamma(0.5)).toBeCloseTo(Math.sqrt(Math.PI), 12);
+			expect(func.gamma(-1.5)).toBeCloseTo(4 * Math.sqrt(Math.PI) / 3, 12);
+			expect(func.lgamma(100)).toBeCloseTo(359.1342053695754, 10);
+			expect(func.factorial(5)).toBe(120);
+			expect(() => func.gamma(-2)).toThrow(UndefinedValue);
+			expect(() => func.factorial(-1)).toThrow(UndefinedValue);
+		});
+
+		it("Numerical", function() {
+			expect(func.gamma(Component.create("5")).toString()).toBe("24.0");
+			expect(func.factorial(Component.create("6")).toString()).toBe("720.0");
+		});
+	});
+
+	describe("beta and binomial", function() {
+		it("Accessor", function() {
+			expect(func["beta"]).toBe(func.beta);
+			expect(func["binomial"]).toBe(func.binomial);
+		});
+
+		it("Number", function() {
+			expect(func.beta(2, 3)).toBeCloseTo(1 / 12, 12);
+			expect(func.beta(0.5, -0.5)).toBe(0);
+			expect(func.binomial(5, 2)).toBe(10);
+			expect(func.binomial(-3, 2)).toBe(6);
+			expect(func.binomial(3, 5)).toBe(0);
+			expect(func.binomial(2.5, 2)).toBeCloseTo(1.875, 12);
+			expect(() => func.beta(0, 1)).toThrow(UndefinedValue);
+		});
+
+		it("Numerical", function() {
+			expect(func.binomial(Component.create("10"), Component.create("3")).toString()).toBe("120.0");
+		});
+	});
+
+	describe("erf", function() {
+		it("Accessor", function() {
+			expect(func["erf"]).toBe(func.erf);
+			expect(func["erfc"]).toBe(func.erfc);
+			expect(func["erfinv"]).toBe(func.erfinv);
+		});
+
+		it("Number", function() {
+			expect(func.erf(0.5)).toBeCloseTo(0.5204998778130465, 15);
+			expect(func.erf(-3)).toBeCloseTo(-0.9999779095030014, 15);
+			expect(func.erfc(3) / 2.209049699858544e-5).toBeCloseTo(1, 13);
+			expect(func.erfc(-1)).toBeCloseTo(1.8427007929497148, 15);
+			for(const y of [-0.9, 0.1, 0.5, 0.999999])
+				expect(func.erf(func.erfinv(y))).toBeCloseTo(y, 14);
+			expect(() => func.erfinv(1)).toThrow(UndefinedValue);
+		});
+
+		it("Numerical", function() {
+			expect(func.erf(Component.create("0.5")).toString()).toBe("0.52049987781304654");
+		});
+	});
+
+	describe("Incomplete gamma", function() {
+		it("Accessor", function() {
+			expect(func["lowergamma"]).toBe(func.lowergamma);
+			expect(func["uppergamma"]).toBe(func.uppergamma);
+		});
+
+		it("Number", function() {
+			expect(func.lowergamma(1, 2)).toBeCloseTo(1 - 2 / Math.E, 15);
+			expect(func.uppergamma(1, 2)).toBeCloseTo(2 / Math.E, 15);
+			expect(func.uppergamma(5, 0.5)).toBeCloseTo(Math.sqrt(Math.PI) * func.erfc(Math.sqrt(5)), 15);
+			expect(func.uppergamma(2, 0)).toBeCloseTo(0.04890051070806112, 15);
+			expect(() => func.lowergamma(2, 0)).toThrow(UndefinedValue);
+			expect(() => func.uppergamma(-1, 2)).toThrow(UndefinedValue);
+		});
+
+		it("Numerical", function() {
+			expect(func.lowergamma(Component.create("1"), Component.create("2")).toString()).toBe("0.26424111765711536");
+		});
+	});
+
+	describe("Bessel", function() {
+		it("Accessor", function() {
+			expect(func["besselJ"]).toBe(func.besselJ);
+			expect(func["besselY"]).toBe(func.besselY);
+			expect(func["besselI"]).toBe(func.besselI);
+			expect(func["besselK"]).toBe(func.besselK);
+			expect(func["sphericalJ"]).toBe(func.sphericalJ);
+			expect(func["sphericalY"]).toBe(func.sphericalY);
+		});
+
+		it("Number", function() {
+			expect(func.besselJ(2.5, 1)).toBeCloseTo(0.49709410246427405, 15);
+			expect(func.besselK(2.5, 1)).toBeCloseTo(0.07389081634774707, 15);
+			expect(func.besselI(1, 0)).toBeCloseTo(1.2660658777520084, 15);
+			expect(func.besselY(1, 0)).toBeCloseTo(0.08825696421567697, 15);
+			expect(func.sphericalJ(3, 0)).toBeCloseTo(Math.sin(3) / 3, 15);
+			expect(func.sphericalY(3, 0)).toBeCloseTo(-Math.cos(3) / 3, 15);
+			expect(() => func.besselY(-1, 0)).toThrow(UndefinedValue);
+		});
+
+		it("Numerical", function() {
+			expect(func.besselJ(BigNum.real(1), BigNum.real(0)).toString()).toBe("0.76519768655796656");
+			expect(func.besselJ(BigNum.complex(1, 1), BigNum.real(0)).toString()).toBe("0.93760847680602928 - 0.49652994760912214i");
+		});
+	});
 });
 
 describe("Print", function() {
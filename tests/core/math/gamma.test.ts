@@ -0,0 +1,92 @@
+import { Component } from "../../../src/core/math/component";
+import { BigNum } from "../../../src/core/math/bignum";
+import { Constants } from "../../../src/core/math/constants";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { UndefinedValue } from "../../../src/core/errors";
+
+describe("Evaluates the gamma function", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Positive integers exactly", function() {
+		expect(Component.gamma(Component.create("5"), context).toString()).toBe("24.0");
+		expect(Component.factorial(Component.create("25"), context).toString()).toBe("15511210043330985984000000.0");
+		expect(Component.factorial(Component.ZERO, context).toString()).toBe("1.0");
+	});
+
+	it("Half integers", function() {
+		const sqrtPi = Component.sqrt(Constants.pi(context), context);
+		expect(Component.gamma(Component.create("0.5"), context).equals(sqrtPi, check)).toBe(true);
+		const expected = sqrtPi.mul(Component.create("-2"), context);
+		expect(Component.gamma(Component.create("-0.5"), context).equals(expected, check)).toBe(true);
+		expect(Component.factorial(Component.create("0.5"), context).equals(sqrtPi.div(Component.TWO, context), check)).toBe(true);
+	});
+
+	it("Agrees with the known values", function() {
+		expect(Component.gamma(Component.create("0.3"), context).equals(Component.create("2.9915689876875906283125165159049177911128"), check)).toBe(true);
+		expect(Component.lgamma(Component.create("100"), context).equals(Component.create("359.1342053695753987760440104602869096126"), check)).toBe(true);
+		expect(Component.lgamma(Component.ONE, context).toString()).toBe("0.0");
+	});
+
+	it("Satisfies the recurrence near the poles", function() {
+		const x = Component.create("-2.0000000001");
+		const g = Component.gamma(x, context);
+		const g1 = Component.gamma(x.add(Component.ONE, context), context);
+		expect(g.mul(x, context).equals(g1, check)).toBe(true);
+	});
+
+	it("Throws at the poles", function() {
+		expect(() => Component.gamma(Component.ZERO)).toThrow(UndefinedValue);
+		expect(() => Component.gamma(Component.create("-3"))).toThrow(UndefinedValue);
+		expect(() => Component.lgamma(Component.create("-1"))).toThrow(UndefinedValue);
+		expect(() => Component.factorial(Component.create("-1"))).toThrow(UndefinedValue);
+	});
+
+	it("Complex numbers", function() {
+		const res = BigNum.gamma(BigNum.complex(0, 1), context);
+		expect(res.equals(BigNum.complex("-0.1549498283018106851249551304838866051959", "-0.4980156681183560427136911174621980919530"), check)).toBe(true);
+		// |Γ(i)|² = π / sinh π
+		const pi = Constants.pi(context);
+		const expected = pi.div(Component.sinh(pi, context), context);
+		expect(BigNum.absSq(res, context).components[0].equals(expected, check)).toBe(true);
+		const hyper = BigNum.gamma(BigNum.hyper(0, 0, 1), context);
+		expect(hyper.equals(BigNum.hyper("-0.1549498283018106851249551304838866051959", "0", "-0.4980156681183560427136911174621980919530"), check)).toBe(true);
+		const z = BigNum.complex(-2.5, 1);
+		const w = BigNum.exp(BigNum.lgamma(z, context), context);
+		expect(w.equals(BigNum.gamma(z, context), check)).toBe(true);
+	});
+});
+
+describe("Evaluates the binomial coefficients and the beta function", function() {
+	const context: MathContext = {
+		precision: 30,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Integers", function() {
+		expect(Component.binomial(Component.create("5"), Component.create("2"), context).toString()).toBe("10.0");
+		expect(Component.binomial(Component.create("-3"), Component.create("2"), context).toString()).toBe("6.0");
+		expect(Component.binomial(Component.create("3"), Component.create("5"), context).toString()).toBe("0.0");
+		expect(Component.binomial(Component.create("3"), Component.create("-1"), context).toString()).toBe("0.0");
+	});
+
+	it("Numbers that are not integers", function() {
+		expect(Component.binomial(Component.create("2.5"), Component.create("2"), context).toString()).toBe("1.875");
+		expect(Component.binomial(Component.create("1.5"), Component.create("3.5"), context).toString()).toBe("0.0");
+		expect(() => Component.binomial(Component.create("-2"), Component.create("0.5"), context)).toThrow(UndefinedValue);
+	});
+
+	it("Beta function", function() {
+		expect(Component.beta(Component.create("2"), Component.create("3"), context).equals(Component.ONE.div(Component.create("12"), context), context)).toBe(true);
+		expect(Component.beta(Component.create("0.5"), Component.create("-0.5"), context).toString()).toBe("0.0");
+		expect(() => Component.beta(Component.ZERO, Component.ONE, context)).toThrow(UndefinedValue);
+		const res = BigNum.beta(BigNum.complex(1, 1), BigNum.real(2), context);
+		expect(res.equals(BigNum.complex("0.1", "-0.3"), context)).toBe(true);
+	});
+});
@@ -1,4 +1,8 @@
-import { levicivita, kronecker } from "../../../src/core/math/numerical";
+import { levicivita, kronecker, newton_raphson } from "../../../src/core/math/numerical";
+import { Component } from "../../../src/core/math/component";
+import { BigNum } from "../../../src/core/math/bignum";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { NoConvergence } from "../../../src/core/errors";
 
 describe("Levi-Civita symbol", function() {
     it("2 dimensions", function() {
@@ -41,4 +45,34 @@ describe("Kronecker delta symbol", function() {
     it("3 dimensions", function() {
         
     });
-});
\ No newline at end of file
+});
+
+describe("Newton-Raphson method", function() {
+    const context: MathContext = {
+        precision: 30,
+        rounding: RoundingMode.HALF_EVEN
+    };
+
+    it("Finds the roots with the first derivative", function() {
+        const two = Component.TWO;
+        const root = newton_raphson<Component>((x, ctx) => [x.mul(x, ctx).sub(two, ctx), x.add(x, ctx)], Component.ONE, context);
+        expect(Component.round(root, context).equals(Component.sqrt(two, context), context)).toBe(true);
+    });
+
+    it("Uses Halley's method with the second derivative", function() {
+        // The cube roots of unity, from a complex trial solution.
+        const one = BigNum.real(1);
+        const root = newton_raphson<BigNum>((x, ctx) => {
+            const x2 = x.mul(x, ctx);
+            return [x2.mul(x, ctx).sub(one, ctx), x2.mul(BigNum.real(3), ctx), x.mul(BigNum.real(6), ctx)];
+        }, BigNum.complex(-1, 1), context);
+        const expected = BigNum.complex("-0.5", "0.866025403784438646763723170753");
+        expect(BigNum.round(root, context).equals(expected, context)).toBe(true);
+    });
+
+    it("Throws when the iterations do not settle", function() {
+        // x² + 1 has no real roots to approach.
+        const f = (x: Component, ctx: MathContext) => [x.mul(x, ctx).add(Component.ONE, ctx), x.add(x, ctx)];
+        expect(() => newton_raphson<Component>(f, Component.create("0.5"), context)).toThrow(NoConvergence);
+    });
+});
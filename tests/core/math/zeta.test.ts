@@ -0,0 +1,166 @@
+import { BigNum } from "../../../src/core/math/bignum";
+import { Component } from "../../../src/core/math/component";
+import { Constants } from "../../../src/core/math/constants";
+import { RoundingMode, MathContext } from "../../../src/core/math/context";
+import { UndefinedValue } from "../../../src/core/errors";
+
+/**
+ * Checks that a function maps the quaternion 1 + i + j as it maps the
+ * complex number 1 + i√2 in the plane through the unit (i + j) / √2.
+ */
+function tilted(f: (z: BigNum) => BigNum, context: MathContext, check: MathContext) {
+	const root2 = Component.sqrt(Component.TWO, context);
+	const [re, im] = f(new BigNum(Component.ONE, root2)).components;
+	const b = im.div(root2, context);
+	return f(BigNum.hyper(1, 1, 1)).equals(new BigNum(re, b, b), check);
+}
+
+describe("Evaluates the Riemann zeta function", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Agrees with the known values", function() {
+		const pi = Constants.pi(context);
+		expect(BigNum.zeta(BigNum.real(2), context).equals(new BigNum(pi.mul(pi, context).div(Component.create(6), context)), check)).toBe(true);
+		expect(BigNum.zeta(BigNum.real("0.5"), context).equals(BigNum.real("-1.4603545088095868128894991525152980124672"), check)).toBe(true);
+		expect(BigNum.zeta(BigNum.real("-20.5"), context).equals(BigNum.real("-108.2174750587760554048271419288579059770327"), check)).toBe(true);
+	});
+
+	it("Exact values at the non positive integers", function() {
+		expect(BigNum.zeta(BigNum.real(0), context).toString()).toBe("-0.5");
+		expect(BigNum.zeta(BigNum.real(-1), context).equals(BigNum.real(-1).div(BigNum.real(12), context), context)).toBe(true);
+		expect(BigNum.zeta(BigNum.real(-4), context).toString()).toBe("0");
+	});
+
+	it("Complex numbers", function() {
+		const res = BigNum.zeta(BigNum.complex(2, 1), context);
+		expect(res.equals(BigNum.complex("1.1503557032549026717428499347448667155729", "-0.4375308659196078811175278985928430598672"), check)).toBe(true);
+		// The first non trivial zero.
+		const zero = BigNum.zeta(BigNum.complex("0.5", "14.134725141734693790457251983562470270784"), context);
+		expect(BigNum.abs(zero, context).equals(BigNum.real(0), check)).toBe(true);
+		expect(BigNum.zeta(BigNum.hyper(2, 0, 1, 0), context).equals(new BigNum(res.components[0], Component.ZERO, res.components[1]), check)).toBe(true);
+		expect(tilted(s => BigNum.zeta(s, context), context, check)).toBe(true);
+	});
+
+	it("Throws at the pole", function() {
+		expect(() => BigNum.zeta(BigNum.real(1))).toThrow(UndefinedValue);
+	});
+});
+
+describe("Evaluates the polylogarithm", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+
+	it("Agrees with the closed forms", function() {
+		const two = BigNum.real(2);
+		// Li₂(1/2) = π²/12 - ln²2 / 2
+		expect(BigNum.polylog(two, BigNum.real("0.5"), context).equals(BigNum.real("0.5822405264650125059026563201596801087442"), check)).toBe(true);
+		expect(BigNum.polylog(two, BigNum.real(1), context).equals(BigNum.zeta(two, context), check)).toBe(true);
+		expect(BigNum.polylog(BigNum.real(-2), BigNum.real("0.7"), context).equals(BigNum.real("44.0740740740740740740740740740740740740741"), check)).toBe(true);
+		const z = BigNum.complex("0.7", "0.5");
+		const ln = BigNum.ln(BigNum.real(1).sub(z, context), context).neg;
+		expect(BigNum.polylog(BigNum.real(1), z, context).equals(ln, check)).toBe(true);
+	});
+
+	it("Orders that are not integers", function() {
+		const s = BigNum.real("1.5");
+		expect(BigNum.polylog(s, BigNum.real("-0.4"), context).equals(BigNum.real("-0.3532522060927907619517407626653908786124"), check)).toBe(true);
+		expect(BigNum.polylog(s, BigNum.real("-0.9"), context).equals(BigNum.real("-0.7035007576186096905527631992616796992692"), check)).toBe(true);
+		expect(BigNum.polylog(s, BigNum.real("0.7"), context).equals(BigNum.real("1.0031228114191314910457226867214442193268"), check)).toBe(true);
+	});
+
+	it("Beyond the unit circle", function() {
+		const two = BigNum.real(2);
+		// Li₂(-5) = -π²/6 - ln²5 / 2 - Li₂(-1/5)
+		expect(BigNum.polylog(two, BigNum.real(-5), context).equals(BigNum.real("-2.7492791260608082900255875153762686444971"), check)).toBe(true);
+		expect(BigNum.polylog(BigNum.real(3), BigNum.real(-5), context).equals(BigNum.real("-3.5375114376186075356768149136706041793257"), check)).toBe(true);
+		const res = BigNum.polylog(two, BigNum.real(3), context);
+		expect(res.real.equals(BigNum.real("2.3201804233130983964061944737031046578266"), check)).toBe(true);
+		expect(res.imag.equals(new BigNum(Component.ZERO, Constants.pi(context).mul(Component.ln(Component.THREE, context), context).neg), check)).toBe(true);
+	});
+
+	it("Series in powers of ln z", function() {
+		const two = BigNum.real(2);
+		// Li₂(z) + Li₂(1 - z) = π²/6 - ln z ln(1 - z)
+		const z = BigNum.complex("1", "1.5"), w = BigNum.real(1).sub(z, context);
+		const sum = BigNum.polylog(two, z, context).add(BigNum.polylog(two, w, context), context);
+		expect(sum.equals(BigNum.zeta(two, context).sub(BigNum.ln(z, context).mul(BigNum.ln(w, context), context), context), check)).toBe(true);
+	});
+
+	it("Quaternions", function() {
+		expect(tilted(z => BigNum.polylog(BigNum.real(2), z, context), context, check)).toBe(true);
+	});
+
+	it("Throws for the numbers that are undefined", function() {
+		expect(() => BigNum.polylog(BigNum.real("0.5"), BigNum.real(1))).toThrow(UndefinedValue);
+		expect(() => BigNum.polylog(BigNum.complex(2, 1), BigNum.hyper(0, 0, 1, 0))).toThrow(UndefinedValue);
+	});
+});
+
+describe("Evaluates the Lambert W function", function() {
+	const context: MathContext = {
+		precision: 40,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const check: MathContext = {
+		precision: 35,
+		rounding: RoundingMode.HALF_EVEN
+	};
+	const inverse = (w: BigNum) => w.mul(BigNum.exp(w, context), context);
+	const close = (a: BigNum, b: BigNum) => BigNum.abs(a.sub(b, context), context).equals(BigNum.real(0), check);
+
+	it("Real branches", function() {
+		expect(BigNum.lambertW(BigNum.real(1), 0, context).equals(BigNum.real("0.5671432904097838729999686622103555497538"), check)).toBe(true);
+		expect(BigNum.lambertW(BigNum.real("-0.2"), -1, context).equals(BigNum.real("-2.5426413577735264242938061566618482901615"), check)).toBe(true);
+		expect(BigNum.lambertW(BigNum.real(1000000), 0, context).equals(BigNum.real("11.3833580861400526220001567815850042890338"), check)).toBe(true);
+		expect(BigNum.lambertW(BigNum.real(0)).toString()).toBe("0");
+	});
+
+	it("Near the branch point", function() {
+		const w = BigNum.lambertW(BigNum.real("-0.3678794411714423215955237701614608674458"), 0, context);
+		expect(w.equals(BigNum.real("-0.9999999999999999999922208893327701135395"), check)).toBe(true);
+	});
+
+	it("Complex branches", function() {
+		const w = BigNum.lambertW(BigNum.real(-1), 0, context);
+		expect(w.equals(BigNum.complex("-0.3181315052047641353126542515876645172035", "1.3372357014306894089011621431937106125395"), check)).toBe(true);
+		for(const [z, k] of <[BigNum, number][]>[[BigNum.complex(1, 1), 1], [BigNum.real("0.5"), -1], [BigNum.complex("-0.3", "0.01"), -1], [BigNum.complex("-2", "-0.1"), 0]])
+			expect(close(inverse(BigNum.lambertW(z, k, context)), z)).toBe(true);
+		// The branch -1 is real only when approached from above the real axis.
+		expect(BigNum.lambertW(BigNum.complex("-0.3", "0.01"), -1, context).components[0].lessThan(Component.create(-1))).toBe(true);
+		expect(BigNum.lambertW(BigNum.complex("-0.3", "-0.01"), -1, context).components[1].lessThan(Component.create(-7))).toBe(true);
+	});
+
+	it("Quaternions", function() {
+		expect(tilted(z => BigNum.lambertW(z, 0, context), context, check)).toBe(true);
+		expect(tilted(z => BigNum.lambertW(z, -1, context), context, check)).toBe(true);
+	});
+
+	it("Beyond the range of javascript numbers", function() {
+		// W(z) + ln W(z) = ln z
+		const large = BigNum.lambertW(BigNum.real("1e400"), 0, context);
+		const ln10 = new BigNum(Constants.ln10(context));
+		expect(large.add(BigNum.ln(large, context), context).equals(BigNum.real(400).mul(ln10, context), check)).toBe(true);
+	});
+
+	it("Roots with more leading zeroes in the exponential than decimal places", function() {
+		const w = BigNum.lambertW(BigNum.real("-0.00000000000000000000000000001"), -1, {precision: 20, rounding: RoundingMode.HALF_UP});
+		expect(w.toString()).toBe("-71.03818524971357411174");
+	});
+
+	it("Throws at zero for the other branches", function() {
+		expect(() => BigNum.lambertW(BigNum.real(0), -1)).toThrow(UndefinedValue);
+	});
+});
@@ -0,0 +1,86 @@
+const { Scalar, e, pi } = require("../build/scalar");
+const { Component } = require("../build/core/math/component");
+const { BigNum } = require("../build/core/math/bignum");
+const { ParseError } = require("../build/core/errors");
+const { RoundingMode } = require("../build/core/math/context");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+const z = Scalar.variable("z");
+
+function at(expr, values) {
+	return expr.at(new Map(values.map(([v, n]) => [v, Scalar.constant(n)])));
+}
+
+describe("Parses scalar expressions", function() {
+	it("Parses numbers without loss", function() {
+		const num = "3.14159265358979323846264338327950288";
+		expect(Scalar.parse(num)).toEqual(Scalar.constant(Component.create(num)));
+		expect(Scalar.parse("1.5e3")).toEqual(Scalar.constant(1500));
+		expect(Scalar.parse("1E5")).toEqual(Scalar.constant(100000));
+		expect(Scalar.parse("2.5E-2")).toEqual(Scalar.constant(0.025));
+		expect(Scalar.parse(".25")).toEqual(Scalar.constant(0.25));
+	});
+
+	it("Resolves variables and named constants", function() {
+		expect(Scalar.parse("x")).toBe(x);
+		expect(Scalar.parse("pi")).toBe(pi);
+		expect(Scalar.parse("e")).toBe(e);
+		expect(Scalar.parse("y_1")).toBe(Scalar.variable("y_1"));
+	});
+
+	it("Builds expression trees", function() {
+		const f = Scalar.parse("sin(x)^2 + 3*x*y - ln(z)");
+		expect(f).toBeInstanceOf(Scalar.Expression);
+		expect(f.op).toBe("sub");
+		expect(f.lhs.op).toBe("add");
+		expect(f.rhs.op).toBe("ln");
+		expect(f.rhs.arg).toBe(z);
+		const expected = Math.sin(1) ** 2 + 3 * 2 - Math.log(3);
+		expect(at(f, [[x, 1], [y, 2], [z, 3]]).value.equals(BigNum.real(expected), ctx)).toBe(true);
+	});
+
+	it("Respects precedence and associativity", function() {
+		expect(at(Scalar.parse("1 + 2*x^2"), [[x, 3]])).toEqual(Scalar.constant(19));
+		expect(at(Scalar.parse("(1 + 2)*x"), [[x, 3]])).toEqual(Scalar.constant(9));
+		expect(at(Scalar.parse("x - 2 - 3"), [[x, 10]])).toEqual(Scalar.constant(5));
+		expect(at(Scalar.parse("x / 2 / 5"), [[x, 10]])).toEqual(Scalar.constant(1));
+		expect(at(Scalar.parse("2^x^2"), [[x, 3]]).value.equals(BigNum.real(512), ctx)).toBe(true);
+		expect(at(Scalar.parse("-x^2"), [[x, 3]])).toEqual(Scalar.constant(-9));
+		expect(at(Scalar.parse("x^-1"), [[x, 4]]).value.equals(BigNum.real(0.25), ctx)).toBe(true);
+	});
+
+	it("Parses the parameters of functions", function() {
+		const f = Scalar.parse("lowergamma(x, 2) + uppergamma(x^2, 1/2)");
+		expect(f.lhs.op).toBe("lowergamma");
+		expect(f.lhs.arg).toBe(x);
+		expect(f.lhs.rest).toEqual([Scalar.constant(2)]);
+		expect(f.rhs.rest[0].value.equals(BigNum.real(0.5), ctx)).toBe(true);
+		expect(at(f.lhs, [[x, 1]]).value.equals(BigNum.real(1 - 2 / Math.E), ctx)).toBe(true);
+	});
+
+	it("Evaluates constant sub expressions", function() {
+		expect(Scalar.parse("2 * (3 + 4)")).toEqual(Scalar.constant(14));
+	});
+
+	it("Reports the position of errors", function() {
+		const cases = [
+			["x + #", 4],
+			["sin(x", 5],
+			["2x", 1],
+			["x + ", 4],
+			["foo(x)", 0],
+			["(x + y))", 7],
+			["lowergamma(x)", 12],
+			["lowergamma(x, y)", 14],
+			["sin(x, 2)", 5],
+			["besselJ(x)", 9],
+			["", 0]
+		];
+		for(const [input, position] of cases) {
+			expect(() => Scalar.parse(input)).toThrow(ParseError);
+			expect(() => Scalar.parse(input)).toThrow(`at position ${position}`);
+		}
+	});
+});
@@ -0,0 +1,69 @@
+const { Scalar, pi } = require("../build/scalar");
+const { Vector } = require("../build/vector");
+const { BigNum } = require("../build/core/math/bignum");
+const { grad } = require("../build/calculus/derivative");
+
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+
+describe("Prints scalars", function() {
+	it("Prints constants and variables", function() {
+		expect(Scalar.constant(3).toString()).toBe("3");
+		expect(Scalar.constant(BigNum.complex(1, -2)).toString()).toBe("1 - 2i");
+		expect(pi.toString()).toBe("pi");
+		expect(pi.toLatex()).toBe("\\pi");
+		expect(Scalar.variable("theta_1").toLatex()).toBe("\\theta_{1}");
+	});
+
+	it("Parenthesises by precedence", function() {
+		expect(Scalar.parse("(x + y)*x").toString()).toBe("(x + y)*x");
+		expect(Scalar.parse("x - (x - y)").toString()).toBe("x - (x - y)");
+		expect(Scalar.parse("x/(y*x)").toString()).toBe("x/(y*x)");
+		expect(Scalar.parse("-x*y").toString()).toBe("-x*y");
+		expect(Scalar.parse("(-x)^2").toString()).toBe("(-x)^2");
+		expect(Scalar.parse("x^(y + 1)").toString()).toBe("x^(y + 1)");
+		expect(Scalar.parse("sin(x)^2").toString()).toBe("sin(x)^2");
+		expect(Scalar.parse("uppergamma(x + 1, 2)").toString()).toBe("uppergamma(x + 1, 2)");
+		expect(Scalar.parse("besselJ(x, 2)").toString()).toBe("besselJ(x, 2)");
+	});
+
+	it("Prints LaTeX", function() {
+		expect(Scalar.parse("x/(y + 1)").toLatex()).toBe("\\frac{x}{y + 1}");
+		expect(Scalar.parse("x^(y + 1)").toLatex()).toBe("x^{y + 1}");
+		expect(Scalar.parse("sqrt(x)").toLatex()).toBe("\\sqrt{x}");
+		expect(Scalar.parse("ln(x)*pi").toLatex()).toBe("\\ln\\left(x\\right) \\cdot \\pi");
+		expect(Scalar.parse("(x + y)*x").toLatex()).toBe("\\left(x + y\\right) \\cdot x");
+		expect(Scalar.parse("erfinv(x)").toLatex()).toBe("\\operatorname{erf}^{-1}\\left(x\\right)");
+		expect(Scalar.parse("lowergamma(x, 2)").toLatex()).toBe("\\gamma\\left(2, x\\right)");
+		expect(Scalar.parse("besselJ(x, 2)").toLatex()).toBe("J_{2}\\left(x\\right)");
+		expect(Scalar.parse("sphericalY(x + 1, 0)").toLatex()).toBe("y_{0}\\left(x + 1\\right)");
+	});
+});
+
+describe("Prints vectors", function() {
+	it("Prints constant vectors", function() {
+		const A = Vector.constant([1, 2, 3]);
+		expect(A.toString()).toBe("[1; 2; 3]");
+		expect(A.toLatex()).toBe("\\begin{pmatrix} 1 \\\\ 2 \\\\ 3 \\end{pmatrix}");
+	});
+
+	it("Prints vector expressions", function() {
+		const A = Vector.variable("A");
+		const B = Vector.variable("B");
+		expect(A.cross(B).toString()).toBe("cross(A, B)");
+		expect(A.cross(B).toLatex()).toBe("\\vec{A} \\times \\vec{B}");
+		expect(Vector.mag(A).toLatex()).toBe("\\left\\lvert \\vec{A} \\right\\rvert");
+	});
+
+	it("Prints vector expressions with known components as columns", function() {
+		const F = grad(Scalar.parse("x*y"), [x, y]);
+		expect(F.toString()).toBe("(y, x)");
+		expect(F.toLatex()).toBe("\\begin{pmatrix} y \\\\ x \\end{pmatrix}");
+		const C = Vector.variable("C", [1, undefined, 2]);
+		expect(C.add(C).toString()).toBe("(2, C_2 + C_2, 4)");
+		const A = Vector.variable("A");
+		expect(F.dot(A).toString()).toBe("dot((y, x), A)");
+		expect(F.dot(A).toLatex()).toBe("\\begin{pmatrix} y \\\\ x \\end{pmatrix} \\cdot \\vec{A}");
+		expect(A.add(F).toString()).toBe("A + (y, x)");
+	});
+});
@@ -0,0 +1,140 @@
+const { Vector } = require("../build/vector");
+const { Matrix } = require("../build/matrix");
+const { BigNum } = require("../build/core/math/bignum");
+const { Constants } = require("../build/core/math/constants");
+const { RoundingMode } = require("../build/core/math/context");
+const { InvalidDimension, UndefinedValue } = require("../build/core/errors");
+const { rotate, compose, toRotationMatrix, toExactRotationMatrix, fromRotationMatrix, fromEulerAngles, toEulerAngles, slerp, squadControlPoint, squad } = require("../build/rotation");
+
+const ctx = {precision: 30, rounding: RoundingMode.HALF_EVEN};
+const check = {precision: 25, rounding: RoundingMode.HALF_EVEN};
+const pi = new BigNum(Constants.pi({precision: 40, rounding: RoundingMode.HALF_EVEN}));
+const close = (a, b) => BigNum.abs(a.sub(b, ctx), ctx).equals(BigNum.real(0), check);
+const angle = (n, d = 1) => pi.mul(BigNum.real(n), ctx).div(BigNum.real(d), ctx);
+const i = BigNum.hyper(0, 1), j = BigNum.hyper(0, 0, 1), k = BigNum.hyper(0, 0, 0, 1);
+// The rotation by the given angle about the axis.
+const about = (axis, a) => BigNum.fromAxisAngle(axis, a.div(BigNum.real(2), ctx), ctx);
+
+describe("Rotates vectors", function() {
+	it("Rotates about the axes", function() {
+		const v = Vector.constant([1, 2, 3]);
+		expect(rotate(v, about(k, angle(0.5)), ctx).equals(Vector.constant([-2, 1, 3]), check)).toBe(true);
+		expect(rotate(v, about(i, angle(1)), ctx).equals(Vector.constant([1, -2, -3]), check)).toBe(true);
+		expect(rotate(v, BigNum.real(1), ctx).equals(v)).toBe(true);
+	});
+
+	it("Rotates the basis vectors", function() {
+		// A vector trims its trailing zeroes.
+		const q = about(k, angle(0.5));
+		expect(rotate(Vector.constant([1, 0, 0]), q, ctx).equals(Vector.constant([0, 1]), check)).toBe(true);
+		expect(rotate(Vector.constant([0, 1, 0]), q, ctx).equals(Vector.constant([-1]), check)).toBe(true);
+		expect(rotate(Vector.constant([1, 2, 0]), q, ctx).equals(Vector.constant([-2, 1]), check)).toBe(true);
+		expect(rotate(Vector.constant([0, 0, 1]), about(i, angle(0.5)), ctx).equals(Vector.constant([0, -1]), check)).toBe(true);
+	});
+
+	it("Rotates about any axis", function() {
+		// A third of a turn about (1, 1, 1) permutes the axes.
+		const q = about(BigNum.hyper(0, 1, 1, 1), angle(2, 3));
+		expect(rotate(Vector.constant([1, 2, 3]), q, ctx).equals(Vector.constant([3, 1, 2]), check)).toBe(true);
+	});
+
+	it("Composes rotations", function() {
+		const a = about(k, angle(0.5)), b = about(i, angle(0.5));
+		const v = Vector.constant([1, 2, 3]);
+		const q = compose([a, b], ctx);
+		expect(rotate(v, q, ctx).equals(rotate(rotate(v, a, ctx), b, ctx), check)).toBe(true);
+		expect(close(compose([a, a, a, a], ctx), BigNum.real(-1))).toBe(true);
+	});
+
+	it("Throws for wrong dimensions", function() {
+		expect(() => rotate(Vector.constant([1, 2, 3, 4]), k)).toThrow(InvalidDimension);
+		expect(() => rotate(Vector.constant([1, 2, 3]), BigNum.hyper(1, 0, 0, 0, 1))).toThrow(InvalidDimension);
+	});
+});
+
+describe("Converts rotations", function() {
+	const unit = BigNum.hyper(3, -5, 7, 2).div(BigNum.abs(BigNum.hyper(3, -5, 7, 2), ctx), ctx);
+
+	it("To rotation matrices", function() {
+		const m = toRotationMatrix(about(k, angle(0.5)), ctx);
+		expect(m).toBeInstanceOf(Matrix);
+		[[0, -1, 0], [1, 0, 0], [0, 0, 1]].forEach((row, r) => row.forEach((x, c) => expect(m.elements[r][c]).toBeCloseTo(x, 12)));
+		expect(() => toRotationMatrix(BigNum.hyper(1, 0, 0, 0, 1))).toThrow(InvalidDimension);
+	});
+
+	it("To exact rotation matrices", function() {
+		const m = toExactRotationMatrix(about(k, angle(0.5)), ctx);
+		[[0, -1, 0], [1, 0, 0], [0, 0, 1]].forEach((row, r) => row.forEach((x, c) => expect(close(m[r][c], BigNum.real(x))).toBe(true)));
+		const rotated = rotate(Vector.constant([1, 2, 3]), unit, ctx);
+		toExactRotationMatrix(unit, ctx).forEach((row, r) => {
+			const product = row.reduce((acc, x, c) => acc.add(x.mul(BigNum.real(c + 1), ctx), ctx), BigNum.real(0));
+			expect(close(product, rotated.X(r + 1).value)).toBe(true);
+		});
+		// The elements keep the rotations too small for javascript numbers.
+		const tiny = toExactRotationMatrix(about(k, BigNum.real("2e-22")), ctx);
+		expect(close(tiny[1][0], BigNum.real("2e-22"))).toBe(true);
+		expect(tiny[1][0].equals(BigNum.real(0), ctx)).toBe(false);
+	});
+
+	it("From rotation matrices", function() {
+		expect(fromRotationMatrix(Matrix.unit(3), ctx)).toEqual(BigNum.real(1));
+		expect(close(fromRotationMatrix(new Matrix([[1, 0, 0], [0, -1, 0], [0, 0, -1]]), ctx), i)).toBe(true);
+		expect(close(fromRotationMatrix(toExactRotationMatrix(unit, ctx), ctx), unit)).toBe(true);
+		const q = fromRotationMatrix(toRotationMatrix(unit, ctx), ctx);
+		expect(BigNum.abs(q.sub(unit, ctx), ctx).equals(BigNum.real(0), {precision: 12, rounding: RoundingMode.HALF_EVEN})).toBe(true);
+		expect(() => fromRotationMatrix(new Matrix(2, 2))).toThrow(InvalidDimension);
+		expect(() => fromRotationMatrix([[BigNum.real(1), BigNum.real(0)], [BigNum.real(0), BigNum.real(1)], [BigNum.real(0), BigNum.real(0)]])).toThrow(InvalidDimension);
+	});
+
+	it("From and to Euler angles", function() {
+		const angles = {roll: BigNum.real("0.3"), pitch: BigNum.real("-1.1"), yaw: BigNum.real("2.5")};
+		const p = fromEulerAngles(angles, ctx);
+		const expected = compose([about(i, angles.roll), about(j, angles.pitch), about(k, angles.yaw)], ctx);
+		expect(close(p, expected)).toBe(true);
+		const res = toEulerAngles(p, ctx);
+		expect(close(res.roll, angles.roll) && close(res.pitch, angles.pitch) && close(res.yaw, angles.yaw)).toBe(true);
+		const back = toEulerAngles(unit, ctx);
+		expect(close(fromEulerAngles(back, ctx), unit)).toBe(true);
+	});
+
+	it("At the gimbal lock", function() {
+		const p = fromEulerAngles({roll: BigNum.real("0.5"), pitch: angle(0.5), yaw: BigNum.real("0.2")}, ctx);
+		const res = toEulerAngles(p, ctx);
+		expect(res.roll).toEqual(BigNum.real(0));
+		expect(close(res.pitch, angle(0.5))).toBe(true);
+		expect(close(res.yaw, BigNum.real("-0.3"))).toBe(true);
+		expect(close(fromEulerAngles(res, ctx), p)).toBe(true);
+		expect(() => toEulerAngles(BigNum.real(0))).toThrow(UndefinedValue);
+	});
+});
+
+describe("Interpolates rotations", function() {
+	const a = about(k, angle(0.25)), b = about(BigNum.hyper(0, 1, -2, 2), angle(0.8));
+
+	it("Slerp", function() {
+		expect(close(slerp(a, b, BigNum.real(0), ctx), a)).toBe(true);
+		expect(close(slerp(a, b, BigNum.real(1), ctx), b)).toBe(true);
+		const half = slerp(BigNum.real(1), a, BigNum.real("0.5"), ctx);
+		expect(close(half, about(k, angle(0.125)))).toBe(true);
+		// The other quaternion of the same rotation gives the same path.
+		expect(close(slerp(BigNum.real(1), a.neg, BigNum.real("0.5"), ctx), half)).toBe(true);
+		expect(() => slerp(a, b, BigNum.complex(0, 1))).toThrow(UndefinedValue);
+	});
+
+	it("Slerp between close rotations", function() {
+		const near = about(k, BigNum.real("1e-20"));
+		expect(close(slerp(BigNum.real(1), near, BigNum.real("0.5"), ctx), about(k, BigNum.real("5e-21")))).toBe(true);
+	});
+
+	it("Squad", function() {
+		const c = about(i, angle(0.5));
+		const s = squadControlPoint(a, b, c, ctx);
+		expect(close(squad(a, b, a, s, BigNum.real(0), ctx), a)).toBe(true);
+		expect(close(squad(a, b, a, s, BigNum.real(1), ctx), b)).toBe(true);
+		// With the control points at the ends, squad is slerp.
+		expect(close(squad(a, b, a, b, BigNum.real("0.4"), ctx), slerp(a, b, BigNum.real("0.4"), ctx))).toBe(true);
+		// The control point of a rotation moving at a constant rate is itself.
+		const steps = [0, 1, 2].map(n => about(k, BigNum.real(n * 0.3)));
+		expect(close(squadControlPoint(steps[0], steps[1], steps[2], ctx), steps[1])).toBe(true);
+	});
+});
@@ -0,0 +1,76 @@
+const { Scalar } = require("../build/scalar");
+const { simplify, Simplifier } = require("../build/simplify");
+
+const x = Scalar.variable("x");
+const y = Scalar.variable("y");
+
+function check(input, output, rules) {
+	const res = simplify(Scalar.parse(input), rules);
+	expect(res.toString()).toBe(output);
+	return res;
+}
+
+describe("Simplifies scalar expressions", function() {
+	it("Removes identities and folds constants", function() {
+		expect(check("x*1 + 0", "x")).toBe(x);
+		check("0*x + y^1", "y");
+		check("x^0 + 1", "2");
+		check("2^3*x", "8*x");
+		check("-(-x)", "x");
+	});
+
+	it("Collects like terms", function() {
+		expect(check("x - x", "0")).toBeInstanceOf(Scalar.Constant);
+		check("2*x + y - x", "x + y");
+		check("3*x*y + y*x", "4*x*y");
+		check("x/3 + 2*x/3", "x");
+		check("-x*y + x*y", "0");
+	});
+
+	it("Merges powers", function() {
+		check("(x^2)^3", "x^6");
+		check("x^2*x^3", "x^5");
+		check("x/x", "1");
+		check("x*2/4", "x/2");
+		check("(x*y)^2/(x*y)", "x*y");
+		check("x^a*x^b", "x^(a + b)");
+		check("-2*x/x^3", "-2/x^2");
+	});
+
+	it("Applies trigonometric identities", function() {
+		check("sin(x)^2 + cos(x)^2", "1");
+		check("3*sin(x)^2 + 3*cos(x)^2 + z", "z + 3");
+		check("cosh(x)^2 - sinh(x)^2", "1");
+		check("sin(-x) + sin(x)", "0");
+		check("cos(-x) - cos(x)", "0");
+		check("erf(-x) + erf(x)", "0");
+	});
+
+	it("Applies logarithmic identities", function() {
+		check("ln(exp(x))", "x");
+		check("exp(ln(x))", "x");
+		check("ln(x^2)", "ln(x^2)");
+		check("ln(x^2)", "2*ln(x)", Simplifier.DEFAULT.concat(Simplifier.POSITIVE));
+		check("log(x^y)", "y*log(x)", Simplifier.POSITIVE);
+	});
+
+	it("Uses only the given rules", function() {
+		check("ln(x^2)", "ln(x^2)", Simplifier.ALGEBRAIC);
+		check("sin(x)^2 + cos(x)^2", "sin(x)^2 + cos(x)^2", Simplifier.ALGEBRAIC);
+	});
+
+	it("Is idempotent", function() {
+		for(const input of ["x/3 + 2*x/3 + y", "sin(x)*x^2 - x^2*sin(x)/2", "(x + 1)^2 - 2*(x + 1)^2"]) {
+			const once = simplify(Scalar.parse(input));
+			expect(simplify(once).toString()).toBe(once.toString());
+		}
+	});
+
+	it("Keeps the argument list correct", function() {
+		const res = simplify(Scalar.parse("x - x + y*z/z"));
+		expect(res).toBe(y);
+		const expr = Scalar.parse("x*y + z - z");
+		expect(expr.arg_list.size).toBe(3);
+		expect(Array.from(expr.simplify().arg_list)).toEqual([x, y]);
+	});
+});
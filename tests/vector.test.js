@@ -3,6 +3,10 @@ const { isExpression } = require("../build/core/definitions");
 const { Scalar } = require("../build/scalar");
 const { sqrt } = require("../build/core/math/functions");
 const { BigNum } = require("../build/core/math/bignum");
+const { InvalidDimension, InvalidIndex, DivisionByZero } = require("../build/core/errors");
+const { RoundingMode } = require("../build/core/math/context");
+
+const ctx = {precision: 10, rounding: RoundingMode.HALF_EVEN};
 
 it("checks unknown value alias", function() {
 	expect(__).toBe(undefined);
@@ -67,28 +71,39 @@ describe("Vector constants", function() {
 		expect(_=> A.dot(random)).not.toThrow();
 	});
 
-	// it("Calculates cross product", function() {
-	// 	const i = Vector.constant([1, 0]);
-	// 	const j = Vector.constant([0, 1]);
-	// 	expect(i.cross(j)).toEqual(Vector.constant([0, 0, 1]));
-	// });
-
-	// it("Calculates magnitude", function() {
-	// 	const mag = Scalar.constant(Math.sqrt(random.dot(random).value));
-	// 	expect(Vector.mag(random).equals(mag)).toBe(true);
-	// 	expect(Vector.mag(B).value).toBe(Math.sqrt(3));
-	// });
-
-	// it("Scales", function() {
-	// 	const scaled = A.scale(Scalar.constant(2));
-	// 	expect(Vector.mag(scaled)).toBe(Vector.mag(A).mul(Scalar.constant(2)));
-	// });
-
-	// it("Unit vector", function() {
-	// 	const one = Scalar.constant(1);
-	// 	expect(Vector.mag(Vector.unit(random)).equals(one)).toBe(true);
-	// 	expect(Vector.mag(Vector.unit(B)).equals(one)).toBe(true);
-	// });
+	it("Calculates dot product with the given context", function() {
+		const u = new Vector.Constant([BigNum.real("0.25"), BigNum.real("0.35")]);
+		expect(u.dot(u).value.toString()).toBe("0.185");
+		expect(u.dot(u, {precision: 1, rounding: RoundingMode.HALF_EVEN}).value.toString()).toBe("0.2");
+	});
+
+	it("Calculates cross product", function() {
+		const i = Vector.constant([1, 0]);
+		const j = Vector.constant([0, 1]);
+		expect(i.cross(j)).toEqual(Vector.constant([0, 0, 1]));
+		expect(A.cross(B).equals(Vector.constant([-1, 1, 0]))).toBe(true);
+		expect(() => random.cross(A)).toThrow(InvalidDimension);
+		expect(() => A.cross(random)).toThrow(InvalidDimension);
+	});
+
+	it("Calculates magnitude", function() {
+		const mag = Scalar.constant(sqrt(random.dot(random).value));
+		expect(Vector.mag(random).equals(mag)).toBe(true);
+		expect(Vector.mag(B).equals(Scalar.constant(Math.sqrt(3)), ctx)).toBe(true);
+		expect(Vector.mag(Vector.constant([3, 4]))).toEqual(Scalar.constant(5));
+	});
+
+	it("Scales", function() {
+		const scaled = A.scale(Scalar.constant(2));
+		expect(Vector.mag(scaled).equals(Vector.mag(A).mul(Scalar.constant(2)), ctx)).toBe(true);
+	});
+
+	it("Unit vector", function() {
+		const one = Scalar.constant(1);
+		expect(Vector.mag(Vector.unit(random)).equals(one, ctx)).toBe(true);
+		expect(Vector.mag(Vector.unit(B)).equals(one, ctx)).toBe(true);
+		expect(() => Vector.unit(Vector.constant([0, 0]))).toThrow(DivisionByZero);
+	});
 });
 
 describe("Vector variable", function() {
@@ -120,34 +135,46 @@ describe("Vector variable", function() {
 		expect(c_).toEqual(Scalar.constant(4));
 	});
 
-	// it("Calculates cross product", function() {
-	// 	const i = Vector.variable("i");
-	// 	const j = Vector.constant([0, 1]);
-	// 	const c = i.cross(j);
-	// 	for(let I = 1; I <= 3; I++)
-	// 		expect(c.X(I)).toBeInstanceOf(Scalar.Expression);
-	// 	expect(c).toBeInstanceOf(Vector.Expression);
-	// 	expect(c.at(new Map([
-	// 		[i, Vector.constant([1, 0])]
-	// 	]))).toEqual(Vector.constant([0, 0, 1]));
-	// });
-
-	// it("Evaluates magnitude", function() {
-	// 	const M = Vector.mag(B);
-	// 	expect(M).toBeInstanceOf(Scalar);
-	// 	expect(isExpression(M)).toBe(true);
-	// 	expect(M.at(new Map([
-	// 		[B, Vector.constant([1, 1, 1, 1, 1])]
-	// 	]))).toBe(Scalar.constant(Math.sqrt(5)));
-	// });
-
-	// it("Evaluates unit vector", function() {
-	// 	const u = Vector.unit(B);
-	// 	expect(u).toBeInstanceOf(Vector.Expression);
-	// 	expect(u.at(new Map([
-	// 		[B, Vector.constant([2, 0])]
-	// 	]))).toEqual(Vector.constant([1, 0]));
-	// });
+	it("Calculates cross product", function() {
+		const i = Vector.variable("i");
+		const j = Vector.constant([0, 1]);
+		const c = i.cross(j);
+		for(let I = 1; I <= 3; I++)
+			expect(c.X(I)).toBeInstanceOf(Scalar.Expression);
+		expect(c.X(4)).toEqual(Scalar.ZERO);
+		expect(() => c.X(0)).toThrow(InvalidIndex);
+		expect(c).toBeInstanceOf(Vector.Expression);
+		expect(c.at(new Map([
+			[i, Vector.constant([1, 0])]
+		]))).toEqual(Vector.constant([0, 0, 1]));
+		const d = j.cross(i);
+		expect(d).toBeInstanceOf(Vector.Expression);
+		expect(d.at(new Map([
+			[i, Vector.constant([1, 0])]
+		]))).toEqual(Vector.constant([0, 0, -1]));
+	});
+
+	it("Evaluates magnitude", function() {
+		const M = Vector.mag(B);
+		expect(M).toBeInstanceOf(Scalar);
+		expect(isExpression(M)).toBe(true);
+		expect(M.at(new Map([
+			[B, Vector.constant([1, 1, 1, 1, 1])]
+		])).equals(Scalar.constant(Math.sqrt(5)), ctx)).toBe(true);
+	});
+
+	it("Evaluates unit vector", function() {
+		const u = Vector.unit(B);
+		expect(u).toBeInstanceOf(Vector.Expression);
+		expect(u.at(new Map([
+			[B, Vector.constant([2, 0])]
+		]))).toEqual(Vector.constant([1, 0]));
+		const x = Scalar.variable("x");
+		const v = Vector.unit(Vector.expression([x, Scalar.constant(4)]));
+		expect(v.at(new Map([
+			[x, Scalar.constant(3)]
+		])).equals(Vector.constant([0.6, 0.8]))).toBe(true);
+	});
 
 	it("Checks multiplication by scalar", function() {
 		const x = Scalar.constant(2);
@@ -162,4 +189,82 @@ describe("Vector variable", function() {
 			[B, A]
 		])));
 	});
-});
\ No newline at end of file
+});
+describe("Vector from components", function() {
+	const x = Scalar.variable("x");
+	const y = Scalar.variable("y");
+
+	it("Creates constants from constant components", function() {
+		const V = Vector.expression([Scalar.constant(1), Scalar.constant(2)]);
+		expect(V).toBeInstanceOf(Vector.Constant);
+		expect(V.equals(Vector.constant([1, 2]))).toBe(true);
+	});
+
+	it("Keeps the components as they are", function() {
+		const c = Scalar.constant(3);
+		const V = Vector.expression([x, c, y.mul(x)]);
+		expect(V).toBeInstanceOf(Vector.Expression);
+		expect(V.X(1)).toBe(x);
+		expect(V.X(2)).toBe(c);
+		expect(V.X(4)).toEqual(Scalar.constant(0));
+		expect(() => V.X(0)).toThrow();
+	});
+
+	it("Resolves expressions", function() {
+		const V = Vector.expression([x, Scalar.constant(3), y.mul(x)]);
+		expect(V.at(new Map([
+			[x, Scalar.constant(2)],
+			[y, Scalar.constant(5)]
+		])).equals(Vector.constant([2, 3, 10]))).toBe(true);
+	});
+});
+
+describe("Vector differential operators", function() {
+	const x = Scalar.variable("x");
+	const y = Scalar.variable("y");
+	const z = Scalar.variable("z");
+	const vars = [x, y, z];
+	const point = new Map([
+		[x, Scalar.constant(1)],
+		[y, Scalar.constant(2)],
+		[z, Scalar.constant(3)]
+	]);
+	// F = (x y, y z, z x)
+	const F = Vector.expression([x.mul(y), y.mul(z), z.mul(x)]);
+
+	it("Evaluates divergence", function() {
+		expect(Vector.div(F, vars).at(point)).toEqual(Scalar.constant(6));
+		expect(Vector.div(Vector.constant([1, 2, 3]), vars)).toBe(Scalar.ZERO);
+	});
+
+	it("Evaluates curl", function() {
+		const C = Vector.curl(F, vars);
+		expect(C).toBeInstanceOf(Vector.Expression);
+		expect(C.at(point).equals(Vector.constant([-2, -3, -1]))).toBe(true);
+	});
+
+	it("Curl of gradient vanishes", function() {
+		const r = Vector.expression([x, y, z]);
+		expect(Vector.curl(r, vars).equals(Vector.constant([]))).toBe(true);
+	});
+
+	it("Restricts curl to 3 dimensions", function() {
+		expect(() => Vector.curl(F, [x, y])).toThrow(InvalidDimension);
+		expect(() => Vector.curl(Vector.constant([1, 2, 3, 4]), vars)).toThrow(InvalidDimension);
+		expect(() => Vector.curl(Vector.expression([x, y, z, x.mul(y)]), vars)).toThrow(InvalidDimension);
+		expect(() => Vector.curl(Vector.variable("A", [undefined, 1, undefined, 2]), vars)).toThrow(InvalidDimension);
+		expect(() => Vector.curl(F.add(Vector.constant([0, 0, 0, 1])), vars)).toThrow(InvalidDimension);
+	});
+
+	it("Evaluates Laplacian of scalar fields", function() {
+		const f = x.mul(x).add(y.mul(y).mul(z));
+		expect(Vector.laplacian(f, vars).at(point)).toEqual(Scalar.constant(8));
+		expect(Vector.laplacian(x.mul(y), vars)).toBe(Scalar.ZERO);
+	});
+
+	it("Evaluates Laplacian of vector fields", function() {
+		const G = Vector.expression([x.mul(x), y.mul(z), z.mul(z).mul(z)]);
+		const L = Vector.laplacian(G, vars);
+		expect(L.at(point).equals(Vector.constant([2, 0, 18]))).toBe(true);
+	});
+});